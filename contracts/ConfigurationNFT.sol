@@ -0,0 +1,179 @@
+// contracts/ConfigurationNFT.sol
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * Reference contract for the configurator's NFTs: a self-contained ERC-721
+ * with one token per configuration id. This is the interface
+ * src/services/web3Service.ts calls; deploy it to a local node with
+ * `npm run contract:deploy`.
+ */
+contract ConfigurationNFT {
+    string public constant name = "CheyTac Configuration";
+    string public constant symbol = "CHEYCFG";
+
+    address public owner;
+    uint256 public mintPrice;
+    uint256 public maxSupply;
+    uint256 public totalSupply;
+
+    mapping(uint256 => address) private _owners;
+    mapping(address => uint256) private _balances;
+    mapping(uint256 => address) private _tokenApprovals;
+    mapping(address => mapping(address => bool)) private _operatorApprovals;
+    mapping(uint256 => string) private _tokenURIs;
+    mapping(uint256 => string) private _modelURIs;
+    mapping(string => uint256) private _configurationTokens; // token ids start at 1, 0 is "not minted"
+
+    event Transfer(address indexed from, address indexed to, uint256 indexed tokenId);
+    event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId);
+    event ApprovalForAll(address indexed owner, address indexed operator, bool approved);
+    event ConfigurationMinted(uint256 indexed tokenId, string configurationId, string modelURI);
+
+    constructor(uint256 mintPrice_, uint256 maxSupply_) {
+        owner = msg.sender;
+        mintPrice = mintPrice_;
+        maxSupply = maxSupply_;
+    }
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only the owner can do this");
+        _;
+    }
+
+    // ============================================
+    // CONFIGURATIONS
+    // ============================================
+
+    function mint(address to, string calldata metadataURI, string calldata modelURI, string calldata configurationId)
+        external
+        payable
+        returns (uint256)
+    {
+        require(msg.value >= mintPrice, "Mint price not paid");
+        require(totalSupply < maxSupply, "All tokens have been minted");
+        require(bytes(configurationId).length > 0, "Configuration id is empty");
+        require(_configurationTokens[configurationId] == 0, "Configuration already minted");
+        require(to != address(0), "Cannot mint to the zero address");
+
+        uint256 tokenId = ++totalSupply;
+        _configurationTokens[configurationId] = tokenId;
+        _tokenURIs[tokenId] = metadataURI;
+        _modelURIs[tokenId] = modelURI;
+        _owners[tokenId] = to;
+        _balances[to] += 1;
+
+        emit Transfer(address(0), to, tokenId);
+        emit ConfigurationMinted(tokenId, configurationId, modelURI);
+        return tokenId;
+    }
+
+    function configurationExists(string calldata configurationId) external view returns (bool) {
+        return _configurationTokens[configurationId] != 0;
+    }
+
+    function configurationToken(string calldata configurationId) external view returns (uint256) {
+        uint256 tokenId = _configurationTokens[configurationId];
+        require(tokenId != 0, "Configuration not minted");
+        return tokenId;
+    }
+
+    function tokenURI(uint256 tokenId) external view returns (string memory) {
+        _requireMinted(tokenId);
+        return _tokenURIs[tokenId];
+    }
+
+    function modelURI(uint256 tokenId) external view returns (string memory) {
+        _requireMinted(tokenId);
+        return _modelURIs[tokenId];
+    }
+
+    function setMintPrice(uint256 mintPrice_) external onlyOwner {
+        mintPrice = mintPrice_;
+    }
+
+    function withdraw(address payable to) external onlyOwner {
+        (bool sent, ) = to.call{value: address(this).balance}("");
+        require(sent, "Withdrawal failed");
+    }
+
+    // ============================================
+    // ERC-721
+    // ============================================
+
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == 0x01ffc9a7  // ERC-165
+            || interfaceId == 0x80ac58cd  // ERC-721
+            || interfaceId == 0x5b5e139f; // ERC-721 metadata
+    }
+
+    function balanceOf(address account) external view returns (uint256) {
+        require(account != address(0), "Zero address has no balance");
+        return _balances[account];
+    }
+
+    function ownerOf(uint256 tokenId) public view returns (address) {
+        address tokenOwner = _owners[tokenId];
+        require(tokenOwner != address(0), "Token does not exist");
+        return tokenOwner;
+    }
+
+    function approve(address to, uint256 tokenId) external {
+        address tokenOwner = ownerOf(tokenId);
+        require(msg.sender == tokenOwner || _operatorApprovals[tokenOwner][msg.sender], "Not allowed to approve");
+        _tokenApprovals[tokenId] = to;
+        emit Approval(tokenOwner, to, tokenId);
+    }
+
+    function getApproved(uint256 tokenId) external view returns (address) {
+        _requireMinted(tokenId);
+        return _tokenApprovals[tokenId];
+    }
+
+    function setApprovalForAll(address operator, bool approved) external {
+        _operatorApprovals[msg.sender][operator] = approved;
+        emit ApprovalForAll(msg.sender, operator, approved);
+    }
+
+    function isApprovedForAll(address tokenOwner, address operator) external view returns (bool) {
+        return _operatorApprovals[tokenOwner][operator];
+    }
+
+    function transferFrom(address from, address to, uint256 tokenId) public {
+        address tokenOwner = ownerOf(tokenId);
+        require(tokenOwner == from, "Transfer from the wrong owner");
+        require(to != address(0), "Cannot transfer to the zero address");
+        require(
+            msg.sender == tokenOwner || _tokenApprovals[tokenId] == msg.sender || _operatorApprovals[tokenOwner][msg.sender],
+            "Not allowed to transfer"
+        );
+
+        delete _tokenApprovals[tokenId];
+        _balances[from] -= 1;
+        _balances[to] += 1;
+        _owners[tokenId] = to;
+        emit Transfer(from, to, tokenId);
+    }
+
+    function safeTransferFrom(address from, address to, uint256 tokenId) external {
+        safeTransferFrom(from, to, tokenId, "");
+    }
+
+    function safeTransferFrom(address from, address to, uint256 tokenId, bytes memory data) public {
+        transferFrom(from, to, tokenId);
+        if (to.code.length > 0) {
+            bytes4 answer = IERC721Receiver(to).onERC721Received(msg.sender, from, tokenId, data);
+            require(answer == IERC721Receiver.onERC721Received.selector, "Receiver does not accept tokens");
+        }
+    }
+
+    function _requireMinted(uint256 tokenId) private view {
+        require(_owners[tokenId] != address(0), "Token does not exist");
+    }
+}
+
+interface IERC721Receiver {
+    function onERC721Received(address operator, address from, uint256 tokenId, bytes calldata data)
+        external
+        returns (bytes4);
+}
@@ -0,0 +1,96 @@
+// scripts/batch-render.js
+//
+// Renders the marketing image set headlessly: builds the app, serves dist/
+// with `vite preview`, opens the configurator in batch mode in Chromium and
+// saves the zip it produces. Large runs come as renders-part1.zip,
+// renders-part2.zip, ... (named after --out when given).
+//
+//   npm run render:batch -- --sku M200-BASE --finishes patterns --suppressors all \
+//     --views main,side --size 3840x2160 --format webp --out renders.zip
+//
+// Every --key value pair other than --sku, --out, --timeout and --skip-build
+// is passed through as a batch query parameter (see parseBatchParams in
+// src/utils/batchRender.ts). `--skip-build true` reuses an existing dist/.
+// Like any production build, the app loads models from the asset CDN.
+//
+// Needs Playwright's Chromium, which is not installed with the npm packages:
+//
+//   npx playwright install chromium
+
+import { build, preview } from 'vite';
+import { chromium } from '@playwright/test';
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([^=]+)(?:=(.*))?$/);
+    if (!match) throw new Error(`Unexpected argument: ${argv[i]}`);
+    args[match[1]] = match[2] ?? argv[++i];
+  }
+  return args;
+}
+
+const { sku = 'M200-BASE', out, timeout = '1800', 'skip-build': skipBuild, ...batchParams } = parseArgs(process.argv.slice(2));
+const timeoutMs = Number(timeout) * 1000;
+
+if (!existsSync(chromium.executablePath())) {
+  console.error(`Chromium for Playwright is not installed (looked for ${chromium.executablePath()}).`);
+  console.error('Install it with: npx playwright install chromium');
+  process.exit(1);
+}
+
+if (skipBuild === 'true' && existsSync(resolve('dist/index.html'))) {
+  console.log('Using the existing dist/ build');
+} else {
+  console.log('Building the app...');
+  await build({ logLevel: 'warn' });
+}
+
+const server = await preview({ preview: { port: 0 }, logLevel: 'warn' });
+const origin = server.resolvedUrls.local[0].replace(/\/$/, '');
+
+// SwiftShader gives headless Chromium a software WebGL context
+const browser = await chromium.launch({
+  args: ['--use-angle=swiftshader', '--enable-unsafe-swiftshader', '--ignore-gpu-blocklist'],
+});
+
+let exitCode = 0;
+try {
+  const page = await browser.newPage({ acceptDownloads: true, viewport: { width: 1280, height: 900 } });
+  page.on('console', message => {
+    if (message.type() === 'error' || message.text().startsWith('Batch render')) {
+      console.log(`[browser] ${message.text()}`);
+    }
+  });
+  page.on('pageerror', error => console.error('[browser]', error.message));
+
+  const query = new URLSearchParams({ ...batchParams, autostart: '1' });
+  const url = `${origin}/p/${encodeURIComponent(sku)}?batch&${query}`;
+  console.log(`Opening ${url}`);
+  await page.goto(url);
+
+  const saved = [];
+  page.on('download', file => {
+    const suggested = file.suggestedFilename();
+    const part = suggested.match(/-part\d+\.zip$/)?.[0];
+    const target = resolve(out ? (part ? out.replace(/\.zip$/, '') + part : out) : suggested);
+    saved.push(file.saveAs(target).then(() => console.log(`Saved ${target}`)));
+  });
+
+  await page.waitForSelector('[data-batch-status="done"], [data-batch-status="error"]', { timeout: timeoutMs });
+  const panel = page.locator('[data-batch-status]');
+  if (await panel.getAttribute('data-batch-status') === 'error') {
+    throw new Error(await panel.innerText());
+  }
+  await Promise.all(saved);
+} catch (error) {
+  console.error('Batch render failed:', error.message);
+  exitCode = 1;
+} finally {
+  await browser.close();
+  await server.close();
+}
+
+process.exit(exitCode);
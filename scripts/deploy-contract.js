@@ -0,0 +1,103 @@
+// scripts/deploy-contract.js
+//
+// Compiles contracts/ConfigurationNFT.sol and deploys it to a local dev node
+// (Anvil or Hardhat, chain id 31337) from the node's first unlocked account.
+//
+//   anvil   # or: npx hardhat node
+//   npm run contract:deploy -- --price 0.001 --max-supply 10000
+//
+// --rpc defaults to http://127.0.0.1:8545. Prints the contract address to put
+// in VITE_NFT_CONTRACT_ADDRESS with VITE_NFT_CHAIN=local.
+
+import solc from 'solc';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+const LOCAL_CHAIN_ID = 31337;
+const SOURCE = 'contracts/ConfigurationNFT.sol';
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--([^=]+)(?:=(.*))?$/);
+    if (!match) throw new Error(`Unexpected argument: ${argv[i]}`);
+    args[match[1]] = match[2] ?? argv[++i];
+  }
+  return args;
+}
+
+const { rpc = 'http://127.0.0.1:8545', price = '0.001', 'max-supply': maxSupply = '10000' } = parseArgs(process.argv.slice(2));
+
+let nextId = 1;
+async function request(method, params = []) {
+  const response = await fetch(rpc, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id: nextId++, method, params }),
+  });
+  const body = await response.json();
+  if (body.error) throw new Error(`${method} failed: ${body.error.message}`);
+  return body.result;
+}
+
+// Decimal ether to wei without floating point
+function parseEther(value) {
+  const [whole, fraction = ''] = value.split('.');
+  if (!/^\d+$/.test(whole) || !/^\d{0,18}$/.test(fraction)) throw new Error(`Invalid price: ${value}`);
+  return BigInt(whole) * 10n ** 18n + BigInt(fraction.padEnd(18, '0'));
+}
+
+const uint256 = value => BigInt(value).toString(16).padStart(64, '0');
+
+function compile() {
+  const input = {
+    language: 'Solidity',
+    sources: { [SOURCE]: { content: readFileSync(resolve(SOURCE), 'utf8') } },
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      evmVersion: 'paris', // no PUSH0/MCOPY, so older dev nodes (Ganache) run it too
+      outputSelection: { '*': { ConfigurationNFT: ['evm.bytecode.object'] } },
+    },
+  };
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors || []).filter(error => error.severity === 'error');
+  if (errors.length > 0) throw new Error(errors.map(error => error.formattedMessage).join('\n'));
+  return output.contracts[SOURCE].ConfigurationNFT.evm.bytecode.object;
+}
+
+async function waitForReceipt(hash) {
+  for (let attempt = 0; attempt < 60; attempt++) {
+    const receipt = await request('eth_getTransactionReceipt', [hash]);
+    if (receipt) return receipt;
+    await new Promise(done => setTimeout(done, 500));
+  }
+  throw new Error(`No receipt for ${hash} after 30 seconds`);
+}
+
+try {
+  const chainId = Number(await request('eth_chainId'));
+  if (chainId !== LOCAL_CHAIN_ID) {
+    throw new Error(`${rpc} is chain ${chainId}; this script only deploys to the local chain (${LOCAL_CHAIN_ID})`);
+  }
+
+  const [from] = await request('eth_accounts');
+  if (!from) throw new Error(`${rpc} has no unlocked accounts`);
+
+  console.log(`Compiling ${SOURCE} with solc ${solc.version()}...`);
+  const bytecode = compile();
+
+  console.log(`Deploying from ${from} (mint price ${price} ETH, max supply ${maxSupply})...`);
+  const transaction = { from, data: `0x${bytecode}${uint256(parseEther(price))}${uint256(maxSupply)}` };
+  const gas = await request('eth_estimateGas', [transaction]);
+  const hash = await request('eth_sendTransaction', [{ ...transaction, gas }]);
+  const receipt = await waitForReceipt(hash);
+  if (receipt.status !== '0x1') throw new Error(`Deployment reverted (${hash})`);
+
+  console.log(`ConfigurationNFT deployed at ${receipt.contractAddress}`);
+  console.log('\nAdd to .env:');
+  console.log('VITE_NFT_CHAIN=local');
+  console.log(`VITE_NFT_CONTRACT_ADDRESS=${receipt.contractAddress}`);
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
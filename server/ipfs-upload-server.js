@@ -0,0 +1,162 @@
+// server/ipfs-upload-server.js
+//
+// Upload endpoint for NFT files. The configurator posts each file here and
+// this forwards it to the pinning service, so the service's token stays on
+// the server instead of shipping in the public bundle.
+//
+//   IPFS_API_TOKEN=... npm run ipfs:upload
+//
+// Then in the app's environment:
+//   VITE_IPFS_UPLOAD_URL=http://localhost:8788/upload
+//
+// Environment:
+//   IPFS_UPLOAD_PORT       port to listen on (default 8788)
+//   IPFS_API               pinata | kubo (a Kubo node's HTTP RPC) (default pinata)
+//   IPFS_API_URL           the service's API (default https://api.pinata.cloud)
+//   IPFS_API_TOKEN         bearer token for the service (required for Pinata)
+//   IPFS_UPLOAD_ORIGINS    comma-separated origins allowed to upload (default http://localhost:5173)
+//   IPFS_UPLOAD_MAX_BYTES  largest file accepted (default 100 MB)
+//   IPFS_UPLOAD_PER_HOUR   uploads allowed per client IP per hour (default 60)
+//
+// The origin check, size cap and rate limit are what stand between the
+// account's quota and anyone who finds the URL; run it behind the site's
+// reverse proxy so client IPs are real. For local testing, point it at
+// the mock: IPFS_API_URL=http://localhost:5001 IPFS_API_TOKEN=mock
+
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+
+const PORT = Number(process.env.IPFS_UPLOAD_PORT || 8788);
+const API = process.env.IPFS_API || 'pinata';
+const API_URL = (process.env.IPFS_API_URL || 'https://api.pinata.cloud').replace(/\/+$/, '');
+const TOKEN = process.env.IPFS_API_TOKEN || null;
+const ORIGINS = (process.env.IPFS_UPLOAD_ORIGINS || 'http://localhost:5173').split(',').map(origin => origin.trim()).filter(Boolean);
+const MAX_BYTES = Number(process.env.IPFS_UPLOAD_MAX_BYTES || 100 * 1024 * 1024);
+const PER_HOUR = Number(process.env.IPFS_UPLOAD_PER_HOUR || 60);
+
+if (!['pinata', 'kubo'].includes(API)) {
+  console.error(`[ipfs-upload] IPFS_API must be pinata or kubo, got ${API}`);
+  process.exit(1);
+}
+if (API === 'pinata' && !TOKEN) {
+  console.error('[ipfs-upload] IPFS_API_TOKEN is required for Pinata');
+  process.exit(1);
+}
+
+// ============================================
+// RATE LIMIT
+// ============================================
+
+const uploads = new Map(); // client IP -> upload times within the last hour
+
+function allowUpload(ip) {
+  const now = Date.now();
+  const recent = (uploads.get(ip) || []).filter(time => now - time < 3600_000);
+  const allowed = recent.length < PER_HOUR;
+  if (allowed) recent.push(now);
+  uploads.set(ip, recent);
+  return allowed;
+}
+
+// ============================================
+// PINNING SERVICES
+// ============================================
+
+async function readError(response) {
+  const text = await response.text().catch(() => '');
+  return `${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`;
+}
+
+// Pinata's pinFileToIPFS, asked for CIDv1
+async function pinWithPinata(file) {
+  const form = new FormData();
+  form.append('file', file, file.name);
+  form.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+  form.append('pinataMetadata', JSON.stringify({ name: file.name }));
+
+  const response = await fetch(`${API_URL}/pinning/pinFileToIPFS`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${TOKEN}` },
+    body: form,
+  });
+  if (!response.ok) throw new Error(`Pinata upload failed: ${await readError(response)}`);
+
+  const result = await response.json();
+  if (!result.IpfsHash) throw new Error('Pinata returned no CID');
+  return result.IpfsHash;
+}
+
+// Kubo's /api/v0/add, with the layout the app's computeCid expects
+async function pinWithKubo(file) {
+  const form = new FormData();
+  form.append('file', file, file.name);
+
+  const params = new URLSearchParams({ 'cid-version': '1', 'raw-leaves': 'true', chunker: 'size-262144', pin: 'true' });
+  const response = await fetch(`${API_URL}/api/v0/add?${params}`, {
+    method: 'POST',
+    headers: TOKEN ? { Authorization: `Bearer ${TOKEN}` } : undefined,
+    body: form,
+  });
+  if (!response.ok) throw new Error(`IPFS add failed: ${await readError(response)}`);
+
+  // One JSON line per added entry; the file is the last
+  const lines = (await response.text()).trim().split('\n');
+  const result = JSON.parse(lines[lines.length - 1]);
+  if (!result.Hash) throw new Error('IPFS add returned no CID');
+  return result.Hash;
+}
+
+// Uploads arrive as multipart bodies; the WHATWG parser in Node does the splitting
+async function readUpload(req) {
+  const form = await new Request('http://upload/', {
+    method: 'POST',
+    headers: { 'content-type': req.get('content-type') || '' },
+    body: req.body,
+  }).formData();
+  const file = form.get('file');
+  if (!file || typeof file === 'string') throw new Error('Missing "file" part');
+  if (file.size > MAX_BYTES) throw new Error(`File is over the ${MAX_BYTES}-byte limit`);
+  return file;
+}
+
+// ============================================
+// SERVER
+// ============================================
+
+const app = express();
+app.set('trust proxy', 'loopback');
+app.use(helmet());
+app.use(cors({ origin: ORIGINS, methods: ['POST'] }));
+// Multipart framing on top of the file itself
+const multipart = express.raw({ type: 'multipart/form-data', limit: MAX_BYTES + 64 * 1024 });
+
+app.post('/upload', multipart, async (req, res) => {
+  // Browsers always send Origin on cross-origin POSTs; CORS alone would only hide the response
+  if (!ORIGINS.includes(req.get('Origin'))) {
+    return res.status(403).json({ error: 'Uploads are only accepted from the configurator' });
+  }
+  if (!allowUpload(req.ip)) {
+    return res.status(429).json({ error: `At most ${PER_HOUR} uploads per hour` });
+  }
+
+  let file;
+  try {
+    file = await readUpload(req);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  try {
+    const cid = API === 'kubo' ? await pinWithKubo(file) : await pinWithPinata(file);
+    console.log(`[ipfs-upload] pinned ${file.name} (${file.size} bytes) as ${cid} for ${req.ip}`);
+    res.json({ cid, size: file.size });
+  } catch (error) {
+    console.error(`[ipfs-upload] ${file.name}:`, error.message);
+    res.status(502).json({ error: error.message });
+  }
+});
+
+app.listen(PORT, () => {
+  console.log(`[ipfs-upload] POST http://localhost:${PORT}/upload -> ${API} at ${API_URL}, origins ${ORIGINS.join(', ')}`);
+});
@@ -0,0 +1,259 @@
+// server/mock-ipfs-server.js
+//
+// Local stand-in for an IPFS pinning service, so NFT uploads can be exercised
+// without a Pinata account or a Kubo node. Speaks both APIs the app supports
+// and serves what it stores through a gateway path.
+//
+//   npm run mock:ipfs
+//
+// Then run the upload server against it and use its gateway:
+//   IPFS_API_URL=http://localhost:5001 IPFS_API_TOKEN=mock npm run ipfs:upload   (IPFS_API=kubo for Kubo)
+//   VITE_IPFS_UPLOAD_URL=http://localhost:8788/upload    (in .env.development.local)
+//   VITE_IPFS_GATEWAY_URL=http://localhost:5001/ipfs/
+//
+// Environment:
+//   MOCK_IPFS_PORT      port to listen on (default 5001)
+//   MOCK_IPFS_DATA_DIR  where pinned files are kept (default server/.data/ipfs)
+//   MOCK_IPFS_TOKEN     bearer token required on uploads (default: any token)
+//   MOCK_SCENARIO       initial scenario: ok | wrong_cid | server_error | unauthorized (default ok)
+//
+// wrong_cid answers with the CID of different content, which the app must
+// reject. Scenarios can be switched at runtime (POST /__mock/scenario) or
+// per request with an `X-Mock-Scenario` header.
+//
+// CIDs are computed the way Kubo adds files with --cid-version=1: 256 KiB
+// raw leaves under balanced UnixFS nodes of up to 174 links.
+
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import { createHash } from 'node:crypto';
+import { mkdir, writeFile, readFile, readdir, rm } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.MOCK_IPFS_PORT || 5001);
+const DATA_DIR = process.env.MOCK_IPFS_DATA_DIR || join(dirname(fileURLToPath(import.meta.url)), '.data', 'ipfs');
+const TOKEN = process.env.MOCK_IPFS_TOKEN || null;
+const SCENARIOS = ['ok', 'wrong_cid', 'server_error', 'unauthorized'];
+
+const state = {
+  scenario: SCENARIOS.includes(process.env.MOCK_SCENARIO) ? process.env.MOCK_SCENARIO : 'ok',
+};
+
+// ============================================
+// CIDv1 (same layout as src/utils/cid.ts)
+// ============================================
+
+const CHUNK_SIZE = 262144;
+const MAX_LINKS = 174;
+
+function varint(value) {
+  const bytes = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
+
+const bytesField = (field, value) => Buffer.concat([Buffer.from([(field << 3) | 2]), varint(value.length), value]);
+const varintField = (field, value) => Buffer.concat([Buffer.from([field << 3]), varint(value)]);
+
+function cidV1(codec, block) {
+  return Buffer.concat([Buffer.from([0x01, codec, 0x12, 0x20]), createHash('sha256').update(block).digest()]);
+}
+
+function base32(bytes) {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz234567';
+  let out = 'b';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += alphabet[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  if (bits > 0) out += alphabet[(buffer << (5 - bits)) & 31];
+  return out;
+}
+
+function computeCid(data) {
+  let level = [];
+  for (let offset = 0; offset === 0 || offset < data.length; offset += CHUNK_SIZE) {
+    const chunk = data.subarray(offset, offset + CHUNK_SIZE);
+    level.push({ cid: cidV1(0x55, chunk), fileSize: chunk.length, treeSize: chunk.length });
+    if (data.length === 0) break;
+  }
+
+  while (level.length > 1) {
+    const next = [];
+    for (let i = 0; i < level.length; i += MAX_LINKS) {
+      const children = level.slice(i, i + MAX_LINKS);
+      const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+      const unixfs = Buffer.concat([varintField(1, 2), varintField(3, fileSize), ...children.map(child => varintField(4, child.fileSize))]);
+      const block = Buffer.concat([
+        ...children.map(child => bytesField(2, Buffer.concat([
+          bytesField(1, child.cid),
+          bytesField(2, Buffer.alloc(0)),
+          varintField(3, child.treeSize),
+        ]))),
+        bytesField(1, unixfs),
+      ]);
+      next.push({
+        cid: cidV1(0x70, block),
+        fileSize,
+        treeSize: block.length + children.reduce((sum, child) => sum + child.treeSize, 0),
+      });
+    }
+    level = next;
+  }
+
+  return base32(level[0].cid);
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+async function pin(file) {
+  const data = Buffer.from(await file.arrayBuffer());
+  const cid = computeCid(data);
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(join(DATA_DIR, cid), data);
+  await writeFile(join(DATA_DIR, `${cid}.json`), JSON.stringify({
+    cid,
+    name: file.name,
+    type: file.type || 'application/octet-stream',
+    size: data.length,
+    pinnedAt: new Date().toISOString(),
+  }, null, 2));
+  console.log(`[mock-ipfs] pinned ${file.name} (${data.length} bytes) as ${cid}`);
+  return { cid, size: data.length };
+}
+
+// Uploads arrive as multipart bodies; the WHATWG parser in Node does the splitting
+async function readUpload(req) {
+  const form = await new Request('http://mock/', {
+    method: 'POST',
+    headers: { 'content-type': req.get('content-type') || '' },
+    body: req.body,
+  }).formData();
+  const file = form.get('file');
+  if (!file || typeof file === 'string') throw new Error('Missing "file" part');
+  return file;
+}
+
+/**
+ * Shared checks for both upload APIs; sends the error response and returns
+ * null when the request should not go ahead
+ */
+function checkUpload(req, res) {
+  const scenario = SCENARIOS.includes(req.get('X-Mock-Scenario')) ? req.get('X-Mock-Scenario') : state.scenario;
+  const auth = req.get('Authorization') || '';
+  const token = auth.startsWith('Bearer ') ? auth.slice(7) : null;
+
+  if (scenario === 'unauthorized' || !token || (TOKEN && token !== TOKEN)) {
+    res.status(401).json({ error: { reason: 'INVALID_CREDENTIALS', details: 'Invalid or missing bearer token' } });
+    return null;
+  }
+  if (scenario === 'server_error') {
+    res.status(500).json({ error: { reason: 'INTERNAL', details: 'Simulated server error' } });
+    return null;
+  }
+  return scenario;
+}
+
+// A CID for content that isn't the upload, to check clients verify what they get back
+function wrongCid(cid) {
+  return computeCid(Buffer.from(`not ${cid}`));
+}
+
+const app = express();
+app.use(helmet({ crossOriginResourcePolicy: false }));
+app.use(cors({ allowedHeaders: ['Authorization', 'Content-Type', 'X-Mock-Scenario'] }));
+app.use(express.json());
+const multipart = express.raw({ type: 'multipart/form-data', limit: '200mb' });
+
+// Pinata: pinFileToIPFS
+app.post('/pinning/pinFileToIPFS', multipart, async (req, res) => {
+  const scenario = checkUpload(req, res);
+  if (!scenario) return;
+
+  try {
+    const { cid, size } = await pin(await readUpload(req));
+    res.json({ IpfsHash: scenario === 'wrong_cid' ? wrongCid(cid) : cid, PinSize: size, Timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('[mock-ipfs] upload failed:', error);
+    res.status(400).json({ error: { reason: 'INVALID_REQUEST', details: error.message } });
+  }
+});
+
+// Kubo HTTP RPC: add (the options the app sends are the only layout supported)
+app.post('/api/v0/add', multipart, async (req, res) => {
+  const scenario = checkUpload(req, res);
+  if (!scenario) return;
+
+  if (req.query['cid-version'] !== '1') {
+    return res.status(400).json({ Message: 'mock only supports cid-version=1', Code: 0, Type: 'error' });
+  }
+
+  try {
+    const file = await readUpload(req);
+    const { cid, size } = await pin(file);
+    res.type('application/json').send(`${JSON.stringify({ Name: file.name, Hash: scenario === 'wrong_cid' ? wrongCid(cid) : cid, Size: String(size) })}\n`);
+  } catch (error) {
+    console.error('[mock-ipfs] add failed:', error);
+    res.status(400).json({ Message: error.message, Code: 0, Type: 'error' });
+  }
+});
+
+// Gateway: what a token URI resolves to
+app.get('/ipfs/:cid', async (req, res) => {
+  const cid = req.params.cid.replace(/[^a-z0-9]/gi, '');
+  try {
+    const meta = JSON.parse(await readFile(join(DATA_DIR, `${cid}.json`), 'utf8'));
+    res.type(meta.type).send(await readFile(join(DATA_DIR, cid)));
+  } catch {
+    res.status(404).type('text/plain').send(`${cid} is not pinned on this mock`);
+  }
+});
+
+app.get('/__mock/pins', async (_req, res) => {
+  try {
+    const files = (await readdir(DATA_DIR)).filter(file => file.endsWith('.json')).sort();
+    res.json(await Promise.all(files.map(async file => JSON.parse(await readFile(join(DATA_DIR, file), 'utf8')))));
+  } catch (error) {
+    if (error.code === 'ENOENT') return res.json([]);
+    throw error;
+  }
+});
+
+app.delete('/__mock/pins', async (_req, res) => {
+  await rm(DATA_DIR, { recursive: true, force: true });
+  res.json({ cleared: true });
+});
+
+app.get('/__mock/scenario', (_req, res) => {
+  res.json({ scenario: state.scenario });
+});
+
+app.post('/__mock/scenario', (req, res) => {
+  const { scenario } = req.body || {};
+  if (!SCENARIOS.includes(scenario)) {
+    return res.status(400).json({ error: `scenario must be one of ${SCENARIOS.join(', ')}` });
+  }
+  state.scenario = scenario;
+  console.log(`[mock-ipfs] scenario set to ${scenario}`);
+  res.json({ scenario: state.scenario });
+});
+
+app.listen(PORT, () => {
+  console.log(`[mock-ipfs] pinning API on http://localhost:${PORT} (Pinata /pinning/pinFileToIPFS, Kubo /api/v0/add)`);
+  console.log(`[mock-ipfs] gateway on http://localhost:${PORT}/ipfs/, storing in ${DATA_DIR}, scenario=${state.scenario}`);
+});
@@ -0,0 +1,174 @@
+// server/mock-order-server.js
+//
+// Local stand-in for the WordPress configurator/v1/save endpoint, so the order
+// flow can be exercised without creating real leads.
+//
+//   npm run mock:orders
+//
+// Environment:
+//   MOCK_PORT      port to listen on (default 8787)
+//   MOCK_DATA_DIR  where submissions are recorded (default server/.data/submissions)
+//   MOCK_SCENARIO  initial scenario: ok | recaptcha_failed | server_error | flaky (default ok)
+//
+// recaptcha_failed rejects invisible captcha tokens but accepts challenge
+// ones (captcha_mode: 'challenge'), like a low score followed by a solved widget.
+//
+// Scenarios can also be switched at runtime (POST /__mock/scenario) or per
+// request with an `X-Mock-Scenario` header, which is what end-to-end tests use.
+
+import express from 'express';
+import cors from 'cors';
+import helmet from 'helmet';
+import { mkdir, writeFile, readdir, readFile, rm } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.env.MOCK_PORT || 8787);
+const DATA_DIR = process.env.MOCK_DATA_DIR || join(dirname(fileURLToPath(import.meta.url)), '.data', 'submissions');
+const SCENARIOS = ['ok', 'recaptcha_failed', 'server_error', 'flaky'];
+
+// Fields every save request must carry (see OrderRequestSchema in src/services/orderService.ts)
+const REQUIRED_STRING_FIELDS = [
+  'finish', 'pattern_name', 'caliber', 'muzzle_device', 'trigger',
+  'customer_name', 'customer_email', 'customer_phone',
+  'config_id', 'configuration_date', 'finish_mode', 'idempotency_key', 'captcha_provider',
+];
+const REQUIRED_BOOLEAN_FIELDS = ['email_opt_in', 'has_custom_parts', 'send_to_sales'];
+
+const state = {
+  scenario: SCENARIOS.includes(process.env.MOCK_SCENARIO) ? process.env.MOCK_SCENARIO : 'ok',
+  flakyFailures: 2,   // 503s before a 'flaky' request succeeds
+  flakyCount: 0,
+  responses: new Map(), // idempotency key -> response already sent
+};
+
+function validateRequest(body) {
+  const errors = [];
+  if (!body || typeof body !== 'object') {
+    return ['Body must be a JSON object'];
+  }
+  REQUIRED_STRING_FIELDS.forEach(field => {
+    if (typeof body[field] !== 'string' || body[field] === '') errors.push(`${field} must be a non-empty string`);
+  });
+  REQUIRED_BOOLEAN_FIELDS.forEach(field => {
+    if (typeof body[field] !== 'boolean') errors.push(`${field} must be a boolean`);
+  });
+  if (typeof body.recaptcha_token !== 'string') errors.push('recaptcha_token must be a string');
+  if (!['invisible', 'challenge'].includes(body.captcha_mode)) errors.push("captcha_mode must be 'invisible' or 'challenge'");
+  if (typeof body.screenshot !== 'string') errors.push('screenshot must be a string');
+  return errors;
+}
+
+async function recordSubmission(body) {
+  await mkdir(DATA_DIR, { recursive: true });
+  const id = `${Date.now()}-${body.config_id}`;
+
+  // Keep the screenshot next to the record instead of inside it
+  const { screenshot, ...record } = body;
+  const match = /^data:image\/png;base64,(.+)$/.exec(screenshot || '');
+  if (match) {
+    await writeFile(join(DATA_DIR, `${id}.png`), Buffer.from(match[1], 'base64'));
+    record.screenshot_file = `${id}.png`;
+  }
+
+  await writeFile(join(DATA_DIR, `${id}.json`), JSON.stringify({ id, receivedAt: new Date().toISOString(), ...record }, null, 2));
+  return id;
+}
+
+const app = express();
+app.use(helmet({ crossOriginResourcePolicy: false }));
+app.use(cors({ exposedHeaders: ['Idempotency-Key'] }));
+app.use(express.json({ limit: '25mb' })); // screenshots are full-canvas PNGs
+
+app.post('/wp-json/configurator/v1/save', async (req, res) => {
+  const scenario = SCENARIOS.includes(req.get('X-Mock-Scenario')) ? req.get('X-Mock-Scenario') : state.scenario;
+  const key = req.get('Idempotency-Key') || req.body?.idempotency_key;
+  console.log(`[mock] save ${key || '(no key)'} scenario=${scenario}`);
+
+  if (scenario === 'server_error') {
+    return res.status(500).json({ success: false, code: 'internal_error', message: 'Simulated server error' });
+  }
+  if (scenario === 'flaky' && state.flakyCount++ < state.flakyFailures) {
+    return res.status(503).json({ success: false, code: 'unavailable', message: 'Simulated outage' });
+  }
+  if (scenario === 'recaptcha_failed' && req.body?.captcha_mode !== 'challenge') {
+    return res.json({ success: false, code: 'recaptcha_failed', message: 'reCAPTCHA verification failed' });
+  }
+
+  const errors = validateRequest(req.body);
+  if (errors.length > 0) {
+    return res.status(400).json({ success: false, code: 'invalid_request', message: errors.join('; ') });
+  }
+
+  // Same key, same answer: retries and double clicks don't create a second lead
+  if (state.responses.has(key)) {
+    console.log(`[mock] duplicate ${key}, replaying response`);
+    return res.json(state.responses.get(key));
+  }
+
+  try {
+    const id = await recordSubmission(req.body);
+    const response = { success: true, redirect_url: `http://localhost:${PORT}/__mock/cart/${encodeURIComponent(id)}` };
+    state.responses.set(key, response);
+    state.flakyCount = 0;
+    console.log(`[mock] recorded ${id} (${req.body.send_to_sales ? 'order' : 'quick add'})`);
+    res.json(response);
+  } catch (error) {
+    console.error('[mock] failed to record submission:', error);
+    res.status(500).json({ success: false, code: 'internal_error', message: 'Failed to record submission' });
+  }
+});
+
+// Where redirect_url points: a stand-in for the shop's cart page
+app.get('/__mock/cart/:id', (req, res) => {
+  res.type('html').send(`<!doctype html><title>Mock cart</title><h1>Mock cart</h1><p>Submission <code>${req.params.id.replace(/[<>&"]/g, '')}</code> recorded.</p>`);
+});
+
+app.get('/__mock/scenario', (_req, res) => {
+  res.json({ scenario: state.scenario, flakyFailures: state.flakyFailures });
+});
+
+app.post('/__mock/scenario', (req, res) => {
+  const { scenario, flakyFailures } = req.body || {};
+  if (!SCENARIOS.includes(scenario)) {
+    return res.status(400).json({ error: `scenario must be one of ${SCENARIOS.join(', ')}` });
+  }
+  state.scenario = scenario;
+  state.flakyCount = 0;
+  if (Number.isInteger(flakyFailures) && flakyFailures >= 0) state.flakyFailures = flakyFailures;
+  console.log(`[mock] scenario set to ${scenario}`);
+  res.json({ scenario: state.scenario, flakyFailures: state.flakyFailures });
+});
+
+app.get('/__mock/submissions', async (_req, res) => {
+  try {
+    const files = (await readdir(DATA_DIR)).filter(file => file.endsWith('.json')).sort();
+    res.json(await Promise.all(files.map(async file => JSON.parse(await readFile(join(DATA_DIR, file), 'utf8')))));
+  } catch (error) {
+    if (error.code === 'ENOENT') return res.json([]);
+    throw error;
+  }
+});
+
+app.delete('/__mock/submissions', async (_req, res) => {
+  await rm(DATA_DIR, { recursive: true, force: true });
+  state.responses.clear();
+  res.json({ cleared: true });
+});
+
+// Malformed or oversized bodies get the same JSON error shape as the save endpoint,
+// instead of Express's default HTML page
+app.use((error, _req, res, _next) => {
+  const status = error.status || error.statusCode || 500;
+  console.error(`[mock] ${status} ${error.type || error.message}`);
+  res.status(status).json({
+    success: false,
+    code: error.type === 'entity.parse.failed' ? 'invalid_json' : status === 413 ? 'payload_too_large' : 'internal_error',
+    message: status < 500 ? error.message : 'Mock server error',
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`[mock] order server on http://localhost:${PORT}/wp-json/configurator/v1/save`);
+  console.log(`[mock] recording to ${DATA_DIR}, scenario=${state.scenario}`);
+});
@@ -2,12 +2,47 @@
 import { useEffect, useState } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { useConfigStore } from './state/useConfigStore';
-import { validateManifest } from './utils/manifestValidator';
+import { validateManifest, ProductManifest } from './utils/manifestValidator';
+import { pickSelection, restoreSelection } from './utils/selection';
+import { buildOrderRequest, getCaptchaFields } from './utils/orderPayload';
+import { orderService, isChallengeRequired, RejectedOrder } from './services/orderService';
+import { botProtection, BotProtectionToken } from './services/botProtectionService';
+import { exportService, ORDER_SCREENSHOT, DEFAULT_IMAGE_EXPORT, IMAGE_EXTENSIONS } from './services/exportService';
+import { appConfig } from './utils/appConfig';
+import { encodeConfigCode, decodeConfigCode, parseConfigCode } from './utils/configCode';
 import { TestModelViewer } from './components/ModelViewer/TestModelViewer';
 import { LuxuryConfigurator, LuxuryConfigModal } from './components/Configurator/LuxuryConfigurator';
 import { UIControls } from './components/UIControls/UIControls';
+import { PriceSummary } from './components/Configurator/PriceSummary';
+import { HistoryPanel } from './components/Configurator/HistoryPanel';
+import { useHistoryShortcuts } from './hooks/useHistoryShortcuts';
 import { ModelPreloader } from './components/ModelPreloader';
 import { PartClickHandler } from './components/PartClickHandler';
+import { ProductPicker } from './components/ProductPicker/ProductPicker';
+import { SavedBuildsPanel } from './components/SavedBuilds/SavedBuildsPanel';
+import { ComparisonView } from './components/Comparison/ComparisonView';
+import { ChallengeWidget } from './components/BotProtection/ChallengeWidget';
+import { RejectedOrderModal } from './components/OrderOutbox/RejectedOrderModal';
+import { BatchRenderPanel } from './components/BatchRender/BatchRenderPanel';
+import { TurntableExportModal } from './components/Export/TurntableExportModal';
+import { ModelExportModal } from './components/Export/ModelExportModal';
+import { ProvenancePage } from './components/Provenance/ProvenancePage';
+import { parseBatchParams, BatchOptions } from './utils/batchRender';
+import { createBuildSheet } from './utils/buildSheet';
+import { getVerifyIdFromPath } from './utils/provenance';
+import { ITAR_NOTICE_TITLE, ITAR_NOTICE } from './utils/notices';
+import type { SavedBuild } from './services/savedBuildsService';
+import {
+  Catalog,
+  CatalogEntry,
+  CATALOG_URL,
+  validateCatalog,
+  findCatalogEntry,
+  getManifestUrl,
+  getProductAssetPath,
+  getProductRoute,
+  getSkuFromPath,
+} from './utils/catalog';
 
 
 // Disable console logs in production to improve performance
@@ -22,48 +57,27 @@ const PRODUCT_PATH = import.meta.env.DEV
   : 'https://cheytac-assets.sfo3.cdn.digitaloceanspaces.com'; // Production - CDN URL
 
 // ============================================
-// reCAPTCHA v3 CONFIGURATION
+// BOT PROTECTION
 // ============================================
-const RECAPTCHA_SITE_KEY = '6LePgkMsAAAAADWO1mjkWHQzWbwCWMdnpSApZwMW';
+const CAPTCHA_ACTION = 'configurator_submit';
 
-const loadRecaptchaScript = (): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    if (typeof window !== 'undefined' && (window as any).grecaptcha) {
-      resolve();
-      return;
-    }
-
-    const script = document.createElement('script');
-    script.src = `https://www.google.com/recaptcha/api.js?render=${RECAPTCHA_SITE_KEY}`;
-    script.async = true;
-    script.defer = true;
-    
-    script.onload = () => {
-      (window as any).grecaptcha.ready(() => {
-        resolve();
-      });
-    };
-    
-    script.onerror = () => {
-      reject(new Error('Failed to load reCAPTCHA script'));
-    };
-    
-    document.head.appendChild(script);
-  });
-};
-
-const getRecaptchaToken = async (action: string): Promise<string> => {
+/**
+ * Runs the invisible bot check. Returns null when it failed but the customer
+ * can still get through by solving a challenge widget.
+ */
+const getCaptchaToken = async (): Promise<BotProtectionToken | null> => {
   try {
-    await loadRecaptchaScript();
-    const token = await (window as any).grecaptcha.execute(RECAPTCHA_SITE_KEY, { action });
-    return token;
+    return await botProtection.getToken(CAPTCHA_ACTION);
   } catch (error) {
-    console.error('Failed to get reCAPTCHA token:', error);
+    console.error(`Failed to get ${botProtection.name} token:`, error);
+    if (botProtection.supportsChallenge) {
+      return null;
+    }
     throw new Error('Security verification failed. Please refresh and try again.');
   }
 };
 // ============================================
-// END reCAPTCHA CONFIGURATION
+// END BOT PROTECTION
 // ============================================
 
 // Toast notification function
@@ -84,74 +98,65 @@ function showToast(message: string, type: 'success' | 'error' = 'success') {
 }
 
 /**
- * Maps configurator color/pattern labels to website display names
- * Handles both full rifle colors and patterns, detecting custom configurations
+ * Product sku of the `?config=` code in the URL, if there is a valid one
  */
-const mapFinishToWebsite = (
-  finishLabel: string, 
-  finishMode: string,
-  hasCustomParts: boolean
-): string => {
-  // If there are ANY custom part colors configured, return "Other"
-  if (hasCustomParts) {
-    return 'Other – Submit example for pricing';
-  }
+const getSharedConfigSku = (): string | null => {
+  const configParam = new URLSearchParams(window.location.search).get('config');
+  if (!configParam) return null;
 
-  // Normalize the input
-  const normalized = finishLabel.toLowerCase().trim();
+  try {
+    return parseConfigCode(configParam).sku;
+  } catch {
+    return null;
+  }
+};
 
-  // Map solid Cerakote colors (when using Colors menu)
-  const colorMappings: Record<string, string> = {
-    'cerakote® absolute black': 'Black',
-    'cerakote absolute black': 'Black',
-    'cerakote® armor black': 'Black',
-    'cerakote armor black': 'Black',
-    
-    'cerakote® flat dark earth': 'F.D.E.',
-    'cerakote flat dark earth': 'F.D.E.',
-    'cerakote® fde': 'F.D.E.',
-    'cerakote fde': 'F.D.E.',
-    
-    'cerakote® od green': 'OD Green',
-    'cerakote od green': 'OD Green',
-    'cerakote® o.d. green': 'OD Green',
-    'cerakote o.d. green': 'OD Green',
-    
-    'cerakote® tungsten': 'Tungsten',
-    'cerakote tungsten': 'Tungsten',
-    
-    'cerakote® vortex bronze': 'Vortex Bronze',
-    'cerakote vortex bronze': 'Vortex Bronze',
-  };
+/**
+ * Applies the `?config=` code from the URL to the freshly loaded product and
+ * tells the customer about options that no longer exist. Links from before
+ * configuration codes (base64 JSON) are still accepted.
+ */
+const applySharedConfig = (manifest: ProductManifest) => {
+  const configParam = new URLSearchParams(window.location.search).get('config');
+  if (!configParam) return;
 
-  // Map patterns (these keep their names)
-  const patternMappings: Record<string, string> = {
-    'kryptek® raid': 'Kryptek® Raid',
-    'kryptek raid': 'Kryptek® Raid',
-    'kryptek® highlander': 'Kryptek® Highlander',
-    'kryptek highlander': 'Kryptek® Highlander',
-    'kryptek® nomad': 'Kryptek® Nomad',
-    'kryptek nomad': 'Kryptek® Nomad',
-    'multicam': 'Multicam',
-  };
+  const store = useConfigStore.getState();
 
-  // Check color mappings first
-  if (colorMappings[normalized]) {
-    return colorMappings[normalized];
-  }
+  try {
+    if (configParam.startsWith('v')) {
+      const { selection, missing } = decodeConfigCode(manifest, configParam);
+      store.loadSelection(selection, 'Opened shared configuration');
 
-  // Check pattern mappings
-  if (patternMappings[normalized]) {
-    return patternMappings[normalized];
+      if (missing.length > 0) {
+        const labels = missing.map(option => option.label).join(', ');
+        showToast(`Loaded shared configuration. No longer available: ${labels}`, 'error');
+      } else {
+        showToast('Loaded shared configuration!', 'success');
+      }
+    } else {
+      const legacyData = JSON.parse(atob(configParam));
+      store.loadSelection(restoreSelection(manifest, legacyData), 'Opened shared configuration');
+      showToast('Loaded shared configuration!', 'success');
+    }
+  } catch (error) {
+    console.error('Failed to load shared configuration:', error);
+    showToast(error instanceof Error ? error.message : 'Failed to load shared configuration', 'error');
   }
 
-  // If no mapping found, return "Other"
-  return 'Other – Submit example for pricing';
+  window.history.replaceState({}, '', window.location.pathname);
 };
 
 function App() {
   console.log('App: Component rendering');
-  const { loadManifest } = useConfigStore();
+  const { loadManifest, manifest, productPath, configId } = useConfigStore();
+  useHistoryShortcuts();
+  const [catalog, setCatalog] = useState<Catalog | null>(null);
+  const [showProductPicker, setShowProductPicker] = useState(false);
+  const [showSavedBuilds, setShowSavedBuilds] = useState(false);
+  const [showComparison, setShowComparison] = useState(false);
+  const [showTurntable, setShowTurntable] = useState(false);
+  const [showModelExport, setShowModelExport] = useState(false);
+  const [isCreatingBuildSheet, setIsCreatingBuildSheet] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [modelLoading, setModelLoading] = useState(true);
@@ -165,79 +170,66 @@ function App() {
   const [customerPhone, setCustomerPhone] = useState('');
   const [emailOptIn, setEmailOptIn] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pendingChallenge, setPendingChallenge] = useState<'order' | 'cart' | null>(null);
+  // Queued orders the server refused; shown one at a time until resent or discarded
+  const [rejectedOrders, setRejectedOrders] = useState<RejectedOrder[]>([]);
   const [showShareModal, setShowShareModal] = useState(false);
   const [showTutorial, setShowTutorial] = useState(false);
+  // /verify/:id shows the provenance of a minted configuration instead of the configurator
+  const [verifyId] = useState(() => getVerifyIdFromPath(window.location.pathname));
+  // ?batch on a product route swaps the configurator for the batch renderer
+  const [batchMode] = useState<{ options: BatchOptions | null; error: string | null }>(() => {
+    try {
+      return { options: parseBatchParams(window.location.search), error: null };
+    } catch (err) {
+      return { options: null, error: err instanceof Error ? err.message : 'Invalid batch render parameters' };
+    }
+  });
 
-  // Single-view export function
+  // Download a branded image of the build from the customer's current angle
   const handleExport = async () => {
-    const canvas = document.querySelector('canvas');
-    if (!canvas) return;
-
-    // Hide UI elements during export
-    const itarNotice = document.querySelector('.itar-notice') as HTMLElement;
-    const exportButton = document.querySelector('button') as HTMLElement;
-    
-    const originalItarDisplay = itarNotice?.style.display;
-    const originalButtonDisplay = exportButton?.style.display;
-    
-    if (itarNotice) itarNotice.style.display = 'none';
-    if (exportButton) exportButton.style.display = 'none';
-
     try {
-      await new Promise(resolve => setTimeout(resolve, 100));
-
-      const gl = canvas.getContext('webgl2') || canvas.getContext('webgl');
-      if (gl) {
-        gl.finish();
-      }
-
-      const exportCanvas = document.createElement('canvas');
-      const ctx = exportCanvas.getContext('2d');
-      
-      if (ctx) {
-        exportCanvas.width = canvas.width;
-        exportCanvas.height = canvas.height;
-        
-        ctx.fillStyle = 'rgba(255, 255, 255, 1)';
-        ctx.fillRect(0, 0, exportCanvas.width, exportCanvas.height);
-        ctx.drawImage(canvas, 0, 0);
-        
-        const logoImg = document.querySelector('img[alt="Company Logo"]') as HTMLImageElement;
-        if (logoImg && logoImg.complete) {
-          const logoScale = 0.8;
-          const logoWidth = logoImg.naturalWidth * logoScale;
-          const logoHeight = logoImg.naturalHeight * logoScale;
-          const padding = 40;
-          
-          ctx.fillStyle = 'rgba(255, 255, 255, 1)';
-          ctx.fillRect(padding - 20, padding - 20, logoWidth + 40, logoHeight + 40);
-          ctx.drawImage(logoImg, padding, padding, logoWidth, logoHeight);
-        }
-        
-        const timestamp = new Date().toISOString().split('T')[0];
-        const link = document.createElement('a');
-        link.download = `M200-Configuration-${timestamp}.png`;
-        link.href = exportCanvas.toDataURL('image/png');
-        link.click();
-        
-        showToast('Successfully exported configuration', 'success');
-      }
-
+      const blob = await exportService.captureImage();
+      const timestamp = new Date().toISOString().split('T')[0];
+      exportService.download(blob, `${manifest?.sku ?? 'M200'}-Configuration-${timestamp}.${IMAGE_EXTENSIONS[DEFAULT_IMAGE_EXPORT.format]}`);
+      showToast('Successfully exported configuration', 'success');
     } catch (error) {
       console.error('Export failed:', error);
       showToast('Export failed. Please try again.', 'error');
+    }
+  };
+
+  // Download a printable PDF spec sheet of the build for dealers
+  const handleBuildSheet = async () => {
+    const state = useConfigStore.getState();
+    if (!state.manifest) return;
+
+    setIsCreatingBuildSheet(true);
+    try {
+      const selection = pickSelection(state);
+      const configCode = encodeConfigCode(state.manifest, selection);
+      const shareUrl = `${window.location.origin}${getProductRoute(state.manifest.sku)}?config=${configCode}`;
+      const blob = await createBuildSheet({ manifest: state.manifest, selection, configCode, shareUrl });
+      const timestamp = new Date().toISOString().split('T')[0];
+      exportService.download(blob, `${state.manifest.sku}-build-sheet-${timestamp}.pdf`);
+      showToast('Spec sheet downloaded', 'success');
+    } catch (error) {
+      console.error('Spec sheet failed:', error);
+      showToast('Could not create the spec sheet. Please try again.', 'error');
     } finally {
-      if (itarNotice && originalItarDisplay !== undefined) {
-        itarNotice.style.display = originalItarDisplay;
-      }
-      if (exportButton && originalButtonDisplay !== undefined) {
-        exportButton.style.display = originalButtonDisplay;
-      }
+      setIsCreatingBuildSheet(false);
     }
   };
 
+  // Invisible bot check failed: show the challenge widget, the flow resumes once it's solved
+  const requestChallenge = (flow: 'order' | 'cart') => {
+    setPendingChallenge(flow);
+    setIsSubmitting(false);
+    showToast('Please complete the security check to continue', 'error');
+  };
+
   // Handle order process submission
-  const handleStartOrder = async () => {
+  const handleStartOrder = async (challengeToken?: BotProtectionToken) => {
     console.log('🔴 handleStartOrder called - SHOULD SEND EMAIL');
     
     if (!customerName || !customerEmail || !customerPhone) {
@@ -260,228 +252,66 @@ function App() {
     setIsSubmitting(true);
 
     try {
-      // Get reCAPTCHA token before submission
-      const recaptchaToken = await getRecaptchaToken('configurator_submit');
+      // Get bot protection token before submission
+      const captcha = challengeToken ?? await getCaptchaToken();
+      if (!captcha) {
+        requestChallenge('order');
+        return;
+      }
       
       const state = useConfigStore.getState();
-      const { manifest, finishMode, selectedPattern, selectedColors, partColorOverrides } = state;
+      const { manifest } = state;
       
       if (!manifest) {
         throw new Error('No manifest loaded');
       }
 
-      // Helper function to get finish name by ID
-      const getFinishName = (finishId: string, isPattern: boolean = false): string => {
-        if (isPattern) {
-          const pattern = manifest.finishModes?.patterns?.options?.find(opt => opt.id === finishId);
-          return pattern?.label || finishId;
-        } else {
-          const color = manifest.finishModes?.colors?.options?.find(opt => opt.id === finishId);
-          return color?.label || finishId;
-        }
-      };
-
-      // Helper function to get part finish
-      const getPartFinish = (partId: string): string => {
-        // Check for color override first (when in pattern mode with individual part changes)
-        if (finishMode === 'patterns' && partColorOverrides[partId]) {
-          return getFinishName(partColorOverrides[partId], false);
-        }
-        
-        // If in pattern mode without override, return pattern name
-        if (finishMode === 'patterns' && selectedPattern) {
-          return getFinishName(selectedPattern, true);
-        }
-        
-        // Otherwise return color from colors mode
-        const colorId = selectedColors[partId];
-        return colorId ? getFinishName(colorId, false) : 'Not specified';
-      };
-
-      // Determine if there are custom part colors
-      const hasCustomPartColors = (() => {
-        // If in colors mode, check if all parts have the same color
-        if (finishMode === 'colors') {
-          const configurableParts = manifest.configurableParts || [];
-          const colors = configurableParts.map(partId => selectedColors[partId]).filter(Boolean);
-          const uniqueColors = new Set(colors);
-          
-          // If more than one unique color, it's custom
-          return uniqueColors.size > 1;
-        }
-        
-        // If in patterns mode, check if there are any color overrides
-        if (finishMode === 'patterns') {
-          return Object.keys(partColorOverrides).length > 0;
-        }
-        
-        return false;
-      })();
-
-      // Capture screenshot
-      const canvas = document.querySelector('canvas');
+      // Screenshot for the sales team; the order goes ahead without one if it fails
       let screenshot = '';
-      
-      if (canvas) {
-        const itarNotice = document.querySelector('.itar-notice') as HTMLElement;
-        const buttons = document.querySelectorAll('button');
-        
-        const originalDisplay = itarNotice?.style.display;
-        const originalButtonDisplays: string[] = [];
-        
-        if (itarNotice) itarNotice.style.display = 'none';
-        buttons.forEach((btn, i) => {
-          originalButtonDisplays[i] = btn.style.display;
-          btn.style.display = 'none';
-        });
+      try {
+        screenshot = await exportService.captureDataUrl(ORDER_SCREENSHOT);
+      } catch (error) {
+        console.error('Order screenshot failed:', error);
+      }
 
-        await new Promise(resolve => setTimeout(resolve, 100));
+      const request = buildOrderRequest({
+        manifest,
+        selection: pickSelection(state),
+        configId: state.configId,
+        customer: { name: customerName, email: customerEmail, phone: customerPhone, emailOptIn },
+        screenshot,
+        sendToSales: true,
+        captcha
+      });
 
-        const gl = canvas.getContext('webgl2') || canvas.getContext('webgl');
-        if (gl) gl.finish();
+      console.log('Sending configuration data to WordPress:', request);
 
-        screenshot = canvas.toDataURL('image/png');
+      const result = await orderService.submit(request);
 
-        if (itarNotice && originalDisplay !== undefined) {
-          itarNotice.style.display = originalDisplay;
-        }
-        buttons.forEach((btn, i) => {
-          if (originalButtonDisplays[i] !== undefined) {
-            btn.style.display = originalButtonDisplays[i];
-          }
-        });
-      }
-
-      // Get the main finish name for mapping
-      let mainFinish = '';
-      if (finishMode === 'patterns' && selectedPattern) {
-        mainFinish = getFinishName(selectedPattern, true);
-      } else if (finishMode === 'colors') {
-        // Get the first color as representative
-        const firstPartId = (manifest.configurableParts || [])[0];
-        if (firstPartId) {
-          mainFinish = getPartFinish(firstPartId);
-        }
+      if (result.status === 'queued') {
+        showToast("You're offline. Your order is saved and will be sent when you reconnect.", 'success');
+        setIsSubmitting(false);
+        return;
       }
 
-      // FALLBACK: If mainFinish is empty, try to get from receiver or barrel
-      if (!mainFinish) {
-        console.warn('Main finish is empty, using fallback...');
-        
-        // Try receiver first
-        const receiverFinish = getPartFinish('receiver');
-        if (receiverFinish && receiverFinish !== 'Not specified') {
-          mainFinish = receiverFinish;
-          console.log('Using receiver finish:', mainFinish);
-        } else {
-          // Try barrel
-          const barrelFinish = getPartFinish('barrel');
-          if (barrelFinish && barrelFinish !== 'Not specified') {
-            mainFinish = barrelFinish;
-            console.log('Using barrel finish:', mainFinish);
-          }
-        }
+      if (appConfig.orderRedirect === 'none') {
+        showToast('Configuration saved!', 'success');
+        setIsSubmitting(false);
+        setShowOrderModal(false);
+        return;
       }
 
-      // Apply the mapping to get website-formatted finish name
-      const mappedFinish = mapFinishToWebsite(mainFinish, finishMode, hasCustomPartColors);
-
-      console.log('Final finish mapping:', {
-        mainFinish,
-        mappedFinish,
-        finishMode,
-        hasCustomPartColors
-      });
-
-      // Prepare configuration data
-      const configData = {
-        // Main mapped finish for website
-        finish: mappedFinish,
-        
-        // Individual part finishes (for your records)
-        receiver_finish: getPartFinish('receiver'),
-        barrel_finish: getPartFinish('barrel'),
-        stock_finish: getPartFinish('stock'),
-        cheek_piece_finish: getPartFinish('cheekPiece'),
-        bolt_finish: getPartFinish('boltBody'),
-        magazine_finish: getPartFinish('magazine'),
-        bipod_finish: getPartFinish('bipodMonopod'),
-        handguard_finish: getPartFinish('handguard'),
-        muzzle_brake_finish: getPartFinish('muzzleBrake'),
-        
-        // Pattern/coating name (original from configurator)
-        pattern_name: finishMode === 'patterns' && selectedPattern 
-          ? getFinishName(selectedPattern, true) 
-          : 'Custom Individual Colors',
-        
-        // Hardware selections
-        caliber: manifest.calibers?.find((c: any) => c.id === state.selectedCaliber)?.label || 'Not specified',
-        muzzle_device: state.selectedSuppressor && state.selectedSuppressor !== 'none'
-          ? manifest.suppressors?.find((s: any) => s.id === state.selectedSuppressor)?.label || 'Standard Muzzle Brake'
-          : 'Standard Muzzle Brake',
-        trigger: (() => {
-          const triggerId = state.selectedTrigger;
-          const trigger = (manifest as any).triggers?.find((t: any) => t.id === triggerId);
-          if (!trigger) return 'Standard Trigger';
-          
-          // Map configurator names to exact WooCommerce names
-          const triggerMap: Record<string, string> = {
-            'Timney Elite Hunter - Curved Shoe': 'Timney Elite Hunter with Curved Trigger shoe',
-            'Timney Elite Hunter - Straight Shoe': 'Timney Elite Hunter with straight trigger shoe',
-            'Timney 2-Stage - Curved Shoe': 'Timney 2-stage trigger with curved trigger shoe',
-            'Timney 2-Stage - Straight Shoe': 'Timney 2-stage trigger with straight trigger shoe'
-          };
-          
-          return triggerMap[trigger.label] || trigger.label;
-        })(),
-        
-        // Customer info
-        customer_name: customerName,
-        customer_email: customerEmail,
-        customer_phone: customerPhone,
-        email_opt_in: emailOptIn,
-        
-        // Screenshot
-        screenshot: screenshot,
-        
-        // Metadata
-        configuration_date: new Date().toISOString(),
-        finish_mode: finishMode,
-        has_custom_parts: hasCustomPartColors,
-        
-        // Flag to send email to sales team
-        send_to_sales: true,
-        
-        // reCAPTCHA token
-        recaptcha_token: recaptchaToken
-      };
-
-      console.log('Sending configuration data to WordPress:', configData);
-
-      const response = await fetch('https://cheytac.com/wp-json/configurator/v1/save', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(configData)
-      });
-
-      const result = await response.json();
-
-      if (result.success) {
-        showToast('Configuration saved! Redirecting to product page...', 'success');
-        
-        setTimeout(() => {
-          window.location.href = result.redirect_url;
-        }, 1500);
-      } else {
-        if (result.code === 'recaptcha_failed') {
-          throw new Error('Security verification failed. Please refresh the page and try again.');
-        }
-        throw new Error('Failed to save configuration');
-      }
+      showToast('Configuration saved! Redirecting to product page...', 'success');
+      
+      setTimeout(() => {
+        window.location.href = result.redirectUrl;
+      }, 1500);
 
     } catch (error) {
+      if (isChallengeRequired(error) && botProtection.supportsChallenge) {
+        requestChallenge('order');
+        return;
+      }
       console.error('Order submission failed:', error);
       showToast(error instanceof Error ? error.message : 'Failed to start order. Please try again.', 'error');
       setIsSubmitting(false);
@@ -489,7 +319,7 @@ function App() {
   };
 
   // Handle quick add to cart (no sales contact)
-  const handleQuickAddToCart = async () => {
+  const handleQuickAddToCart = async (challengeToken?: BotProtectionToken) => {
     console.log('🟢 handleQuickAddToCart called - SHOULD NOT SEND EMAIL');
     
     if (!customerName || !customerEmail || !customerPhone) {
@@ -512,175 +342,60 @@ function App() {
     setIsSubmitting(true);
 
     try {
-      // Get reCAPTCHA token before submission
-      const recaptchaToken = await getRecaptchaToken('configurator_submit');
+      // Get bot protection token before submission
+      const captcha = challengeToken ?? await getCaptchaToken();
+      if (!captcha) {
+        requestChallenge('cart');
+        return;
+      }
       
       const state = useConfigStore.getState();
-      const { manifest, finishMode, selectedPattern, selectedColors, partColorOverrides } = state;
+      const { manifest } = state;
       
       if (!manifest) {
         throw new Error('No manifest loaded');
       }
 
-      // Helper to get finish name
-      const getFinishName = (finishId: string, isPattern: boolean = false): string => {
-        if (isPattern) {
-          const pattern = manifest.finishModes?.patterns?.options?.find(opt => opt.id === finishId);
-          return pattern?.label || finishId;
-        } else {
-          const color = manifest.finishModes?.colors?.options?.find(opt => opt.id === finishId);
-          return color?.label || finishId;
-        }
-      };
-
-      const getPartFinish = (partId: string): string => {
-        if (finishMode === 'patterns' && partColorOverrides[partId]) {
-          return getFinishName(partColorOverrides[partId], false);
-        }
-        if (finishMode === 'patterns' && selectedPattern) {
-          return getFinishName(selectedPattern, true);
-        }
-        const colorId = selectedColors[partId];
-        return colorId ? getFinishName(colorId, false) : 'Not specified';
-      };
-
-      // Determine if there are custom part colors
-      const hasCustomPartColors = (() => {
-        if (finishMode === 'colors') {
-          const configurableParts = manifest.configurableParts || [];
-          const colors = configurableParts.map(partId => selectedColors[partId]).filter(Boolean);
-          const uniqueColors = new Set(colors);
-          return uniqueColors.size > 1;
-        }
-        if (finishMode === 'patterns') {
-          return Object.keys(partColorOverrides).length > 0;
-        }
-        return false;
-      })();
-
-      // Get main finish
-      let mainFinish = '';
-      if (finishMode === 'patterns' && selectedPattern) {
-        mainFinish = getFinishName(selectedPattern, true);
-      } else if (finishMode === 'colors') {
-        const firstPartId = (manifest.configurableParts || [])[0];
-        if (firstPartId) {
-          mainFinish = getPartFinish(firstPartId);
-        }
-      }
-
-      // FALLBACK
-      if (!mainFinish) {
-        const receiverFinish = getPartFinish('receiver');
-        if (receiverFinish && receiverFinish !== 'Not specified') {
-          mainFinish = receiverFinish;
-        } else {
-          const barrelFinish = getPartFinish('barrel');
-          if (barrelFinish && barrelFinish !== 'Not specified') {
-            mainFinish = barrelFinish;
-          }
-        }
-      }
-
-      // Apply the mapping
-      const mappedFinish = mapFinishToWebsite(mainFinish, finishMode, hasCustomPartColors);
-
-      console.log('Quick add finish mapping:', {
-        mainFinish,
-        mappedFinish,
-        finishMode,
-        hasCustomPartColors
-      });
-
-      // Use the SAME endpoint as the full order, just without screenshot
-      const configData = {
-        // Main mapped finish for website
-        finish: mappedFinish,
-        
-        // Individual part finishes (for your records)
-        receiver_finish: getPartFinish('receiver'),
-        barrel_finish: getPartFinish('barrel'),
-        stock_finish: getPartFinish('stock'),
-        cheek_piece_finish: getPartFinish('cheekPiece'),
-        bolt_finish: getPartFinish('boltBody'),
-        magazine_finish: getPartFinish('magazine'),
-        bipod_finish: getPartFinish('bipodMonopod'),
-        handguard_finish: getPartFinish('handguard'),
-        muzzle_brake_finish: getPartFinish('muzzleBrake'),
-        
-        // Pattern/coating name
-        pattern_name: finishMode === 'patterns' && selectedPattern 
-          ? getFinishName(selectedPattern, true) 
-          : 'Custom Individual Colors',
-        
-        // Hardware selections
-        caliber: manifest.calibers?.find((c: any) => c.id === state.selectedCaliber)?.label || 'Not specified',
-        muzzle_device: state.selectedSuppressor && state.selectedSuppressor !== 'none'
-          ? manifest.suppressors?.find((s: any) => s.id === state.selectedSuppressor)?.label || 'Standard Muzzle Brake'
-          : 'Standard Muzzle Brake',
-        trigger: (() => {
-          const triggerId = state.selectedTrigger;
-          const trigger = (manifest as any).triggers?.find((t: any) => t.id === triggerId);
-          if (!trigger) return 'Standard Trigger';
-          
-          const triggerMap: Record<string, string> = {
-            'Timney Elite Hunter - Curved Shoe': 'Timney Elite Hunter with Curved Trigger shoe',
-            'Timney Elite Hunter - Straight Shoe': 'Timney Elite Hunter with straight trigger shoe',
-            'Timney 2-Stage - Curved Shoe': 'Timney 2-stage trigger with curved trigger shoe',
-            'Timney 2-Stage - Straight Shoe': 'Timney 2-stage trigger with straight trigger shoe'
-          };
-          
-          return triggerMap[trigger.label] || trigger.label;
-        })(),
-        
-        // Customer info
-        customer_name: customerName,
-        customer_email: customerEmail,
-        customer_phone: customerPhone,
-        email_opt_in: emailOptIn,
-        
-        // No screenshot for quick add
+      // Same endpoint as the full order, just without screenshot or sales email
+      const request = buildOrderRequest({
+        manifest,
+        selection: pickSelection(state),
+        configId: state.configId,
+        customer: { name: customerName, email: customerEmail, phone: customerPhone, emailOptIn },
         screenshot: '',
-        
-        // Metadata
-        configuration_date: new Date().toISOString(),
-        finish_mode: finishMode,
-        has_custom_parts: hasCustomPartColors,
-        
-        // Flag to skip sales contact email
-        send_to_sales: false,
-        
-        // reCAPTCHA token
-        recaptcha_token: recaptchaToken
-      };
-
-      console.log('Quick add config:', configData);
-
-      const response = await fetch('https://cheytac.com/wp-json/configurator/v1/save', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(configData)
+        sendToSales: false,
+        captcha
       });
 
-      const result = await response.json();
+      console.log('Quick add config:', request);
+
+      const result = await orderService.submit(request);
       console.log('Quick add result:', result);
 
-      if (result.success) {
-        showToast('Adding to cart...', 'success');
-        
-        setTimeout(() => {
-          window.location.href = result.redirect_url;
-        }, 500);
-      } else {
-        if (result.code === 'recaptcha_failed') {
-          throw new Error('Security verification failed. Please refresh the page and try again.');
-        }
-        throw new Error(result.message || 'Failed to add to cart');
+      if (result.status === 'queued') {
+        showToast("You're offline. Your order is saved and will be sent when you reconnect.", 'success');
+        setIsSubmitting(false);
+        return;
       }
 
+      if (appConfig.orderRedirect === 'none') {
+        showToast('Added to cart!', 'success');
+        setIsSubmitting(false);
+        setShowOrderModal(false);
+        return;
+      }
+
+      showToast('Adding to cart...', 'success');
+      
+      setTimeout(() => {
+        window.location.href = result.redirectUrl;
+      }, 500);
+
     } catch (error) {
+      if (isChallengeRequired(error) && botProtection.supportsChallenge) {
+        requestChallenge('cart');
+        return;
+      }
       console.error('Quick add failed:', error);
       showToast(error instanceof Error ? error.message : 'Failed to add to cart. Please try again.', 'error');
       setIsSubmitting(false);
@@ -693,20 +408,14 @@ function App() {
 
   const getShareData = () => {
     const state = useConfigStore.getState();
-    const { manifest, finishMode, selectedPattern, selectedColors, partColorOverrides } = state;
+    const { manifest, finishMode, selectedPattern } = state;
     
     if (!manifest) {
       return null;
     }
 
-    const configString = btoa(JSON.stringify({
-      finishMode,
-      selectedPattern,
-      selectedColors,
-      partColorOverrides
-    }));
-    
-    const shareUrl = `${window.location.origin}${window.location.pathname}?config=${configString}`;
+    const configCode = encodeConfigCode(manifest, pickSelection(state));
+    const shareUrl = `${window.location.origin}${getProductRoute(manifest.sku)}?config=${configCode}`;
     
     let configDescription = 'custom';
     if (finishMode === 'patterns' && selectedPattern) {
@@ -781,12 +490,12 @@ function App() {
     }
   };
 
-  const loadProductManifest = async () => {
+  const loadProductManifest = async (entry: CatalogEntry) => {
     try {
       setLoading(true);
       setError(null);
       
-      const response = await fetch('/products/example-product/product.manifest.json');
+      const response = await fetch(getManifestUrl(entry));
       if (!response.ok) {
         throw new Error(`Failed to load manifest: ${response.statusText}`);
       }
@@ -794,7 +503,9 @@ function App() {
       const manifestData = await response.json();
       const validatedManifest = validateManifest(manifestData);
       
-      loadManifest(validatedManifest, PRODUCT_PATH);
+      setModelLoading(true);
+      loadManifest(validatedManifest, getProductAssetPath(PRODUCT_PATH, entry));
+      applySharedConfig(validatedManifest);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load product');
       console.error('Failed to load product manifest:', err);
@@ -803,12 +514,118 @@ function App() {
     }
   };
 
+  // Loads the product named by the current /p/:sku route (or by a shared
+  // configuration code). Without a sku a single-product catalog loads
+  // directly, otherwise the picker is shown.
+  const openProductFromRoute = async (productCatalog: Catalog) => {
+    // The provenance page loads whichever product the token is for
+    if (getVerifyIdFromPath(window.location.pathname)) {
+      setLoading(false);
+      return;
+    }
+
+    const sku = getSkuFromPath(window.location.pathname) ?? getSharedConfigSku();
+    const entry = sku
+      ? findCatalogEntry(productCatalog, sku)
+      : productCatalog.products.length === 1 ? productCatalog.products[0] : null;
+
+    if (sku && !entry) {
+      setError(`Unknown product "${sku}"`);
+      setLoading(false);
+      return;
+    }
+
+    if (!entry) {
+      setShowProductPicker(true);
+      setLoading(false);
+      return;
+    }
+
+    setShowProductPicker(false);
+    if (useConfigStore.getState().manifest?.sku !== entry.sku) {
+      await loadProductManifest(entry);
+    } else {
+      setLoading(false);
+    }
+  };
+
+  const loadCatalog = async () => {
+    try {
+      // Re-checking the route on back/forward keeps the current product on screen
+      if (!useConfigStore.getState().manifest) {
+        setLoading(true);
+      }
+      setError(null);
+
+      const response = await fetch(CATALOG_URL);
+      if (!response.ok) {
+        throw new Error(`Failed to load product catalog: ${response.statusText}`);
+      }
+
+      const productCatalog = validateCatalog(await response.json());
+      setCatalog(productCatalog);
+      await openProductFromRoute(productCatalog);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load product catalog');
+      console.error('Failed to load product catalog:', err);
+      setLoading(false);
+    }
+  };
+
+  const handleSelectProduct = (entry: CatalogEntry) => {
+    window.history.pushState({}, '', getProductRoute(entry.sku));
+    if (catalog) {
+      openProductFromRoute(catalog);
+    }
+  };
+
+  const handleLoadBuild = (build: SavedBuild) => {
+    const store = useConfigStore.getState();
+    setShowSavedBuilds(false);
+
+    if (store.manifest?.sku === build.sku) {
+      store.loadSelection(restoreSelection(store.manifest, build.selection), `Loaded "${build.name}"`);
+      showToast(`Loaded "${build.name}"`, 'success');
+      return;
+    }
+
+    // Builds for another rifle are restored when that product's manifest loads
+    const entry = catalog ? findCatalogEntry(catalog, build.sku) : undefined;
+    if (!entry) {
+      showToast(`"${build.name}" is for a rifle that is no longer available`, 'error');
+      return;
+    }
+    store.setProductSelection(build.sku, build.selection);
+    handleSelectProduct(entry);
+    showToast(`Loaded "${build.name}"`, 'success');
+  };
+
   useEffect(() => {
-    loadProductManifest();
+    loadCatalog();
+    
+    // Back/forward between /p/:sku routes switches products
+    const handlePopState = () => {
+      loadCatalog();
+    };
+    window.addEventListener('popstate', handlePopState);
+    
+    // Preload the bot protection script on app load
+    botProtection.preload().catch(err => {
+      console.warn(`Failed to preload ${botProtection.name}:`, err);
+    });
     
-    // Preload reCAPTCHA script on app load
-    loadRecaptchaScript().catch(err => {
-      console.warn('Failed to preload reCAPTCHA:', err);
+    // Send orders that were queued while offline
+    orderService.setTokenRefresher(async () => getCaptchaFields(await botProtection.getToken(CAPTCHA_ACTION)));
+    const stopOutboxSync = orderService.startOutboxSync({
+      onSent: (request) => {
+        showToast(`Your saved order for ${request.config_id} has been sent`, 'success');
+      },
+      onRejected: (order) => {
+        setRejectedOrders(orders => [
+          ...orders.filter(known => known.request.idempotency_key !== order.request.idempotency_key),
+          order,
+        ]);
+      },
     });
     
     const handleResize = () => {
@@ -828,43 +645,11 @@ function App() {
     handleResize();
     window.addEventListener('resize', handleResize);
     
-    const loadSharedConfig = () => {
-      const urlParams = new URLSearchParams(window.location.search);
-      const configParam = urlParams.get('config');
-      
-      if (configParam) {
-        try {
-          const configData = JSON.parse(atob(configParam));
-          const store = useConfigStore.getState();
-          
-          if (configData.finishMode) {
-            store.setFinishMode(configData.finishMode);
-          }
-          if (configData.selectedPattern) {
-            store.selectPattern(configData.selectedPattern);
-          }
-          if (configData.selectedColors) {
-            Object.entries(configData.selectedColors).forEach(([partId, colorId]) => {
-              store.selectPartColor(partId, colorId as string);
-            });
-          }
-          if (configData.partColorOverrides) {
-            Object.entries(configData.partColorOverrides).forEach(([partId, colorId]) => {
-              store.setPartColorOverride(partId, colorId as string);
-            });
-          }
-          
-          showToast('Loaded shared configuration!', 'success');
-          window.history.replaceState({}, '', window.location.pathname);
-        } catch (error) {
-          console.error('Failed to load shared configuration:', error);
-        }
-      }
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      window.removeEventListener('popstate', handlePopState);
+      stopOutboxSync();
     };
-    
-    setTimeout(loadSharedConfig, 1000);
-    
-    return () => window.removeEventListener('resize', handleResize);
   }, []);
 
   // Show tutorial after disclaimer is acknowledged - EVERY TIME
@@ -889,7 +674,7 @@ function App() {
     );
   }
 
-  if (error) {
+  if (error || batchMode.error) {
     return (
       <div style={{ 
         width: '100vw', 
@@ -900,7 +685,7 @@ function App() {
         justifyContent: 'center'
       }}>
         <div style={{ color: '#ef4444', fontSize: '18px', textAlign: 'center' }}>
-          <div>{error}</div>
+          <div style={{ whiteSpace: 'pre-line' }}>{error || batchMode.error}</div>
           <div style={{ fontSize: '14px', color: '#ccc', marginTop: '10px' }}>
             Check console for details
           </div>
@@ -909,6 +694,18 @@ function App() {
     );
   }
 
+  if (verifyId && catalog) {
+    return <ProvenancePage id={verifyId} catalog={catalog} assetRoot={PRODUCT_PATH} />;
+  }
+
+  if (showProductPicker && catalog && !manifest) {
+    return <ProductPicker products={catalog.products} onSelect={handleSelectProduct} />;
+  }
+
+  if (batchMode.options && manifest) {
+    return <BatchRenderPanel productPath={productPath || PRODUCT_PATH} initialOptions={batchMode.options} />;
+  }
+
   return (
     <div style={{ width: '100vw', height: '100vh', background: 'linear-gradient(to bottom right, #efddddd3, #000000)' }}>
       {modelLoading && (
@@ -976,14 +773,13 @@ function App() {
           gl={{
             logarithmicDepthBuffer: true,
             antialias: window.innerWidth > 768,
-            preserveDrawingBuffer: true,
             powerPreference: 'high-performance'
           }}
           shadows
           dpr={window.innerWidth <= 768 ? 1 : Math.min(window.devicePixelRatio, 2)}
         >
           <TestModelViewer 
-            productPath={PRODUCT_PATH}
+            productPath={productPath || PRODUCT_PATH}
             onLoadComplete={() => {
               setModelLoading(false);
               if (!disclaimerAcknowledged) {
@@ -998,6 +794,8 @@ function App() {
         
         <LuxuryConfigModal />
         <UIControls />
+        <PriceSummary />
+        <HistoryPanel />
         
         <div style={{
           position: 'absolute',
@@ -1090,6 +888,142 @@ function App() {
           >
             Export Configuration
           </button>
+
+          <button
+            onClick={() => setShowTurntable(true)}
+            style={{
+              background: '#4a4a4a',
+              color: 'white',
+              border: 'none',
+              borderRadius: '8px',
+              padding: '12px 16px',
+              fontSize: '14px',
+              fontWeight: '600',
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+              fontFamily: 'Inter, system-ui, sans-serif',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '8px'
+            }}
+          >
+            Export Turntable
+          </button>
+
+          <button
+            onClick={() => setShowModelExport(true)}
+            style={{
+              background: '#4a4a4a',
+              color: 'white',
+              border: 'none',
+              borderRadius: '8px',
+              padding: '12px 16px',
+              fontSize: '14px',
+              fontWeight: '600',
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+              fontFamily: 'Inter, system-ui, sans-serif',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '8px'
+            }}
+          >
+            Export 3D Model
+          </button>
+
+          <button
+            onClick={handleBuildSheet}
+            disabled={isCreatingBuildSheet}
+            style={{
+              background: '#4a4a4a',
+              color: 'white',
+              border: 'none',
+              borderRadius: '8px',
+              padding: '12px 16px',
+              fontSize: '14px',
+              fontWeight: '600',
+              cursor: isCreatingBuildSheet ? 'not-allowed' : 'pointer',
+              opacity: isCreatingBuildSheet ? 0.6 : 1,
+              transition: 'all 0.2s ease',
+              fontFamily: 'Inter, system-ui, sans-serif',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '8px'
+            }}
+          >
+            {isCreatingBuildSheet ? 'Creating Spec Sheet...' : 'Download Spec Sheet'}
+          </button>
+
+          <button
+            onClick={() => setShowSavedBuilds(true)}
+            style={{
+              background: '#4a4a4a',
+              color: 'white',
+              border: 'none',
+              borderRadius: '8px',
+              padding: '12px 16px',
+              fontSize: '14px',
+              fontWeight: '600',
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+              fontFamily: 'Inter, system-ui, sans-serif',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '8px'
+            }}
+          >
+            Saved Builds
+          </button>
+
+          <button
+            onClick={() => setShowComparison(true)}
+            style={{
+              background: '#4a4a4a',
+              color: 'white',
+              border: 'none',
+              borderRadius: '8px',
+              padding: '12px 16px',
+              fontSize: '14px',
+              fontWeight: '600',
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+              fontFamily: 'Inter, system-ui, sans-serif',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '8px'
+            }}
+          >
+            Compare Builds
+          </button>
+
+          {catalog && catalog.products.length > 1 && (
+            <button
+              onClick={() => setShowProductPicker(true)}
+              style={{
+                background: '#4a4a4a',
+                color: 'white',
+                border: 'none',
+                borderRadius: '8px',
+                padding: '12px 16px',
+                fontSize: '14px',
+                fontWeight: '600',
+                cursor: 'pointer',
+                transition: 'all 0.2s ease',
+                fontFamily: 'Inter, system-ui, sans-serif',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '8px'
+              }}
+            >
+              Switch Rifle
+            </button>
+          )}
         </div>
         
         <div 
@@ -1135,12 +1069,11 @@ function App() {
                 justifyContent: 'space-between',
                 alignItems: 'center'
               }}>
-                <span>⚠️ ITAR / EAR NOTICE</span>
+                <span>⚠️ {ITAR_NOTICE_TITLE}</span>
                 <span style={{ fontSize: '10px', opacity: 0.8 }}>▼</span>
               </div>
               <div>
-                This configurator is for demonstration purposes only. This does not constitute a sale or offer for sale. 
-                Export restrictions may apply under ITAR and EAR regulations.
+                {ITAR_NOTICE}
               </div>
             </>
           )}
@@ -1567,11 +1500,27 @@ function App() {
         </div>
       )}
 
+      {rejectedOrders.length > 0 && (
+        <RejectedOrderModal
+          key={rejectedOrders[0].request.idempotency_key}
+          order={rejectedOrders[0]}
+          provider={botProtection}
+          onSent={(order) => {
+            setRejectedOrders(orders => orders.filter(known => known !== order));
+            showToast(`Your saved order for ${order.request.config_id} has been sent`, 'success');
+          }}
+          onDiscarded={(order) => {
+            setRejectedOrders(orders => orders.filter(known => known !== order));
+          }}
+        />
+      )}
+
       {showOrderModal && (
         <div 
           onClick={(e) => {
             if (e.target === e.currentTarget && !isSubmitting) {
               setShowOrderModal(false);
+              setPendingChallenge(null);
             }
           }}
           style={{
@@ -1638,6 +1587,14 @@ function App() {
               }}>
                 Choose how you'd like to proceed with your M200 configuration
               </p>
+              <p style={{
+                color: '#888',
+                fontSize: 'clamp(11px, 2.2vw, 12px)',
+                marginTop: 'clamp(6px, 1.2vw, 10px)',
+                letterSpacing: '1px'
+              }}>
+                CONFIGURATION ID: <span style={{ color: '#e5e5e5', fontWeight: '600' }}>{configId}</span>
+              </p>
             </div>
 
             <div style={{ marginBottom: 'clamp(15px, 3vw, 25px)' }}>
@@ -1802,6 +1759,21 @@ function App() {
               </p>
             </div>
 
+            {pendingChallenge && (
+              <ChallengeWidget
+                provider={botProtection}
+                onSolved={(token) => {
+                  const flow = pendingChallenge;
+                  setPendingChallenge(null);
+                  if (flow === 'order') {
+                    handleStartOrder(token);
+                  } else {
+                    handleQuickAddToCart(token);
+                  }
+                }}
+              />
+            )}
+
             <div style={{
               display: 'flex',
               flexDirection: window.innerWidth < 500 ? 'column' : 'row',
@@ -1814,6 +1786,7 @@ function App() {
                   e.stopPropagation();
                   if (!isSubmitting) {
                     setShowOrderModal(false);
+                    setPendingChallenge(null);
                     setCustomerName('');
                     setCustomerEmail('');
                     setCustomerPhone('');
@@ -1903,6 +1876,40 @@ function App() {
         </div>
       )}
 
+      {showComparison && (
+        <ComparisonView
+          productPath={productPath || PRODUCT_PATH}
+          onClose={() => setShowComparison(false)}
+        />
+      )}
+
+      {showTurntable && (
+        <TurntableExportModal
+          productPath={productPath || PRODUCT_PATH}
+          onClose={() => setShowTurntable(false)}
+        />
+      )}
+
+      {showModelExport && (
+        <ModelExportModal onClose={() => setShowModelExport(false)} />
+      )}
+
+      {showSavedBuilds && (
+        <SavedBuildsPanel
+          onClose={() => setShowSavedBuilds(false)}
+          onLoadBuild={handleLoadBuild}
+        />
+      )}
+
+      {showProductPicker && catalog && manifest && (
+        <ProductPicker
+          products={catalog.products}
+          activeSku={manifest.sku}
+          onSelect={handleSelectProduct}
+          onClose={() => setShowProductPicker(false)}
+        />
+      )}
+
       {showShareModal && (
         <div 
           onClick={(e) => {
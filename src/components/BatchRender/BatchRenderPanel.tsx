@@ -0,0 +1,382 @@
+// src/components/BatchRender/BatchRenderPanel.tsx
+import { Component, useCallback, useEffect, useMemo, useRef, useState, Suspense, CSSProperties, ReactNode } from 'react';
+import { Canvas } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useConfigStore } from '../../state/useConfigStore';
+import { exportService } from '../../services/exportService';
+import { buildBatchJobs, buildBatchArchive, BatchOptions, BatchJob, BatchJobResult, FinishSet, HardwareSweep } from '../../utils/batchRender';
+import { OffscreenRenderer, waitForTextures, VIEW_PRESETS, ViewName } from '../../utils/offscreenRenderer';
+import { RifleModel, ViewerLighting, CameraSetup, LoadingFallback } from '../ModelViewer/TestModelViewer';
+
+type BatchStatus = 'idle' | 'running' | 'done' | 'error';
+
+interface BatchRenderPanelProps {
+  productPath: string;
+  initialOptions: BatchOptions;
+}
+
+const label: CSSProperties = { display: 'flex', gap: '6px', alignItems: 'center', fontSize: '13px', color: '#ccc' };
+const field: CSSProperties = {
+  padding: '6px 8px',
+  borderRadius: '6px',
+  border: '1px solid #4a4a4a',
+  background: '#2a2a2a',
+  color: 'white',
+  fontSize: '13px'
+};
+
+const SIZE_PRESETS = ['3840x2160', '2160x2160', '1920x1080', '1024x1024'];
+
+// How long one build may take to load and show before it is skipped
+const JOB_TIMEOUT_MS = 120_000;
+
+// Renders are zipped and downloaded in parts of about this size, so a large
+// matrix never holds more than one part in memory
+const PART_BYTES = 512 * 1024 * 1024;
+
+interface PendingJob {
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface PreviewErrorBoundaryProps {
+  jobId: string | undefined;
+  onError: (error: Error) => void;
+  children: ReactNode;
+}
+
+// Turns a model that fails to load into a failed job instead of a stuck one.
+// Later jobs on the same model fail straight away; a new model resets it (key).
+class PreviewErrorBoundary extends Component<PreviewErrorBoundaryProps, { error: Error | null }> {
+  state: { error: Error | null } = { error: null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidCatch(error: Error) {
+    this.props.onError(error);
+  }
+
+  componentDidUpdate(previous: PreviewErrorBoundaryProps) {
+    if (this.state.error && previous.jobId !== this.props.jobId) this.props.onError(this.state.error);
+  }
+
+  render() {
+    return this.state.error ? null : this.props.children;
+  }
+}
+
+/**
+ * Renders every configuration of a finish/hardware matrix from a set of
+ * camera presets and downloads the lot as a zip, split into numbered parts
+ * when it would get large. The preview canvas shows each build as it is
+ * applied; the renders themselves come from an OffscreenRenderer at full
+ * resolution. Builds that fail or time out are skipped and reported.
+ *
+ * The root carries `data-batch-status` so headless runs can wait on it.
+ */
+export function BatchRenderPanel({ productPath, initialOptions }: BatchRenderPanelProps) {
+  const manifest = useConfigStore(state => state.manifest);
+  const [options, setOptions] = useState<BatchOptions>(initialOptions);
+  const [status, setStatus] = useState<BatchStatus>('idle');
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [message, setMessage] = useState('');
+  const [archive, setArchive] = useState<Blob | null>(null);
+  const subjectRef = useRef<THREE.Group>(null);
+  const pendingRef = useRef<PendingJob | null>(null);
+  const startedRef = useRef(false);
+
+  const jobs = useMemo(() => manifest ? buildBatchJobs(manifest, options) : [], [manifest, options]);
+  const archiveName = manifest ? `${manifest.sku}-renders-${new Date().toISOString().split('T')[0]}.zip` : 'renders.zip';
+
+  const handleMaterialsApplied = useCallback(() => {
+    pendingRef.current?.resolve();
+    pendingRef.current = null;
+  }, []);
+
+  const handleModelError = useCallback((error: Error) => {
+    pendingRef.current?.reject(error);
+    pendingRef.current = null;
+  }, []);
+
+  // Puts a job's build on the preview model and waits until its materials are on.
+  // A fresh selection object makes the material pass run even if the build is
+  // already showing.
+  const showJob = (next: BatchJob) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pendingRef.current = null;
+      reject(new Error(`did not load within ${JOB_TIMEOUT_MS / 1000} s`));
+    }, JOB_TIMEOUT_MS);
+    pendingRef.current = {
+      resolve: () => { clearTimeout(timer); resolve(); },
+      reject: (error) => { clearTimeout(timer); reject(error); },
+    };
+    setJob({ ...next, selection: { ...next.selection } });
+  });
+
+  const run = async () => {
+    if (!manifest || jobs.length === 0) return;
+
+    setStatus('running');
+    setArchive(null);
+    setProgress({ done: 0, total: jobs.length });
+    console.log(`Batch render: ${jobs.length} builds x ${options.views.length} views at ${options.width}x${options.height}`);
+
+    const renderer = new OffscreenRenderer();
+    const failed: string[] = [];
+    let part: BatchJobResult[] = [];
+    let partBytes = 0;
+    let parts = 0;
+    let rendered = 0;
+    let totalBytes = 0;
+
+    // Zips and downloads what has been rendered since the last part, then lets it go.
+    // A run that fits in one part gets the plain archive name.
+    const flush = async (last: boolean) => {
+      if (part.length === 0) return;
+      parts++;
+      const name = last && parts === 1 ? archiveName : archiveName.replace(/\.zip$/, `-part${parts}.zip`);
+      setMessage(`Building ${name}...`);
+      const zip = await buildBatchArchive(manifest, part);
+      exportService.download(zip, name);
+      if (last && parts === 1) setArchive(zip);
+      totalBytes += zip.size;
+      part = [];
+      partBytes = 0;
+    };
+
+    try {
+      for (const [index, next] of jobs.entries()) {
+        setMessage(`Rendering ${next.label}`);
+        try {
+          await showJob(next);
+          if (!subjectRef.current) throw new Error('Preview model is not mounted');
+          await waitForTextures(subjectRef.current);
+
+          const images = await renderer.renderViews(subjectRef.current, options.views, {
+            width: options.width,
+            height: options.height,
+            background: options.background,
+            format: options.format,
+          });
+          part.push({ job: next, images });
+          partBytes += images.reduce((sum, image) => sum + image.blob.size, 0);
+          rendered++;
+        } catch (error) {
+          console.error(`Batch render: skipped ${next.label}:`, error instanceof Error ? error.message : error);
+          failed.push(next.label);
+        }
+        setProgress({ done: index + 1, total: jobs.length });
+
+        if (partBytes >= PART_BYTES && index < jobs.length - 1) await flush(false);
+      }
+      await flush(true);
+
+      if (rendered === 0) throw new Error(`Every build failed to render (${failed.length})`);
+      const zips = parts > 1 ? ` in ${parts} zips` : '';
+      const skipped = failed.length > 0 ? `; skipped ${failed.length}: ${failed.join(', ')}` : '';
+      setMessage(`Done: ${rendered} builds, ${rendered * options.views.length} images (${(totalBytes / 1048576).toFixed(1)} MB${zips})${skipped}`);
+      setStatus('done');
+    } catch (error) {
+      console.error('Batch render failed:', error);
+      setMessage(error instanceof Error ? error.message : 'Batch render failed');
+      setStatus('error');
+    } finally {
+      renderer.dispose();
+    }
+  };
+
+  // Headless runs start on their own once the product is loaded
+  useEffect(() => {
+    if (initialOptions.autostart && manifest && !startedRef.current) {
+      startedRef.current = true;
+      run();
+    }
+  });
+
+  const toggle = <T,>(values: T[], value: T, on: boolean) =>
+    on ? [...values, value] : values.filter(v => v !== value);
+
+  const running = status === 'running';
+  const previewSelection = job?.selection ?? jobs[0]?.selection;
+  const previewModelFile = job?.modelFile ?? jobs[0]?.modelFile;
+
+  if (!manifest) return null;
+
+  return (
+    <div
+      data-batch-status={status}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: '#1a1a1a',
+        color: 'white',
+        fontFamily: 'Inter, system-ui, sans-serif',
+        display: 'flex',
+        flexDirection: 'column',
+        padding: '20px',
+        gap: '16px',
+        overflowY: 'auto'
+      }}
+    >
+      <div style={{ fontSize: '20px', fontWeight: '700' }}>Batch Render — {manifest.productName}</div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '16px 24px', alignItems: 'center' }}>
+        {(['patterns', 'colors'] as FinishSet[]).map(set => (
+          <label key={set} style={label}>
+            <input
+              type="checkbox"
+              disabled={running}
+              checked={options.finishes.includes(set)}
+              onChange={(e) => setOptions({ ...options, finishes: toggle(options.finishes, set, e.target.checked) })}
+            />
+            Every {set === 'patterns' ? 'pattern' : 'color'}
+          </label>
+        ))}
+
+        {(['suppressors', 'calibers', 'triggers'] as const).map(key => (
+          <label key={key} style={label}>
+            {key[0].toUpperCase() + key.slice(1)}
+            <select
+              disabled={running}
+              value={options[key]}
+              onChange={(e) => setOptions({ ...options, [key]: e.target.value as HardwareSweep })}
+              style={field}
+            >
+              <option value="all">All</option>
+              <option value="default">Default only</option>
+            </select>
+          </label>
+        ))}
+
+        <label style={label}>
+          Size
+          <select
+            disabled={running}
+            value={`${options.width}x${options.height}`}
+            onChange={(e) => {
+              const [width, height] = e.target.value.split('x').map(Number);
+              setOptions({ ...options, width, height });
+            }}
+            style={field}
+          >
+            {[...new Set([`${options.width}x${options.height}`, ...SIZE_PRESETS])].map(size => (
+              <option key={size} value={size}>{size}</option>
+            ))}
+          </select>
+        </label>
+
+        <label style={label}>
+          Background
+          <select
+            disabled={running}
+            value={options.background}
+            onChange={(e) => setOptions({ ...options, background: e.target.value })}
+            style={field}
+          >
+            {[...new Set([options.background, 'studio', 'transparent', '#ffffff', '#000000'])].map(background => (
+              <option key={background} value={background}>{background}</option>
+            ))}
+          </select>
+        </label>
+
+        <label style={label}>
+          Format
+          <select
+            disabled={running}
+            value={options.format}
+            onChange={(e) => setOptions({ ...options, format: e.target.value as BatchOptions['format'] })}
+            style={field}
+          >
+            <option value="image/png">PNG</option>
+            <option value="image/webp">WebP</option>
+          </select>
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '16px', alignItems: 'center' }}>
+        <span style={{ fontSize: '13px', color: '#aaa' }}>Views:</span>
+        {(Object.keys(VIEW_PRESETS) as ViewName[]).map(view => (
+          <label key={view} style={label}>
+            <input
+              type="checkbox"
+              disabled={running}
+              checked={options.views.includes(view)}
+              onChange={(e) => setOptions({ ...options, views: toggle(options.views, view, e.target.checked) })}
+            />
+            {VIEW_PRESETS[view].label}
+          </label>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+        <button
+          onClick={run}
+          disabled={running || jobs.length === 0 || options.views.length === 0}
+          style={{
+            background: '#BA2025',
+            color: 'white',
+            border: 'none',
+            borderRadius: '6px',
+            padding: '10px 18px',
+            fontSize: '14px',
+            fontWeight: '700',
+            cursor: running ? 'not-allowed' : 'pointer',
+            opacity: running || jobs.length === 0 ? 0.6 : 1
+          }}
+        >
+          {running ? 'Rendering...' : `Render ${jobs.length} builds × ${options.views.length} views`}
+        </button>
+        {archive && !running && (
+          <button
+            onClick={() => exportService.download(archive, archiveName)}
+            style={{ background: '#4a4a4a', color: 'white', border: 'none', borderRadius: '6px', padding: '10px 18px', fontSize: '14px', cursor: 'pointer' }}
+          >
+            Download Again
+          </button>
+        )}
+      </div>
+
+      {(running || status !== 'idle') && (
+        <div>
+          <div style={{ height: '6px', background: 'rgba(186, 32, 37, 0.2)', borderRadius: '3px', overflow: 'hidden' }}>
+            <div style={{
+              height: '100%',
+              width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%`,
+              background: '#BA2025',
+              transition: 'width 0.3s'
+            }} />
+          </div>
+          <div style={{ fontSize: '13px', color: status === 'error' ? '#ef4444' : '#ccc', marginTop: '8px' }}>
+            {progress.done}/{progress.total} — {message}
+          </div>
+        </div>
+      )}
+
+      {/* Preview of the build being rendered */}
+      <div style={{ flex: '1 1 320px', minHeight: '320px', background: 'linear-gradient(to bottom right, #FAF9F6, #EAE8E4)', borderRadius: '8px', overflow: 'hidden' }}>
+        <Canvas camera={{ fov: 50, near: 0.1, far: 1000 }} gl={{ logarithmicDepthBuffer: true, antialias: true }}>
+          <CameraSetup distance={14} />
+          <ViewerLighting />
+          {previewSelection && previewModelFile && (
+            <PreviewErrorBoundary key={previewModelFile} jobId={job?.id} onError={handleModelError}>
+              <Suspense fallback={<LoadingFallback />}>
+                <group ref={subjectRef}>
+                  <RifleModel
+                    productPath={productPath}
+                    modelFile={previewModelFile}
+                    selection={previewSelection}
+                    interactive={false}
+                    onMaterialsApplied={handleMaterialsApplied}
+                  />
+                </group>
+              </Suspense>
+            </PreviewErrorBoundary>
+          )}
+        </Canvas>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+// src/components/BotProtection/ChallengeWidget.tsx
+import { useEffect, useRef, useState } from 'react';
+import type { BotProtectionProvider, BotProtectionToken } from '../../services/botProtectionService';
+
+interface ChallengeWidgetProps {
+  provider: BotProtectionProvider;
+  onSolved: (token: BotProtectionToken) => void;
+}
+
+/**
+ * Interactive captcha shown in the order form when the invisible check fails
+ */
+export function ChallengeWidget({ provider, onSolved }: ChallengeWidgetProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const onSolvedRef = useRef(onSolved);
+  const [status, setStatus] = useState<'waiting' | 'expired' | 'error'>('waiting');
+
+  useEffect(() => {
+    onSolvedRef.current = onSolved;
+  }, [onSolved]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    console.log('Showing bot protection challenge:', provider.name);
+    return provider.renderChallenge(container, {
+      onSolved: (token) => onSolvedRef.current(token),
+      onExpired: () => setStatus('expired'),
+      onError: (error) => {
+        console.error('Bot protection challenge failed:', error);
+        setStatus('error');
+      },
+    });
+  }, [provider]);
+
+  return (
+    <div style={{
+      marginBottom: 'clamp(12px, 2.5vw, 15px)',
+      padding: 'clamp(12px, 2.5vw, 15px)',
+      background: 'rgba(186, 32, 37, 0.1)',
+      border: '1px solid rgba(186, 32, 37, 0.4)',
+      borderRadius: 'clamp(6px, 1.2vw, 8px)',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      gap: '10px'
+    }}>
+      <div style={{ color: '#ccc', fontSize: 'clamp(12px, 2.3vw, 14px)', textAlign: 'center' }}>
+        {status === 'waiting' && 'Please complete the security check to continue.'}
+        {status === 'expired' && 'The security check expired. Please complete it again.'}
+        {status === 'error' && 'The security check could not be loaded. Please refresh the page and try again.'}
+      </div>
+      <div ref={containerRef} />
+    </div>
+  );
+}
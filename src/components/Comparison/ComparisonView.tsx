@@ -0,0 +1,334 @@
+// src/components/Comparison/ComparisonView.tsx
+import { useEffect, useMemo, useRef, useState, Suspense } from 'react';
+import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { useShallow } from 'zustand/react/shallow';
+import { OrbitControls } from '@react-three/drei';
+import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import * as THREE from 'three';
+import { useConfigStore, ConfigurationPayload } from '../../state/useConfigStore';
+import type { ProductManifest } from '../../utils/manifestValidator';
+import { pickSelection, restoreSelection, ConfigSelection } from '../../utils/selection';
+import { getModelFile } from '../../utils/resolveConfiguration';
+import { formatPrice } from '../../utils/pricing';
+import { savedBuildsService, SavedBuild } from '../../services/savedBuildsService';
+import { RifleModel, ViewerLighting, CameraSetup, LoadingFallback } from '../ModelViewer/TestModelViewer';
+
+type Side = 'left' | 'right';
+
+const CURRENT_BUILD = 'current';
+
+/**
+ * Camera shared by the two canvases: whichever side the customer last
+ * touched leads, the other copies its camera every frame
+ */
+interface CameraLink {
+  leader: Side | null;
+  position: THREE.Vector3;
+  target: THREE.Vector3;
+}
+
+interface ComparisonRow {
+  label: string;
+  left: string;
+  right: string;
+  differs: boolean;
+}
+
+interface ComparisonViewProps {
+  productPath: string;
+  onClose: () => void;
+}
+
+function LinkedOrbitControls({ side, link }: { side: Side; link: CameraLink }) {
+  const controlsRef = useRef<OrbitControlsImpl>(null);
+  const { camera } = useThree();
+
+  useFrame(() => {
+    const controls = controlsRef.current;
+    if (!controls || !link.leader) return;
+
+    if (link.leader === side) {
+      link.position.copy(camera.position);
+      link.target.copy(controls.target);
+    } else {
+      camera.position.copy(link.position);
+      controls.target.copy(link.target);
+      controls.update();
+    }
+  });
+
+  return (
+    <OrbitControls
+      ref={controlsRef}
+      makeDefault
+      minDistance={7}
+      maxDistance={25}
+      target={[0, 0, 0]}
+      enablePan={true}
+      panSpeed={0.3}
+      minPolarAngle={Math.PI / 6}
+      maxPolarAngle={(Math.PI * 5) / 6}
+      enableDamping={true}
+      dampingFactor={0.1}
+    />
+  );
+}
+
+/**
+ * The selection behind a picker value: the live store selection or a saved build
+ */
+function getSideSelection(
+  manifest: ProductManifest,
+  builds: SavedBuild[],
+  id: string,
+  current: ConfigSelection
+): ConfigSelection | null {
+  if (id === CURRENT_BUILD) return current;
+  const build = builds.find(b => b.id === id);
+  return build ? restoreSelection(manifest, build.selection) : null;
+}
+
+/**
+ * Rows of the diff table, built from the two configuration payloads
+ */
+function getComparisonRows(left: ConfigurationPayload, right: ConfigurationPayload): ComparisonRow[] {
+  const row = (label: string, a: string | null | undefined, b: string | null | undefined): ComparisonRow => ({
+    label,
+    left: a || '—',
+    right: b || '—',
+    differs: (a || '—') !== (b || '—'),
+  });
+
+  const rows = [
+    row('Finish', left.labels?.mainFinish, right.labels?.mainFinish),
+    row('Pattern', left.labels?.pattern, right.labels?.pattern),
+    row('Caliber', left.labels?.caliber, right.labels?.caliber),
+    row('Muzzle Device', left.labels?.suppressor, right.labels?.suppressor),
+    row('Trigger', left.labels?.trigger, right.labels?.trigger),
+  ];
+
+  (left.labels?.parts || []).forEach(part => {
+    const other = right.labels?.parts.find(p => p.partId === part.partId);
+    rows.push(row(`${part.label} Finish`, part.finish, other?.finish));
+  });
+
+  if (left.price || right.price) {
+    rows.push(row(
+      'Price',
+      left.price && formatPrice(left.price.total, left.price.currency),
+      right.price && formatPrice(right.price.total, right.price.currency)
+    ));
+  }
+
+  rows.push(row('Configuration ID', left.configId, right.configId));
+  return rows;
+}
+
+function ComparisonCanvas({ side, productPath, selection, link }: {
+  side: Side;
+  productPath: string;
+  selection: ConfigSelection;
+  link: CameraLink;
+}) {
+  const manifest = useConfigStore(state => state.manifest);
+  const modelFile = manifest ? getModelFile(manifest, selection.selectedSuppressor) : 'product.glb';
+
+  return (
+    <div
+      onPointerDown={() => { link.leader = side; }}
+      onWheel={() => { link.leader = side; }}
+      style={{ flex: '1 1 320px', minHeight: '280px', position: 'relative', background: 'linear-gradient(to bottom right, #FAF9F6, #EAE8E4)' }}
+    >
+      <Canvas
+        camera={{ fov: 75, near: 0.1, far: 1000 }}
+        gl={{ logarithmicDepthBuffer: true, antialias: true, powerPreference: 'high-performance' }}
+        shadows
+        dpr={Math.min(window.devicePixelRatio, 2)}
+      >
+        <CameraSetup distance={14} />
+        <LinkedOrbitControls side={side} link={link} />
+        <ViewerLighting />
+        <Suspense fallback={<LoadingFallback />} key={modelFile}>
+          <RifleModel productPath={productPath} modelFile={modelFile} selection={selection} interactive={false} />
+        </Suspense>
+      </Canvas>
+    </div>
+  );
+}
+
+/**
+ * Two builds of the current rifle side by side, with linked cameras and a
+ * table of what differs between them
+ */
+export function ComparisonView({ productPath, onClose }: ComparisonViewProps) {
+  const { manifest, getConfigurationPayload, loadSelection } = useConfigStore();
+  const currentSelection = useConfigStore(useShallow(pickSelection));
+  const [builds, setBuilds] = useState<SavedBuild[]>([]);
+  const [leftId, setLeftId] = useState(CURRENT_BUILD);
+  const [rightId, setRightId] = useState(CURRENT_BUILD);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const link = useRef<CameraLink>({ leader: null, position: new THREE.Vector3(), target: new THREE.Vector3() }).current;
+
+  // Saved builds of this rifle; start by comparing the current build with the latest one
+  useEffect(() => {
+    if (!manifest) return;
+    savedBuildsService.list()
+      .then(all => {
+        const productBuilds = all.filter(build => build.sku === manifest.sku);
+        setBuilds(productBuilds);
+        if (productBuilds.length > 0) {
+          setRightId(productBuilds[0].id);
+        }
+      })
+      .catch(error => console.error('Failed to load saved builds for comparison:', error));
+  }, [manifest]);
+
+  // Stable selection objects, so the models only re-apply materials when a side changes
+  const leftSelection = useMemo(
+    () => manifest && getSideSelection(manifest, builds, leftId, currentSelection),
+    [manifest, builds, leftId, currentSelection]
+  );
+  const rightSelection = useMemo(
+    () => manifest && getSideSelection(manifest, builds, rightId, currentSelection),
+    [manifest, builds, rightId, currentSelection]
+  );
+
+  if (!manifest || !leftSelection || !rightSelection) return null;
+
+  const rows = getComparisonRows(getConfigurationPayload(leftSelection), getConfigurationPayload(rightSelection));
+  const visibleRows = onlyDifferences ? rows.filter(r => r.differs) : rows;
+  const differenceCount = rows.filter(r => r.differs && r.label !== 'Configuration ID').length;
+
+  const buildOptions = [
+    { id: CURRENT_BUILD, name: 'Current build' },
+    ...builds.map(build => ({ id: build.id, name: build.name })),
+  ];
+
+  const renderPicker = (side: Side, value: string, onChange: (id: string) => void) => (
+    <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flex: 1 }}>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        style={{
+          flex: 1,
+          padding: '8px 10px',
+          borderRadius: '6px',
+          border: '1px solid #4a4a4a',
+          background: '#2a2a2a',
+          color: 'white',
+          fontSize: '14px'
+        }}
+      >
+        {buildOptions.map(option => (
+          <option key={option.id} value={option.id}>{option.name}</option>
+        ))}
+      </select>
+      {value !== CURRENT_BUILD && (
+        <button
+          onClick={() => {
+            const build = builds.find(b => b.id === value);
+            const selection = side === 'left' ? leftSelection : rightSelection;
+            loadSelection(selection, `Loaded "${build?.name}"`);
+            onClose();
+          }}
+          style={{
+            background: '#BA2025',
+            color: 'white',
+            border: 'none',
+            borderRadius: '6px',
+            padding: '8px 12px',
+            fontSize: '13px',
+            fontWeight: '600',
+            cursor: 'pointer',
+            whiteSpace: 'nowrap'
+          }}
+        >
+          Use This Build
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: '#1a1a1a',
+      zIndex: 100000,
+      display: 'flex',
+      flexDirection: 'column',
+      color: 'white',
+      fontFamily: 'Inter, system-ui, sans-serif'
+    }}>
+      {/* Header */}
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '16px',
+        padding: '12px 20px',
+        borderBottom: '1px solid rgba(255,255,255,0.2)',
+        flexWrap: 'wrap'
+      }}>
+        <div style={{ fontSize: '18px', fontWeight: '700' }}>Compare Builds</div>
+        {renderPicker('left', leftId, setLeftId)}
+        <button
+          onClick={() => {
+            setLeftId(rightId);
+            setRightId(leftId);
+          }}
+          title="Swap sides"
+          style={{ background: '#4a4a4a', color: 'white', border: 'none', borderRadius: '6px', padding: '8px 12px', cursor: 'pointer' }}
+        >
+          ⇄
+        </button>
+        {renderPicker('right', rightId, setRightId)}
+        <button
+          onClick={onClose}
+          style={{ background: 'transparent', color: 'white', border: 'none', fontSize: '24px', cursor: 'pointer' }}
+        >
+          ×
+        </button>
+      </div>
+
+      {builds.length === 0 && (
+        <div style={{ padding: '8px 20px', fontSize: '13px', color: '#e6a23c' }}>
+          Save a build first to compare it with your current configuration.
+        </div>
+      )}
+
+      {/* Models */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '2px', flex: '1 1 55%', minHeight: 0 }}>
+        <ComparisonCanvas side="left" productPath={productPath} selection={leftSelection} link={link} />
+        <ComparisonCanvas side="right" productPath={productPath} selection={rightSelection} link={link} />
+      </div>
+
+      {/* Differences */}
+      <div style={{ flex: '1 1 45%', overflowY: 'auto', padding: '12px 20px', minHeight: 0 }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+          <div style={{ fontSize: '14px', color: '#ccc' }}>
+            {differenceCount === 0 ? 'These builds are identical' : `${differenceCount} difference${differenceCount === 1 ? '' : 's'}`}
+          </div>
+          <label style={{ fontSize: '13px', color: '#ccc', display: 'flex', gap: '6px', alignItems: 'center', cursor: 'pointer' }}>
+            <input type="checkbox" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />
+            Only show differences
+          </label>
+        </div>
+
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '13px' }}>
+          <tbody>
+            {visibleRows.map(r => (
+              <tr key={r.label} style={{ background: r.differs ? 'rgba(186, 32, 37, 0.25)' : 'transparent' }}>
+                <td style={{ padding: '6px 8px', color: '#aaa', width: '25%' }}>{r.label}</td>
+                <td style={{ padding: '6px 8px', fontWeight: r.differs ? '700' : '400' }}>{r.left}</td>
+                <td style={{ padding: '6px 8px', fontWeight: r.differs ? '700' : '400' }}>{r.right}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+// src/components/Configurator/HistoryPanel.tsx
+import { useState, CSSProperties } from 'react';
+import { useConfigStore } from '../../state/useConfigStore';
+
+const buttonStyle = (enabled: boolean): CSSProperties => ({
+  flex: 1,
+  background: '#4a4a4a',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  padding: '8px 10px',
+  fontSize: '13px',
+  fontWeight: '600',
+  cursor: enabled ? 'pointer' : 'not-allowed',
+  opacity: enabled ? 1 : 0.4,
+  fontFamily: 'Inter, system-ui, sans-serif'
+});
+
+/**
+ * Undo/redo buttons and the list of changes made to this build, newest
+ * first. Clicking a change jumps back (or forward) to just after it.
+ */
+export function HistoryPanel() {
+  const { history, undo, redo, goToHistoryEntry, isCinemaMode } = useConfigStore();
+  const [expanded, setExpanded] = useState(false);
+
+  if (isCinemaMode) return null;
+
+  const { past, future } = history;
+  const canUndo = past.length > 0;
+  const canRedo = future.length > 0;
+  const isMac = navigator.platform.toUpperCase().includes('MAC');
+  const modifier = isMac ? '⌘' : 'Ctrl+';
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: '110px',
+      left: '20px',
+      zIndex: 1000,
+      background: 'linear-gradient(135deg, #1a1a1a 0%, #2a2a2a 100%)',
+      borderRadius: '8px',
+      padding: '10px',
+      width: '240px',
+      color: 'white',
+      fontFamily: 'Inter, system-ui, sans-serif',
+      boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)'
+    }}>
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button
+          onClick={undo}
+          disabled={!canUndo}
+          title={`Undo (${modifier}Z)`}
+          style={buttonStyle(canUndo)}
+        >
+          ↶ Undo
+        </button>
+        <button
+          onClick={redo}
+          disabled={!canRedo}
+          title={`Redo (${modifier}Shift+Z)`}
+          style={buttonStyle(canRedo)}
+        >
+          Redo ↷
+        </button>
+        <button
+          onClick={() => setExpanded(!expanded)}
+          title="Show history"
+          style={{ ...buttonStyle(true), flex: 'none', background: expanded ? '#BA2025' : '#4a4a4a' }}
+        >
+          ☰
+        </button>
+      </div>
+
+      {expanded && (
+        <div style={{
+          marginTop: '10px',
+          maxHeight: '40vh',
+          overflowY: 'auto',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '4px',
+          fontSize: '12px'
+        }}>
+          {past.length === 0 && future.length === 0 && (
+            <div style={{ color: '#888', padding: '6px' }}>No changes yet</div>
+          )}
+
+          {/* Undone changes, greyed out until redone */}
+          {[...future].reverse().map(entry => (
+            <div
+              key={entry.id}
+              onClick={() => goToHistoryEntry(entry.id)}
+              title="Redo up to this change"
+              style={{ padding: '6px 8px', borderRadius: '4px', color: '#777', cursor: 'pointer', textDecoration: 'line-through' }}
+            >
+              {entry.label}
+            </div>
+          ))}
+
+          {[...past].reverse().map((entry, index) => (
+            <div
+              key={entry.id}
+              onClick={() => goToHistoryEntry(entry.id)}
+              title={index === 0 ? 'Current' : 'Go back to this change'}
+              style={{
+                padding: '6px 8px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                background: index === 0 ? 'rgba(186, 32, 37, 0.3)' : 'rgba(255,255,255,0.05)'
+              }}
+            >
+              <div>{entry.label}</div>
+              <div style={{ color: '#888', fontSize: '10px', marginTop: '2px' }}>
+                {new Date(entry.timestamp).toLocaleTimeString()}
+              </div>
+            </div>
+          ))}
+
+          {past.length + future.length > 0 && (
+            <div
+              onClick={() => goToHistoryEntry(null)}
+              title="Undo all changes"
+              style={{
+                padding: '6px 8px',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                color: '#aaa',
+                background: past.length === 0 ? 'rgba(186, 32, 37, 0.3)' : 'transparent'
+              }}
+            >
+              Starting configuration
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import React, { useRef, useState } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import { Html } from '@react-three/drei';
 import { useConfigStore } from '../../state/useConfigStore';
+import type { OptionAvailability } from '../../utils/constraintEngine';
+import { formatPriceDelta } from '../../utils/pricing';
 import * as THREE from 'three';
 
 interface LuxuryHotspotProps {
@@ -127,7 +129,9 @@ function LuxuryConfigModal() {
     applyColorToAllParts,
     getPartUIGroup,
     selectCaliber,
-    selectSuppressor
+    selectSuppressor,
+    getOptionAvailability,
+    constraintViolations
   } = useConfigStore();
 
   // Local state for pattern mode: show patterns or show color overrides
@@ -202,6 +206,44 @@ function LuxuryConfigModal() {
 
   const currentSelection = getCurrentSelection();
 
+  // Availability of a finish option, depending on what selecting it would change
+  const getFinishAvailability = (optionId: string): OptionAvailability => {
+    if (manifest.finishModes && finishMode === 'colors') {
+      // Colors are applied to every configurable part at once
+      const reasons = new Set<string>();
+      (manifest.configurableParts || []).forEach(partId => {
+        getOptionAvailability({ kind: 'color', partId, id: optionId }).reasons.forEach(reason => reasons.add(reason));
+      });
+      return { available: reasons.size === 0, reasons: Array.from(reasons) };
+    }
+    if (manifest.finishModes && finishMode === 'patterns') {
+      return showingOverride
+        ? getOptionAvailability({ kind: 'color', partId: modalPartId, id: optionId })
+        : getOptionAvailability({ kind: 'pattern', id: optionId });
+    }
+    return getOptionAvailability({ kind: 'option', partId: modalPartId, id: optionId });
+  };
+
+  // Explains why an option is greyed out
+  const renderUnavailableReasons = (availability: OptionAvailability) => (
+    !availability.available && (
+      <div style={{ fontSize: '12px', color: '#e6a23c', marginTop: '6px' }}>
+        {availability.reasons.map(reason => (
+          <div key={reason}>⚠ {reason}</div>
+        ))}
+      </div>
+    )
+  );
+
+  // Price relative to the base rifle; finishes without a surcharge show nothing
+  const renderPriceDelta = (price: number | undefined, showIncluded = true) => (
+    manifest.pricing && (price || showIncluded) && (
+      <div style={{ fontSize: '13px', color: '#ccc', fontWeight: '600', whiteSpace: 'nowrap', marginLeft: '10px' }}>
+        {formatPriceDelta(price || 0, manifest.pricing.currency)}
+      </div>
+    )
+  );
+
   // Handler functions
   const handleOptionSelect = (optionId: string) => {
     console.log('Option selected:', { optionId, finishMode, showingOverride, modalPartId });
@@ -400,6 +442,22 @@ function LuxuryConfigModal() {
           gap: '15px'
         }}>
           
+          {/* Constraint violations the engine could not resolve on its own */}
+          {constraintViolations.length > 0 && (
+            <div style={{
+              backgroundColor: 'rgba(230, 162, 60, 0.15)',
+              border: '1px solid rgba(230, 162, 60, 0.6)',
+              borderRadius: '8px',
+              padding: '12px',
+              fontSize: '13px',
+              color: '#e6a23c'
+            }}>
+              {constraintViolations.map(violation => (
+                <div key={violation.constraintId}>⚠ {violation.reason}</div>
+              ))}
+            </div>
+          )}
+          
           {/* CALIBER SELECTION - Only for barrel */}
           {hasCaliber && manifest.calibers && (
             <>
@@ -407,16 +465,20 @@ function LuxuryConfigModal() {
                 Select Caliber
               </div>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
-                {manifest.calibers.map(caliber => (
+                {manifest.calibers.map(caliber => {
+                  const availability = getOptionAvailability({ kind: 'caliber', id: caliber.id });
+
+                  return (
                   <div
                     key={caliber.id}
-                    onClick={() => handleCaliberSelect(caliber.id)}
+                    onClick={() => availability.available && handleCaliberSelect(caliber.id)}
                     style={{
                       padding: '16px',
                       backgroundColor: selectedCaliber === caliber.id ? '#BA2025' : 'rgba(255,255,255,0.1)',
                       border: `2px solid ${selectedCaliber === caliber.id ? '#BA2025' : 'transparent'}`,
                       borderRadius: '8px',
-                      cursor: 'pointer',
+                      cursor: availability.available ? 'pointer' : 'not-allowed',
+                      opacity: availability.available ? 1 : 0.4,
                       transition: 'all 0.2s ease'
                     }}
                   >
@@ -429,10 +491,12 @@ function LuxuryConfigModal() {
                       <div style={{ 
                         fontWeight: 'bold', 
                         fontSize: '18px',
-                        color: 'white' 
+                        color: 'white',
+                        flex: 1
                       }}>
                         {caliber.label}
                       </div>
+                      {renderPriceDelta(caliber.price)}
                       {selectedCaliber === caliber.id && (
                         <div style={{ color: 'white', fontSize: '20px' }}>✓</div>
                       )}
@@ -457,8 +521,10 @@ function LuxuryConfigModal() {
                         <span>• {caliber.specifications.energy}</span>
                       </div>
                     )}
+                    {renderUnavailableReasons(availability)}
                   </div>
-                ))}
+                  );
+                })}
               </div>
 
               {/* Divider */}
@@ -477,16 +543,20 @@ function LuxuryConfigModal() {
                 Select Suppressor Configuration
               </div>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
-                {manifest.suppressors.map(suppressor => (
+                {manifest.suppressors.map(suppressor => {
+                  const availability = getOptionAvailability({ kind: 'suppressor', id: suppressor.id });
+
+                  return (
                   <div
                     key={suppressor.id}
-                    onClick={() => handleSuppressorSelect(suppressor.id)}
+                    onClick={() => availability.available && handleSuppressorSelect(suppressor.id)}
                     style={{
                       padding: '16px',
                       backgroundColor: selectedSuppressor === suppressor.id ? '#BA2025' : 'rgba(255,255,255,0.1)',
                       border: `2px solid ${selectedSuppressor === suppressor.id ? '#BA2025' : 'transparent'}`,
                       borderRadius: '8px',
-                      cursor: 'pointer',
+                      cursor: availability.available ? 'pointer' : 'not-allowed',
+                      opacity: availability.available ? 1 : 0.4,
                       transition: 'all 0.2s ease'
                     }}
                   >
@@ -499,10 +569,12 @@ function LuxuryConfigModal() {
                       <div style={{ 
                         fontWeight: 'bold', 
                         fontSize: '18px',
-                        color: 'white' 
+                        color: 'white',
+                        flex: 1
                       }}>
                         {suppressor.label}
                       </div>
+                      {renderPriceDelta(suppressor.price)}
                       {selectedSuppressor === suppressor.id && (
                         <div style={{ color: 'white', fontSize: '20px' }}>✓</div>
                       )}
@@ -515,8 +587,10 @@ function LuxuryConfigModal() {
                         {suppressor.description}
                       </div>
                     )}
+                    {renderUnavailableReasons(availability)}
                   </div>
-                ))}
+                  );
+                })}
               </div>
 
               {/* Divider */}
@@ -537,17 +611,19 @@ function LuxuryConfigModal() {
               <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
                 {manifest.triggers.map(trigger => {
                   const selectTrigger = useConfigStore.getState().selectTrigger;
+                  const availability = getOptionAvailability({ kind: 'trigger', id: trigger.id });
                   
                   return (
                     <div
                       key={trigger.id}
-                      onClick={() => selectTrigger(trigger.id)}
+                      onClick={() => availability.available && selectTrigger(trigger.id)}
                       style={{
                         padding: '16px',
                         backgroundColor: selectedTrigger === trigger.id ? '#BA2025' : 'rgba(255,255,255,0.1)',
                         border: `2px solid ${selectedTrigger === trigger.id ? '#BA2025' : 'transparent'}`,
                         borderRadius: '8px',
-                        cursor: 'pointer',
+                        cursor: availability.available ? 'pointer' : 'not-allowed',
+                        opacity: availability.available ? 1 : 0.4,
                         transition: 'all 0.2s ease'
                       }}
                     >
@@ -565,6 +641,7 @@ function LuxuryConfigModal() {
                         }}>
                           {trigger.label}
                         </div>
+                        {renderPriceDelta(trigger.price)}
                         {selectedTrigger === trigger.id && (
                           <div style={{ color: 'white', fontSize: '20px' }}>✓</div>
                         )}
@@ -577,6 +654,7 @@ function LuxuryConfigModal() {
                           {trigger.description}
                         </div>
                       )}
+                      {renderUnavailableReasons(availability)}
                     </div>
                   );
                 })}
@@ -604,6 +682,8 @@ function LuxuryConfigModal() {
                   setFinishMode('colors');
                   setShowingOverride(false);
                 }}
+                disabled={!getOptionAvailability({ kind: 'finishMode', id: 'colors' }).available}
+                title={getOptionAvailability({ kind: 'finishMode', id: 'colors' }).reasons.join('\n') || undefined}
                 style={{
                   flex: 1,
                   padding: '10px',
@@ -624,6 +704,8 @@ function LuxuryConfigModal() {
                   setFinishMode('patterns');
                   setShowingOverride(false);
                 }}
+                disabled={!getOptionAvailability({ kind: 'finishMode', id: 'patterns' }).available}
+                title={getOptionAvailability({ kind: 'finishMode', id: 'patterns' }).reasons.join('\n') || undefined}
                 style={{
                   flex: 1,
                   padding: '10px',
@@ -728,10 +810,13 @@ function LuxuryConfigModal() {
           {/* Options List - Scrollable - Only show for configurable parts */}
           {modalPartId !== 'triggerAssembly' && availableOptions.length > 0 && (
             <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
-              {availableOptions.map(option => (
+              {availableOptions.map(option => {
+                const availability = getFinishAvailability(option.id);
+
+                return (
                 <div
                   key={option.id}
-                  onClick={() => handleOptionSelect(option.id)}
+                  onClick={() => availability.available && handleOptionSelect(option.id)}
                   style={{
                     display: 'flex',
                     alignItems: 'center',
@@ -739,7 +824,8 @@ function LuxuryConfigModal() {
                     backgroundColor: currentSelection === option.id ? '#BA2025' : 'rgba(255,255,255,0.1)',
                     border: `2px solid ${currentSelection === option.id ? '#BA2025' : 'transparent'}`,
                     borderRadius: '8px',
-                    cursor: 'pointer',
+                    cursor: availability.available ? 'pointer' : 'not-allowed',
+                    opacity: availability.available ? 1 : 0.4,
                     transition: 'all 0.2s ease'
                   }}
                 >
@@ -772,12 +858,15 @@ function LuxuryConfigModal() {
                   
                   <div style={{ flex: 1 }}>
                     <div style={{ fontWeight: 'bold', color: 'white' }}>{option.label}</div>
+                    {renderUnavailableReasons(availability)}
                   </div>
+                  {renderPriceDelta(option.price, false)}
                   {currentSelection === option.id && (
                     <div style={{ color: 'white', fontSize: '20px' }}>✓</div>
                   )}
                 </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
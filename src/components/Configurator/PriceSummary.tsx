@@ -0,0 +1,95 @@
+// src/components/Configurator/PriceSummary.tsx
+import { useState } from 'react';
+import { useConfigStore } from '../../state/useConfigStore';
+import { formatPrice, formatPriceDelta } from '../../utils/pricing';
+
+/**
+ * Live total with an expandable itemized breakdown. Hidden for products
+ * whose manifest has no pricing.
+ */
+export function PriceSummary() {
+  // Subscribing to the whole store re-renders on every selection change
+  const { getPriceBreakdown, isCinemaMode } = useConfigStore();
+  const [expanded, setExpanded] = useState(false);
+
+  const breakdown = getPriceBreakdown();
+  if (!breakdown || isCinemaMode) return null;
+
+  const { currency } = breakdown;
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: '20px',
+      right: '20px',
+      zIndex: 1000,
+      background: 'linear-gradient(135deg, #1a1a1a 0%, #2a2a2a 100%)',
+      border: '2px solid #BA2025',
+      borderRadius: '8px',
+      padding: '12px 16px',
+      minWidth: '220px',
+      maxWidth: 'min(340px, 80vw)',
+      color: 'white',
+      fontFamily: 'Inter, system-ui, sans-serif',
+      boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)'
+    }}>
+      <div
+        onClick={() => setExpanded(!expanded)}
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: '12px',
+          cursor: 'pointer'
+        }}
+      >
+        <div>
+          <div style={{ fontSize: '11px', color: '#aaa', letterSpacing: '1px' }}>ESTIMATED PRICE</div>
+          <div style={{ fontSize: '20px', fontWeight: '700' }}>{formatPrice(breakdown.total, currency)}</div>
+        </div>
+        <div style={{ fontSize: '12px', color: '#BA2025', fontWeight: '600' }}>
+          {expanded ? 'Hide ▴' : 'Details ▾'}
+        </div>
+      </div>
+
+      {expanded && (
+        <div style={{
+          marginTop: '12px',
+          paddingTop: '10px',
+          borderTop: '1px solid rgba(255,255,255,0.2)',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '6px',
+          fontSize: '13px'
+        }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: '12px' }}>
+            <span style={{ color: '#ccc' }}>Base rifle</span>
+            <span>{formatPrice(breakdown.basePrice, currency)}</span>
+          </div>
+          {breakdown.items.map(item => (
+            <div key={item.id} style={{ display: 'flex', justifyContent: 'space-between', gap: '12px' }}>
+              <span style={{ color: '#ccc' }}>{item.label}</span>
+              <span style={{ whiteSpace: 'nowrap', color: item.amount === 0 ? '#888' : 'white' }}>
+                {formatPriceDelta(item.amount, currency)}
+              </span>
+            </div>
+          ))}
+          <div style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            marginTop: '6px',
+            paddingTop: '8px',
+            borderTop: '1px solid rgba(255,255,255,0.2)',
+            fontWeight: '700'
+          }}>
+            <span>Total</span>
+            <span>{formatPrice(breakdown.total, currency)}</span>
+          </div>
+          <div style={{ fontSize: '11px', color: '#888', marginTop: '4px' }}>
+            Final pricing is confirmed by our sales team.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
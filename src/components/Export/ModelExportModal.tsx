@@ -0,0 +1,179 @@
+// src/components/Export/ModelExportModal.tsx
+import { useMemo, useState, CSSProperties } from 'react';
+import { useConfigStore } from '../../state/useConfigStore';
+import { exportService } from '../../services/exportService';
+import { waitForTextures } from '../../utils/offscreenRenderer';
+import {
+  exportModel,
+  getInternalSelectors,
+  MODEL_FORMATS,
+  Decimation,
+  ModelExportResult,
+  ModelFormat,
+} from '../../utils/modelExport';
+
+interface ModelExportModalProps {
+  onClose: () => void;
+}
+
+const DECIMATION_LABELS: Record<Decimation, string> = {
+  none: 'Full detail',
+  light: 'Light (−25% vertices)',
+  medium: 'Medium (−50% vertices)',
+  heavy: 'Heavy (−75% vertices)',
+};
+
+const label: CSSProperties = { display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '13px', color: '#ccc' };
+const field: CSSProperties = {
+  padding: '8px 10px',
+  borderRadius: '6px',
+  border: '1px solid #4a4a4a',
+  background: '#2a2a2a',
+  color: 'white',
+  fontSize: '14px'
+};
+
+/**
+ * Exports the configured model as GLB, glTF or USDZ with its finishes baked in
+ */
+export function ModelExportModal({ onClose }: ModelExportModalProps) {
+  const manifest = useConfigStore(state => state.manifest);
+  const [format, setFormat] = useState<ModelFormat>('glb');
+  const [decimation, setDecimation] = useState<Decimation>('none');
+  const [omitInternal, setOmitInternal] = useState(true);
+  const [status, setStatus] = useState<string | null>(null);
+  const [result, setResult] = useState<ModelExportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const internalSelectors = useMemo(() => manifest ? getInternalSelectors(manifest) : [], [manifest]);
+
+  if (!manifest) return null;
+
+  const exporting = status !== null;
+
+  const handleExport = async () => {
+    setError(null);
+    setResult(null);
+    setStatus('Waiting for textures...');
+
+    try {
+      const model = exportService.getModel();
+      await waitForTextures(model);
+      const name = `${manifest.sku}-model-${new Date().toISOString().split('T')[0]}`;
+      const exported = await exportModel(model, {
+        format,
+        decimation,
+        omitSelectors: omitInternal ? internalSelectors : [],
+      }, setStatus, name);
+
+      exportService.download(exported.blob, `${name}.${exported.extension}`);
+      setResult(exported);
+    } catch (err) {
+      console.error('Model export failed:', err);
+      setError(err instanceof Error ? err.message : 'Model export failed');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0, 0, 0, 0.8)',
+      zIndex: 100000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      fontFamily: 'Inter, system-ui, sans-serif'
+    }}>
+      <div style={{
+        background: '#1a1a1a',
+        color: 'white',
+        borderRadius: '12px',
+        width: 'min(480px, 95vw)',
+        padding: '20px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '16px'
+      }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div style={{ fontSize: '18px', fontWeight: '700' }}>Export 3D Model</div>
+          <button
+            onClick={onClose}
+            disabled={exporting}
+            style={{ background: 'transparent', color: 'white', border: 'none', fontSize: '24px', cursor: 'pointer' }}
+          >
+            ×
+          </button>
+        </div>
+
+        <label style={label}>
+          Format
+          <select value={format} disabled={exporting} onChange={(e) => setFormat(e.target.value as ModelFormat)} style={field}>
+            {(Object.keys(MODEL_FORMATS) as ModelFormat[]).map(f => (
+              <option key={f} value={f}>{MODEL_FORMATS[f].label}</option>
+            ))}
+          </select>
+        </label>
+
+        <label style={label}>
+          Mesh detail
+          <select value={decimation} disabled={exporting} onChange={(e) => setDecimation(e.target.value as Decimation)} style={field}>
+            {(Object.keys(DECIMATION_LABELS) as Decimation[]).map(d => (
+              <option key={d} value={d}>{DECIMATION_LABELS[d]}</option>
+            ))}
+          </select>
+        </label>
+
+        {internalSelectors.length > 0 && (
+          <label style={{ ...label, flexDirection: 'row', alignItems: 'center', gap: '6px' }}>
+            <input type="checkbox" checked={omitInternal} disabled={exporting} onChange={(e) => setOmitInternal(e.target.checked)} />
+            Leave out internal parts (springs, bolt internals)
+          </label>
+        )}
+
+        {decimation !== 'none' && (
+          <div style={{ fontSize: '12px', color: '#e6a23c' }}>
+            Simplifying runs in the browser and can take a minute or more on the full rifle.
+          </div>
+        )}
+        {format === 'usdz' && (
+          <div style={{ fontSize: '12px', color: '#aaa' }}>
+            Opens in AR Quick Look on iPhone and iPad.
+          </div>
+        )}
+
+        {status && <div style={{ fontSize: '13px', color: '#ccc' }}>{status}</div>}
+        {result && !exporting && (
+          <div style={{ fontSize: '13px', color: '#4ade80' }}>
+            Exported {result.meshes} meshes, {result.triangles.toLocaleString()} triangles
+            {result.omitted > 0 ? ` (${result.omitted} left out)` : ''} — {(result.blob.size / 1048576).toFixed(1)} MB
+          </div>
+        )}
+        {error && <div style={{ fontSize: '13px', color: '#ef4444' }}>{error}</div>}
+
+        <button
+          onClick={handleExport}
+          disabled={exporting}
+          style={{
+            background: '#BA2025',
+            color: 'white',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '12px 16px',
+            fontSize: '14px',
+            fontWeight: '700',
+            cursor: exporting ? 'not-allowed' : 'pointer',
+            opacity: exporting ? 0.6 : 1
+          }}
+        >
+          {exporting ? 'Exporting...' : `Export ${format === 'gltf' ? 'glTF' : format.toUpperCase()}`}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+// src/components/Export/TurntableExportModal.tsx
+import { useCallback, useMemo, useRef, useState, Suspense, CSSProperties } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { useShallow } from 'zustand/react/shallow';
+import * as THREE from 'three';
+import { useConfigStore } from '../../state/useConfigStore';
+import { exportService } from '../../services/exportService';
+import { pickSelection } from '../../utils/selection';
+import { getModelFile } from '../../utils/resolveConfiguration';
+import { waitForTextures } from '../../utils/offscreenRenderer';
+import {
+  recordTurntable,
+  getTurntableFormats,
+  DEFAULT_TURNTABLE_OPTIONS,
+  TURNTABLE_EXTENSIONS,
+  TurntableFormat,
+} from '../../utils/turntable';
+import { DEFAULT_BRANDING } from '../../utils/branding';
+import { RifleModel, ViewerLighting, CameraSetup, LoadingFallback } from '../ModelViewer/TestModelViewer';
+
+interface TurntableExportModalProps {
+  productPath: string;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<TurntableFormat, string> = {
+  webm: 'WebM video',
+  gif: 'Animated GIF',
+  apng: 'Animated PNG',
+};
+
+const SIZE_PRESETS = ['1920x1080', '1280x720', '1080x1080', '720x720', '640x360'];
+const FPS_PRESETS = [15, 24, 30, 60];
+
+const label: CSSProperties = { display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '13px', color: '#ccc' };
+const field: CSSProperties = {
+  padding: '8px 10px',
+  borderRadius: '6px',
+  border: '1px solid #4a4a4a',
+  background: '#2a2a2a',
+  color: 'white',
+  fontSize: '14px'
+};
+
+/**
+ * Exports a 360° turntable of the current build as WebM, GIF or APNG
+ */
+export function TurntableExportModal({ productPath, onClose }: TurntableExportModalProps) {
+  const { manifest, getResolvedConfiguration } = useConfigStore();
+  const selection = useConfigStore(useShallow(pickSelection));
+  const formats = useMemo(() => getTurntableFormats(), []);
+
+  const [format, setFormat] = useState<TurntableFormat>(formats[0]);
+  const [size, setSize] = useState(`${DEFAULT_TURNTABLE_OPTIONS.width}x${DEFAULT_TURNTABLE_OPTIONS.height}`);
+  const [fps, setFps] = useState(DEFAULT_TURNTABLE_OPTIONS.fps);
+  const [duration, setDuration] = useState(DEFAULT_TURNTABLE_OPTIONS.duration);
+  const [background, setBackground] = useState(DEFAULT_TURNTABLE_OPTIONS.background);
+  const [showLogo, setShowLogo] = useState(true);
+  const [caption, setCaption] = useState(() => {
+    const resolved = getResolvedConfiguration();
+    return manifest && resolved ? `${manifest.productName} · ${resolved.mainFinishLabel}` : '';
+  });
+  const [modelReady, setModelReady] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const subjectRef = useRef<THREE.Group>(null);
+
+  const handleMaterialsApplied = useCallback(() => setModelReady(true), []);
+
+  if (!manifest) return null;
+
+  const modelFile = getModelFile(manifest, selection.selectedSuppressor);
+  const recording = progress !== null;
+  const [width, height] = size.split('x').map(Number);
+  const transparentAllowed = format !== 'webm';
+
+  const handleExport = async () => {
+    if (!subjectRef.current) return;
+    setError(null);
+    setProgress({ done: 0, total: Math.round(duration * fps) });
+
+    try {
+      await waitForTextures(subjectRef.current);
+      const blob = await recordTurntable(subjectRef.current, {
+        format,
+        duration,
+        fps,
+        width,
+        height,
+        background: background === 'transparent' && !transparentAllowed ? 'studio' : background,
+        branding: { ...DEFAULT_BRANDING, logoUrl: showLogo ? DEFAULT_BRANDING.logoUrl : null, caption: caption.trim() || null },
+      }, (done, total) => setProgress({ done, total }));
+
+      exportService.download(blob, `${manifest.sku}-turntable-${new Date().toISOString().split('T')[0]}.${TURNTABLE_EXTENSIONS[format]}`);
+    } catch (err) {
+      console.error('Turntable export failed:', err);
+      setError(err instanceof Error ? err.message : 'Turntable export failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      background: 'rgba(0, 0, 0, 0.8)',
+      zIndex: 100000,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      fontFamily: 'Inter, system-ui, sans-serif'
+    }}>
+      <div style={{
+        background: '#1a1a1a',
+        color: 'white',
+        borderRadius: '12px',
+        width: 'min(720px, 95vw)',
+        maxHeight: '95vh',
+        overflowY: 'auto',
+        padding: '20px',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '16px'
+      }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div style={{ fontSize: '18px', fontWeight: '700' }}>Export Turntable</div>
+          <button
+            onClick={onClose}
+            disabled={recording}
+            style={{ background: 'transparent', color: 'white', border: 'none', fontSize: '24px', cursor: 'pointer' }}
+          >
+            ×
+          </button>
+        </div>
+
+        {/* Preview of the build being exported; the recording itself is rendered offscreen */}
+        <div style={{ height: '240px', background: 'linear-gradient(to bottom right, #FAF9F6, #EAE8E4)', borderRadius: '8px', overflow: 'hidden' }}>
+          <Canvas camera={{ fov: 50, near: 0.1, far: 1000 }} gl={{ logarithmicDepthBuffer: true, antialias: true }}>
+            <CameraSetup distance={14} />
+            <ViewerLighting />
+            <Suspense fallback={<LoadingFallback />} key={modelFile}>
+              <group ref={subjectRef}>
+                <RifleModel
+                  productPath={productPath}
+                  modelFile={modelFile}
+                  selection={selection}
+                  interactive={false}
+                  onMaterialsApplied={handleMaterialsApplied}
+                />
+              </group>
+            </Suspense>
+          </Canvas>
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(150px, 1fr))', gap: '12px' }}>
+          <label style={label}>
+            Format
+            <select value={format} disabled={recording} onChange={(e) => setFormat(e.target.value as TurntableFormat)} style={field}>
+              {formats.map(f => <option key={f} value={f}>{FORMAT_LABELS[f]}</option>)}
+            </select>
+          </label>
+          <label style={label}>
+            Resolution
+            <select value={size} disabled={recording} onChange={(e) => setSize(e.target.value)} style={field}>
+              {SIZE_PRESETS.map(s => <option key={s} value={s}>{s.replace('x', ' × ')}</option>)}
+            </select>
+          </label>
+          <label style={label}>
+            Frame rate
+            <select value={fps} disabled={recording} onChange={(e) => setFps(Number(e.target.value))} style={field}>
+              {FPS_PRESETS.map(f => <option key={f} value={f}>{f} fps</option>)}
+            </select>
+          </label>
+          <label style={label}>
+            Duration (seconds)
+            <input
+              type="number"
+              min={2}
+              max={30}
+              value={duration}
+              disabled={recording}
+              onChange={(e) => setDuration(Math.min(30, Math.max(2, Number(e.target.value) || 2)))}
+              style={field}
+            />
+          </label>
+          <label style={label}>
+            Background
+            <select value={background} disabled={recording} onChange={(e) => setBackground(e.target.value)} style={field}>
+              <option value="studio">Studio</option>
+              <option value="#ffffff">White</option>
+              <option value="#000000">Black</option>
+              {transparentAllowed && <option value="transparent">Transparent</option>}
+            </select>
+          </label>
+        </div>
+
+        <div style={{ display: 'flex', gap: '12px', alignItems: 'flex-end', flexWrap: 'wrap' }}>
+          <label style={{ ...label, flexDirection: 'row', alignItems: 'center', gap: '6px', paddingBottom: '10px' }}>
+            <input type="checkbox" checked={showLogo} disabled={recording} onChange={(e) => setShowLogo(e.target.checked)} />
+            Logo
+          </label>
+          <label style={{ ...label, flex: 1 }}>
+            Caption
+            <input
+              type="text"
+              value={caption}
+              disabled={recording}
+              placeholder="No caption"
+              onChange={(e) => setCaption(e.target.value)}
+              style={field}
+            />
+          </label>
+        </div>
+
+        {format === 'gif' && width * height > 1280 * 720 && (
+          <div style={{ fontSize: '12px', color: '#e6a23c' }}>
+            Large GIFs take a while to encode and can run to tens of megabytes. WebM or a smaller size is quicker.
+          </div>
+        )}
+        {format === 'webm' && (
+          <div style={{ fontSize: '12px', color: '#aaa' }}>
+            Video is recorded in real time: expect the export to take at least {duration} seconds.
+          </div>
+        )}
+
+        {recording && (
+          <div>
+            <div style={{ height: '6px', background: 'rgba(186, 32, 37, 0.2)', borderRadius: '3px', overflow: 'hidden' }}>
+              <div style={{
+                height: '100%',
+                width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%`,
+                background: '#BA2025',
+                transition: 'width 0.2s'
+              }} />
+            </div>
+            <div style={{ fontSize: '13px', color: '#ccc', marginTop: '6px' }}>
+              Frame {progress.done} of {progress.total}
+            </div>
+          </div>
+        )}
+
+        {error && <div style={{ fontSize: '13px', color: '#ef4444' }}>{error}</div>}
+
+        <button
+          onClick={handleExport}
+          disabled={recording || !modelReady}
+          style={{
+            background: '#BA2025',
+            color: 'white',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '12px 16px',
+            fontSize: '14px',
+            fontWeight: '700',
+            cursor: recording || !modelReady ? 'not-allowed' : 'pointer',
+            opacity: recording || !modelReady ? 0.6 : 1
+          }}
+        >
+          {recording ? 'Recording...' : modelReady ? `Export ${FORMAT_LABELS[format]}` : 'Loading model...'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -21,7 +21,7 @@ export function ModelPreloader() {
     console.log('🚀 Preloading all suppressor models...');
     
     manifest.suppressors.forEach((suppressor) => {
-      const modelPath = `${productPath}/products/example-product/${suppressor.modelFile}`;
+      const modelPath = `${productPath}/${suppressor.modelFile}`;
       useGLTF.preload(modelPath);
     });
 
@@ -37,7 +37,7 @@ ModelPreloader.clearCache = () => {
 
   if (manifest && manifest.suppressors) {
     manifest.suppressors.forEach((suppressor) => {
-      const modelPath = `${productPath}/products/example-product/${suppressor.modelFile}`;
+      const modelPath = `${productPath}/${suppressor.modelFile}`;
       useGLTF.clear(modelPath);
     });
   }
@@ -2,6 +2,10 @@
 import { useRef, useEffect, Suspense, useMemo, useState, useCallback } from 'react';
 import { useGLTF, OrbitControls, Environment, ContactShadows, Center, useTexture } from '@react-three/drei';
 import { useConfigStore } from '../../state/useConfigStore';
+import { findLockedMaterialGroup } from '../../utils/lockedMaterials';
+import { resolveConfiguration } from '../../utils/resolveConfiguration';
+import { exportService } from '../../services/exportService';
+import type { ConfigSelection } from '../../utils/selection';
 import * as THREE from 'three';
 import { useThree, ThreeEvent } from '@react-three/fiber';
 
@@ -84,184 +88,6 @@ function findPartForMesh(
   return null;
 }
 
-/**
- * Checks if a mesh should be excluded from color/pattern changes
- * based on the part's excludeFromColor array
- */
-function isExcludedFromColor(
-  meshName: string,
-  partId: string,
-  manifest: any
-): boolean {
-  const part = manifest.parts?.find((p: any) => p.id === partId);
-  if (!part?.excludeFromColor) return false;
-
-  // Check if this mesh matches any of the exclusion patterns
-  for (const exclusion of part.excludeFromColor) {
-    if (meshMatchesSelector(meshName, exclusion)) {
-      console.log(`🚫 Mesh "${meshName}" excluded from color by part "${partId}"`);
-      return true;
-    }
-  }
-  return false;
-}
-
-// ================================================================
-// FIXED BLACK PARTS
-// ================================================================
-
-// Fixed parts that are always black and cannot be changed
-const FIXED_BLACK_PARTS = [
-  // Dowel pins and small hardware
-  "98381A508_Dowel_Pin_98381A508",
-  "98381A508_Dowel_Pin_98381A509",
-  "Dowel_Pins_MASTER_D125x3125STEP",
-  
-  // Rail screws
-  "CT_1-003_Rail_Screw_91251A192",
-  "CT_1-003_Rail_Screw_91251A193", 
-  "CT_1-003_Rail_Screw_91251A194",
-  "CT_1-003_Rail_Screw_91251A195",
-  
-  // Stock lock springs (NOT the lock itself - that should change color now)
-  "CT_1-005_Stock_Lock_Spring_1986K616",
-  "CT_1-005_Stock_Lock_Spring_1986K617",
-  "CT_1-007_Cover_Plate_Screw_91251A191",
-  "CT_1-007_Cover_Plate_Screw_91251A192",
-  
-  // Ratchet components
-  "CT_1-008_Ratchet",
-  "CT_1-009_Ratchet_Spring_1986K75",
-  "CT_1-010_Ratchet_Pin",
-  "CT_1-011_Ratchet_Pin_Head",
-  "CT_1-011_Ratchet_Pin_Head001",
-  
-  // Handle pins and mount
-  "CT_1-012_Handle_Pin_98470A136",
-  "CT_1-012_Handle_Pin_98470A137",
-  "CT_1-012_Handle_Pin_98470A138",
-  "CT_1-012_Handle_Pin_98470A139",
-  "CT_1-014_Handle_Mount_Screw_91251A542",
-  "CT_1-014_Handle_Mount_Screw_91251A543",
-  
-  // Bolt release screws (NOT the release itself - that should change color now)
-  "CT_1-016_Bolt_Release_Screw_91259A465",
-  "CT_1-017_Bolt_Release_Detent_90145A507",
-  "CT_1-018_Bolt_Release_Spring_1986K55",
-  "CT_1-019_Bolt_Release_Roll_Pin_92373A141",
-  
-  // Trigger components
-  "CT_1-021_Trigger_Pin_98380A479",
-  "CT_1-021_Trigger_Pin_98380A480",
-  "CT_1-023_Trigger_Guard_Screw_91274A064",
-  "CT_1-023_Trigger_Guard_Screw_91274A065",
-  "CT_1-023_Trigger_Guard_Screw_91274A066",
-  // CT_1-024_Mag_Release - REMOVED, should change color now
-  "CT_1-025_Mag_Release_Spring_9435K34",
-  "CT_1-026_Mag_Release_Roll_Pin_92373A185",
-  "CT_1-028_Pistol_Grip_Screw_91251A540",
-  "CT_1-027_Pistol_Grip_-_B5_Type_22",
-  
-  // Bolt components
-  "CT_2-001_Bolt_Head",
-  "CT_2-002_Bolt_Guide", 
-  "CT_2-003_Bolt_Guide_Spring_Smalley_SSR-0100-H",
-  "CT_2-004_Bolt_Retainer_Pin",
-  "CT_2-005_Bolt_Body",
-  "CT_2-010_Cam_Detent_9291K048",
-  "CT_2-010_Cam_Detent_9291K47",
-  "CT_2-011_Cam_Spring_9435K42",
-  "CT_2-012_Sear",
-  "CT_2-013_Firing_Pin",
-  "CT_2-014_Firing_Pin_Spring_Compressed",
-  "CT_2-015_Locking_Ring",
-  "CT_2-016_Firing_Pin_Retainer",
-  "CT_2-017_Firing_Pin_Tensioner",
-  "CT_2-018_Extractor",
-  "CT_2-019_Extractor_Spring_1986K56",
-  "CT_2-020_Extractor_Detent_9291K45",
-  "CT_2-021_Ejector",
-  "CT_2-022_Ejector_Spring_1986K49",
-  "CT_2-023_Ejector_Roll_Pin_92373A179",
-  
-  // Barrel components
-  "CT_3-005_Barrel_Alignment_Pin_90145A501",
-  
-  // Stock components (NOT CT_4-016_Stock_Rod_Spacer - that should change color now)
-  "CT_4-002_Recoil_Pad_Screw_91251A342",
-  "CT_4-002_Recoil_Pad_Screw_91251A343",
-  "CT_4-004L_Stock_Rod_Left",
-  "CT_4-004R_Stock_Rod_Right",
-  "CT_4-005_Stock_Rod_Screw_91253A537",
-  "CT_4-005_Stock_Rod_Screw_91253A538",
-  "CT_4-007_Cheek_Piece_Bracket_Screw_91253A006",
-  "CT_4-007_Cheek_Piece_Bracket_Screw_91253A007",
-  "CT_4-009_Cheek_Piece_Retainer_Dowel_90145A506",
-  "CT_4-010_Cheek_Piece_Screw_91255A267",
-  "CT_4-010_Cheek_Piece_Screw_91255A268",
-  "CT_4-013_Monopod_Screw_91251A541",
-  "CT_4-014_Monopod_Spring_1986K59",
-  "CT_4-015_Monopod_Retainer_Screw_91255A194",
-  
-  // Hand guard clamp
-  "CT_5-003_Handguard_Clamp_Screw_91251A540",
-  
-  // Handle clamp screws
-  "CT_5-006_Handle_Clamp_Screw_91251A535",
-  "CT_5-006_Handle_Clamp_Screw_91251A536",
-  "CT_5-006_Handle_Clamp_Screw_91251A537",
-  "CT_5-006_Handle_Clamp_Screw_91251A538",
-  
-  // Bipod screws and small parts
-  "CT_5-008-2_Bipod_Bracket_Screw_64835K067",
-  "CT_5-008-2_Bipod_Bracket_Screw_64835K068", 
-  "CT_5-008-2_Bipod_Bracket_Screw_64835K66",
-  "CT_5-012-2_Bipod_Locking_Pin_Spring_1986K751",
-  "CT_5-012-2_Bipod_Locking_Pin_Spring_1986K752",
-  "CT_5-014-2_Swivel_Washer_92678A182",
-  "CT_5-014-2_Swivel_Washer_92678A183",
-  "CT_5-014-2_Swivel_Washer_92678A184",
-  "CT_5-014-2_Swivel_Washer_92678A185",
-  "CT_5-015_Bipod_Swivel_Screw_91259A619",
-  "CT_5-015_Bipod_Swivel_Screw_91259A620",
-  "CT_5-019-2_Bipod_Foot_Release_Housing_Roll_Pin_92373A147",
-  "CT_5-019-2_Bipod_Foot_Release_Housing_Roll_Pin_92373A148",
-  "CT_5-021_Bipod_Foot_Release_Spring_1986K065",
-  "CT_5-021_Bipod_Foot_Release_Spring_1986K64",
-  "CT_5-022_Bipod_Foot_Release_Screw_91255A106",
-  "CT_5-022_Bipod_Foot_Release_Screw_91255A107",
-  "CT_5-023-2_Bipod_Foot_Detent_8490A822",
-  "CT_5-023-2_Bipod_Foot_Detent_8490A823",
-  "CT_5-023-2_Bipod_Foot_Detent_8490A825",
-  "CT_5-023-2_Bipod_Foot_Detent_8490A826",
-  "CT_5-024-2_Bipod_Rubber_Foot",
-  "CT_5-024-2_Bipod_Rubber_Foot001",
-  
-  // Magazine components
-  "CT_6-002_Magazine_Follower",
-  
-  // Clips and small parts
-  "E_CLIP_125_97431A240STEP",
-  "E_CLIP_125_97431A240STEP001",
-  
-  // Limbsaver butt pad
-  "Limbsaver_TRAP_GRIND_TO_FIT_Butt_Padstep",
-  "CT_4-001_Butt_Pad_-_Limbsaver_TRAP_GRIND_TO_FITstep",
-  
-  // Set screws
-  "set_screws,_cone_point_MASTER_8-32_x_375STEP",
-  "set_screws,_oval_point_MASTER_4-40_x_500_STEP", 
-  "set_screws,_oval_point_MASTER_8-32_x_500_STEP",
-  
-  // Additional components
-  "CPREM1STEP",
-  "CPREM2STEP", 
-  "HOREM700RH-2STEP",
-  "KNREM700BSALOSTEP",
-  "KNREM700BSASHSTEP",
-  "SAREM700BBLSTEP"
-];
-
 // Texture cache to avoid reloading
 const textureCache = new Map<string, THREE.Texture>();
 const textureLoader = new THREE.TextureLoader();
@@ -353,9 +179,18 @@ function createMaterialFromDefinition(materialDef: any, partId?: string): THREE.
   return material;
 }
 
-function RifleModel({ productPath, modelFile, onLoadComplete }: { productPath: string; modelFile: string; onLoadComplete?: () => void }) {
+interface RifleModelProps {
+  productPath: string;
+  modelFile: string;
+  onLoadComplete?: () => void;
+  selection?: ConfigSelection; // Render this selection instead of the store's (comparison view)
+  interactive?: boolean;       // Hover/click highlighting of configurable parts
+  onMaterialsApplied?: () => void; // After every material pass (batch rendering waits for it)
+}
+
+export function RifleModel({ productPath, modelFile, onLoadComplete, selection, interactive = true, onMaterialsApplied }: RifleModelProps) {
   const modelRef = useRef<THREE.Group>(null);
-  const modelUrl = `${productPath}/products/example-product/${modelFile}`;
+  const modelUrl = `${productPath}/${modelFile}`;
   
   // State for highlighting
   const [hoveredMesh, setHoveredMesh] = useState<THREE.Mesh | null>(null);
@@ -369,7 +204,7 @@ function RifleModel({ productPath, modelFile, onLoadComplete }: { productPath: s
     selectedPattern, 
     selectedColors,
     partColorOverrides,
-    getSelectedMaterials,
+    getResolvedConfiguration,
     manifest,
     modalPartId,
     selectedSuppressor
@@ -481,6 +316,8 @@ function RifleModel({ productPath, modelFile, onLoadComplete }: { productPath: s
       
       const matchedParts = new Set<string>();
       const unmatchedMeshes: string[] = [];
+      const resolved = selection ? resolveConfiguration(manifest, selection) : getResolvedConfiguration();
+      const suppressorId = selection ? selection.selectedSuppressor : selectedSuppressor;
       
       // Calculate which part IDs are hovered/selected for group highlighting
       const hoveredPartId = hoveredMesh && manifest ? findPartForMesh(
@@ -497,18 +334,6 @@ function RifleModel({ productPath, modelFile, onLoadComplete }: { productPath: s
       
       modelRef.current.traverse((child) => {
         if (child instanceof THREE.Mesh) {
-          // Check if this part should be fixed black - USE EXACT MATCHING ONLY
-          const isFixedBlack = FIXED_BLACK_PARTS.includes(child.name);
-          
-          if (isFixedBlack) {
-            child.material = new THREE.MeshStandardMaterial({
-              color: "#1a1a1a",
-              metalness: 0.2,
-              roughness: 0.8,
-            });
-            return;
-          }
-
           // ============================================
           // SPECIAL CASE: Direct_Thread_HUB_Mount
           // ============================================
@@ -517,39 +342,15 @@ function RifleModel({ productPath, modelFile, onLoadComplete }: { productPath: s
           // - Be configurable independently when no suppressor
           if (child.name === 'Direct_Thread_HUB_Mount') {
             // Check if a suppressor is currently selected (not 'none')
-            if (selectedSuppressor && selectedSuppressor !== 'none') {
+            if (suppressorId && suppressorId !== 'none') {
               // Suppressor is attached - match its color
               console.log('🔧 Hub mount: Matching suppressor color');
               
-              // Find the suppressor's material by looking at muzzleBrake part's current color
-              const muzzleBrakePartId = 'muzzleBrake';
-              let suppressorMaterial: THREE.MeshStandardMaterial | null = null;
-              
-              // Check if muzzle brake has a color override (in pattern mode with custom color)
-              if (partColorOverrides[muzzleBrakePartId]) {
-                const colorOption = manifest.finishModes.colors?.options?.find(
-                  (option: any) => option.id === partColorOverrides[muzzleBrakePartId]
-                );
-                if (colorOption) {
-                  suppressorMaterial = createMaterialFromDefinition(colorOption.material, muzzleBrakePartId);
-                }
-              } 
-              // Otherwise use the current finish mode selection
-              else if (finishMode === 'patterns' && selectedPattern) {
-                const patternOption = manifest.finishModes.patterns?.options?.find(
-                  (option: any) => option.id === selectedPattern
-                );
-                if (patternOption) {
-                  suppressorMaterial = createMaterialFromDefinition(patternOption.material, muzzleBrakePartId);
-                }
-              } else if (finishMode === 'colors' && selectedColors[muzzleBrakePartId]) {
-                const colorOption = manifest.finishModes.colors?.options?.find(
-                  (option: any) => option.id === selectedColors[muzzleBrakePartId]
-                );
-                if (colorOption) {
-                  suppressorMaterial = createMaterialFromDefinition(colorOption.material, muzzleBrakePartId);
-                }
-              }
+              // Match the muzzle device's resolved finish
+              const muzzleBrakeMaterial = resolved.parts.muzzleBrake?.material;
+              const suppressorMaterial = muzzleBrakeMaterial
+                ? createMaterialFromDefinition(muzzleBrakeMaterial, 'muzzleBrake')
+                : null;
               
               // Apply the suppressor material to hub mount
               if (suppressorMaterial) {
@@ -573,8 +374,13 @@ function RifleModel({ productPath, modelFile, onLoadComplete }: { productPath: s
           let shouldApplyMaterial = false;
           let materialToApply: THREE.MeshStandardMaterial | null = null;
 
-          // Use flexible matching system
-          if (manifest.configurableParts && manifest.finishModes) {
+          // Locked-material groups from the manifest (fixed hardware, trigger, ...) - STRICT MATCHING ONLY
+          const lockedGroup = findLockedMaterialGroup(manifest, child.name);
+
+          if (lockedGroup) {
+            shouldApplyMaterial = true;
+            materialToApply = createMaterialFromDefinition(lockedGroup.material);
+          } else if (manifest.configurableParts && manifest.finishModes) {
             // Find which part this mesh belongs to using flexible matching
             const partId = findPartForMesh(
               child.name,
@@ -583,64 +389,14 @@ function RifleModel({ productPath, modelFile, onLoadComplete }: { productPath: s
             );
 
             if (partId) {
-              // 🔥 NEW: Check if this specific mesh is excluded from color changes
-              if (isExcludedFromColor(child.name, partId, manifest)) {
-                child.material = new THREE.MeshStandardMaterial({
-                  color: "#1a1a1a",
-                  metalness: 0.2,
-                  roughness: 0.8,
-                });
-                return;
-              }
-
               matchedParts.add(partId);
               shouldApplyMaterial = true;
               console.log(`✓ Matched mesh "${child.name}" to part "${partId}"`);
 
-              if (finishMode === 'patterns' && selectedPattern) {
-                // Check if this part has a color override
-                if (partColorOverrides[partId]) {
-                  console.log('🎨 Applying color override to', partId, ':', partColorOverrides[partId]);
-                  const colorOption = manifest.finishModes.colors?.options?.find(
-                    (option: any) => option.id === partColorOverrides[partId]
-                  );
-                  if (colorOption) {
-                    materialToApply = createMaterialFromDefinition(colorOption.material, partId);
-                    console.log('RifleModel: Applied color override to mesh:', child.name);
-                  }
-                } else {
-                  // Apply pattern
-                  const patternOption = manifest.finishModes.patterns?.options?.find(
-                    (option: any) => option.id === selectedPattern
-                  );
-                  if (patternOption) {
-                    materialToApply = createMaterialFromDefinition(patternOption.material, partId);
-                    console.log(`🎨 Pattern "${selectedPattern}" → ${partId} (${child.name})`);
-                  }
-                }
-              } else if (finishMode === 'patterns' && !selectedPattern) {
-                // 🔥 NEW: Patterns mode without pattern - use color customization or fallback
-                const colorId = partColorOverrides[partId] || selectedColors[partId];
-                if (colorId) {
-                  const colorOption = manifest.finishModes.colors?.options?.find(
-                    (option: any) => option.id === colorId
-                  );
-                  if (colorOption) {
-                    materialToApply = createMaterialFromDefinition(colorOption.material, partId);
-                    console.log(`🎨 Color customization "${colorId}" → ${partId} (${child.name})`);
-                  }
-                }
-              } else if (finishMode === 'colors') {
-                // Apply individual colors
-                if (selectedColors[partId]) {
-                  const colorOption = manifest.finishModes.colors?.options?.find(
-                    (option: any) => option.id === selectedColors[partId]
-                  );
-                  if (colorOption) {
-                    materialToApply = createMaterialFromDefinition(colorOption.material, partId);
-                    console.log(`🎨 Color "${selectedColors[partId]}" → ${partId} (${child.name})`);
-                  }
-                }
+              const resolvedPart = resolved.parts[partId];
+              if (resolvedPart?.material) {
+                materialToApply = createMaterialFromDefinition(resolvedPart.material, partId);
+                console.log(`🎨 ${resolvedPart.finishLabel} (${resolvedPart.source}) → ${partId} (${child.name})`);
               }
             } else {
               unmatchedMeshes.push(child.name);
@@ -649,11 +405,11 @@ function RifleModel({ productPath, modelFile, onLoadComplete }: { productPath: s
 
           // Fallback to legacy system if flexible matching didn't find anything
           if (!shouldApplyMaterial) {
-            // Use legacy getSelectedMaterials approach
-            const materials = getSelectedMaterials();
-            if (materials[child.name]) {
+            // Use the exact mesh selectors from the resolved configuration
+            const meshMaterial = resolved.meshMaterials[child.name];
+            if (meshMaterial) {
               shouldApplyMaterial = true;
-              materialToApply = createMaterialFromDefinition(materials[child.name]);
+              materialToApply = createMaterialFromDefinition(meshMaterial);
               console.log('RifleModel: Applied legacy material to mesh:', child.name);
             }
           }
@@ -731,17 +487,18 @@ function RifleModel({ productPath, modelFile, onLoadComplete }: { productPath: s
         console.log(`⚠ Total unmatched: ${unmatchedMeshes.length} (likely small hardware pieces)`);
       }
       console.log('=== Material Application Complete ===');
+      onMaterialsApplied?.();
     }
-  }, [finishMode, selectedPattern, selectedColors, partColorOverrides, manifest, stableScene, hoveredMesh, selectedMesh, selectedSuppressor]);
+  }, [finishMode, selectedPattern, selectedColors, partColorOverrides, manifest, stableScene, hoveredMesh, selectedMesh, selectedSuppressor, getResolvedConfiguration, selection, onMaterialsApplied]);
 
   return (
     <Center>
       <group 
         ref={modelRef} 
         scale={0.01}
-        onPointerMove={handlePointerMove}
-        onPointerLeave={handlePointerLeave}
-        onClick={handleClick}
+        onPointerMove={interactive ? handlePointerMove : undefined}
+        onPointerLeave={interactive ? handlePointerLeave : undefined}
+        onClick={interactive ? handleClick : undefined}
       >
         <primitive object={stableScene} />
       </group>
@@ -749,7 +506,54 @@ function RifleModel({ productPath, modelFile, onLoadComplete }: { productPath: s
   );
 }
 
-function LoadingFallback() {
+/**
+ * Studio lights, environment and shadow plane shared by every model view
+ */
+export function ViewerLighting() {
+  return (
+    <>
+      {/* Base ambient light */}
+      <ambientLight intensity={0.6} />
+
+      {/* Hemisphere for soft top/bottom fill */}
+      <hemisphereLight intensity={0.4} groundColor="#333333" />
+
+      {/* SYMMETRICAL KEY LIGHTS - One on each side */}
+      <directionalLight 
+        position={[8, 5, 3]} 
+        intensity={1.0} 
+        castShadow 
+        shadow-mapSize={[2048, 2048]}
+      />
+      <directionalLight 
+        position={[-8, 5, 3]} 
+        intensity={1.0} 
+      />
+
+      {/* SYMMETRICAL FILL LIGHTS - Front corners */}
+      <directionalLight position={[5, 3, 8]} intensity={0.7} />
+      <directionalLight position={[-5, 3, 8]} intensity={0.7} />
+
+      {/* SYMMETRICAL BACK LIGHTS - Rear corners */}
+      <directionalLight position={[5, 3, -8]} intensity={0.6} />
+      <directionalLight position={[-5, 3, -8]} intensity={0.6} />
+
+      {/* Bottom fill for underside */}
+      <directionalLight position={[0, -4, 0]} intensity={0.5} />
+
+      {/* Environment */}
+      <Environment preset="warehouse" background={false} environmentIntensity={0.5} />
+
+      {/* Shadow plane */}
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -1.5, 0]} receiveShadow>
+        <planeGeometry args={[50, 50]} />
+        <shadowMaterial opacity={0.2} />
+      </mesh>
+    </>
+  );
+}
+
+export function LoadingFallback() {
   console.log('LoadingFallback: Showing loading placeholder');
   return (
     <mesh position={[0, 0, 0]}>
@@ -760,7 +564,7 @@ function LoadingFallback() {
 }
 
 // Camera setup component to set initial position based on device type
-function CameraSetup({ distance }: { distance: number }) {
+export function CameraSetup({ distance }: { distance: number }) {
   const { camera } = useThree();
   
   useEffect(() => {
@@ -782,6 +586,11 @@ function CameraSetup({ distance }: { distance: number }) {
 export function TestModelViewer({ productPath, onLoadComplete }: { productPath: string; onLoadComplete?: () => void }) {
   const { getCurrentModelFile, selectedSuppressor } = useConfigStore();
   const modelFile = getCurrentModelFile();
+  const modelRootRef = useRef<THREE.Group>(null);
+  const { camera } = useThree();
+
+  // Exports render this model from the customer's camera angle
+  useEffect(() => exportService.attach({ getModel: () => modelRootRef.current, camera }), [camera]);
   
   // Detect mobile device
   const isMobile = useMemo(() => {
@@ -830,47 +639,13 @@ export function TestModelViewer({ productPath, onLoadComplete }: { productPath:
         dampingFactor={0.1}
       />
       
-{/* Base ambient light */}
-<ambientLight intensity={0.6} />
-
-{/* Hemisphere for soft top/bottom fill */}
-<hemisphereLight intensity={0.4} groundColor="#333333" />
-
-{/* SYMMETRICAL KEY LIGHTS - One on each side */}
-<directionalLight 
-  position={[8, 5, 3]} 
-  intensity={1.0} 
-  castShadow 
-  shadow-mapSize={[2048, 2048]}
-/>
-<directionalLight 
-  position={[-8, 5, 3]} 
-  intensity={1.0} 
-/>
-
-{/* SYMMETRICAL FILL LIGHTS - Front corners */}
-<directionalLight position={[5, 3, 8]} intensity={0.7} />
-<directionalLight position={[-5, 3, 8]} intensity={0.7} />
-
-{/* SYMMETRICAL BACK LIGHTS - Rear corners */}
-<directionalLight position={[5, 3, -8]} intensity={0.6} />
-<directionalLight position={[-5, 3, -8]} intensity={0.6} />
-
-{/* Bottom fill for underside */}
-<directionalLight position={[0, -4, 0]} intensity={0.5} />
-
-{/* Environment */}
-<Environment preset="warehouse" background={false} environmentIntensity={0.5} />
-
-{/* Shadow plane */}
-<mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, -1.5, 0]} receiveShadow>
-  <planeGeometry args={[50, 50]} />
-  <shadowMaterial opacity={0.2} />
-</mesh>
+      <ViewerLighting />
       
-      <Suspense fallback={<LoadingFallback />} key={modelFile}>
-        <RifleModel productPath={productPath} modelFile={modelFile} onLoadComplete={onLoadComplete} />
-      </Suspense>
+      <group ref={modelRootRef}>
+        <Suspense fallback={<LoadingFallback />} key={modelFile}>
+          <RifleModel productPath={productPath} modelFile={modelFile} onLoadComplete={onLoadComplete} />
+        </Suspense>
+      </group>
       
      </>
   );
@@ -1,6 +1,10 @@
 // src/components/NFTMinting/NFTMintingModal.tsx
 import React, { useState, useEffect } from 'react';
-import { Web3Service } from '../../services/web3Service';
+import { web3Service } from '../../services/web3Service';
+import { ipfsService } from '../../services/ipfsService';
+import { IPFSUploader, IPFSUploadResult } from '../../utils/nftExporter';
+import { useWalletSession } from '../../hooks/useWalletSession';
+import { getVerifyRoute } from '../../utils/provenance';
 
 // Define the NFTExportData interface locally to avoid import issues
 interface NFTExportData {
@@ -40,79 +44,59 @@ interface NFTMintingModalProps {
 }
 
 export function NFTMintingModal({ isOpen, onClose, nftData, onMintSuccess }: NFTMintingModalProps) {
-  const [web3Service] = useState(new Web3Service());
-  const [walletAddress, setWalletAddress] = useState<string | null>(null);
-  const [walletBalance, setWalletBalance] = useState<string>('0');
+  const [ipfsUploader] = useState(() => new IPFSUploader());
+  const {
+    wallets,
+    account: walletAddress,
+    balance: walletBalance,
+    wrongChain: wrongNetwork,
+    status: walletStatus,
+    error: walletError,
+    connect,
+    disconnect,
+    switchChain,
+    refreshBalance,
+  } = useWalletSession();
   const [contractInfo, setContractInfo] = useState<any>(null);
   const [minting, setMinting] = useState(false);
   const [uploadingToIPFS, setUploadingToIPFS] = useState(false);
-  const [ipfsHashes, setIpfsHashes] = useState<any>(null);
+  const [ipfsHashes, setIpfsHashes] = useState<IPFSUploadResult | null>(null);
   const [mintingStep, setMintingStep] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
+  const [switchingNetwork, setSwitchingNetwork] = useState(false);
+  const [transactionUrl, setTransactionUrl] = useState<string | null>(null);
+  const [mintedTokenId, setMintedTokenId] = useState<string | null>(null);
+  const chain = web3Service.getChain();
+  const currency = chain.nativeCurrency.symbol;
 
+  // Contract figures and balance for the connected account, again whenever it changes
   useEffect(() => {
-    if (isOpen) {
-      checkWalletConnection();
-    }
-  }, [isOpen]);
-
-  const checkWalletConnection = async () => {
-    try {
-      const address = await web3Service.getWalletAddress();
-      if (address) {
-        setWalletAddress(address);
-        await updateWalletInfo();
-      }
-    } catch (error) {
-      console.error('Failed to check wallet connection:', error);
-    }
-  };
-
-  const connectWallet = async () => {
-    console.log('Connect wallet button clicked');
-    try {
-      setError(null);
-      console.log('Calling web3Service.connectWallet()...');
-      const address = await web3Service.connectWallet();
-      console.log('Wallet connection result:', address);
-      setWalletAddress(address);
-      await updateWalletInfo();
-    } catch (error: any) {
-      console.error('Wallet connection error:', error);
-      setError(error.message);
-    }
-  };
+    if (!isOpen || !walletAddress) return;
+    refreshBalance();
+    web3Service.getContractInfo()
+      .then(setContractInfo)
+      .catch(error => console.error('Failed to update contract info:', error));
+  }, [isOpen, walletAddress, refreshBalance]);
 
-  const updateWalletInfo = async () => {
+  const switchNetwork = async () => {
+    setSwitchingNetwork(true);
+    setError(null);
     try {
-      const [balance, info] = await Promise.all([
-        web3Service.getWalletBalance(),
-        web3Service.getContractInfo()
-      ]);
-      setWalletBalance(balance);
-      setContractInfo(info);
-    } catch (error) {
-      console.error('Failed to update wallet info:', error);
+      await switchChain();
+    } finally {
+      setSwitchingNetwork(false);
     }
   };
 
-  // Simulate IPFS upload (replace with real implementation)
-  const uploadToIPFS = async (nftData: NFTExportData): Promise<any> => {
+  // Model, previews and metadata to IPFS through the configured pinning service
+  const uploadToIPFS = async (nftData: NFTExportData): Promise<IPFSUploadResult> => {
     setUploadingToIPFS(true);
     setMintingStep('Uploading to IPFS...');
-    
-    // Simulate upload delay
-    await new Promise(resolve => setTimeout(resolve, 3000));
-    
-    // In production, upload to Pinata/IPFS here
-    const mockHashes = {
-      metadataHash: `QmMeta${Date.now()}`,
-      modelHash: `QmModel${Date.now()}`,
-      imageHash: `QmImage${Date.now()}`
-    };
-    
-    setUploadingToIPFS(false);
-    return mockHashes;
+    try {
+      return await ipfsUploader.uploadNFTPackage(nftData, setMintingStep);
+    } finally {
+      setUploadingToIPFS(false);
+    }
   };
 
   const handleMint = async () => {
@@ -120,6 +104,7 @@ export function NFTMintingModal({ isOpen, onClose, nftData, onMintSuccess }: NFT
 
     setMinting(true);
     setError(null);
+    setIpfsHashes(null);
     
     try {
       // Step 1: Upload to IPFS
@@ -127,9 +112,8 @@ export function NFTMintingModal({ isOpen, onClose, nftData, onMintSuccess }: NFT
       const hashes = await uploadToIPFS(nftData);
       setIpfsHashes(hashes);
       
-      // Step 2: Prepare URIs
-      const metadataURI = `https://gateway.pinata.cloud/ipfs/${hashes.metadataHash}`;
-      const modelURI = `https://gateway.pinata.cloud/ipfs/${hashes.modelHash}`;
+      // Step 2: Token and model URIs (ipfs://, resolvable through any gateway)
+      const { metadataURI, modelURI } = hashes;
       
       // Step 3: Mint NFT
       setMintingStep('Minting your CheyTac NFT...');
@@ -141,6 +125,9 @@ export function NFTMintingModal({ isOpen, onClose, nftData, onMintSuccess }: NFT
       );
       
       setMintingStep('NFT minted successfully!');
+      setTransactionUrl(web3Service.getTransactionUrl(result.transactionHash));
+      setMintedTokenId(result.tokenId);
+      refreshBalance();
       onMintSuccess(result.tokenId, result.transactionHash);
       
       // Close modal after success
@@ -211,21 +198,41 @@ export function NFTMintingModal({ isOpen, onClose, nftData, onMintSuccess }: NFT
             <p style={{ marginBottom: '20px', color: '#666' }}>
               Connect your wallet to mint your configured CheyTac M200 as an NFT
             </p>
-            <button
-              onClick={connectWallet}
-              style={{
-                background: '#ba2025',
-                color: 'black',
-                border: 'none',
-                padding: '12px 24px',
-                borderRadius: '8px',
-                fontSize: '16px',
-                fontWeight: '600',
-                cursor: 'pointer'
-              }}
-            >
-              Connect Wallet
-            </button>
+            {wallets.length === 0 ? (
+              <p style={{ color: '#999', fontSize: '14px' }}>
+                No wallet found. Please install MetaMask or another browser wallet.
+              </p>
+            ) : wallets.map(wallet => (
+              <button
+                key={wallet.info.uuid}
+                onClick={() => connect(wallet.info.rdns)}
+                disabled={walletStatus === 'connecting'}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '10px',
+                  width: '100%',
+                  background: '#ba2025',
+                  color: 'black',
+                  border: 'none',
+                  padding: '12px 24px',
+                  borderRadius: '8px',
+                  fontSize: '16px',
+                  fontWeight: '600',
+                  cursor: walletStatus === 'connecting' ? 'not-allowed' : 'pointer',
+                  marginBottom: '10px'
+                }}
+              >
+                {wallet.info.icon && <img src={wallet.info.icon} alt="" style={{ width: '24px', height: '24px' }} />}
+                {walletStatus === 'connecting' ? 'Connecting...' : `Connect ${wallet.info.name}`}
+              </button>
+            ))}
+            {walletError && (
+              <div style={{ color: '#c62828', fontSize: '14px', marginTop: '10px' }}>
+                {walletError}
+              </div>
+            )}
           </div>
         ) : (
           <>
@@ -236,19 +243,65 @@ export function NFTMintingModal({ isOpen, onClose, nftData, onMintSuccess }: NFT
               borderRadius: '8px',
               marginBottom: '20px'
             }}>
-              <div style={{ fontSize: '14px', color: '#666', marginBottom: '8px' }}>
-                <strong>Wallet:</strong> {walletAddress.slice(0, 6)}...{walletAddress.slice(-4)}
+              <div style={{ fontSize: '14px', color: '#666', marginBottom: '8px', display: 'flex', justifyContent: 'space-between' }}>
+                <span><strong>Wallet:</strong> {walletAddress.slice(0, 6)}...{walletAddress.slice(-4)}</span>
+                <button
+                  onClick={disconnect}
+                  disabled={minting}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    padding: 0,
+                    fontSize: '13px',
+                    color: '#1976d2',
+                    cursor: minting ? 'not-allowed' : 'pointer'
+                  }}
+                >
+                  Disconnect
+                </button>
               </div>
               <div style={{ fontSize: '14px', color: '#666', marginBottom: '8px' }}>
-                <strong>Balance:</strong> {parseFloat(walletBalance).toFixed(4)} MATIC
+                <strong>Balance:</strong> {parseFloat(walletBalance).toFixed(4)} {currency}
               </div>
               {contractInfo && (
                 <div style={{ fontSize: '14px', color: '#666' }}>
-                  <strong>Mint Price:</strong> {contractInfo.mintPrice} MATIC (~$0.001)
+                  <strong>Mint Price:</strong> {contractInfo.mintPrice} {currency}
                 </div>
               )}
             </div>
 
+            {/* Network Switch Prompt */}
+            {wrongNetwork && !minting && (
+              <div style={{
+                background: '#fff8e1',
+                padding: '15px',
+                borderRadius: '8px',
+                marginBottom: '20px',
+                fontSize: '14px',
+                color: '#8d6e00'
+              }}>
+                <div style={{ marginBottom: '10px' }}>
+                  Your wallet is on a different network. Minting happens on {chain.name}.
+                </div>
+                <button
+                  onClick={switchNetwork}
+                  disabled={switchingNetwork}
+                  style={{
+                    background: '#ffc107',
+                    color: 'black',
+                    border: 'none',
+                    padding: '8px 16px',
+                    borderRadius: '6px',
+                    fontSize: '14px',
+                    fontWeight: '600',
+                    cursor: switchingNetwork ? 'not-allowed' : 'pointer'
+                  }}
+                >
+                  {switchingNetwork ? 'Switching...' : `Switch to ${chain.name}`}
+                </button>
+              </div>
+            )}
+
             {/* NFT Preview */}
             {nftData && (
               <div style={{
@@ -294,11 +347,47 @@ export function NFTMintingModal({ isOpen, onClose, nftData, onMintSuccess }: NFT
                 <div style={{ color: '#1976d2', fontWeight: '600' }}>
                   {mintingStep}
                 </div>
+                {ipfsHashes && (
+                  <div style={{ marginTop: '10px', fontSize: '12px', color: '#555', textAlign: 'left', wordBreak: 'break-all' }}>
+                    <div>
+                      <strong>Model:</strong>{' '}
+                      <a href={ipfsService.toGatewayUrl(ipfsHashes.modelURI)} target="_blank" rel="noopener noreferrer" style={{ color: '#1976d2' }}>
+                        {ipfsHashes.modelIPFSHash}
+                      </a>
+                    </div>
+                    <div>
+                      <strong>Metadata:</strong>{' '}
+                      <a href={ipfsService.toGatewayUrl(ipfsHashes.metadataURI)} target="_blank" rel="noopener noreferrer" style={{ color: '#1976d2' }}>
+                        {ipfsHashes.metadataIPFSHash}
+                      </a>
+                    </div>
+                  </div>
+                )}
+                {transactionUrl && (
+                  <a
+                    href={transactionUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={{ display: 'inline-block', marginTop: '8px', fontSize: '14px', color: '#1976d2' }}
+                  >
+                    View transaction
+                  </a>
+                )}
+                {mintedTokenId && (
+                  <a
+                    href={getVerifyRoute(mintedTokenId)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={{ display: 'inline-block', marginTop: '8px', marginLeft: transactionUrl ? '16px' : 0, fontSize: '14px', color: '#1976d2' }}
+                  >
+                    View provenance
+                  </a>
+                )}
               </div>
             )}
 
             {/* Error Display */}
-            {error && (
+            {(error || walletError) && (
               <div style={{
                 background: '#ffebee',
                 color: '#c62828',
@@ -307,7 +396,7 @@ export function NFTMintingModal({ isOpen, onClose, nftData, onMintSuccess }: NFT
                 marginBottom: '20px',
                 fontSize: '14px'
               }}>
-                {error}
+                {error || walletError}
               </div>
             )}
 
@@ -328,12 +417,12 @@ export function NFTMintingModal({ isOpen, onClose, nftData, onMintSuccess }: NFT
                 marginBottom: '15px'
               }}
             >
-              {minting ? 'Minting...' : `Mint NFT (${contractInfo?.mintPrice || '0.001'} MATIC)`}
+              {uploadingToIPFS ? 'Uploading to IPFS...' : minting ? 'Minting...' : `Mint NFT (${contractInfo?.mintPrice || '0.001'} ${currency})`}
             </button>
 
             {/* Info */}
             <div style={{ fontSize: '12px', color: '#666', textAlign: 'center' }}>
-              Your NFT will be minted on Polygon network with extremely low gas fees.
+              Your NFT will be minted on {chain.name}{chain.testnet ? ' (testnet)' : ''}.
               <br />
               This creates a permanent, tradeable digital asset of your configuration.
             </div>
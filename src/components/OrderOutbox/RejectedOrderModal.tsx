@@ -0,0 +1,123 @@
+// src/components/OrderOutbox/RejectedOrderModal.tsx
+import { useState, CSSProperties } from 'react';
+import { orderService, RejectedOrder, isChallengeRequired } from '../../services/orderService';
+import type { BotProtectionProvider, BotProtectionToken } from '../../services/botProtectionService';
+import { getCaptchaFields } from '../../utils/orderPayload';
+import { ChallengeWidget } from '../BotProtection/ChallengeWidget';
+
+interface RejectedOrderModalProps {
+  order: RejectedOrder;
+  provider: BotProtectionProvider;
+  onSent: (order: RejectedOrder, redirectUrl: string) => void;
+  onDiscarded: (order: RejectedOrder) => void;
+}
+
+const button: CSSProperties = {
+  flex: 1,
+  border: 'none',
+  borderRadius: '8px',
+  padding: '12px 18px',
+  fontSize: '14px',
+  fontWeight: '600',
+  cursor: 'pointer',
+  fontFamily: 'Inter, system-ui, sans-serif'
+};
+
+const row: CSSProperties = { display: 'flex', justifyContent: 'space-between', gap: '12px', fontSize: '13px', color: '#ccc', padding: '3px 0' };
+
+/**
+ * A queued order the server refused after the customer was told it would be
+ * sent. Shows what was saved and lets the customer solve a challenge and
+ * resend it, or discard it.
+ */
+export function RejectedOrderModal({ order, provider, onSent, onDiscarded }: RejectedOrderModalProps) {
+  const [message, setMessage] = useState(order.message);
+  const [challengeRequired, setChallengeRequired] = useState(order.challengeRequired && provider.supportsChallenge);
+  const [busy, setBusy] = useState(false);
+  const { request } = order;
+
+  const resend = async (challengeToken?: BotProtectionToken) => {
+    setBusy(true);
+    try {
+      const redirectUrl = await orderService.resendQueuedOrder(request.idempotency_key, challengeToken && getCaptchaFields(challengeToken));
+      onSent(order, redirectUrl);
+    } catch (error) {
+      console.error('Resending queued order failed:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to send the order. Please try again.');
+      setChallengeRequired(isChallengeRequired(error) && provider.supportsChallenge);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const discard = async () => {
+    setBusy(true);
+    try {
+      await orderService.discardQueuedOrder(request.idempotency_key);
+      onDiscarded(order);
+    } catch (error) {
+      console.error('Discarding queued order failed:', error);
+      setMessage(error instanceof Error ? error.message : 'Failed to discard the order.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div style={{
+      position: 'fixed',
+      inset: 0,
+      background: 'rgba(0, 0, 0, 0.85)',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      zIndex: 999999,
+      padding: '16px'
+    }}>
+      <div style={{
+        background: '#1a1a1a',
+        color: 'white',
+        borderRadius: '12px',
+        padding: '24px',
+        width: '100%',
+        maxWidth: '440px',
+        fontFamily: 'Inter, system-ui, sans-serif',
+        boxShadow: '0 20px 60px rgba(0, 0, 0, 0.5)'
+      }}>
+        <h3 style={{ margin: '0 0 8px', fontSize: '18px' }}>Your saved order was not sent</h3>
+        <p style={{ margin: '0 0 16px', fontSize: '13px', color: '#ef4444' }}>{message}</p>
+
+        <div style={{ background: '#2a2a2a', borderRadius: '8px', padding: '10px 14px', marginBottom: '16px' }}>
+          <div style={row}><span>Configuration</span><span>{request.config_id}</span></div>
+          <div style={row}><span>Name</span><span>{request.customer_name}</span></div>
+          <div style={row}><span>Email</span><span>{request.customer_email}</span></div>
+          <div style={row}><span>Phone</span><span>{request.customer_phone}</span></div>
+          <div style={row}><span>Saved</span><span>{new Date(order.queuedAt).toLocaleString()}</span></div>
+        </div>
+
+        {challengeRequired && !busy && (
+          <ChallengeWidget provider={provider} onSolved={(token) => resend(token)} />
+        )}
+
+        <div style={{ display: 'flex', gap: '10px' }}>
+          <button
+            onClick={discard}
+            disabled={busy}
+            style={{ ...button, background: '#4a4a4a', color: 'white', cursor: busy ? 'not-allowed' : 'pointer' }}
+          >
+            Discard
+          </button>
+          {!challengeRequired && (
+            <button
+              onClick={() => resend()}
+              disabled={busy}
+              style={{ ...button, background: '#BA2025', color: 'white', cursor: busy ? 'not-allowed' : 'pointer' }}
+            >
+              {busy ? 'Sending...' : 'Send again'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
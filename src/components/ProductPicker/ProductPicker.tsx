@@ -0,0 +1,125 @@
+// src/components/ProductPicker/ProductPicker.tsx
+import type { CatalogEntry } from '../../utils/catalog';
+
+interface ProductPickerProps {
+  products: CatalogEntry[];
+  activeSku?: string | null;
+  onSelect: (product: CatalogEntry) => void;
+  onClose?: () => void; // Only offered when a product is already loaded
+}
+
+/**
+ * Full-screen list of the products in the catalog
+ */
+export function ProductPicker({ products, activeSku, onSelect, onClose }: ProductPickerProps) {
+  return (
+    <div
+      onClick={(e) => {
+        if (onClose && e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: 'linear-gradient(to bottom right, #FAF9F6, #EAE8E4)',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 999999,
+        padding: '20px',
+        overflowY: 'auto',
+        animation: 'fadeIn 0.3s ease-in'
+      }}
+    >
+      <img
+        src="/logo.png"
+        alt="CheyTac USA"
+        style={{ height: '80px', width: 'auto', marginBottom: '20px' }}
+      />
+      <div style={{
+        color: '#BA2025',
+        fontSize: '16px',
+        fontWeight: '700',
+        letterSpacing: '1px',
+        marginBottom: '30px',
+        fontFamily: 'Inter, system-ui, sans-serif'
+      }}>
+        SELECT A RIFLE TO CONFIGURE
+      </div>
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(260px, 1fr))',
+        gap: '20px',
+        width: '100%',
+        maxWidth: '900px'
+      }}>
+        {products.map(product => {
+          const isActive = product.sku === activeSku;
+          return (
+            <button
+              key={product.sku}
+              onClick={() => onSelect(product)}
+              style={{
+                background: 'linear-gradient(135deg, #1a1a1a 0%, #2a2a2a 100%)',
+                border: isActive ? '3px solid #BA2025' : '3px solid transparent',
+                borderRadius: '12px',
+                padding: '20px',
+                cursor: 'pointer',
+                textAlign: 'left',
+                color: 'white',
+                fontFamily: 'Inter, system-ui, sans-serif',
+                boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+                transition: 'all 0.2s ease'
+              }}
+            >
+              {product.thumbnail && (
+                <img
+                  src={product.thumbnail}
+                  alt={product.name}
+                  style={{ width: '100%', height: '140px', objectFit: 'contain', marginBottom: '15px' }}
+                />
+              )}
+              <div style={{ fontSize: '18px', fontWeight: '700', marginBottom: '6px' }}>
+                {product.name}
+              </div>
+              {product.description && (
+                <div style={{ fontSize: '13px', color: '#ccc', lineHeight: '1.5' }}>
+                  {product.description}
+                </div>
+              )}
+              <div style={{ fontSize: '11px', color: '#888', marginTop: '10px', letterSpacing: '1px' }}>
+                {isActive ? 'CURRENTLY CONFIGURING' : product.sku}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {onClose && (
+        <button
+          onClick={onClose}
+          style={{
+            marginTop: '30px',
+            background: '#4a4a4a',
+            color: 'white',
+            border: 'none',
+            borderRadius: '8px',
+            padding: '12px 24px',
+            fontSize: '14px',
+            fontWeight: '600',
+            cursor: 'pointer',
+            fontFamily: 'Inter, system-ui, sans-serif'
+          }}
+        >
+          Back to Configurator
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+// src/components/Provenance/ProvenancePage.tsx
+import { useCallback, useEffect, useRef, useState, Suspense, CSSProperties } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { useConfigStore } from '../../state/useConfigStore';
+import { validateManifest, ProductManifest } from '../../utils/manifestValidator';
+import { Catalog, findCatalogEntry, getManifestUrl, getProductAssetPath, getProductRoute } from '../../utils/catalog';
+import { encodeConfigCode } from '../../utils/configCode';
+import { getModelFile } from '../../utils/resolveConfiguration';
+import { waitForTextures } from '../../utils/offscreenRenderer';
+import { getExplorerAddressUrl } from '../../utils/chains';
+import {
+  fetchTokenProvenance,
+  validateConfiguration,
+  compareModel,
+  TokenProvenance,
+  ConfigurationValidation,
+  ProvenanceCheck,
+  CheckStatus,
+} from '../../utils/provenance';
+import { web3Service } from '../../services/web3Service';
+import { ipfsService } from '../../services/ipfsService';
+import { RifleModel, ViewerLighting, CameraSetup, LoadingFallback } from '../ModelViewer/TestModelViewer';
+
+interface ProvenancePageProps {
+  id: string; // token id or configuration id from the route
+  catalog: Catalog;
+  assetRoot: string;
+}
+
+interface LoadedToken {
+  provenance: TokenProvenance;
+  manifest: ProductManifest;
+  productPath: string;
+  validation: ConfigurationValidation;
+}
+
+const STATUS_STYLES: Record<CheckStatus | 'pending', { icon: string; color: string }> = {
+  pass: { icon: '✓', color: '#22c55e' },
+  warn: { icon: '!', color: '#f59e0b' },
+  fail: { icon: '✕', color: '#ef4444' },
+  pending: { icon: '…', color: '#999' },
+};
+
+// Shown until the re-exported model has been compared
+const MODEL_PENDING: { label: string; status: CheckStatus | 'pending'; detail: string } = {
+  label: '3D model',
+  status: 'pending',
+  detail: 'Re-exporting the build to compare with the minted model...',
+};
+
+const row: CSSProperties = { display: 'flex', justifyContent: 'space-between', gap: '12px', fontSize: '13px', color: '#ccc', padding: '4px 0' };
+const link: CSSProperties = { color: '#60a5fa', wordBreak: 'break-all', textAlign: 'right' };
+
+/**
+ * Looks a minted configuration up from its token, checks what the token
+ * records against the current manifest, re-renders the build and compares
+ * a fresh GLB export with the minted model.
+ *
+ * The root carries `data-provenance-status` so headless runs can wait on it.
+ */
+export function ProvenancePage({ id, catalog, assetRoot }: ProvenancePageProps) {
+  const [token, setToken] = useState<LoadedToken | null>(null);
+  const [modelCheck, setModelCheck] = useState<ProvenanceCheck | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const subjectRef = useRef<THREE.Group>(null);
+  const comparedRef = useRef(false);
+  const chain = web3Service.getChain();
+
+  // Token, metadata and the manifest of the product it was minted for
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const provenance = await fetchTokenProvenance(id);
+        const { sku } = provenance.metadata.properties.configuration_data;
+        const entry = findCatalogEntry(catalog, sku);
+        if (!entry) throw new Error(`Token ${provenance.tokenId} is for "${sku}", which is no longer in the catalog`);
+
+        const response = await fetch(getManifestUrl(entry));
+        if (!response.ok) throw new Error(`Failed to load manifest: ${response.statusText}`);
+        const manifest = validateManifest(await response.json());
+        if (cancelled) return;
+
+        // The viewer resolves materials against the store's manifest
+        const productPath = getProductAssetPath(assetRoot, entry);
+        useConfigStore.getState().loadManifest(manifest, productPath);
+        setToken({ provenance, manifest, productPath, validation: validateConfiguration(manifest, provenance) });
+      } catch (err) {
+        console.error('Provenance lookup failed:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    setToken(null);
+    setModelCheck(null);
+    setError(null);
+    comparedRef.current = false;
+    load();
+    return () => { cancelled = true; };
+  }, [id, catalog, assetRoot]);
+
+  // Once the build is on the model, export it the way minting did and compare
+  const handleMaterialsApplied = useCallback(async () => {
+    const model = subjectRef.current;
+    if (!token || !model || comparedRef.current) return;
+    comparedRef.current = true;
+
+    try {
+      await waitForTextures(model);
+      setModelCheck(await compareModel(model, token.provenance.modelCid));
+    } catch (err) {
+      console.error('Model comparison failed:', err);
+      setModelCheck({ label: '3D model', status: 'warn', detail: `Could not re-export the model: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  }, [token]);
+
+  const checks = token ? [...token.validation.checks, ...(modelCheck ? [modelCheck] : [])] : [];
+  const listedChecks = token && !modelCheck ? [...checks, MODEL_PENDING] : checks;
+  const verdict: CheckStatus | 'pending' = error || checks.some(check => check.status === 'fail')
+    ? 'fail'
+    : !modelCheck ? 'pending' : checks.some(check => check.status === 'warn') ? 'warn' : 'pass';
+  const verdictText = {
+    pass: 'Verified: this token matches the configuration and model',
+    warn: 'Verified with warnings',
+    fail: error ? 'Could not verify this token' : 'Mismatch found',
+    pending: 'Verifying...',
+  }[verdict];
+
+  const metadata = token?.provenance.metadata;
+  const ownerUrl = token?.provenance.owner ? getExplorerAddressUrl(chain, token.provenance.owner) : null;
+  const configuratorUrl = token
+    ? `${getProductRoute(token.manifest.sku)}?config=${encodeConfigCode(token.manifest, token.validation.selection)}`
+    : null;
+
+  return (
+    <div
+      data-provenance-status={verdict}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: '#1a1a1a',
+        color: 'white',
+        fontFamily: 'Inter, system-ui, sans-serif',
+        display: 'flex',
+        flexWrap: 'wrap',
+        overflowY: 'auto'
+      }}
+    >
+      {/* Token details and checks */}
+      <div style={{ flex: '1 1 360px', maxWidth: '520px', padding: '24px', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <div>
+          <img src="/logo.png" alt="CheyTac USA" style={{ height: '36px', width: 'auto', marginBottom: '12px' }} />
+          <h2 style={{ margin: 0, fontSize: '20px' }}>Configuration Provenance</h2>
+          <div style={{ fontSize: '13px', color: '#999', marginTop: '4px' }}>{metadata?.name ?? id}</div>
+        </div>
+
+        <div style={{
+          padding: '12px 14px',
+          borderRadius: '8px',
+          border: `1px solid ${STATUS_STYLES[verdict].color}`,
+          color: STATUS_STYLES[verdict].color,
+          fontWeight: 600,
+          fontSize: '14px'
+        }}>
+          {STATUS_STYLES[verdict].icon} {verdictText}
+        </div>
+
+        {error && (
+          <div style={{ fontSize: '13px', color: '#ef4444', whiteSpace: 'pre-line' }}>{error}</div>
+        )}
+
+        {token && metadata && (
+          <div style={{ background: '#2a2a2a', borderRadius: '8px', padding: '12px 14px' }}>
+            <div style={row}><span>Token</span><span>#{token.provenance.tokenId}</span></div>
+            <div style={row}><span>Configuration ID</span><span>{metadata.properties.configuration_id}</span></div>
+            <div style={row}><span>Network</span><span>{chain.name}</span></div>
+            {token.provenance.owner && (
+              <div style={row}>
+                <span>Owner</span>
+                {ownerUrl
+                  ? <a href={ownerUrl} target="_blank" rel="noopener noreferrer" style={link}>{token.provenance.owner}</a>
+                  : <span style={{ wordBreak: 'break-all', textAlign: 'right' }}>{token.provenance.owner}</span>}
+              </div>
+            )}
+            {metadata.properties.created_at && (
+              <div style={row}><span>Minted</span><span>{new Date(metadata.properties.created_at).toLocaleString()}</span></div>
+            )}
+            <div style={row}>
+              <span>Metadata</span>
+              <a href={ipfsService.toGatewayUrl(token.provenance.tokenURI)} target="_blank" rel="noopener noreferrer" style={link}>
+                {token.provenance.tokenURI}
+              </a>
+            </div>
+          </div>
+        )}
+
+        {token && (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+            {listedChecks.map(check => (
+              <div key={check.label} style={{ display: 'flex', gap: '10px', fontSize: '13px' }}>
+                <span style={{ color: STATUS_STYLES[check.status].color, fontWeight: 700, width: '14px' }}>
+                  {STATUS_STYLES[check.status].icon}
+                </span>
+                <div>
+                  <div style={{ fontWeight: 600 }}>{check.label}</div>
+                  <div style={{ color: '#aaa', wordBreak: 'break-word' }}>{check.detail}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {configuratorUrl && (
+          <a
+            href={configuratorUrl}
+            style={{
+              marginTop: 'auto',
+              background: '#BA2025',
+              color: 'white',
+              textAlign: 'center',
+              textDecoration: 'none',
+              padding: '12px',
+              borderRadius: '8px',
+              fontWeight: 600,
+              fontSize: '14px'
+            }}
+          >
+            Open in Configurator
+          </a>
+        )}
+      </div>
+
+      {/* The recorded build, re-rendered */}
+      <div style={{ flex: '2 1 480px', minHeight: '360px', background: 'linear-gradient(to bottom right, #FAF9F6, #EAE8E4)' }}>
+        <Canvas
+          camera={{ fov: 50, near: 0.1, far: 1000 }}
+          gl={{ logarithmicDepthBuffer: true, antialias: true }}
+          dpr={Math.min(window.devicePixelRatio, 2)}
+        >
+          <CameraSetup distance={14} />
+          <OrbitControls makeDefault enablePan={false} minDistance={7} maxDistance={20} />
+          <ViewerLighting />
+          {token && (
+            <Suspense fallback={<LoadingFallback />}>
+              <group ref={subjectRef}>
+                <RifleModel
+                  productPath={token.productPath}
+                  modelFile={getModelFile(token.manifest, token.validation.selection.selectedSuppressor)}
+                  selection={token.validation.selection}
+                  interactive={false}
+                  onMaterialsApplied={handleMaterialsApplied}
+                />
+              </group>
+            </Suspense>
+          )}
+        </Canvas>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+// src/components/SavedBuilds/SavedBuildsPanel.tsx
+import { useEffect, useRef, useState, CSSProperties } from 'react';
+import { useConfigStore } from '../../state/useConfigStore';
+import { pickSelection } from '../../utils/selection';
+import { exportService, BUILD_THUMBNAIL } from '../../services/exportService';
+import { savedBuildsService, SavedBuild } from '../../services/savedBuildsService';
+
+interface SavedBuildsPanelProps {
+  onClose: () => void;
+  onLoadBuild: (build: SavedBuild) => void;
+}
+
+const smallButton: CSSProperties = {
+  background: '#4a4a4a',
+  color: 'white',
+  border: 'none',
+  borderRadius: '6px',
+  padding: '6px 10px',
+  fontSize: '12px',
+  fontWeight: '600',
+  cursor: 'pointer',
+  fontFamily: 'Inter, system-ui, sans-serif'
+};
+
+/**
+ * Library of named builds: save the current configuration, load, rename,
+ * duplicate or delete saved ones, and move the library between machines
+ * as a JSON file
+ */
+export function SavedBuildsPanel({ onClose, onLoadBuild }: SavedBuildsPanelProps) {
+  const { manifest, configId } = useConfigStore();
+  const [builds, setBuilds] = useState<SavedBuild[]>([]);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [status, setStatus] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    try {
+      setBuilds(await savedBuildsService.list());
+    } catch (error) {
+      console.error('Failed to load saved builds:', error);
+      setStatus({ message: (error as Error).message, type: 'error' });
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  // Wraps a library operation with the busy flag, a refresh and a status line
+  const run = async (operation: () => Promise<string | void>) => {
+    setBusy(true);
+    try {
+      const message = await operation();
+      if (message) setStatus({ message, type: 'success' });
+      await refresh();
+    } catch (error) {
+      console.error('Saved builds operation failed:', error);
+      setStatus({ message: (error as Error).message, type: 'error' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => run(async () => {
+    const state = useConfigStore.getState();
+    if (!state.manifest) return;
+
+    const name = newName.trim() || `${state.manifest.productName} ${new Date().toLocaleDateString()}`;
+
+    await savedBuildsService.save({
+      name,
+      sku: state.manifest.sku,
+      productName: state.manifest.productName,
+      selection: pickSelection(state),
+      thumbnail: await exportService.captureDataUrl(BUILD_THUMBNAIL).catch(error => {
+        console.warn('Saving build without a thumbnail:', error);
+        return null;
+      }),
+    });
+    setNewName('');
+    return `Saved "${name}"`;
+  });
+
+  const handleRename = (build: SavedBuild) => run(async () => {
+    await savedBuildsService.rename(build.id, editingName);
+    setEditingId(null);
+  });
+
+  const handleDelete = (build: SavedBuild) => {
+    if (!window.confirm(`Delete "${build.name}"?`)) return;
+    run(async () => {
+      await savedBuildsService.remove(build.id);
+      return `Deleted "${build.name}"`;
+    });
+  };
+
+  const handleExport = () => run(async () => {
+    const library = await savedBuildsService.exportLibrary();
+    const blob = new Blob([JSON.stringify(library, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `saved-builds-${new Date().toISOString().split('T')[0]}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    return `Exported ${library.builds.length} build${library.builds.length === 1 ? '' : 's'}`;
+  });
+
+  const handleImport = (file: File) => run(async () => {
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`${file.name} is not a JSON file`);
+    }
+    const { added, updated, skipped } = await savedBuildsService.importLibrary(data);
+    return `Imported ${added} new, ${updated} updated, ${skipped} already up to date`;
+  });
+
+  return (
+    <div
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        background: 'rgba(0, 0, 0, 0.6)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 100000,
+        padding: '20px'
+      }}
+    >
+      <div style={{
+        background: '#1a1a1a',
+        borderRadius: '12px',
+        width: '100%',
+        maxWidth: '640px',
+        maxHeight: '85vh',
+        display: 'flex',
+        flexDirection: 'column',
+        color: 'white',
+        fontFamily: 'Inter, system-ui, sans-serif',
+        boxShadow: '0 8px 32px rgba(0, 0, 0, 0.5)'
+      }}>
+        {/* Header */}
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          padding: '16px 24px',
+          borderBottom: '1px solid rgba(255,255,255,0.2)'
+        }}>
+          <div style={{ fontSize: '18px', fontWeight: '700' }}>Saved Builds</div>
+          <button onClick={onClose} style={{ ...smallButton, background: 'transparent', fontSize: '20px' }}>×</button>
+        </div>
+
+        {/* Save current */}
+        <div style={{ display: 'flex', gap: '10px', padding: '16px 24px' }}>
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder={manifest ? `Name this build (${configId})` : 'Name this build'}
+            style={{
+              flex: 1,
+              padding: '10px 12px',
+              borderRadius: '6px',
+              border: '1px solid #4a4a4a',
+              background: '#2a2a2a',
+              color: 'white',
+              fontSize: '14px'
+            }}
+          />
+          <button
+            onClick={handleSave}
+            disabled={busy || !manifest}
+            style={{ ...smallButton, background: '#BA2025', padding: '10px 16px', fontSize: '14px' }}
+          >
+            Save Current Build
+          </button>
+        </div>
+
+        {status && (
+          <div style={{
+            margin: '0 24px 10px',
+            fontSize: '13px',
+            color: status.type === 'error' ? '#e6a23c' : '#8fd19e'
+          }}>
+            {status.message}
+          </div>
+        )}
+
+        {/* Library */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: '0 24px', display: 'flex', flexDirection: 'column', gap: '10px' }}>
+          {builds.length === 0 && (
+            <div style={{ color: '#888', fontSize: '14px', padding: '20px 0', textAlign: 'center' }}>
+              No saved builds yet
+            </div>
+          )}
+
+          {builds.map(build => (
+            <div
+              key={build.id}
+              style={{
+                display: 'flex',
+                gap: '12px',
+                alignItems: 'center',
+                padding: '10px',
+                borderRadius: '8px',
+                background: 'rgba(255,255,255,0.08)',
+                border: build.configId === configId ? '2px solid #BA2025' : '2px solid transparent'
+              }}
+            >
+              {build.thumbnail ? (
+                <img
+                  src={build.thumbnail}
+                  alt={build.name}
+                  style={{ width: '96px', height: '54px', objectFit: 'cover', borderRadius: '4px', flexShrink: 0 }}
+                />
+              ) : (
+                <div style={{ width: '96px', height: '54px', borderRadius: '4px', background: '#2a2a2a', flexShrink: 0 }} />
+              )}
+
+              <div style={{ flex: 1, minWidth: 0 }}>
+                {editingId === build.id ? (
+                  <input
+                    autoFocus
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename(build);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    onBlur={() => handleRename(build)}
+                    style={{
+                      width: '100%',
+                      padding: '4px 6px',
+                      borderRadius: '4px',
+                      border: '1px solid #BA2025',
+                      background: '#2a2a2a',
+                      color: 'white',
+                      fontSize: '14px'
+                    }}
+                  />
+                ) : (
+                  <div style={{ fontWeight: '600', fontSize: '14px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {build.name}
+                  </div>
+                )}
+                <div style={{ fontSize: '11px', color: '#888', marginTop: '4px' }}>
+                  {build.productName} · {build.configId} · {new Date(build.updatedAt).toLocaleString()}
+                </div>
+              </div>
+
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px', justifyContent: 'flex-end', maxWidth: '200px' }}>
+                <button onClick={() => onLoadBuild(build)} disabled={busy} style={{ ...smallButton, background: '#BA2025' }}>
+                  Load
+                </button>
+                <button
+                  onClick={() => {
+                    setEditingId(build.id);
+                    setEditingName(build.name);
+                  }}
+                  disabled={busy}
+                  style={smallButton}
+                >
+                  Rename
+                </button>
+                <button onClick={() => run(async () => { await savedBuildsService.duplicate(build.id); })} disabled={busy} style={smallButton}>
+                  Duplicate
+                </button>
+                <button onClick={() => handleDelete(build)} disabled={busy} style={smallButton}>
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '10px',
+          padding: '16px 24px',
+          borderTop: '1px solid rgba(255,255,255,0.2)'
+        }}>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+          <button onClick={() => fileInputRef.current?.click()} disabled={busy} style={{ ...smallButton, padding: '10px 16px' }}>
+            Import Library
+          </button>
+          <button onClick={handleExport} disabled={busy || builds.length === 0} style={{ ...smallButton, padding: '10px 16px' }}>
+            Export Library
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
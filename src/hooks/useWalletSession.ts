@@ -0,0 +1,29 @@
+// src/hooks/useWalletSession.ts
+import { useEffect } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useWalletStore } from '../state/useWalletStore';
+
+/**
+ * The wallet session for components: discovered wallets, the connected
+ * account and network, and the actions on them. Starts wallet discovery
+ * (and restores the last session) the first time it is used.
+ */
+export const useWalletSession = () => {
+  useEffect(() => {
+    useWalletStore.getState().startDiscovery();
+  }, []);
+
+  return useWalletStore(useShallow(state => ({
+    wallets: state.wallets,
+    account: state.account,
+    chainId: state.chainId,
+    wrongChain: state.wrongChain,
+    balance: state.balance,
+    status: state.status,
+    error: state.error,
+    connect: state.connect,
+    disconnect: state.disconnect,
+    switchChain: state.switchChain,
+    refreshBalance: state.refreshBalance,
+  })));
+};
@@ -0,0 +1,341 @@
+// src/services/botProtectionService.ts
+import { appConfig, AppConfig, CaptchaProviderName } from '../utils/appConfig';
+
+const TOKEN_TIMEOUT_MS = 10000;
+
+export type CaptchaMode = 'invisible' | 'challenge';
+
+export interface BotProtectionToken {
+  provider: CaptchaProviderName;
+  token: string;
+  mode: CaptchaMode; // tells the backend which secret/threshold to verify against
+}
+
+export interface ChallengeCallbacks {
+  onSolved: (token: BotProtectionToken) => void;
+  onExpired?: () => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * A bot check the order flow can run before submitting. `getToken` runs the
+ * invisible check; when that fails (script blocked, low score) and
+ * `supportsChallenge` is true, `renderChallenge` shows a widget the customer
+ * solves instead.
+ */
+export interface BotProtectionProvider {
+  readonly name: CaptchaProviderName;
+  readonly supportsChallenge: boolean;
+  preload(): Promise<void>;
+  getToken(action: string): Promise<BotProtectionToken>;
+  /** Renders the challenge widget into `container`. Returns a cleanup function. */
+  renderChallenge(container: HTMLElement, callbacks: ChallengeCallbacks): () => void;
+}
+
+// ============================================
+// SCRIPT LOADING
+// ============================================
+
+const scriptPromises = new Map<string, Promise<void>>();
+
+function loadScript(src: string): Promise<void> {
+  const existing = scriptPromises.get(src);
+  if (existing) return existing;
+
+  const promise = new Promise<void>((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = src;
+    script.async = true;
+    script.defer = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      script.remove();
+      reject(new Error(`Failed to load ${src}`));
+    };
+    document.head.appendChild(script);
+  });
+
+  // Let the next call retry instead of caching the failure
+  promise.catch(() => scriptPromises.delete(src));
+  scriptPromises.set(src, promise);
+  return promise;
+}
+
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(message)), TOKEN_TIMEOUT_MS);
+    promise.then(resolve, reject).finally(() => clearTimeout(timer));
+  });
+}
+
+/**
+ * Off-screen host for invisible widgets, which still need a DOM node
+ */
+function createHiddenContainer(): HTMLElement {
+  const container = document.createElement('div');
+  container.style.position = 'fixed';
+  container.style.left = '-10000px';
+  container.style.top = '0';
+  document.body.appendChild(container);
+  return container;
+}
+
+// ============================================
+// reCAPTCHA v3
+// ============================================
+
+interface Grecaptcha {
+  ready(callback: () => void): void;
+  execute(siteKey: string, options: { action: string }): Promise<string>;
+  render(container: HTMLElement, options: Record<string, unknown>): number;
+  reset(widgetId?: number): void;
+}
+
+const getGrecaptcha = () => (window as unknown as { grecaptcha?: Grecaptcha }).grecaptcha;
+
+/**
+ * Score-based reCAPTCHA v3; the challenge is a v2 checkbox, which needs its own site key
+ */
+export class RecaptchaProvider implements BotProtectionProvider {
+  readonly name = 'recaptcha' as const;
+  private siteKey: string;
+  private challengeSiteKey: string | null;
+
+  constructor(siteKey: string, challengeSiteKey: string | null) {
+    this.siteKey = siteKey;
+    this.challengeSiteKey = challengeSiteKey;
+  }
+
+  get supportsChallenge() {
+    return this.challengeSiteKey !== null;
+  }
+
+  async preload() {
+    await loadScript(`https://www.google.com/recaptcha/api.js?render=${this.siteKey}`);
+    await new Promise<void>(resolve => getGrecaptcha()!.ready(resolve));
+  }
+
+  async getToken(action: string): Promise<BotProtectionToken> {
+    await withTimeout(this.preload(), 'reCAPTCHA did not load in time');
+    const token = await withTimeout(getGrecaptcha()!.execute(this.siteKey, { action }), 'reCAPTCHA timed out');
+    return { provider: this.name, token, mode: 'invisible' };
+  }
+
+  renderChallenge(container: HTMLElement, { onSolved, onExpired, onError }: ChallengeCallbacks) {
+    if (!this.challengeSiteKey) {
+      throw new Error('No reCAPTCHA challenge site key configured');
+    }
+
+    const challengeSiteKey = this.challengeSiteKey;
+    let widgetId: number | null = null;
+    let cancelled = false;
+
+    this.preload()
+      .then(() => {
+        if (cancelled) return;
+        widgetId = getGrecaptcha()!.render(container, {
+          sitekey: challengeSiteKey,
+          theme: 'dark',
+          callback: (token: string) => onSolved({ provider: this.name, token, mode: 'challenge' }),
+          'expired-callback': () => onExpired?.(),
+          'error-callback': () => onError?.(new Error('reCAPTCHA challenge failed')),
+        });
+      })
+      .catch(error => onError?.(error));
+
+    return () => {
+      cancelled = true;
+      if (widgetId !== null) getGrecaptcha()?.reset(widgetId);
+      container.innerHTML = '';
+    };
+  }
+}
+
+// ============================================
+// hCaptcha
+// ============================================
+
+interface Hcaptcha {
+  render(container: HTMLElement, options: Record<string, unknown>): string;
+  execute(widgetId: string, options: { async: true }): Promise<{ response: string }>;
+  reset(widgetId?: string): void;
+  remove(widgetId: string): void;
+}
+
+const getHcaptcha = () => (window as unknown as { hcaptcha?: Hcaptcha }).hcaptcha;
+
+/**
+ * hCaptcha with an invisible widget; the challenge is the regular checkbox
+ */
+export class HcaptchaProvider implements BotProtectionProvider {
+  readonly name = 'hcaptcha' as const;
+  readonly supportsChallenge = true;
+  private siteKey: string;
+  private challengeSiteKey: string;
+  private invisibleWidgetId: string | null = null;
+
+  constructor(siteKey: string, challengeSiteKey: string) {
+    this.siteKey = siteKey;
+    this.challengeSiteKey = challengeSiteKey;
+  }
+
+  async preload() {
+    await loadScript('https://js.hcaptcha.com/1/api.js?render=explicit');
+  }
+
+  async getToken(): Promise<BotProtectionToken> {
+    await withTimeout(this.preload(), 'hCaptcha did not load in time');
+    const hcaptcha = getHcaptcha()!;
+
+    if (this.invisibleWidgetId === null) {
+      this.invisibleWidgetId = hcaptcha.render(createHiddenContainer(), { sitekey: this.siteKey, size: 'invisible' });
+    } else {
+      hcaptcha.reset(this.invisibleWidgetId);
+    }
+
+    // Not wrapped in withTimeout: hCaptcha may pop up its own puzzle here
+    const { response } = await hcaptcha.execute(this.invisibleWidgetId, { async: true });
+    return { provider: this.name, token: response, mode: 'invisible' };
+  }
+
+  renderChallenge(container: HTMLElement, { onSolved, onExpired, onError }: ChallengeCallbacks) {
+    let widgetId: string | null = null;
+    let cancelled = false;
+
+    this.preload()
+      .then(() => {
+        if (cancelled) return;
+        widgetId = getHcaptcha()!.render(container, {
+          sitekey: this.challengeSiteKey,
+          theme: 'dark',
+          callback: (token: string) => onSolved({ provider: this.name, token, mode: 'challenge' }),
+          'expired-callback': () => onExpired?.(),
+          'error-callback': () => onError?.(new Error('hCaptcha challenge failed')),
+        });
+      })
+      .catch(error => onError?.(error));
+
+    return () => {
+      cancelled = true;
+      if (widgetId !== null) getHcaptcha()?.remove(widgetId);
+      container.innerHTML = '';
+    };
+  }
+}
+
+// ============================================
+// Cloudflare Turnstile
+// ============================================
+
+interface Turnstile {
+  render(container: HTMLElement, options: Record<string, unknown>): string;
+  remove(widgetId: string): void;
+}
+
+const getTurnstile = () => (window as unknown as { turnstile?: Turnstile }).turnstile;
+
+/**
+ * Turnstile rendered off-screen for the invisible check; the challenge is
+ * the same widget shown in the order form, forced to always be interactive
+ */
+export class TurnstileProvider implements BotProtectionProvider {
+  readonly name = 'turnstile' as const;
+  readonly supportsChallenge = true;
+  private siteKey: string;
+  private challengeSiteKey: string;
+
+  constructor(siteKey: string, challengeSiteKey: string) {
+    this.siteKey = siteKey;
+    this.challengeSiteKey = challengeSiteKey;
+  }
+
+  async preload() {
+    await loadScript('https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit');
+  }
+
+  async getToken(action: string): Promise<BotProtectionToken> {
+    await withTimeout(this.preload(), 'Turnstile did not load in time');
+    const turnstile = getTurnstile()!;
+    const container = createHiddenContainer();
+    let widgetId: string | null = null;
+
+    try {
+      const token = await withTimeout(new Promise<string>((resolve, reject) => {
+        widgetId = turnstile.render(container, {
+          sitekey: this.siteKey,
+          action,
+          appearance: 'interaction-only',
+          callback: resolve,
+          'error-callback': () => reject(new Error('Turnstile check failed')),
+          // An invisible widget that wants interaction can't get it off-screen
+          'before-interactive-callback': () => reject(new Error('Turnstile needs interaction')),
+        });
+      }), 'Turnstile timed out');
+      return { provider: this.name, token, mode: 'invisible' };
+    } finally {
+      if (widgetId !== null) turnstile.remove(widgetId);
+      container.remove();
+    }
+  }
+
+  renderChallenge(container: HTMLElement, { onSolved, onExpired, onError }: ChallengeCallbacks) {
+    let widgetId: string | null = null;
+    let cancelled = false;
+
+    this.preload()
+      .then(() => {
+        if (cancelled) return;
+        widgetId = getTurnstile()!.render(container, {
+          sitekey: this.challengeSiteKey,
+          theme: 'dark',
+          appearance: 'always',
+          callback: (token: string) => onSolved({ provider: this.name, token, mode: 'challenge' }),
+          'expired-callback': () => onExpired?.(),
+          'error-callback': () => onError?.(new Error('Turnstile challenge failed')),
+        });
+      })
+      .catch(error => onError?.(error));
+
+    return () => {
+      cancelled = true;
+      if (widgetId !== null) getTurnstile()?.remove(widgetId);
+      container.innerHTML = '';
+    };
+  }
+}
+
+// ============================================
+// NO-OP (development / mock backend)
+// ============================================
+
+export class NoopBotProtectionProvider implements BotProtectionProvider {
+  readonly name = 'none' as const;
+  readonly supportsChallenge = false;
+
+  async preload() {}
+
+  async getToken(): Promise<BotProtectionToken> {
+    return { provider: this.name, token: '', mode: 'invisible' };
+  }
+
+  renderChallenge(): () => void {
+    throw new Error('Bot protection is disabled, there is no challenge to show');
+  }
+}
+
+export function createBotProtectionProvider(config: AppConfig['captcha']): BotProtectionProvider {
+  switch (config.provider) {
+    case 'recaptcha':
+      return new RecaptchaProvider(config.siteKey, config.challengeSiteKey);
+    case 'hcaptcha':
+      return new HcaptchaProvider(config.siteKey, config.challengeSiteKey ?? config.siteKey);
+    case 'turnstile':
+      return new TurnstileProvider(config.siteKey, config.challengeSiteKey ?? config.siteKey);
+    case 'none':
+      return new NoopBotProtectionProvider();
+    default:
+      throw new Error(`Unknown bot protection provider: ${config.provider}`);
+  }
+}
+
+export const botProtection = createBotProtectionProvider(appConfig.captcha);
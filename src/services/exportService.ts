@@ -0,0 +1,193 @@
+// src/services/exportService.ts
+import * as THREE from 'three';
+import {
+  OffscreenRenderer,
+  waitForTextures,
+  blobToDataUrl,
+  VIEW_PRESETS,
+  VIEW_NAMES,
+  ViewName,
+  RenderBackground,
+  RenderFormat,
+  RenderOptions,
+  RenderedImage,
+} from '../utils/offscreenRenderer';
+import { Branding, DEFAULT_BRANDING, NO_BRANDING, loadBrandingLogo, drawBranding } from '../utils/branding';
+
+/**
+ * What the live configurator registers so exports can render its model
+ * without touching the page: the model root and the customer's camera
+ */
+export interface ExportTarget {
+  getModel: () => THREE.Object3D | null;
+  camera: THREE.Camera;
+}
+
+export interface ImageExportOptions {
+  view: ViewName | 'current'; // 'current' looks from where the customer's camera is
+  width: number;
+  height: number;
+  format: RenderFormat;
+  quality: number;            // WebP/JPEG quality, 0-1
+  background: RenderBackground;
+  branding: Branding;
+}
+
+export const DEFAULT_IMAGE_EXPORT: ImageExportOptions = {
+  view: 'current',
+  width: 1920,
+  height: 1080,
+  format: 'image/png',
+  quality: 0.92,
+  background: 'studio',
+  branding: DEFAULT_BRANDING,
+};
+
+// Presets for the places that capture the configurator
+export const ORDER_SCREENSHOT: Partial<ImageExportOptions> = {
+  width: 1200,
+  height: 800,
+  branding: NO_BRANDING,
+};
+
+export const BUILD_THUMBNAIL: Partial<ImageExportOptions> = {
+  width: 320,
+  height: 200,
+  format: 'image/jpeg',
+  quality: 0.8,
+  background: '#ffffff',
+  branding: NO_BRANDING,
+};
+
+export const IMAGE_EXTENSIONS: Record<RenderFormat, string> = {
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/jpeg': 'jpg',
+};
+
+/**
+ * Every image export goes through here: the download button, the order
+ * screenshot, saved-build thumbnails and NFT previews. Images are rendered
+ * from the model on a separate WebGL context, so nothing on the page has to
+ * be hidden or resized while they are taken.
+ */
+export class ExportService {
+  private target: ExportTarget | null = null;
+  private renderer: OffscreenRenderer | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Registers the live scene; returns the matching detach for effect cleanup
+   */
+  attach(target: ExportTarget): () => void {
+    this.target = target;
+    console.log('Export service attached to the configurator scene');
+    return () => {
+      if (this.target === target) this.target = null;
+    };
+  }
+
+  /**
+   * The configured rifle as currently shown in the configurator
+   */
+  getModel(): THREE.Object3D {
+    const model = this.target?.getModel();
+    if (!model) throw new Error('The configurator is not ready to export yet');
+    return model;
+  }
+
+  /**
+   * Runs `render` with the shared renderer (one GPU context for every
+   * export), one export at a time since they share its scene
+   */
+  private withRenderer<T>(render: (renderer: OffscreenRenderer) => Promise<T>): Promise<T> {
+    const run = this.queue.then(() => {
+      if (!this.renderer) this.renderer = new OffscreenRenderer();
+      return render(this.renderer);
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private getDirection(model: THREE.Object3D, view: ImageExportOptions['view']): THREE.Vector3 {
+    if (view !== 'current') return new THREE.Vector3(...VIEW_PRESETS[view].direction).normalize();
+
+    const camera = this.target?.camera;
+    if (!camera) return new THREE.Vector3(...VIEW_PRESETS.main.direction).normalize();
+    const center = new THREE.Box3().setFromObject(model).getCenter(new THREE.Vector3());
+    return camera.getWorldPosition(new THREE.Vector3()).sub(center).normalize();
+  }
+
+  /**
+   * Renders one image of the model (the live one unless another is given)
+   * with the branding drawn over it
+   */
+  async captureImage(overrides: Partial<ImageExportOptions> = {}, model?: THREE.Object3D): Promise<Blob> {
+    const options = { ...DEFAULT_IMAGE_EXPORT, ...overrides };
+    const subject = model ?? this.getModel();
+    await waitForTextures(subject);
+    const logo = await loadBrandingLogo(options.branding);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = options.width;
+    canvas.height = options.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D is not available');
+
+    await this.withRenderer(renderer => renderer.renderFrames(subject, [this.getDirection(subject, options.view)], frame => {
+      if (options.format === 'image/jpeg') {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      ctx.drawImage(frame, 0, 0);
+      drawBranding(ctx, options.branding, logo);
+    }, {
+      width: options.width,
+      height: options.height,
+      background: options.background,
+    }));
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        result => result ? resolve(result) : reject(new Error('Failed to encode image')),
+        options.format,
+        options.quality
+      );
+    });
+    console.log(`Exported ${options.view} image: ${options.width}x${options.height} ${blob.type}, ${blob.size} bytes`);
+    return blob;
+  }
+
+  async captureDataUrl(overrides: Partial<ImageExportOptions> = {}, model?: THREE.Object3D): Promise<string> {
+    return blobToDataUrl(await this.captureImage(overrides, model));
+  }
+
+  /**
+   * Unbranded renders from the view presets (NFT previews and the like)
+   */
+  async renderViews(
+    views: ViewName[] = VIEW_NAMES,
+    overrides: Partial<RenderOptions> = {},
+    model?: THREE.Object3D
+  ): Promise<RenderedImage[]> {
+    const subject = model ?? this.getModel();
+    await waitForTextures(subject);
+    return this.withRenderer(renderer => renderer.renderViews(subject, views, overrides));
+  }
+
+  download(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  dispose() {
+    this.renderer?.dispose();
+    this.renderer = null;
+  }
+}
+
+export const exportService = new ExportService();
@@ -0,0 +1,81 @@
+// src/services/ipfsService.ts
+import { appConfig, IpfsConfig } from '../utils/appConfig';
+import { computeCid } from '../utils/cid';
+
+export interface PinnedFile {
+  cid: string;
+  uri: string; // ipfs://<cid>
+  size: number;
+}
+
+async function readError(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  return `${response.status} ${response.statusText}${text ? `: ${text.slice(0, 200)}` : ''}`;
+}
+
+/**
+ * Adds files to IPFS through the upload endpoint (server/ipfs-upload-server.js),
+ * which pins them with credentials the browser never sees. Every file's CID
+ * is computed locally first and must match what the endpoint reports, so
+ * a token URI can't end up pointing at something other than what was built.
+ */
+export class IpfsService {
+  private config: IpfsConfig;
+
+  constructor(config: IpfsConfig = appConfig.ipfs) {
+    this.config = config;
+  }
+
+  async add(data: Blob | string, name: string): Promise<PinnedFile> {
+    if (!this.config.uploadUrl) throw new Error('IPFS uploads are not configured (VITE_IPFS_UPLOAD_URL is not set)');
+
+    const file = typeof data === 'string' ? new Blob([data], { type: 'application/json' }) : data;
+    const expected = await computeCid(file);
+    console.log(`Uploading ${name} (${file.size} bytes) to IPFS, expecting ${expected}`);
+
+    const form = new FormData();
+    form.append('file', file, name);
+    const response = await fetch(this.config.uploadUrl, { method: 'POST', body: form });
+    if (!response.ok) throw new Error(`IPFS upload of ${name} failed: ${await readError(response)}`);
+
+    const { cid } = await response.json() as { cid?: string };
+    if (!cid) throw new Error(`IPFS upload of ${name} returned no CID`);
+    if (cid !== expected) {
+      throw new Error(`IPFS returned ${cid} for ${name}, but its content hashes to ${expected}`);
+    }
+
+    console.log(`Pinned ${name} as ${cid}`);
+    return { cid, uri: `ipfs://${cid}`, size: file.size };
+  }
+
+  /**
+   * Fetches a file by ipfs:// URI (or bare CID) through the configured
+   * gateway, checking the content against its CID where possible. Other
+   * URLs are fetched as they are.
+   */
+  async get(uri: string): Promise<Blob> {
+    const isIpfs = uri.startsWith('ipfs://') || !/^[a-z]+:/i.test(uri);
+    const url = isIpfs ? this.toGatewayUrl(uri) : uri;
+
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Fetching ${uri} failed: ${await readError(response)}`);
+    const file = await response.blob();
+
+    // Only CIDv1 whole-file CIDs can be checked; computeCid doesn't do CIDv0 (Qm...) layouts or paths
+    const cid = isIpfs ? uri.replace(/^ipfs:\/\//, '') : null;
+    if (cid && /^b[a-z2-7]+$/.test(cid)) {
+      const actual = await computeCid(file);
+      if (actual !== cid) throw new Error(`The gateway returned content for ${actual} instead of ${cid}`);
+    }
+    return file;
+  }
+
+  /**
+   * HTTP URL for an ipfs:// URI (or bare CID) through the configured gateway
+   */
+  toGatewayUrl(uri: string): string {
+    return `${this.config.gatewayUrl}${uri.replace(/^ipfs:\/\//, '')}`;
+  }
+}
+
+export const ipfsService = new IpfsService();
@@ -0,0 +1,386 @@
+// src/services/orderService.ts
+import { z } from 'zod';
+import { openDatabase, withStore } from '../utils/indexedDb';
+import { appConfig, CAPTCHA_PROVIDERS } from '../utils/appConfig';
+
+const DB_NAME = 'product-configurator-orders';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'outbox';
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+
+// ============================================
+// configurator/v1/save CONTRACT
+// ============================================
+
+const PriceLineSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  amount: z.number(),
+});
+
+export const OrderRequestSchema = z.object({
+  finish: z.string(),
+  receiver_finish: z.string(),
+  barrel_finish: z.string(),
+  stock_finish: z.string(),
+  cheek_piece_finish: z.string(),
+  bolt_finish: z.string(),
+  magazine_finish: z.string(),
+  bipod_finish: z.string(),
+  handguard_finish: z.string(),
+  muzzle_brake_finish: z.string(),
+  pattern_name: z.string(),
+  caliber: z.string(),
+  muzzle_device: z.string(),
+  trigger: z.string(),
+  catalog_skus: z.record(z.string(), z.string()).optional(), // finish/caliber/muzzleDevice/trigger -> store SKU
+  price_total: z.number().optional(),
+  price_currency: z.string().optional(),
+  price_breakdown: z.array(PriceLineSchema).optional(),
+  customer_name: z.string().min(1),
+  customer_email: z.string().email(),
+  customer_phone: z.string().min(1),
+  email_opt_in: z.boolean(),
+  screenshot: z.string(), // PNG data URL, '' when not captured
+  config_id: z.string(),
+  configuration_date: z.string(),
+  finish_mode: z.enum(['colors', 'patterns']),
+  has_custom_parts: z.boolean(),
+  send_to_sales: z.boolean(),
+  recaptcha_token: z.string(), // token from whichever captcha_provider is configured
+  captcha_provider: z.enum(CAPTCHA_PROVIDERS),
+  captcha_mode: z.enum(['invisible', 'challenge']),
+  idempotency_key: z.string().min(1),
+});
+
+export const OrderResponseSchema = z.union([
+  z.object({
+    success: z.literal(true),
+    redirect_url: z.string(),
+  }),
+  z.object({
+    success: z.literal(false),
+    code: z.string().optional(), // e.g. 'recaptcha_failed'
+    message: z.string().optional(),
+  }),
+]);
+
+export type OrderRequest = z.infer<typeof OrderRequestSchema>;
+export type OrderResponse = z.infer<typeof OrderResponseSchema>;
+
+export type CaptchaFields = Pick<OrderRequest, 'recaptcha_token' | 'captcha_provider' | 'captcha_mode'>;
+
+export type OrderResult =
+  | { status: 'submitted'; redirectUrl: string }
+  | { status: 'queued' }; // offline: kept in the outbox until the browser is back online
+
+interface OutboxEntry {
+  idempotency_key: string;
+  request: OrderRequest;
+  queuedAt: string;
+  rejection?: OutboxRejection; // set once the server refuses it; no longer resent automatically
+}
+
+export interface OutboxRejection {
+  message: string;
+  challengeRequired: boolean; // goes through once the customer solves a challenge
+}
+
+/**
+ * A queued order the server refused. It stays in the outbox until the
+ * customer resends or discards it.
+ */
+export interface RejectedOrder extends OutboxRejection {
+  request: OrderRequest;
+  queuedAt: string;
+}
+
+export interface OutboxHandlers {
+  onSent?: (request: OrderRequest, redirectUrl: string) => void;
+  onRejected?: (order: RejectedOrder) => void;
+}
+
+/**
+ * Failures worth retrying: network errors, rate limiting and 5xx. Anything
+ * else (validation, captcha) fails the same way on every attempt.
+ */
+const retryableError = (message: string) => Object.assign(new Error(message), { retryable: true });
+const isRetryable = (error: unknown) => error instanceof Error && 'retryable' in error;
+
+/**
+ * The server didn't trust the captcha token (e.g. a low reCAPTCHA score).
+ * The order can go through after the customer solves a challenge widget.
+ */
+const challengeRequiredError = (message: string) => Object.assign(new Error(message), { challengeRequired: true });
+export const isChallengeRequired = (error: unknown) => error instanceof Error && 'challengeRequired' in error;
+
+const getRejection = (error: unknown): OutboxRejection => ({
+  message: error instanceof Error ? error.message : String(error),
+  challengeRequired: isChallengeRequired(error),
+});
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Sends configurator orders to the configurator/v1/save endpoint with retries,
+ * an offline outbox and duplicate protection
+ */
+export class OrderService {
+  private endpoint: string;
+  private inFlight = new Map<string, Promise<OrderResult>>();
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private refreshToken: (() => Promise<CaptchaFields>) | null = null;
+  private flushing = false;
+
+  constructor(endpoint: string = appConfig.orderEndpoint) {
+    this.endpoint = endpoint;
+  }
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'idempotency_key' });
+        }
+      });
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * Captcha tokens expire within minutes, so queued orders get a fresh one
+   * before they are resent
+   */
+  setTokenRefresher(refresh: () => Promise<CaptchaFields>) {
+    this.refreshToken = refresh;
+  }
+
+  /**
+   * Submits an order. Concurrent calls with the same idempotency key share
+   * one request; when the browser is offline the order is queued instead.
+   * An invalid request rejects like any other failure.
+   */
+  async submit(request: OrderRequest): Promise<OrderResult> {
+    const key = request.idempotency_key;
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      console.log('Order already in flight, reusing request:', key);
+      return existing;
+    }
+
+    const promise = this.submitOrQueue(OrderRequestSchema.parse(request)).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private async submitOrQueue(request: OrderRequest): Promise<OrderResult> {
+    if (!navigator.onLine) {
+      await this.enqueue(request);
+      return { status: 'queued' };
+    }
+
+    try {
+      const redirectUrl = await this.sendWithRetry(request);
+      return { status: 'submitted', redirectUrl };
+    } catch (error) {
+      // Lost the connection mid-way: keep the order rather than the error
+      if (isRetryable(error) && !navigator.onLine) {
+        await this.enqueue(request);
+        return { status: 'queued' };
+      }
+      throw error;
+    }
+  }
+
+  private async sendWithRetry(request: OrderRequest): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.send(request);
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= MAX_ATTEMPTS) {
+          throw error;
+        }
+        // 1s, 2s, 4s ... plus jitter so a recovering server isn't hit all at once
+        const wait = BASE_DELAY_MS * 2 ** (attempt - 1) + Math.random() * 250;
+        console.warn(`Order attempt ${attempt} failed, retrying in ${Math.round(wait)}ms:`, (error as Error).message);
+        await delay(wait);
+      }
+    }
+  }
+
+  private async send(request: OrderRequest): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': request.idempotency_key,
+        },
+        body: JSON.stringify(request)
+      });
+    } catch {
+      throw retryableError('Network error. Please check your connection.');
+    }
+
+    if (response.status >= 500 || response.status === 429) {
+      throw retryableError(`Server error (${response.status})`);
+    }
+
+    let body: unknown;
+    try {
+      body = await response.json();
+    } catch {
+      throw new Error(`Unexpected response from order server (${response.status})`);
+    }
+
+    const parsed = OrderResponseSchema.safeParse(body);
+    if (!parsed.success) {
+      console.error('Invalid order response:', body, parsed.error.issues);
+      throw new Error('Unexpected response from order server');
+    }
+
+    const result = parsed.data;
+    if (result.success === true) {
+      return result.redirect_url;
+    }
+    if (result.code === 'recaptcha_failed') {
+      throw request.captcha_mode === 'challenge'
+        ? new Error('Security verification failed. Please refresh the page and try again.')
+        : challengeRequiredError('Please complete the security check to continue.');
+    }
+    throw new Error(result.message || 'Failed to save configuration');
+  }
+
+  // ============================================
+  // OUTBOX
+  // ============================================
+
+  private async enqueue(request: OrderRequest) {
+    const db = await this.getDb();
+    const entry: OutboxEntry = { idempotency_key: request.idempotency_key, request, queuedAt: new Date().toISOString() };
+    await withStore(db, OUTBOX_STORE, 'readwrite', store => store.put(entry));
+    console.log('Order queued for when the browser is back online:', request.idempotency_key);
+  }
+
+  private async getOutboxEntries(): Promise<OutboxEntry[]> {
+    const db = await this.getDb();
+    return withStore<OutboxEntry[]>(db, OUTBOX_STORE, 'readonly', store => store.getAll());
+  }
+
+  private async getOutboxEntry(key: string): Promise<OutboxEntry> {
+    const db = await this.getDb();
+    const entry = await withStore<OutboxEntry | undefined>(db, OUTBOX_STORE, 'readonly', store => store.get(key));
+    if (!entry) throw new Error('This order is no longer saved');
+    return entry;
+  }
+
+  async getQueuedOrders(): Promise<OrderRequest[]> {
+    return (await this.getOutboxEntries()).map(entry => entry.request);
+  }
+
+  /**
+   * Sends one queued order and removes it once the server accepts it. A
+   * refusal is recorded on the entry and rethrown; the order stays queued
+   * either way.
+   */
+  private async sendQueued(entry: OutboxEntry, captcha: CaptchaFields): Promise<string> {
+    const db = await this.getDb();
+
+    try {
+      const redirectUrl = await this.sendWithRetry({
+        ...entry.request,
+        recaptcha_token: captcha.recaptcha_token,
+        captcha_provider: captcha.captcha_provider,
+        captcha_mode: captcha.captcha_mode,
+      });
+      await withStore(db, OUTBOX_STORE, 'readwrite', store => store.delete(entry.idempotency_key));
+      return redirectUrl;
+    } catch (error) {
+      if (!isRetryable(error)) {
+        const rejected: OutboxEntry = { ...entry, rejection: getRejection(error) };
+        await withStore(db, OUTBOX_STORE, 'readwrite', store => store.put(rejected));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Resends queued orders. Sent orders are removed and orders that still
+   * can't reach the server stay queued. Orders the server refuses stay
+   * queued as well and are handed to `onRejected` (now and on every later
+   * flush) until the customer resends or discards them.
+   */
+  async flushOutbox(handlers: OutboxHandlers = {}) {
+    if (this.flushing || !navigator.onLine) return;
+    this.flushing = true;
+
+    try {
+      for (const entry of await this.getOutboxEntries()) {
+        const { request } = entry;
+        if (entry.rejection) {
+          handlers.onRejected?.({ request, queuedAt: entry.queuedAt, ...entry.rejection });
+          continue;
+        }
+
+        let captcha: CaptchaFields = request;
+        try {
+          if (this.refreshToken) captcha = await this.refreshToken();
+        } catch (error) {
+          console.warn('Could not refresh captcha token, keeping order queued:', request.idempotency_key, error);
+          continue;
+        }
+
+        try {
+          handlers.onSent?.(request, await this.sendQueued(entry, captcha));
+        } catch (error) {
+          if (isRetryable(error)) {
+            console.warn('Queued order still cannot be sent:', request.idempotency_key);
+            continue;
+          }
+          console.error('Queued order rejected, keeping it for the customer:', request.idempotency_key, error);
+          handlers.onRejected?.({ request, queuedAt: entry.queuedAt, ...getRejection(error) });
+        }
+      }
+    } catch (error) {
+      console.error('Failed to flush order outbox:', error);
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * Sends again a queued order the server refused, e.g. with the token of a
+   * solved challenge. Returns the redirect URL once it has been accepted.
+   */
+  async resendQueuedOrder(key: string, captcha?: CaptchaFields): Promise<string> {
+    const entry = await this.getOutboxEntry(key);
+    return this.sendQueued(entry, captcha ?? (this.refreshToken ? await this.refreshToken() : entry.request));
+  }
+
+  async discardQueuedOrder(key: string) {
+    const db = await this.getDb();
+    await withStore(db, OUTBOX_STORE, 'readwrite', store => store.delete(key));
+    console.log('Queued order discarded:', key);
+  }
+
+  /**
+   * Sends queued orders now and whenever the browser comes back online.
+   * Returns a cleanup function.
+   */
+  startOutboxSync(handlers: OutboxHandlers = {}): () => void {
+    const handleOnline = () => this.flushOutbox(handlers);
+    window.addEventListener('online', handleOnline);
+    handleOnline();
+    return () => window.removeEventListener('online', handleOnline);
+  }
+}
+
+export const orderService = new OrderService();
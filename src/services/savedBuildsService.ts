@@ -0,0 +1,193 @@
+// src/services/savedBuildsService.ts
+import { z } from 'zod';
+import type { ConfigSelection } from '../utils/selection';
+import { generateConfigId } from '../utils/id';
+import { openDatabase, withStore } from '../utils/indexedDb';
+
+const DB_NAME = 'product-configurator-builds';
+const DB_VERSION = 1;
+const STORE_NAME = 'builds';
+
+export const LIBRARY_FILE_FORMAT = 'product-configurator-builds';
+export const LIBRARY_FILE_VERSION = 1;
+
+const SelectionSchema = z.object({
+  finishMode: z.enum(['colors', 'patterns']),
+  selectedPattern: z.string().nullable(),
+  selectedColors: z.record(z.string(), z.string()),
+  partColorOverrides: z.record(z.string(), z.string()),
+  selectedCaliber: z.string().nullable(),
+  selectedSuppressor: z.string().nullable(),
+  selectedTrigger: z.string().nullable(),
+  selectedOptions: z.record(z.string(), z.string()),
+});
+
+const SavedBuildSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  sku: z.string().min(1),
+  productName: z.string(),
+  selection: SelectionSchema,
+  configId: z.string(),
+  thumbnail: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const LibraryFileSchema = z.object({
+  format: z.literal(LIBRARY_FILE_FORMAT),
+  version: z.literal(LIBRARY_FILE_VERSION),
+  exportedAt: z.string(),
+  builds: z.array(SavedBuildSchema),
+});
+
+export interface SavedBuild {
+  id: string;
+  name: string;
+  sku: string;
+  productName: string;
+  selection: ConfigSelection;
+  configId: string;
+  thumbnail: string | null; // JPEG data URL
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LibraryFile {
+  format: typeof LIBRARY_FILE_FORMAT;
+  version: typeof LIBRARY_FILE_VERSION;
+  exportedAt: string;
+  builds: SavedBuild[];
+}
+
+export interface NewSavedBuild {
+  name: string;
+  sku: string;
+  productName: string;
+  selection: ConfigSelection;
+  thumbnail: string | null;
+}
+
+export interface ImportResult {
+  added: number;
+  updated: number;
+  skipped: number; // same build already in the library, and not older
+}
+
+/**
+ * Named configurations kept in IndexedDB, across products
+ */
+export class SavedBuildsService {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      });
+      // Let the next call retry instead of caching the failure
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async get(id: string): Promise<SavedBuild> {
+    const db = await this.getDb();
+    const build = await withStore<SavedBuild | undefined>(db, STORE_NAME, 'readonly', store => store.get(id));
+    if (!build) {
+      throw new Error(`Saved build ${id} not found`);
+    }
+    return build;
+  }
+
+  private async put(build: SavedBuild): Promise<SavedBuild> {
+    const db = await this.getDb();
+    await withStore(db, STORE_NAME, 'readwrite', store => store.put(build));
+    return build;
+  }
+
+  /**
+   * All builds, most recently changed first
+   */
+  async list(): Promise<SavedBuild[]> {
+    const db = await this.getDb();
+    const builds = await withStore<SavedBuild[]>(db, STORE_NAME, 'readonly', store => store.getAll());
+    return builds.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  async save(input: NewSavedBuild): Promise<SavedBuild> {
+    const now = new Date().toISOString();
+    console.log('Saving build:', input.name);
+
+    return this.put({
+      id: crypto.randomUUID(),
+      name: input.name.trim() || 'Untitled build',
+      sku: input.sku,
+      productName: input.productName,
+      selection: input.selection,
+      configId: generateConfigId(input.sku, input.selection),
+      thumbnail: input.thumbnail,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  async rename(id: string, name: string): Promise<SavedBuild> {
+    const build = await this.get(id);
+    return this.put({ ...build, name: name.trim() || build.name, updatedAt: new Date().toISOString() });
+  }
+
+  async duplicate(id: string): Promise<SavedBuild> {
+    const build = await this.get(id);
+    const now = new Date().toISOString();
+    return this.put({ ...build, id: crypto.randomUUID(), name: `${build.name} (copy)`, createdAt: now, updatedAt: now });
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.getDb();
+    await withStore(db, STORE_NAME, 'readwrite', store => store.delete(id));
+  }
+
+  async exportLibrary(): Promise<LibraryFile> {
+    return {
+      format: LIBRARY_FILE_FORMAT,
+      version: LIBRARY_FILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      builds: await this.list(),
+    };
+  }
+
+  /**
+   * Merges an exported library into this one. Builds are matched by id; a
+   * build that is already here is only replaced by a newer copy.
+   */
+  async importLibrary(data: unknown): Promise<ImportResult> {
+    const result = LibraryFileSchema.safeParse(data);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`Not a saved builds file: ${issue.path.join('.') || 'root'} - ${issue.message}`);
+    }
+
+    const existing = new Map((await this.list()).map(build => [build.id, build]));
+    const counts: ImportResult = { added: 0, updated: 0, skipped: 0 };
+
+    for (const build of (result.data as LibraryFile).builds) {
+      const current = existing.get(build.id);
+      if (current && current.updatedAt >= build.updatedAt) {
+        counts.skipped++;
+        continue;
+      }
+      await this.put(build);
+      counts[current ? 'updated' : 'added']++;
+    }
+
+    console.log('Imported saved builds:', counts);
+    return counts;
+  }
+}
+
+export const savedBuildsService = new SavedBuildsService();
@@ -0,0 +1,53 @@
+// src/services/web3Service.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FallbackRpcProvider } from './web3Service';
+
+type Node = 'down' | 'http-error' | 'revert' | 'ok';
+
+// Fake JSON-RPC nodes keyed by URL; records which ones were asked
+function stubNodes(nodes: Record<string, Node>) {
+  const calls: string[] = [];
+  vi.stubGlobal('fetch', async (url: string) => {
+    calls.push(url);
+    switch (nodes[url]) {
+      case 'down': throw new TypeError('fetch failed');
+      case 'http-error': return new Response('Bad gateway', { status: 502, statusText: 'Bad Gateway' });
+      case 'revert': return Response.json({ jsonrpc: '2.0', id: 1, error: { code: 3, message: 'execution reverted', data: '0x08c379a0' } });
+      default: return Response.json({ jsonrpc: '2.0', id: 1, result: `0x${url.slice(-1)}` });
+    }
+  });
+  return calls;
+}
+
+describe('FallbackRpcProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reads from the first node that answers and stays on it', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const calls = stubNodes({ 'https://a/1': 'down', 'https://b/2': 'http-error', 'https://c/3': 'ok' });
+    const provider = new FallbackRpcProvider(['https://a/1', 'https://b/2', 'https://c/3']);
+
+    expect(await provider.request({ method: 'eth_blockNumber' })).toBe('0x3');
+    expect(await provider.request({ method: 'eth_blockNumber' })).toBe('0x3');
+    expect(calls).toEqual(['https://a/1', 'https://b/2', 'https://c/3', 'https://c/3']);
+  });
+
+  it('does not retry errors the node reports itself', async () => {
+    const calls = stubNodes({ 'https://a/1': 'revert', 'https://b/2': 'ok' });
+    const provider = new FallbackRpcProvider(['https://a/1', 'https://b/2']);
+
+    await expect(provider.request({ method: 'eth_call' })).rejects.toMatchObject({ code: 3, message: 'execution reverted' });
+    expect(calls).toEqual(['https://a/1']);
+  });
+
+  it('fails with the last error when every node is down', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stubNodes({ 'https://a/1': 'down', 'https://b/2': 'http-error' });
+    const provider = new FallbackRpcProvider(['https://a/1', 'https://b/2']);
+
+    await expect(provider.request({ method: 'eth_call' })).rejects.toThrow(/502 Bad Gateway/);
+  });
+});
@@ -1,27 +1,271 @@
 // src/services/web3Service.ts
+import { appConfig } from '../utils/appConfig';
+import { ChainConfig, ChainKey, resolveChain, toHexChainId, getExplorerTxUrl } from '../utils/chains';
+import {
+  encodeCall,
+  eventTopic,
+  decodeUint,
+  decodeBool,
+  decodeAddress,
+  decodeString,
+  decodeRevertReason,
+  toQuantity,
+  formatUnits,
+} from '../utils/abi';
 
-// For now, create a simplified Web3Service that doesn't require external dependencies
-// This will work until you can install ethers.js
+/**
+ * Minimal EIP-1193 provider: what wallets inject as window.ethereum
+ */
+export interface Eip1193Provider {
+  request(args: { method: string; params?: unknown[] }): Promise<unknown>;
+  on?(event: string, listener: (...args: never[]) => void): void;
+  removeListener?(event: string, listener: (...args: never[]) => void): void;
+}
 
-export class Web3Service {
-  private provider: any = null;
-  private signer: any = null;
-  private contract: any = null;
-  private network: string = 'polygonTestnet';
+export interface WalletEventHandlers {
+  accountsChanged?: (account: string | null) => void;
+  chainChanged?: (chainId: number) => void;
+  disconnect?: () => void;
+}
+
+interface ProviderRpcError extends Error {
+  code?: number;
+  data?: unknown;
+}
+
+export interface ContractInfo {
+  mintPrice: string;    // native currency, decimal
+  mintPriceWei: string;
+  totalSupply: string;
+  maxSupply: string;
+}
+
+export interface MintResult {
+  transactionHash: string;
+  tokenId: string;
+}
+
+interface TransactionReceipt {
+  status: string; // 0x1 success, 0x0 reverted
+  transactionHash: string;
+  logs: Array<{ address: string; topics: string[]; data: string }>;
+}
+
+/**
+ * The configurator's ERC-721 (reference implementation in
+ * contracts/ConfigurationNFT.sol). Expected interface:
+ *
+ *   function mintPrice() view returns (uint256)
+ *   function totalSupply() view returns (uint256)
+ *   function maxSupply() view returns (uint256)
+ *   function configurationExists(string configurationId) view returns (bool)
+ *   function configurationToken(string configurationId) view returns (uint256)
+ *   function tokenURI(uint256 tokenId) view returns (string)
+ *   function ownerOf(uint256 tokenId) view returns (address)
+ *   function mint(address to, string metadataURI, string modelURI, string configurationId) payable returns (uint256)
+ *   event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)
+ */
+const NFT_CONTRACT = {
+  mintPrice: 'mintPrice()',
+  totalSupply: 'totalSupply()',
+  maxSupply: 'maxSupply()',
+  configurationExists: 'configurationExists(string)',
+  configurationToken: 'configurationToken(string)',
+  tokenURI: 'tokenURI(uint256)',
+  ownerOf: 'ownerOf(uint256)',
+  mint: 'mint(address,string,string,string)',
+};
+
+const TRANSFER_TOPIC = eventTopic('Transfer(address,address,uint256)');
+const ZERO_TOPIC = `0x${'0'.repeat(64)}`;
+
+const RECEIPT_POLL_MS = 1500;
+const RECEIPT_TIMEOUT_MS = 5 * 60 * 1000;
+const GAS_MARGIN_PERCENT = 120n; // estimates fall short when supply changes between estimate and mint
+
+/**
+ * EIP-1193 over plain HTTP JSON-RPC, for reads on the minting chain and for
+ * talking to a local Anvil/Hardhat node (whose accounts are unlocked)
+ */
+export class JsonRpcProvider implements Eip1193Provider {
+  private url: string;
+  private nextId = 1;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async request({ method, params = [] }: { method: string; params?: unknown[] }): Promise<unknown> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: this.nextId++, method, params }),
+    });
+    if (!response.ok) throw new Error(`RPC ${method} failed: ${response.status} ${response.statusText}`);
+
+    const body = await response.json() as { result?: unknown; error?: { code: number; message: string; data?: unknown } };
+    if (body.error) {
+      const error: ProviderRpcError = new Error(body.error.message);
+      error.code = body.error.code;
+      error.data = body.error.data;
+      throw error;
+    }
+    return body.result;
+  }
+}
+
+/**
+ * JSON-RPC over several nodes in order: a node that can't be reached (or
+ * answers with an HTTP error) is skipped and the next one tried. Errors the
+ * node reports itself, like reverts, are answers and are not retried. The
+ * last node that answered is tried first next time.
+ */
+export class FallbackRpcProvider implements Eip1193Provider {
+  private providers: JsonRpcProvider[];
+  private urls: string[];
+  private current = 0;
 
-  constructor() {
-    this.initializeProvider();
+  constructor(urls: string[]) {
+    if (urls.length === 0) throw new Error('No RPC URLs to read from');
+    this.urls = urls;
+    this.providers = urls.map(url => new JsonRpcProvider(url));
   }
 
-  private async initializeProvider() {
-    if (typeof window !== 'undefined' && (window as any).ethereum) {
+  async request(args: { method: string; params?: unknown[] }): Promise<unknown> {
+    let lastError: unknown;
+    for (let attempt = 0; attempt < this.providers.length; attempt++) {
+      const index = (this.current + attempt) % this.providers.length;
       try {
-        this.provider = (window as any).ethereum;
-        console.log('Web3 provider initialized');
+        const result = await this.providers[index].request(args);
+        this.current = index;
+        return result;
       } catch (error) {
-        console.error('Failed to initialize Web3 provider:', error);
+        if ((error as ProviderRpcError).code !== undefined) throw error;
+        console.warn(`RPC ${this.urls[index]} failed, trying the next one:`, error instanceof Error ? error.message : error);
+        lastError = error;
       }
     }
+    throw lastError;
+  }
+}
+
+function injectedProvider(): Eip1193Provider | null {
+  if (typeof window === 'undefined') return null;
+  return (window as Window & { ethereum?: Eip1193Provider }).ethereum ?? null;
+}
+
+/**
+ * Readable message for a failed wallet/RPC call, with the contract's revert reason when there is one
+ */
+function describeError(error: unknown, action: string): Error {
+  const rpcError = error as ProviderRpcError;
+  if (rpcError?.code === 4001) return new Error(`${action} was rejected in the wallet`);
+
+  // Wallets nest the revert data differently: error.data, error.data.data or error.data.originalError.data
+  const data = rpcError?.data as string | { data?: string; originalError?: { data?: string } } | undefined;
+  const revertData = typeof data === 'string' ? data : data?.data ?? data?.originalError?.data;
+  const reason = decodeRevertReason(revertData);
+  if (reason) return new Error(`${action} failed: ${reason}`);
+
+  return new Error(`${action} failed: ${rpcError?.message || String(error)}`);
+}
+
+export interface Web3ServiceOptions {
+  provider?: Eip1193Provider | null; // wallet; defaults to window.ethereum
+  chain?: ChainKey;                  // defaults to VITE_NFT_CHAIN
+  contractAddress?: string | null;   // overrides for the configured chain
+  rpcUrl?: string | null;
+}
+
+export class Web3Service {
+  private provider: Eip1193Provider | null;
+  private readProvider: Eip1193Provider;
+  private account: string | null = null;
+  private chain: ChainConfig;
+  private configuredChain: ChainKey;
+  private overrides: { contractAddress: string | null; rpcUrl: string | null };
+
+  constructor(options: Web3ServiceOptions = {}) {
+    this.provider = options.provider !== undefined ? options.provider : injectedProvider();
+    this.configuredChain = options.chain ?? appConfig.nft.chain;
+    this.overrides = {
+      contractAddress: options.contractAddress !== undefined ? options.contractAddress : appConfig.nft.contractAddress,
+      rpcUrl: options.rpcUrl !== undefined ? options.rpcUrl : appConfig.nft.rpcUrl,
+    };
+    this.chain = resolveChain(this.configuredChain, this.overrides);
+    this.readProvider = new FallbackRpcProvider(this.chain.rpcUrls);
+
+    if (this.provider) console.log('Web3 provider initialized');
+  }
+
+  getChain(): ChainConfig {
+    return this.chain;
+  }
+
+  /**
+   * Use another wallet (e.g. one found through EIP-6963 discovery); the
+   * connected account is forgotten until it connects again
+   */
+  setProvider(provider: Eip1193Provider | null) {
+    this.provider = provider;
+    this.account = null;
+  }
+
+  /**
+   * Subscribes to the wallet's EIP-1193 events, keeping the connected account
+   * in step with it. Returns a function that unsubscribes.
+   */
+  watchWallet(handlers: WalletEventHandlers): () => void {
+    const provider = this.provider;
+    if (!provider?.on) return () => {};
+
+    const onAccountsChanged = (accounts: string[]) => {
+      this.account = accounts[0] ?? null;
+      console.log('Wallet account changed:', this.account);
+      handlers.accountsChanged?.(this.account);
+    };
+    const onChainChanged = (chainId: string) => {
+      console.log('Wallet network changed:', chainId);
+      handlers.chainChanged?.(Number(chainId));
+    };
+    const onDisconnect = () => {
+      this.account = null;
+      console.log('Wallet disconnected by provider');
+      handlers.disconnect?.();
+    };
+
+    provider.on('accountsChanged', onAccountsChanged);
+    provider.on('chainChanged', onChainChanged);
+    provider.on('disconnect', onDisconnect);
+
+    return () => {
+      provider.removeListener?.('accountsChanged', onAccountsChanged);
+      provider.removeListener?.('chainChanged', onChainChanged);
+      provider.removeListener?.('disconnect', onDisconnect);
+    };
+  }
+
+  private getContractAddress(): string {
+    if (!this.chain.contractAddress) {
+      throw new Error(`NFT minting is not configured for ${this.chain.name} (VITE_NFT_CONTRACT_ADDRESS is not set)`);
+    }
+    return this.chain.contractAddress;
+  }
+
+  // Reads always go to the minting chain's RPC nodes, whatever network the wallet is on
+  private getReader(): Eip1193Provider {
+    return this.readProvider;
+  }
+
+  private async call(signature: string, args: Array<string | bigint | boolean> = []): Promise<string> {
+    try {
+      return await this.getReader().request({
+        method: 'eth_call',
+        params: [{ to: this.getContractAddress(), data: encodeCall(signature, args) }, 'latest'],
+      }) as string;
+    } catch (error) {
+      throw describeError(error, `Reading ${signature.split('(')[0]}`);
+    }
   }
 
   async connectWallet(): Promise<string | null> {
@@ -31,16 +275,21 @@ export class Web3Service {
 
     try {
       // Request account access
-      const accounts = await this.provider.request({
-        method: 'eth_requestAccounts',
-      });
-      
+      let accounts: string[];
+      try {
+        accounts = await this.provider.request({ method: 'eth_requestAccounts' }) as string[];
+      } catch (error) {
+        // Dev nodes don't implement the permission request; their accounts are already unlocked
+        if ((error as ProviderRpcError).code !== -32601) throw error;
+        accounts = await this.provider.request({ method: 'eth_accounts' }) as string[];
+      }
+
       if (accounts && accounts.length > 0) {
-        const address = accounts[0];
-        console.log('Wallet connected:', address);
-        return address;
+        this.account = accounts[0];
+        console.log('Wallet connected:', this.account);
+        return this.account;
       }
-      
+
       return null;
     } catch (error) {
       console.error('Failed to connect wallet:', error);
@@ -48,68 +297,148 @@ export class Web3Service {
     }
   }
 
-  async switchToPolygon() {
+  /**
+   * Chain id the wallet is currently on, or null without a wallet
+   */
+  async getWalletChainId(): Promise<number | null> {
+    if (!this.provider) return null;
+    return Number(await this.provider.request({ method: 'eth_chainId' }) as string);
+  }
+
+  async isOnMintingChain(): Promise<boolean> {
+    return await this.getWalletChainId() === this.chain.chainId;
+  }
+
+  /**
+   * Asks the wallet to switch to the minting chain, adding it first if the wallet doesn't know it
+   */
+  async switchNetwork() {
     if (!this.provider) return;
 
     try {
-      // Try to switch to Polygon testnet
       await this.provider.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0x13881' }], // Polygon Mumbai testnet
+        params: [{ chainId: toHexChainId(this.chain.chainId) }],
       });
-    } catch (switchError: any) {
+    } catch (switchError) {
       // If network doesn't exist, add it
-      if (switchError.code === 4902) {
-        await this.addPolygonNetwork();
+      if ((switchError as ProviderRpcError).code === 4902) {
+        await this.addNetwork();
       } else {
-        throw switchError;
+        throw describeError(switchError, `Switching to ${this.chain.name}`);
       }
     }
   }
 
-  private async addPolygonNetwork() {
+  private async addNetwork() {
     if (!this.provider) return;
 
-    await this.provider.request({
-      method: 'wallet_addEthereumChain',
-      params: [
-        {
-          chainId: '0x13881',
-          chainName: 'Polygon Mumbai',
-          rpcUrls: ['https://rpc-mumbai.maticvigil.com/'],
-          blockExplorerUrls: ['https://mumbai.polygonscan.com/'],
-          nativeCurrency: {
-            name: 'MATIC',
-            symbol: 'MATIC',
-            decimals: 18
+    try {
+      await this.provider.request({
+        method: 'wallet_addEthereumChain',
+        params: [
+          {
+            chainId: toHexChainId(this.chain.chainId),
+            chainName: this.chain.name,
+            rpcUrls: this.chain.rpcUrls,
+            blockExplorerUrls: this.chain.explorerUrl ? [this.chain.explorerUrl] : undefined,
+            nativeCurrency: this.chain.nativeCurrency,
           }
-        }
-      ],
-    });
+        ],
+      });
+    } catch (error) {
+      throw describeError(error, `Adding ${this.chain.name}`);
+    }
   }
 
-  async getContractInfo() {
-    // Mock contract info for testing
+  async getContractInfo(): Promise<ContractInfo> {
+    const [price, totalSupply, maxSupply] = await Promise.all([
+      this.call(NFT_CONTRACT.mintPrice),
+      this.call(NFT_CONTRACT.totalSupply),
+      this.call(NFT_CONTRACT.maxSupply),
+    ]);
+    const mintPriceWei = decodeUint(price);
+
     return {
-      mintPrice: '0.001',
-      totalSupply: '42',
-      maxSupply: '10000',
-      mintPriceWei: '1000000000000000' // 0.001 ETH in wei
+      mintPrice: formatUnits(mintPriceWei, this.chain.nativeCurrency.decimals),
+      mintPriceWei: mintPriceWei.toString(),
+      totalSupply: decodeUint(totalSupply).toString(),
+      maxSupply: decodeUint(maxSupply).toString(),
     };
   }
 
   async checkConfigurationExists(configurationId: string): Promise<boolean> {
-    // Mock check - always return false for testing
-    return false;
+    return decodeBool(await this.call(NFT_CONTRACT.configurationExists, [configurationId]));
+  }
+
+  /**
+   * Token minted for a configuration, or null if it hasn't been minted
+   */
+  async getConfigurationToken(configurationId: string): Promise<string | null> {
+    if (!await this.checkConfigurationExists(configurationId)) return null;
+    return decodeUint(await this.call(NFT_CONTRACT.configurationToken, [configurationId])).toString();
+  }
+
+  async getTokenURI(tokenId: string): Promise<string> {
+    return decodeString(await this.call(NFT_CONTRACT.tokenURI, [BigInt(tokenId)]));
+  }
+
+  async getTokenOwner(tokenId: string): Promise<string> {
+    return decodeAddress(await this.call(NFT_CONTRACT.ownerOf, [BigInt(tokenId)]));
+  }
+
+  private async getMintTransaction(
+    metadataURI: string,
+    modelURI: string,
+    configurationId: string,
+    recipientAddress: string
+  ) {
+    const from = this.account ?? await this.getWalletAddress();
+    if (!from) throw new Error('Connect a wallet before minting');
+
+    const price = decodeUint(await this.call(NFT_CONTRACT.mintPrice));
+    return {
+      from,
+      to: this.getContractAddress(),
+      data: encodeCall(NFT_CONTRACT.mint, [recipientAddress, metadataURI, modelURI, configurationId]),
+      value: toQuantity(price),
+    };
+  }
+
+  /**
+   * Gas for minting this configuration, with a safety margin
+   */
+  async estimateMintGas(
+    metadataURI: string,
+    modelURI: string,
+    configurationId: string,
+    recipientAddress: string
+  ): Promise<string> {
+    const transaction = await this.getMintTransaction(metadataURI, modelURI, configurationId, recipientAddress);
+    return (await this.estimateGas(transaction)).toString();
+  }
+
+  private async estimateGas(transaction: object): Promise<bigint> {
+    try {
+      const gas = BigInt(await this.getReader().request({ method: 'eth_estimateGas', params: [transaction] }) as string);
+      return (gas * GAS_MARGIN_PERCENT) / 100n;
+    } catch (error) {
+      throw describeError(error, 'Mint');
+    }
   }
 
+  /**
+   * Sends `mint` with the mint price, waits for the receipt and reads the
+   * new token id from its Transfer event
+   */
   async mintNFT(
     metadataURI: string,
     modelURI: string,
     configurationId: string,
     recipientAddress: string
-  ): Promise<{ transactionHash: string; tokenId: string }> {
-    
+  ): Promise<MintResult> {
+    if (!this.provider) throw new Error('No Web3 provider found. Please install MetaMask.');
+
     console.log('Minting NFT:', {
       metadataURI,
       modelURI,
@@ -117,81 +446,126 @@ export class Web3Service {
       recipient: recipientAddress
     });
 
-    // Simulate minting process
-    await new Promise(resolve => setTimeout(resolve, 3000));
+    if (await this.checkConfigurationExists(configurationId)) {
+      throw new Error('This configuration has already been minted');
+    }
 
-    // Mock successful mint
-    const mockTxHash = '0x' + Math.random().toString(16).substr(2, 64);
-    const mockTokenId = Math.floor(Math.random() * 1000000).toString();
+    if (!await this.isOnMintingChain()) {
+      await this.switchNetwork();
+      if (!await this.isOnMintingChain()) throw new Error(`Switch your wallet to ${this.chain.name} to mint`);
+    }
 
-    return {
-      transactionHash: mockTxHash,
-      tokenId: mockTokenId
-    };
+    const transaction = await this.getMintTransaction(metadataURI, modelURI, configurationId, recipientAddress);
+    const gas = await this.estimateGas(transaction);
+
+    let transactionHash: string;
+    try {
+      transactionHash = await this.provider.request({
+        method: 'eth_sendTransaction',
+        params: [{ ...transaction, gas: toQuantity(gas) }],
+      }) as string;
+    } catch (error) {
+      throw describeError(error, 'Mint');
+    }
+    console.log('Mint transaction sent:', transactionHash);
+
+    const receipt = await this.waitForReceipt(transactionHash);
+    if (receipt.status !== '0x1') throw new Error(`Mint transaction ${transactionHash} reverted`);
+
+    const contract = this.getContractAddress().toLowerCase();
+    const transfer = receipt.logs.find(log =>
+      log.address.toLowerCase() === contract &&
+      log.topics[0] === TRANSFER_TOPIC &&
+      log.topics[1] === ZERO_TOPIC
+    );
+    if (!transfer) throw new Error(`Mint transaction ${transactionHash} has no Transfer event`);
+
+    const tokenId = BigInt(transfer.topics[3]).toString();
+    console.log('Minted token', tokenId);
+    return { transactionHash, tokenId };
   }
 
-  async getTransactionStatus(txHash: string) {
-    return { status: 'success' };
+  private async waitForReceipt(transactionHash: string): Promise<TransactionReceipt> {
+    const start = Date.now();
+    while (Date.now() - start < RECEIPT_TIMEOUT_MS) {
+      const receipt = await this.getReader().request({
+        method: 'eth_getTransactionReceipt',
+        params: [transactionHash],
+      }) as TransactionReceipt | null;
+      if (receipt) return receipt;
+      await new Promise(resolve => setTimeout(resolve, RECEIPT_POLL_MS));
+    }
+    throw new Error(`Timed out waiting for transaction ${transactionHash}`);
   }
 
-  getPolygonscanUrl(txHash: string): string {
-    return `https://mumbai.polygonscan.com/tx/${txHash}`;
+  async getTransactionStatus(txHash: string): Promise<{ status: 'pending' | 'success' | 'failed' }> {
+    const receipt = await this.getReader().request({
+      method: 'eth_getTransactionReceipt',
+      params: [txHash],
+    }) as TransactionReceipt | null;
+    if (!receipt) return { status: 'pending' };
+    return { status: receipt.status === '0x1' ? 'success' : 'failed' };
+  }
+
+  /**
+   * Block explorer link for a transaction, or null on chains without an explorer
+   */
+  getTransactionUrl(txHash: string): string | null {
+    return getExplorerTxUrl(this.chain, txHash);
   }
 
   async getWalletAddress(): Promise<string | null> {
     if (!this.provider) return null;
-    
+
     try {
       const accounts = await this.provider.request({
         method: 'eth_accounts',
-      });
-      
-      return accounts && accounts.length > 0 ? accounts[0] : null;
+      }) as string[];
+
+      this.account = accounts && accounts.length > 0 ? accounts[0] : null;
+      return this.account;
     } catch {
       return null;
     }
   }
 
+  /**
+   * Balance on the minting chain, in its native currency
+   */
   async getWalletBalance(): Promise<string> {
     if (!this.provider) return '0';
 
     try {
-      const accounts = await this.provider.request({
-        method: 'eth_accounts',
-      });
-      
-      if (accounts && accounts.length > 0) {
-        const balance = await this.provider.request({
-          method: 'eth_getBalance',
-          params: [accounts[0], 'latest'],
-        });
-        
-        // Convert from wei to ether (simplified)
-        const balanceInEther = parseInt(balance, 16) / Math.pow(10, 18);
-        return balanceInEther.toString();
-      }
-      
-      return '0';
+      const address = this.account ?? await this.getWalletAddress();
+      if (!address) return '0';
+
+      const balance = await this.getReader().request({
+        method: 'eth_getBalance',
+        params: [address, 'latest'],
+      }) as string;
+      return formatUnits(BigInt(balance), this.chain.nativeCurrency.decimals);
     } catch {
       return '0';
     }
   }
 
-  async estimateMintGas(): Promise<string> {
-    return '500000';
-  }
-
   disconnect() {
-    this.signer = null;
-    this.contract = null;
+    this.account = null;
     console.log('Wallet disconnected');
   }
 
   isConnected(): boolean {
-    return this.signer !== null;
+    return this.account !== null;
   }
 
-  setNetwork(network: string) {
-    this.network = network;
+  /**
+   * Mint on another registry chain. Environment overrides only apply to the configured one.
+   */
+  setNetwork(network: ChainKey) {
+    this.chain = resolveChain(network, network === this.configuredChain ? this.overrides : {});
+    this.readProvider = new FallbackRpcProvider(this.chain.rpcUrls);
+    console.log('Minting network set to', this.chain.name);
   }
-}
\ No newline at end of file
+}
+
+export const web3Service = new Web3Service();
@@ -0,0 +1,91 @@
+// src/state/useConfigStore.test.ts
+import { beforeEach, describe, expect, it } from 'vitest';
+import { validateManifest } from '../utils/manifestValidator';
+import { useConfigStore } from './useConfigStore';
+
+const black = { type: 'color', color: '#1C1C1C' } as const;
+
+const manifest = validateManifest({
+  productName: 'Test Rifle',
+  sku: 'TEST-1',
+  defaultCamera: { position: { x: 0, y: 0, z: 5 }, target: { x: 0, y: 0, z: 0 }, fov: 50 },
+  hotspots: [],
+  ui: [],
+  parts: [{ id: 'receiver', label: 'Receiver', meshSelectors: ['Receiver'] }],
+  configurableParts: ['receiver'],
+  finishModes: {
+    colors: { label: 'Colors', description: 'Per part', allowIndividualSelection: true, options: [{ id: 'black', label: 'Black', material: black }] },
+    patterns: { label: 'Patterns', description: 'Whole rifle', allowIndividualSelection: false, options: [{ id: 'multicam', label: 'Multicam', material: black }] },
+  },
+  calibers: [{ id: '408', label: '.408 CheyTac' }, { id: '375', label: '.375 CheyTac' }, { id: '338', label: '.338 Lapua' }],
+  suppressors: [{ id: 'brake', label: 'Muzzle Brake', modelFile: 'brake.glb' }, { id: 'm3', label: 'M3', modelFile: 'm3.glb' }],
+  triggers: [{ id: 'timney', label: 'Timney' }],
+});
+
+const store = () => useConfigStore.getState();
+
+describe('undo/redo history', () => {
+  beforeEach(() => {
+    useConfigStore.setState({ manifest: null, productSelections: {} });
+    store().loadManifest(manifest, '/products/test');
+  });
+
+  it('starts empty for a freshly loaded product', () => {
+    expect(store().history).toEqual({ past: [], future: [] });
+    expect(store().selectedCaliber).toBe('408');
+  });
+
+  it('undoes and redoes a step', () => {
+    store().selectCaliber('375');
+    const editedId = store().configId;
+
+    store().undo();
+    expect(store().selectedCaliber).toBe('408');
+    expect(store().history.future).toHaveLength(1);
+
+    store().redo();
+    expect(store().selectedCaliber).toBe('375');
+    expect(store().configId).toBe(editedId);
+    expect(store().history.past).toHaveLength(1);
+  });
+
+  it('drops the redo stack on a new edit', () => {
+    store().selectCaliber('375');
+    store().undo();
+    store().selectSuppressor('m3');
+
+    expect(store().history.future).toEqual([]);
+    store().redo();
+    expect(store().selectedCaliber).toBe('408');
+  });
+
+  it('records a transaction as one step', () => {
+    store().historyTransaction('Preset', () => {
+      store().selectCaliber('338');
+      store().selectSuppressor('m3');
+    });
+
+    expect(store().history.past.map(entry => entry.label)).toEqual(['Preset']);
+    store().undo();
+    expect(store().selectedCaliber).toBe('408');
+    expect(store().selectedSuppressor).toBe('brake');
+  });
+
+  it('jumps to any step', () => {
+    store().selectCaliber('375');
+    store().selectCaliber('338');
+    store().selectSuppressor('m3');
+    const [first, , third] = store().history.past;
+
+    store().goToHistoryEntry(first.id);
+    expect(store().selectedCaliber).toBe('375');
+    expect(store().selectedSuppressor).toBe('brake');
+
+    store().goToHistoryEntry(third.id);
+    expect(store().selectedSuppressor).toBe('m3');
+
+    store().goToHistoryEntry(null);
+    expect(store().selectedCaliber).toBe('408');
+    expect(store().history.future).toHaveLength(3);
+  });
+});
@@ -1,8 +1,13 @@
 // src/state/useConfigStore.ts
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { ProductManifest, Hotspot } from '../utils/manifestValidator';
+import { ProductManifest, Hotspot, OptionRef, NewMaterial } from '../utils/manifestValidator';
 import { generateConfigId } from '../utils/id';
+import { applyConstraints, getOptionAvailability, ConstraintViolation, OptionAvailability } from '../utils/constraintEngine';
+import { pickSelection, getDefaultSelection, restoreSelection, ConfigSelection } from '../utils/selection';
+import { resolveConfiguration, getConfigurationLabels, getModelFile, ResolvedConfiguration, ConfigurationLabels } from '../utils/resolveConfiguration';
+import { calculatePrice, PriceBreakdown } from '../utils/pricing';
+import { pushHistoryEntry, EMPTY_HISTORY, HistoryState } from '../utils/history';
 
 export type CameraPreset = 'hero' | 'profile' | 'detail';
 export type FinishMode = 'colors' | 'patterns';
@@ -16,7 +21,10 @@ export interface CameraState {
 export interface ConfigState {
   // Product data
   manifest: ProductManifest | null;
-  productPath: string | null;
+  productPath: string | null; // base path of the product's models
+  
+  // Last selection per product sku, so switching products keeps each one's build
+  productSelections: Record<string, ConfigSelection>;
   
   // Finish system
   finishMode: FinishMode;
@@ -60,11 +68,26 @@ export interface ConfigState {
   // Hotspots
   computedHotspots: Hotspot[];
   
-  // Configuration
+  // Configuration (content-addressed: same product + selection, same id)
   configId: string;
   
+  // Constraint rules that could not be satisfied by the current selection
+  constraintViolations: ConstraintViolation[];
+  
+  // Undo/redo of selection changes (per product, not persisted)
+  history: HistoryState;
+  historyGroup: string | null; // label of the transaction in progress
+  
   // Actions
   loadManifest: (manifest: ProductManifest, productPath: string) => void;
+  loadSelection: (selection: ConfigSelection, label?: string) => void;
+  setProductSelection: (sku: string, selection: ConfigSelection) => void; // picked up by the next loadManifest
+  
+  // History actions
+  undo: () => void;
+  redo: () => void;
+  goToHistoryEntry: (entryId: number | null) => void; // null: before the first step
+  historyTransaction: (label: string, fn: () => void) => void;
   
   // Finish mode actions
   setFinishMode: (mode: FinishMode) => void;
@@ -86,6 +109,9 @@ export interface ConfigState {
   // Get current model file path
   getCurrentModelFile: () => string;
   
+  // Constraint check for a single option (used to grey out invalid choices)
+  getOptionAvailability: (ref: OptionRef) => OptionAvailability;
+  
   // Legacy actions (for backward compatibility)
   selectOption: (partId: string, optionId: string) => void;
   setActivePart: (partId: string | null) => void;
@@ -100,9 +126,10 @@ export interface ConfigState {
   setCustomCameraState: (state: CameraState | null) => void;
   updateHotspot: (partId: string, position: [number, number, number]) => void;
   reset: () => void;
-  generateNewConfigId: () => void;
-  getSelectedMaterials: () => Record<string, any>;
-  getConfigurationPayload: () => object;
+  getResolvedConfiguration: () => ResolvedConfiguration | null;
+  getSelectedMaterials: () => Record<string, NewMaterial>;
+  getPriceBreakdown: () => PriceBreakdown | null;
+  getConfigurationPayload: (selection?: ConfigSelection) => ConfigurationPayload;
   
   // Configuration Panel actions (OLD)
   setConfigPanelOpen: (open: boolean) => void;
@@ -116,18 +143,68 @@ export interface ConfigState {
   getPartUIGroup: (partId: string) => any;
 }
 
+/**
+ * Everything about a configuration that leaves the configurator (exports,
+ * comparisons, NFT metadata): the raw selection plus its labels and price
+ */
+export interface ConfigurationPayload extends ConfigSelection {
+  configId: string;
+  productName: string | undefined;
+  sku: string | undefined;
+  labels: ConfigurationLabels | null;
+  price: PriceBreakdown | null;
+  timestamp: string;
+}
+
+// The only product before the catalog; version 0 stored its selection at the top level
+const LEGACY_PRODUCT_SKU = 'M200-BASE';
+
 const defaultCameraState: CameraState = {
   position: [5, 2, 8],
   target: [0, 0, 0],
   fov: 50,
 };
 
+/**
+ * Merges selection updates into the current state and runs the manifest
+ * constraints over the result, so every action leaves a valid selection.
+ * The configuration id and the undo step are derived from the final
+ * selection here as well; `label` names the step when a diff would not.
+ */
+function withConstraints(state: ConfigState, updates: Partial<ConfigState>, fresh = false, label?: string): Partial<ConfigState> {
+  const manifest = updates.manifest ?? state.manifest;
+  if (!manifest) return updates;
+
+  // Loading or resetting starts from defaults, so nothing counts as a customer edit
+  const previous = fresh ? undefined : pickSelection(state);
+  const next = pickSelection({ ...state, ...updates });
+  const { selection, violations } = applyConstraints(manifest, next, previous);
+
+  // A new product starts a new history; edits inside a transaction are recorded when it ends
+  let history = state.history;
+  if (manifest !== state.manifest) {
+    history = EMPTY_HISTORY;
+  } else if (!state.historyGroup) {
+    history = pushHistoryEntry(state.history, manifest, pickSelection(state), selection, label);
+  }
+
+  return {
+    ...updates,
+    ...selection,
+    constraintViolations: violations,
+    productSelections: { ...state.productSelections, [manifest.sku]: selection },
+    configId: generateConfigId(manifest.sku, selection),
+    history,
+  };
+}
+
 export const useConfigStore = create<ConfigState>()(
   persist(
     (set, get) => ({
       // Initial state
       manifest: null,
       productPath: null,
+      productSelections: {},
       
       // Finish system
       finishMode: 'colors',
@@ -157,7 +234,10 @@ export const useConfigStore = create<ConfigState>()(
       cameraPreset: 'hero',
       customCameraState: null,
       computedHotspots: [],
-      configId: generateConfigId(),
+      configId: '',
+      constraintViolations: [],
+      history: EMPTY_HISTORY,
+      historyGroup: null,
       
       // Configuration Panel state (OLD)
       configPanelOpen: false,
@@ -169,59 +249,105 @@ export const useConfigStore = create<ConfigState>()(
 
       // Actions
       loadManifest: (manifest, productPath) => {
-        const defaultColors: Record<string, string> = {};
-        
-        // Set first color option as default for each configurable part
-        const configurableParts = manifest.configurableParts || [];
-        const firstColorOption = manifest.finishModes?.colors?.options?.[0];
-        
-        if (firstColorOption) {
-          configurableParts.forEach(partId => {
-            defaultColors[partId] = firstColorOption.id;
-          });
-        }
+        // Pick up where the customer left this product, or start from the manifest defaults
+        const saved = get().productSelections[manifest.sku];
+        const selection = saved ? restoreSelection(manifest, saved) : getDefaultSelection(manifest);
+
+        set(withConstraints(get(), {
+          manifest,
+          productPath,
+          ...selection,
+          computedHotspots: manifest.hotspots,
+          activePartId: null,
+          activeGroupId: null,
+          configPanelOpen: false,
+          configPanelPartId: null,
+          modalOpen: false,
+          modalPartId: null,
+        }, true));
+      },
 
-        // Set default caliber (prefer .408)
-        const defaultCaliber = manifest.calibers?.find(c => c.id === '408-cheytac') || manifest.calibers?.[0];
+      // Replaces the whole selection at once (shared links), as one undoable step
+      loadSelection: (selection, label = 'Loaded configuration') => {
+        set(withConstraints(get(), {
+          ...selection,
+        }, true, label));
+      },
 
-        // Set default suppressor (prefer M3)
-        const defaultSuppressor = manifest.suppressors?.find(s => s.id === 'm3-suppressor') || manifest.suppressors?.[0];
+      setProductSelection: (sku, selection) => {
+        set({ productSelections: { ...get().productSelections, [sku]: selection } });
+      },
 
-        // Set default trigger (prefer Elite Hunter Curved)
-        const defaultTrigger = manifest.triggers?.find(t => t.id === 'timney-elite-curved') || manifest.triggers?.[0];
+      // History actions
+      undo: () => {
+        const state = get();
+        const { past, future } = state.history;
+        const entry = past[past.length - 1];
+        if (!entry) return;
 
-        // Legacy compatibility - set default options for each part
-        const defaultOptions: Record<string, string> = {};
-        manifest.parts.forEach(part => {
-          if (part.options && part.options.length > 0) {
-            defaultOptions[part.id] = part.options[0].id;
-          }
+        set({
+          ...withConstraints(state, { ...entry.before }, true),
+          history: { past: past.slice(0, -1), future: [entry, ...future] },
         });
+      },
+
+      redo: () => {
+        const state = get();
+        const { past, future } = state.history;
+        const entry = future[0];
+        if (!entry) return;
 
         set({
-          manifest,
-          productPath,
-          selectedColors: defaultColors,
-          selectedCaliber: defaultCaliber?.id || null,
-          selectedSuppressor: defaultSuppressor?.id || null,
-          selectedTrigger: defaultTrigger?.id || null,
-          selectedOptions: defaultOptions,
-          computedHotspots: manifest.hotspots,
-          configId: generateConfigId(),
-          finishMode: 'colors',
-          selectedPattern: null,
-          partColorOverrides: {},
+          ...withConstraints(state, { ...entry.after }, true),
+          history: { past: [...past, entry], future: future.slice(1) },
         });
       },
 
+      // Steps back or forward until the entry is the last one applied
+      goToHistoryEntry: (entryId) => {
+        const { past, future } = get().history;
+        if (entryId === null) {
+          while (get().history.past.length > 0) {
+            get().undo();
+          }
+        } else if (past.some(entry => entry.id === entryId)) {
+          while (get().history.past[get().history.past.length - 1]?.id !== entryId) {
+            get().undo();
+          }
+        } else if (future.some(entry => entry.id === entryId)) {
+          while (get().history.past[get().history.past.length - 1]?.id !== entryId) {
+            get().redo();
+          }
+        }
+      },
+
+      // Runs several actions as a single undo step; nested transactions join the outer one
+      historyTransaction: (label, fn) => {
+        if (get().historyGroup) {
+          fn();
+          return;
+        }
+
+        const before = pickSelection(get());
+        set({ historyGroup: label });
+        try {
+          fn();
+        } finally {
+          const state = get();
+          set({
+            historyGroup: null,
+            history: state.manifest
+              ? pushHistoryEntry(state.history, state.manifest, before, pickSelection(state), label)
+              : state.history,
+          });
+        }
+      },
+
       // Finish mode actions
       setFinishMode: (mode: FinishMode) => {
         console.log('Setting finish mode to:', mode);
-        const { selectedColors } = get();
-        
-        const updates: any = { 
+        const updates: Partial<ConfigState> = { 
           finishMode: mode,
-          configId: generateConfigId(),
         };
         
         if (mode === 'patterns') {
@@ -234,7 +360,7 @@ export const useConfigStore = create<ConfigState>()(
           updates.partColorOverrides = {};
         }
         
-        set(updates);
+        set(withConstraints(get(), updates));
       },
 
       selectPattern: (patternId: string) => {
@@ -242,12 +368,11 @@ export const useConfigStore = create<ConfigState>()(
         
         // Clear overrides when selecting a new pattern
         // This gives a clean slate for each pattern
-        set({ 
+        set(withConstraints(get(), { 
           selectedPattern: patternId,
           finishMode: 'patterns',
           partColorOverrides: {}, // Clear old overrides
-          configId: generateConfigId(),
-        });
+        }));
       },
 
       selectPartColor: (partId: string, colorId: string) => {
@@ -261,23 +386,13 @@ export const useConfigStore = create<ConfigState>()(
           return;
         }
         
-        // Otherwise, normal color mode behavior
+        // Otherwise, normal color mode behavior (linked parts are synced by manifest constraints)
         const newColors = { ...selectedColors, [partId]: colorId };
         
-        // Auto-sync carry handle with handle clamp
-        if (partId === 'carryHandle') {
-          newColors.handleClamp = colorId;
-          console.log('Auto-synced handle clamp to match carry handle:', colorId);
-        } else if (partId === 'handleClamp') {
-          newColors.carryHandle = colorId;
-          console.log('Auto-synced carry handle to match handle clamp:', colorId);
-        }
-        
-        set({ 
+        set(withConstraints(get(), { 
           selectedColors: newColors,
           finishMode: 'colors',
-          configId: generateConfigId(),
-        });
+        }));
       },
 
       applyColorToAllParts: (colorId: string) => {
@@ -292,11 +407,11 @@ export const useConfigStore = create<ConfigState>()(
           newColors[partId] = colorId;
         });
 
-        set({ 
+        const color = manifest.finishModes?.colors.options.find(option => option.id === colorId);
+        set(withConstraints(get(), { 
           selectedColors: newColors,
           finishMode: 'colors',
-          configId: generateConfigId(),
-        });
+        }, false, `All parts: ${color?.label || colorId}`));
       },
 
       setPartColorOverride: (partId: string, colorId: string | null) => {
@@ -308,15 +423,14 @@ export const useConfigStore = create<ConfigState>()(
           const newOverrides = { ...partColorOverrides };
           delete newOverrides[partId];
           console.log('🔧 Removing override, new overrides:', newOverrides);
-          set({ partColorOverrides: newOverrides, configId: generateConfigId() });
+          set(withConstraints(get(), { partColorOverrides: newOverrides }));
         } else {
           // Set override
           const newOverrides = { ...partColorOverrides, [partId]: colorId };
           console.log('🔧 Adding override, new overrides:', newOverrides);
-          set({ 
+          set(withConstraints(get(), { 
             partColorOverrides: newOverrides,
-            configId: generateConfigId()
-          });
+          }));
         }
       },
 
@@ -330,10 +444,9 @@ export const useConfigStore = create<ConfigState>()(
         
         console.log('🧹 New overrides after clear:', newOverrides);
         
-        set({ 
-          partColorOverrides: newOverrides, 
-          configId: generateConfigId() 
-        });
+        set(withConstraints(get(), { 
+          partColorOverrides: newOverrides,
+        }));
         
         console.log('🧹 State updated, should trigger re-render');
       },
@@ -341,39 +454,40 @@ export const useConfigStore = create<ConfigState>()(
       // Caliber action
       selectCaliber: (caliberId: string) => {
         console.log('Selecting caliber:', caliberId);
-        set({ 
+        set(withConstraints(get(), { 
           selectedCaliber: caliberId,
-          configId: generateConfigId(),
-        });
+        }));
       },
 
       // Suppressor action
       selectSuppressor: (suppressorId: string) => {
         console.log('Selecting suppressor:', suppressorId);
-        set({ 
+        set(withConstraints(get(), { 
           selectedSuppressor: suppressorId,
-          configId: generateConfigId(),
-        });
+        }));
       },
 
       // Trigger action
       selectTrigger: (triggerId: string) => {
         console.log('Selecting trigger:', triggerId);
-        set({ 
+        set(withConstraints(get(), { 
           selectedTrigger: triggerId,
-          configId: generateConfigId(),
-        });
+        }));
       },
 
       // Get current model file path
       getCurrentModelFile: () => {
         const { manifest, selectedSuppressor } = get();
-        if (!manifest || !manifest.suppressors) {
+        if (!manifest) {
           return 'product.glb'; // fallback
         }
-        
-        const suppressor = manifest.suppressors.find(s => s.id === selectedSuppressor);
-        return suppressor?.modelFile || manifest.suppressors[0]?.modelFile || 'product.glb';
+        return getModelFile(manifest, selectedSuppressor);
+      },
+
+      getOptionAvailability: (ref) => {
+        const state = get();
+        if (!state.manifest) return { available: true, reasons: [] };
+        return getOptionAvailability(state.manifest, pickSelection(state), ref);
       },
 
       // Legacy actions (for backward compatibility)
@@ -381,38 +495,11 @@ export const useConfigStore = create<ConfigState>()(
         const { manifest, selectedOptions } = get();
         if (!manifest) return;
 
-        const newOptions = { ...selectedOptions, [partId]: optionId };
-        
-        // Auto-sync carry handle with both clamps
-        if (partId === 'carryHandle') {
-          newOptions.handleClamp = optionId;
-          newOptions.handGuardClamp = optionId;
-          console.log(`Auto-synced handle clamp and hand guard clamp to ${optionId}`);
-        }
-        
-        // Apply rules if they exist
-        const part = manifest.parts.find(p => p.id === partId);
-        const option = part?.options?.find(o => o.id === optionId);
-        
-        if (option?.rules) {
-          option.rules.forEach(rule => {
-            if (rule.type === 'enable') {
-              newOptions[rule.condition.partId] = rule.condition.optionId;
-            } else if (rule.type === 'disable') {
-              if (newOptions[rule.condition.partId] === rule.condition.optionId) {
-                const targetPart = manifest.parts.find(p => p.id === rule.condition.partId);
-                if (targetPart && targetPart.options && targetPart.options.length > 0) {
-                  newOptions[rule.condition.partId] = targetPart.options[0].id;
-                }
-              }
-            }
-          });
-        }
-
-        set({ 
-          selectedOptions: newOptions,
-          configId: generateConfigId(),
-        });
+        // Option rules (including the legacy enable/disable ones and parts that
+        // come as a pair) are applied by the constraint engine
+        set(withConstraints(get(), { 
+          selectedOptions: { ...selectedOptions, [partId]: optionId },
+        }));
       },
 
       setActivePart: (partId) => set({ activePartId: partId }),
@@ -452,43 +539,8 @@ export const useConfigStore = create<ConfigState>()(
         const { manifest } = get();
         if (!manifest) return;
 
-        // Reset colors to defaults
-        const defaultColors: Record<string, string> = {};
-        const configurableParts = manifest.configurableParts || [];
-        const firstColorOption = manifest.finishModes?.colors?.options?.[0];
-        
-        if (firstColorOption) {
-          configurableParts.forEach(partId => {
-            defaultColors[partId] = firstColorOption.id;
-          });
-        }
-
-        // Reset caliber to default
-        const defaultCaliber = manifest.calibers?.find(c => c.id === '408-cheytac') || manifest.calibers?.[0];
-
-        // Reset suppressor to default
-        const defaultSuppressor = manifest.suppressors?.find(s => s.id === 'm3-suppressor') || manifest.suppressors?.[0];
-
-        // Reset trigger to default
-        const defaultTrigger = manifest.triggers?.find(t => t.id === 'timney-elite-curved') || manifest.triggers?.[0];
-
-        // Legacy compatibility
-        const defaultOptions: Record<string, string> = {};
-        manifest.parts.forEach(part => {
-          if (part.options && part.options.length > 0) {
-            defaultOptions[part.id] = part.options[0].id;
-          }
-        });
-
-        set({
-          finishMode: 'colors',
-          selectedPattern: null,
-          selectedColors: defaultColors,
-          selectedCaliber: defaultCaliber?.id || null,
-          selectedSuppressor: defaultSuppressor?.id || null,
-          selectedTrigger: defaultTrigger?.id || null,
-          selectedOptions: defaultOptions,
-          partColorOverrides: {},  // Clear all overrides
+        set(withConstraints(get(), {
+          ...getDefaultSelection(manifest),
           activePartId: null,
           activeGroupId: null,
           isCinemaMode: false,
@@ -496,228 +548,43 @@ export const useConfigStore = create<ConfigState>()(
           hideHotspots: false,
           cameraPreset: 'hero',
           customCameraState: null,
-          configId: generateConfigId(),
           configPanelOpen: false,
           configPanelPartId: null,
           modalOpen: false,
           modalPartId: null,
-        });
+        }, true, 'Reset to defaults'));
       },
 
-      generateNewConfigId: () => set({ configId: generateConfigId() }),
+      getResolvedConfiguration: () => {
+        const { manifest } = get();
+        if (!manifest) return null;
+        return resolveConfiguration(manifest, pickSelection(get()));
+      },
 
       getSelectedMaterials: () => {
-        const { manifest, finishMode, selectedPattern, selectedColors, selectedOptions, partColorOverrides } = get();
-        console.log('🎨 getSelectedMaterials called:', { 
-          finishMode, 
-          selectedPattern, 
-          partColorOverridesCount: Object.keys(partColorOverrides).length,
-          selectedColorsCount: Object.keys(selectedColors).length 
-        });
-        
-        if (!manifest) return {};
-
-        const materials: Record<string, any> = {};
-
-        // Define meshes that should ALWAYS stay black
-        const alwaysBlackMeshes = [
-          'Direct_Thread_HUB_Mount',
-          '*HUB_Mount*',
-          'CT_2-006_Bolt_Handle_Shaft',
-          'CT_2-007_Bolt_Handle_Knob',
-          'CT_5-013-2_Bipod_Locking_Pin_Release_Knob',
-          'CT_5-013-2_Bipod_Locking_Pin_Release_Knob001',
-          'CT_5-018-2_Bipod_Foot_Release_Housing',
-          'CT_5-018-2_Bipod_Foot_Release_Housing001',
-          'CT_5-020_Bipod_Foot_Release',
-          'CT_5-020_Bipod_Foot_Release001'
-        ];
-
-        const blackMaterial = {
-          type: 'color',
-          color: '#000000',
-          metalness: 0.3,
-          roughness: 0.8
-        };
-
-        // Helper function to check if a mesh should stay black
-        const shouldStayBlack = (meshName: string): boolean => {
-          return alwaysBlackMeshes.some(pattern => {
-            if (pattern.startsWith('*') && pattern.endsWith('*')) {
-              const search = pattern.slice(1, -1);
-              return meshName.includes(search);
-            }
-            return meshName === pattern;
-          });
-        };
-
-        // FORCE TRIGGER ASSEMBLY TO ALWAYS BE BLACK
-        const triggerPart = manifest.parts?.find(p => p.id === 'triggerAssembly');
-        if (triggerPart) {
-          triggerPart.meshSelectors?.forEach(selector => {
-            materials[selector] = blackMaterial;
-          });
-          console.log('🔫 Applied black material to trigger assembly meshes');
-        }
-
-        const configurableParts = manifest.configurableParts || [];
-
-        if (finishMode === 'patterns') {
-          console.log('🎨 PATTERN MODE');
-          const hasAnyOverrides = Object.keys(partColorOverrides).length > 0;
-          console.log('   Has overrides:', hasAnyOverrides);
-          console.log('   Selected pattern:', selectedPattern);
-          
-          if (selectedPattern) {
-            console.log('   → Applying pattern with overrides');
-            // Pattern mode with pattern: apply pattern to all parts, but respect color overrides
-            const patternOption = manifest.finishModes?.patterns?.options?.find(
-              option => option.id === selectedPattern
-            );
-            
-            if (patternOption) {
-              configurableParts.forEach(partId => {
-                const colorOverride = partColorOverrides[partId];
-                
-                if (colorOverride) {
-                  const colorOption = manifest.finishModes?.colors?.options?.find(
-                    option => option.id === colorOverride
-                  );
-                  if (colorOption) {
-                    const part = manifest.parts?.find(p => p.id === partId);
-                    if (part) {
-                      part.meshSelectors?.forEach(selector => {
-                        if (!shouldStayBlack(selector)) {
-                          materials[selector] = colorOption.material;
-                        }
-                      });
-                    }
-                  }
-                } else {
-                  const part = manifest.parts?.find(p => p.id === partId);
-                  if (part) {
-                    part.meshSelectors?.forEach(selector => {
-                      if (!shouldStayBlack(selector)) {
-                        materials[selector] = patternOption.material;
-                      }
-                    });
-                  }
-                }
-              });
-            }
-          } else if (hasAnyOverrides) {
-            console.log('   → Using color customizations (with fallback to selectedColors)');
-            // Pattern mode but no pattern - check overrides first, then fallback to selectedColors
-            configurableParts.forEach(partId => {
-              // Check override first
-              const colorOverride = partColorOverrides[partId];
-              // Fallback to selectedColors if no override
-              const colorId = colorOverride || selectedColors[partId];
-              
-              console.log(`     Part ${partId}: override=${colorOverride}, fallback=${selectedColors[partId]}, final=${colorId}`);
-              
-              if (colorId) {
-                const colorOption = manifest.finishModes?.colors?.options?.find(
-                  option => option.id === colorId
-                );
-                if (colorOption) {
-                  const part = manifest.parts?.find(p => p.id === partId);
-                  if (part) {
-                    part.meshSelectors?.forEach(selector => {
-                      if (!shouldStayBlack(selector)) {
-                        materials[selector] = colorOption.material;
-                        console.log(`     ✅ Applied color to: ${selector} (${colorOption.label})`);
-                      }
-                    });
-                  }
-                }
-              }
-            });
-          } else {
-            console.log('   → FALLBACK: Using selectedColors from Colors mode');
-            console.log('   selectedColors:', selectedColors);
-            // CRITICAL FALLBACK: Use selectedColors to maintain appearance
-            configurableParts.forEach(partId => {
-              const colorId = selectedColors[partId];
-              console.log('     Part:', partId, '→ Color:', colorId);
-              if (colorId) {
-                const colorOption = manifest.finishModes?.colors?.options?.find(
-                  option => option.id === colorId
-                );
-                console.log('     Color option found:', colorOption?.label);
-                if (colorOption) {
-                  const part = manifest.parts?.find(p => p.id === partId);
-                  if (part) {
-                    part.meshSelectors?.forEach(selector => {
-                      if (!shouldStayBlack(selector)) {
-                        materials[selector] = colorOption.material;
-                        console.log('     ✅ Applied fallback color to:', selector);
-                      }
-                    });
-                  }
-                }
-              }
-            });
-          }
-        } else if (finishMode === 'colors') {
-          console.log('🎨 COLORS MODE - applying selectedColors');
-          // Color mode: apply individual colors to parts
-          configurableParts.forEach(partId => {
-            const colorId = selectedColors[partId];
-            if (colorId) {
-              const colorOption = manifest.finishModes?.colors?.options?.find(
-                option => option.id === colorId
-              );
-              
-              if (colorOption) {
-                const part = manifest.parts?.find(p => p.id === partId);
-                if (part) {
-                  part.meshSelectors?.forEach(selector => {
-                    if (!shouldStayBlack(selector)) {
-                      materials[selector] = colorOption.material;
-                    }
-                  });
-                }
-              }
-            }
-          });
-        }
-
-        // Apply black material to all meshes that should stay black
-        alwaysBlackMeshes.forEach(pattern => {
-          materials[pattern] = blackMaterial;
-        });
+        return get().getResolvedConfiguration()?.meshMaterials || {};
+      },
 
-        console.log('🎨 Final material count:', Object.keys(materials).length);
-        return materials;
+      getPriceBreakdown: () => {
+        const { manifest } = get();
+        if (!manifest) return null;
+        return calculatePrice(manifest, pickSelection(get()));
       },
 
-      getConfigurationPayload: () => {
-        const { 
-          manifest, 
-          finishMode, 
-          selectedPattern, 
-          selectedColors, 
-          selectedOptions, 
-          partColorOverrides,
-          selectedCaliber,
-          selectedSuppressor,
-          selectedTrigger,
-          configId 
-        } = get();
+      // Payload for the current selection, or for another one of the same product
+      getConfigurationPayload: (selection) => {
+        const state = get();
+        const { manifest } = state;
+        const current = selection ?? pickSelection(state);
+        const resolved = manifest ? resolveConfiguration(manifest, current) : null;
         
         return {
-          configId,
+          configId: selection && manifest ? generateConfigId(manifest.sku, current) : state.configId,
           productName: manifest?.productName,
           sku: manifest?.sku,
-          finishMode,
-          selectedPattern,
-          selectedColors,
-          partColorOverrides,
-          selectedCaliber,
-          selectedSuppressor,
-          selectedTrigger,
-          selectedOptions,
+          ...current,
+          labels: resolved ? getConfigurationLabels(resolved) : null,
+          price: manifest ? calculatePrice(manifest, current) : null,
           timestamp: new Date().toISOString(),
         };
       },
@@ -767,18 +634,24 @@ getPartUIGroup: (partId: string) => {
     }),
     {
       name: 'product-configurator-storage',
+      version: 1,
       partialize: (state) => ({
-        finishMode: state.finishMode,
-        selectedPattern: state.selectedPattern,
-        selectedColors: state.selectedColors,
-        partColorOverrides: state.partColorOverrides,
-        selectedCaliber: state.selectedCaliber,
-        selectedSuppressor: state.selectedSuppressor,
-        selectedTrigger: state.selectedTrigger,
-        selectedOptions: state.selectedOptions,
-        configId: state.configId,
+        productSelections: state.productSelections,
         qualityMode: state.qualityMode,
       }),
+      // Moves the single saved selection under the sku of the product it was made for
+      migrate: (persisted, version) => {
+        const state = (persisted || {}) as Partial<ConfigState>;
+        const qualityMode = state.qualityMode ?? 'high';
+        if (version === 0 && state.finishMode) {
+          console.log('Migrating saved configuration to', LEGACY_PRODUCT_SKU);
+          return {
+            productSelections: { [LEGACY_PRODUCT_SKU]: pickSelection(state as ConfigSelection) },
+            qualityMode,
+          };
+        }
+        return { productSelections: state.productSelections ?? {}, qualityMode };
+      },
     }
   )
 );
\ No newline at end of file
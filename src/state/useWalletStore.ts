@@ -0,0 +1,178 @@
+// src/state/useWalletStore.ts
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { web3Service } from '../services/web3Service';
+import { discoverWallets, DiscoveredWallet } from '../utils/walletDiscovery';
+
+export type WalletStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface WalletState {
+  // Wallets found through EIP-6963 (or the legacy window.ethereum)
+  wallets: DiscoveredWallet[];
+
+  // Session
+  walletRdns: string | null; // wallet in use
+  account: string | null;
+  chainId: number | null;    // network the wallet is on
+  wrongChain: boolean;       // wallet is not on the minting chain
+  balance: string;           // on the minting chain, native currency
+  status: WalletStatus;
+  error: string | null;
+
+  // Reconnected without a prompt on the next visit, if the wallet still allows it
+  lastWalletRdns: string | null;
+
+  // Actions
+  startDiscovery: () => void;
+  connect: (rdns: string) => Promise<void>;
+  disconnect: () => void;
+  switchChain: () => Promise<void>;
+  refreshBalance: () => Promise<void>;
+}
+
+const DISCONNECTED = {
+  walletRdns: null,
+  account: null,
+  chainId: null,
+  wrongChain: false,
+  balance: '0',
+  status: 'disconnected' as WalletStatus,
+};
+
+let stopDiscovery: (() => void) | null = null;
+let unwatchWallet: () => void = () => {};
+
+function chainState(chainId: number | null) {
+  return { chainId, wrongChain: chainId !== null && chainId !== web3Service.getChain().chainId };
+}
+
+/**
+ * Points Web3Service at the wallet and follows its account, network and
+ * disconnect events into the store
+ */
+function attachWallet(wallet: DiscoveredWallet) {
+  unwatchWallet();
+  web3Service.setProvider(wallet.provider);
+  unwatchWallet = web3Service.watchWallet({
+    accountsChanged: account => {
+      if (!account) {
+        // Every account was disconnected from the site in the wallet itself
+        unwatchWallet();
+        useWalletStore.setState({ ...DISCONNECTED, lastWalletRdns: null });
+        return;
+      }
+      useWalletStore.setState({ account, balance: '0' });
+      useWalletStore.getState().refreshBalance();
+    },
+    chainChanged: chainId => {
+      useWalletStore.setState(chainState(chainId));
+    },
+    disconnect: () => {
+      // The wallet lost its connection; keep lastWalletRdns so a reload can restore it
+      unwatchWallet();
+      useWalletStore.setState(DISCONNECTED);
+    },
+  });
+}
+
+async function startSession(wallet: DiscoveredWallet, account: string) {
+  const chainId = await web3Service.getWalletChainId();
+  useWalletStore.setState({
+    ...chainState(chainId),
+    walletRdns: wallet.info.rdns,
+    lastWalletRdns: wallet.info.rdns,
+    account,
+    status: 'connected',
+    error: null,
+  });
+  await useWalletStore.getState().refreshBalance();
+}
+
+// Picks the previous session back up with eth_accounts, which never prompts
+async function restoreSession(wallet: DiscoveredWallet) {
+  useWalletStore.setState({ status: 'connecting' });
+  attachWallet(wallet);
+  try {
+    const account = await web3Service.getWalletAddress();
+    if (account) {
+      console.log('Restored wallet session:', wallet.info.name, account);
+      await startSession(wallet, account);
+      return;
+    }
+  } catch (error) {
+    console.error('Failed to restore wallet session:', error);
+  }
+  unwatchWallet();
+  useWalletStore.setState(DISCONNECTED);
+}
+
+export const useWalletStore = create<WalletState>()(
+  persist(
+    (set, get) => ({
+      wallets: [],
+      ...DISCONNECTED,
+      error: null,
+      lastWalletRdns: null,
+
+      startDiscovery: () => {
+        if (stopDiscovery) return;
+        stopDiscovery = discoverWallets(wallet => {
+          set({ wallets: [...get().wallets.filter(known => known.info.uuid !== wallet.info.uuid), wallet] });
+
+          const { status, lastWalletRdns } = get();
+          if (status === 'disconnected' && wallet.info.rdns === lastWalletRdns) {
+            restoreSession(wallet);
+          }
+        });
+      },
+
+      connect: async (rdns) => {
+        const wallet = get().wallets.find(known => known.info.rdns === rdns);
+        if (!wallet) {
+          set({ error: 'No wallet found. Please install MetaMask.' });
+          return;
+        }
+
+        set({ status: 'connecting', error: null });
+        attachWallet(wallet);
+        try {
+          const account = await web3Service.connectWallet();
+          if (!account) throw new Error(`${wallet.info.name} did not share an account`);
+          await startSession(wallet, account);
+        } catch (error) {
+          console.error('Wallet connection error:', error);
+          unwatchWallet();
+          set({ ...DISCONNECTED, error: error instanceof Error ? error.message : String(error) });
+        }
+      },
+
+      disconnect: () => {
+        unwatchWallet();
+        web3Service.disconnect();
+        set({ ...DISCONNECTED, error: null, lastWalletRdns: null });
+      },
+
+      switchChain: async () => {
+        set({ error: null });
+        try {
+          await web3Service.switchNetwork();
+          // Not every wallet emits chainChanged, so read it back as well
+          set(chainState(await web3Service.getWalletChainId()));
+        } catch (error) {
+          set({ error: error instanceof Error ? error.message : String(error) });
+        }
+      },
+
+      refreshBalance: async () => {
+        if (!get().account) return;
+        set({ balance: await web3Service.getWalletBalance() });
+      },
+    }),
+    {
+      name: 'wallet-session',
+      partialize: (state) => ({
+        lastWalletRdns: state.lastWalletRdns,
+      }),
+    }
+  )
+);
@@ -0,0 +1,83 @@
+// src/utils/abi.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  functionSelector, eventTopic, encodeCall, decodeUint, decodeBool, decodeAddress,
+  decodeString, decodeRevertReason, toQuantity, formatUnits,
+} from './abi';
+
+const OWNER = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+const pad = (hex: string) => hex.padStart(64, '0');
+const text = (value: string) => Array.from(new TextEncoder().encode(value), byte => byte.toString(16).padStart(2, '0')).join('');
+
+describe('selectors and topics', () => {
+  it('matches the well-known ERC-20/721 ones', () => {
+    expect(functionSelector('balanceOf(address)')).toBe('0x70a08231');
+    expect(functionSelector('transfer(address, uint256)')).toBe('0xa9059cbb');
+    expect(eventTopic('Transfer(address,address,uint256)')).toBe('0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef');
+  });
+});
+
+describe('encodeCall', () => {
+  it('encodes static arguments in place', () => {
+    expect(encodeCall('balanceOf(address)', [OWNER])).toBe(`0x70a08231${pad(OWNER.slice(2).toLowerCase())}`);
+    expect(encodeCall('transfer(address,uint256)', [OWNER, 1000n])).toBe(`0xa9059cbb${pad(OWNER.slice(2).toLowerCase())}${pad('3e8')}`);
+  });
+
+  it('puts strings in the tail, length-prefixed and padded', () => {
+    const uri = 'ipfs://bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e'; // 66 bytes: three words
+    expect(encodeCall('mint(address,string)', [OWNER, uri])).toBe(
+      '0xd0def521' +
+      pad(OWNER.slice(2).toLowerCase()) +
+      pad('40') +                       // string starts after the two head words
+      pad('42') +                       // 66 bytes
+      text(uri).padEnd(3 * 64, '0')
+    );
+  });
+
+  it('rejects bad arguments', () => {
+    expect(() => encodeCall('balanceOf(address)', ['0x1234'])).toThrow(/Invalid address/);
+    expect(() => encodeCall('balanceOf(address)', [])).toThrow(/takes 1 arguments, got 0/);
+    expect(() => encodeCall('f(int8)', [1])).toThrow(/Unsupported ABI type: int8/);
+  });
+});
+
+describe('decoding', () => {
+  it('reads words by index', () => {
+    const data = `0x${pad('2a')}${pad('1')}${pad(OWNER.slice(2).toLowerCase())}`;
+    expect(decodeUint(data)).toBe(42n);
+    expect(decodeBool(data, 1)).toBe(true);
+    expect(decodeAddress(data, 2)).toBe(OWNER.toLowerCase());
+    expect(() => decodeUint(data, 3)).toThrow(/too short/);
+  });
+
+  it('decodes strings, including multi-word and UTF-8 ones', () => {
+    expect(decodeString(`0x${pad('20')}${pad('5')}${text('Hello').padEnd(64, '0')}`)).toBe('Hello');
+    expect(decodeString(`0x${pad('20')}${pad('0')}`)).toBe('');
+
+    const long = 'Ünïcode ✓ '.repeat(5);
+    const calldata = encodeCall('setName(string)', [long]);
+    expect(decodeString(calldata.slice(10))).toBe(long);
+  });
+
+  it('rejects strings that run past the data', () => {
+    expect(() => decodeString(`0x${pad('20')}${pad('40')}${text('short').padEnd(64, '0')}`)).toThrow(/too short/);
+  });
+
+  it('reads Error(string) revert reasons and nothing else', () => {
+    const revert = `0x08c379a0${pad('20')}${pad('9')}${text('Not owner').padEnd(64, '0')}`;
+    expect(decodeRevertReason(revert)).toBe('Not owner');
+    expect(decodeRevertReason('0x4e487b71' + pad('11'))).toBeNull(); // Panic(uint256)
+    expect(decodeRevertReason('0x08c379a0')).toBeNull();
+    expect(decodeRevertReason(undefined)).toBeNull();
+  });
+});
+
+describe('quantities', () => {
+  it('formats hex quantities and wei', () => {
+    expect(toQuantity(0n)).toBe('0x0');
+    expect(toQuantity(21000n)).toBe('0x5208');
+    expect(formatUnits(1500000000000000000n)).toBe('1.5');
+    expect(formatUnits(10n ** 18n)).toBe('1');
+    expect(formatUnits(-1n, 6)).toBe('-0.000001');
+  });
+});
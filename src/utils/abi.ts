@@ -0,0 +1,141 @@
+// src/utils/abi.ts
+import { keccak256 } from './keccak';
+
+/**
+ * The slice of the Solidity ABI the NFT contract needs: calls with
+ * address/uint256/bool/bytes32/string arguments, single-value returns,
+ * event topics and revert reasons. Hex strings are 0x-prefixed throughout.
+ */
+
+export type AbiValue = string | bigint | number | boolean;
+
+const WORD = 64; // hex characters in a 32-byte word
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function word(value: bigint): string {
+  return BigInt.asUintN(256, value).toString(16).padStart(WORD, '0');
+}
+
+/**
+ * Argument types from a signature like `mint(address,string)`
+ */
+function parseSignature(signature: string): string[] {
+  const match = /^\w+\(([^()]*)\)$/.exec(signature.replace(/\s+/g, ''));
+  if (!match) throw new Error(`Unsupported function signature: ${signature}`);
+  return match[1] ? match[1].split(',') : [];
+}
+
+function encodeStatic(type: string, value: AbiValue): string {
+  switch (type) {
+    case 'address':
+      if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{40}$/.test(value)) throw new Error(`Invalid address: ${String(value)}`);
+      return value.slice(2).toLowerCase().padStart(WORD, '0');
+    case 'bool':
+      return word(value ? 1n : 0n);
+    case 'bytes32':
+      if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{64}$/.test(value)) throw new Error(`Invalid bytes32: ${String(value)}`);
+      return value.slice(2).toLowerCase();
+    default:
+      if (/^uint\d*$/.test(type)) return word(BigInt(value));
+      throw new Error(`Unsupported ABI type: ${type}`);
+  }
+}
+
+export function functionSelector(signature: string): string {
+  return `0x${toHex(keccak256(signature.replace(/\s+/g, ''))).slice(0, 8)}`;
+}
+
+export function eventTopic(signature: string): string {
+  return `0x${toHex(keccak256(signature.replace(/\s+/g, '')))}`;
+}
+
+/**
+ * Calldata for a function call: selector, head words, then the tails of
+ * dynamic arguments (strings)
+ */
+export function encodeCall(signature: string, values: AbiValue[]): string {
+  const types = parseSignature(signature);
+  if (types.length !== values.length) {
+    throw new Error(`${signature} takes ${types.length} arguments, got ${values.length}`);
+  }
+
+  const heads: string[] = [];
+  const tails: string[] = [];
+  let tailOffset = types.length * 32;
+
+  types.forEach((type, i) => {
+    if (type !== 'string') {
+      heads.push(encodeStatic(type, values[i]));
+      return;
+    }
+    const bytes = new TextEncoder().encode(String(values[i]));
+    const data = toHex(bytes).padEnd(Math.ceil(bytes.length / 32) * WORD, '0');
+    heads.push(word(BigInt(tailOffset)));
+    tails.push(word(BigInt(bytes.length)) + data);
+    tailOffset += 32 + data.length / 2;
+  });
+
+  return functionSelector(signature) + heads.join('') + tails.join('');
+}
+
+function wordAt(data: string, index: number): string {
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  const value = hex.slice(index * WORD, (index + 1) * WORD);
+  if (value.length !== WORD) throw new Error('ABI data is too short');
+  return value;
+}
+
+export function decodeUint(data: string, index = 0): bigint {
+  return BigInt(`0x${wordAt(data, index)}`);
+}
+
+export function decodeBool(data: string, index = 0): boolean {
+  return decodeUint(data, index) !== 0n;
+}
+
+export function decodeAddress(data: string, index = 0): string {
+  return `0x${wordAt(data, index).slice(24)}`;
+}
+
+/**
+ * A string return value (or argument) whose offset is in head word `index`
+ */
+export function decodeString(data: string, index = 0): string {
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  const offset = Number(decodeUint(hex, index)) / 32;
+  const length = Number(decodeUint(hex, offset));
+  const start = (offset + 1) * WORD;
+  const bytes = hex.slice(start, start + length * 2);
+  if (bytes.length !== length * 2) throw new Error('ABI data is too short');
+  return new TextDecoder().decode(new Uint8Array(bytes.match(/../g)?.map(byte => parseInt(byte, 16)) ?? []));
+}
+
+/**
+ * The message of a Solidity `Error(string)` revert, or null for anything else
+ */
+export function decodeRevertReason(data: string | undefined): string | null {
+  if (!data || !data.startsWith('0x08c379a0')) return null;
+  try {
+    return decodeString(data.slice(10));
+  } catch {
+    return null;
+  }
+}
+
+export function toQuantity(value: bigint): string {
+  return `0x${value.toString(16)}`;
+}
+
+/**
+ * Wei as a decimal amount of the native currency, trailing zeros dropped
+ */
+export function formatUnits(value: bigint, decimals = 18): string {
+  const negative = value < 0n;
+  const abs = negative ? -value : value;
+  const base = 10n ** BigInt(decimals);
+  const fraction = (abs % base).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return `${negative ? '-' : ''}${abs / base}${fraction ? `.${fraction}` : ''}`;
+}
@@ -0,0 +1,103 @@
+// src/utils/appConfig.ts
+import { z } from 'zod';
+import { CHAIN_KEYS, ChainKey } from './chains';
+
+/**
+ * Per-environment settings, read from Vite env variables (see .env.example).
+ * Unset variables fall back to the production values.
+ */
+
+export const CAPTCHA_PROVIDERS = ['recaptcha', 'hcaptcha', 'turnstile', 'none'] as const;
+
+const DEFAULT_RECAPTCHA_SITE_KEY = '6LePgkMsAAAAADWO1mjkWHQzWbwCWMdnpSApZwMW';
+
+const EnvSchema = z.object({
+  VITE_ORDER_ENDPOINT: z.string().url().default('https://cheytac.com/wp-json/configurator/v1/save'),
+  VITE_CAPTCHA_PROVIDER: z.enum(CAPTCHA_PROVIDERS).default('recaptcha'),
+  VITE_CAPTCHA_SITE_KEY: z.string().optional(),
+  // Key for the interactive fallback widget. reCAPTCHA v3 keys can't render
+  // one, so this must be a v2 checkbox key; hCaptcha and Turnstile reuse the site key.
+  VITE_CAPTCHA_CHALLENGE_SITE_KEY: z.string().optional(),
+  // server: follow the redirect_url the backend returns; none: stay in the configurator
+  VITE_ORDER_REDIRECT: z.enum(['server', 'none']).default('server'),
+  // Upload endpoint for NFT files (server/ipfs-upload-server.js), which holds the
+  // pinning service's credentials so none ship in the bundle
+  VITE_IPFS_UPLOAD_URL: z.string().url().optional(),
+  VITE_IPFS_GATEWAY_URL: z.string().url().default('https://gateway.pinata.cloud/ipfs/'),
+  // Network from the chain registry (src/utils/chains.ts) that NFTs are minted on
+  VITE_NFT_CHAIN: z.enum(CHAIN_KEYS).default('polygonAmoy'),
+  // ERC-721 the configurator mints on, overriding the registry's address for that chain
+  VITE_NFT_CONTRACT_ADDRESS: z.string().regex(/^0x[0-9a-fA-F]{40}$/, 'must be a 0x-prefixed 20-byte address').optional(),
+  // JSON-RPC node for contract reads, tried before the registry's public RPC URLs
+  VITE_NFT_RPC_URL: z.string().url().optional(),
+});
+
+export type CaptchaProviderName = z.infer<typeof EnvSchema>['VITE_CAPTCHA_PROVIDER'];
+export type OrderRedirectMode = z.infer<typeof EnvSchema>['VITE_ORDER_REDIRECT'];
+
+export interface IpfsConfig {
+  uploadUrl: string | null; // null: uploads are not configured
+  gatewayUrl: string;
+}
+
+export interface AppConfig {
+  orderEndpoint: string;
+  captcha: {
+    provider: CaptchaProviderName;
+    siteKey: string;
+    challengeSiteKey: string | null; // null: no interactive fallback
+  };
+  orderRedirect: OrderRedirectMode;
+  ipfs: IpfsConfig;
+  nft: {
+    chain: ChainKey;
+    contractAddress: string | null; // null: use the registry's (minting is disabled if that is null too)
+    rpcUrl: string | null;
+  };
+}
+
+export function parseAppConfig(env: Record<string, string | boolean | undefined>): AppConfig {
+  // Empty values in .env files mean "not set"
+  const values = Object.fromEntries(Object.entries(env).filter(([, value]) => value !== ''));
+  const result = EnvSchema.safeParse(values);
+
+  if (!result.success) {
+    const errors = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('\n');
+    throw new Error(`Invalid environment configuration:\n${errors}`);
+  }
+
+  const parsed = result.data;
+  const provider = parsed.VITE_CAPTCHA_PROVIDER;
+  const siteKey = parsed.VITE_CAPTCHA_SITE_KEY ?? (provider === 'recaptcha' ? DEFAULT_RECAPTCHA_SITE_KEY : '');
+
+  if (provider !== 'none' && !siteKey) {
+    throw new Error(`Invalid environment configuration:\nVITE_CAPTCHA_SITE_KEY is required for the ${provider} provider`);
+  }
+
+  return {
+    orderEndpoint: parsed.VITE_ORDER_ENDPOINT,
+    captcha: {
+      provider,
+      siteKey,
+      challengeSiteKey: provider === 'none'
+        ? null
+        : parsed.VITE_CAPTCHA_CHALLENGE_SITE_KEY ?? (provider === 'recaptcha' ? null : siteKey),
+    },
+    orderRedirect: parsed.VITE_ORDER_REDIRECT,
+    ipfs: {
+      uploadUrl: parsed.VITE_IPFS_UPLOAD_URL ?? null,
+      gatewayUrl: parsed.VITE_IPFS_GATEWAY_URL.endsWith('/') ? parsed.VITE_IPFS_GATEWAY_URL : `${parsed.VITE_IPFS_GATEWAY_URL}/`,
+    },
+    nft: {
+      chain: parsed.VITE_NFT_CHAIN,
+      contractAddress: parsed.VITE_NFT_CONTRACT_ADDRESS ?? null,
+      rpcUrl: parsed.VITE_NFT_RPC_URL ?? null,
+    },
+  };
+}
+
+export const appConfig = parseAppConfig(import.meta.env);
+
+if (import.meta.env.DEV) {
+  console.log('App config:', appConfig);
+}
@@ -0,0 +1,232 @@
+// src/utils/batchRender.ts
+import { z } from 'zod';
+import type { ProductManifest } from './manifestValidator';
+import { getDefaultSelection, ConfigSelection } from './selection';
+import { applyConstraints } from './constraintEngine';
+import { generateConfigId } from './id';
+import { encodeConfigCode } from './configCode';
+import { resolveConfiguration, getModelFile } from './resolveConfiguration';
+import { createZip, ZipEntry } from './zip';
+import { VIEW_PRESETS, ViewName, RenderBackground, RenderFormat, RenderedImage } from './offscreenRenderer';
+
+/**
+ * Marketing batch renders: every configuration in a matrix of finishes and
+ * hardware, from a set of camera presets, bundled as a zip with a CSV index.
+ *
+ * Opened with `?batch` on a product route; the other query parameters set the
+ * matrix (see parseBatchParams). scripts/batch-render.js drives it headlessly.
+ */
+
+export type FinishSet = 'patterns' | 'colors';
+export type HardwareSweep = 'all' | 'default'; // every option, or only the manifest default
+
+export interface BatchOptions {
+  finishes: FinishSet[];
+  suppressors: HardwareSweep;
+  calibers: HardwareSweep;
+  triggers: HardwareSweep;
+  views: ViewName[];
+  width: number;
+  height: number;
+  background: RenderBackground;
+  format: RenderFormat;
+  autostart: boolean; // start rendering as soon as the page loads (headless runs)
+}
+
+export interface BatchJob {
+  id: string;    // folder name inside the zip
+  label: string;
+  selection: ConfigSelection;
+  configId: string;
+  modelFile: string;
+}
+
+export interface BatchJobResult {
+  job: BatchJob;
+  images: RenderedImage[];
+}
+
+const VIEW_IDS = Object.keys(VIEW_PRESETS) as [ViewName, ...ViewName[]];
+
+const list = <T extends z.ZodType<string, string>>(item: T) =>
+  z.string().transform(value => value.split(',').map(v => v.trim()).filter(Boolean)).pipe(z.array(item).min(1));
+
+const BatchParamsSchema = z.object({
+  finishes: list(z.enum(['patterns', 'colors'])).default(['patterns', 'colors']),
+  suppressors: z.enum(['all', 'default']).default('all'),
+  calibers: z.enum(['all', 'default']).default('default'),
+  triggers: z.enum(['all', 'default']).default('default'),
+  views: list(z.enum(VIEW_IDS)).default(VIEW_IDS),
+  size: z.string().regex(/^\d+x\d+$/, 'size must look like 3840x2160').default('3840x2160'),
+  background: z.string().default('studio'),
+  format: z.enum(['png', 'webp']).default('png'),
+  autostart: z.enum(['0', '1', 'true', 'false']).default('0'),
+});
+
+/**
+ * Batch options from the URL, or null when batch mode wasn't asked for.
+ *
+ *   /p/M200-BASE?batch&finishes=patterns&suppressors=all&views=main,side&size=3840x2160&format=webp
+ */
+export function parseBatchParams(search: string): BatchOptions | null {
+  const params = new URLSearchParams(search);
+  if (!params.has('batch')) return null;
+
+  const values = Object.fromEntries([...params.entries()].filter(([key, value]) => key !== 'batch' && value !== ''));
+  const result = BatchParamsSchema.safeParse(values);
+  if (!result.success) {
+    const errors = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('\n');
+    throw new Error(`Invalid batch render parameters:\n${errors}`);
+  }
+
+  const parsed = result.data;
+  const [width, height] = parsed.size.split('x').map(Number);
+  return {
+    finishes: parsed.finishes as FinishSet[],
+    suppressors: parsed.suppressors,
+    calibers: parsed.calibers,
+    triggers: parsed.triggers,
+    views: parsed.views as ViewName[],
+    width,
+    height,
+    background: parsed.background,
+    format: parsed.format === 'webp' ? 'image/webp' : 'image/png',
+    autostart: parsed.autostart === '1' || parsed.autostart === 'true',
+  };
+}
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Every configuration in the matrix, after the manifest constraints. Combinations
+ * the constraints reject are skipped; ones they turn into an identical build
+ * are rendered once.
+ */
+export function buildBatchJobs(manifest: ProductManifest, options: BatchOptions): BatchJob[] {
+  const defaults = getDefaultSelection(manifest);
+  const sweep = (mode: HardwareSweep, ids: string[] | undefined, fallback: string | null) =>
+    mode === 'all' && ids?.length ? ids : [fallback];
+
+  const finishes: Array<{ id: string; label: string; selection: Partial<ConfigSelection> }> = [];
+  if (options.finishes.includes('patterns')) {
+    manifest.finishModes?.patterns.options.forEach(option => {
+      finishes.push({
+        id: option.id,
+        label: option.label,
+        selection: { finishMode: 'patterns', selectedPattern: option.id, partColorOverrides: {} },
+      });
+    });
+  }
+  if (options.finishes.includes('colors')) {
+    manifest.finishModes?.colors.options.forEach(option => {
+      finishes.push({
+        id: option.id,
+        label: option.label,
+        selection: {
+          finishMode: 'colors',
+          selectedColors: Object.fromEntries((manifest.configurableParts || []).map(partId => [partId, option.id])),
+        },
+      });
+    });
+  }
+
+  const jobs: BatchJob[] = [];
+  const seen = new Set<string>();
+
+  finishes.forEach(finish => {
+    sweep(options.suppressors, manifest.suppressors?.map(s => s.id), defaults.selectedSuppressor).forEach(suppressor => {
+      sweep(options.calibers, manifest.calibers?.map(c => c.id), defaults.selectedCaliber).forEach(caliber => {
+        sweep(options.triggers, manifest.triggers?.map(t => t.id), defaults.selectedTrigger).forEach(trigger => {
+          const requested: ConfigSelection = {
+            ...defaults,
+            ...finish.selection,
+            selectedSuppressor: suppressor,
+            selectedCaliber: caliber,
+            selectedTrigger: trigger,
+          };
+
+          // Comparing against the defaults pins the slots this job sets
+          const { selection, violations } = applyConstraints(manifest, requested, defaults);
+          const idParts = [finish.id, suppressor, options.calibers === 'all' && caliber, options.triggers === 'all' && trigger];
+          const id = idParts.filter(Boolean).map(part => slug(String(part))).join('_');
+
+          if (violations.length > 0) {
+            console.log(`Batch render: skipping ${id}:`, violations.map(v => v.reason).join('; '));
+            return;
+          }
+
+          const configId = generateConfigId(manifest.sku, selection);
+          if (seen.has(configId)) {
+            console.log(`Batch render: ${id} is the same build as an earlier job, skipping`);
+            return;
+          }
+          seen.add(configId);
+
+          const resolved = resolveConfiguration(manifest, selection);
+          jobs.push({
+            id,
+            label: [finish.label, resolved.suppressorLabel, options.calibers === 'all' && resolved.caliberLabel, options.triggers === 'all' && resolved.triggerLabel]
+              .filter(Boolean)
+              .join(' / '),
+            selection,
+            configId,
+            modelFile: getModelFile(manifest, selection.selectedSuppressor),
+          });
+        });
+      });
+    });
+  });
+
+  return jobs;
+}
+
+export function toCsv(rows: Array<Array<string | number>>): string {
+  const escape = (value: string | number) => {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n';
+}
+
+const extensionFor = (blob: Blob) => blob.type === 'image/webp' ? 'webp' : 'png';
+
+/**
+ * The zip: <sku>/<job>/<view>.<ext> for every render, plus manifest.csv
+ * describing each file
+ */
+export async function buildBatchArchive(manifest: ProductManifest, results: BatchJobResult[]): Promise<Blob> {
+  const entries: ZipEntry[] = [];
+  const rows: Array<Array<string | number>> = [[
+    'file', 'sku', 'config_id', 'config_code', 'finish_mode', 'finish', 'pattern',
+    'muzzle_device', 'caliber', 'trigger', 'view', 'width', 'height', 'bytes',
+  ]];
+
+  results.forEach(({ job, images }) => {
+    const resolved = resolveConfiguration(manifest, job.selection);
+    const configCode = encodeConfigCode(manifest, job.selection);
+
+    images.forEach(image => {
+      const file = `${manifest.sku}/${job.id}/${image.view}.${extensionFor(image.blob)}`;
+      entries.push({ name: file, data: image.blob });
+      rows.push([
+        file,
+        manifest.sku,
+        job.configId,
+        configCode,
+        job.selection.finishMode,
+        resolved.mainFinishLabel,
+        resolved.patternLabel ?? '',
+        resolved.suppressorLabel ?? '',
+        resolved.caliberLabel ?? '',
+        resolved.triggerLabel ?? '',
+        VIEW_PRESETS[image.view].label,
+        image.width,
+        image.height,
+        image.blob.size,
+      ]);
+    });
+  });
+
+  entries.push({ name: 'manifest.csv', data: toCsv(rows) });
+  return createZip(entries);
+}
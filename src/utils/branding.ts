@@ -0,0 +1,84 @@
+// src/utils/branding.ts
+
+/**
+ * Overlays drawn on exported images and turntables. Everything is sized
+ * relative to the frame height so every resolution gets the same layout.
+ */
+export interface Branding {
+  logoUrl: string | null;   // top-left corner, on a white plate
+  caption: string | null;   // bottom-left edge
+  watermark: string | null; // large translucent text across the middle
+}
+
+export const NO_BRANDING: Branding = { logoUrl: null, caption: null, watermark: null };
+
+export const DEFAULT_BRANDING: Branding = { logoUrl: '/logo.png', caption: null, watermark: null };
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load ${url}`));
+    image.src = url;
+  });
+}
+
+/**
+ * The logo image, or null when there is none or it fails to load (the
+ * export goes ahead without it)
+ */
+export async function loadBrandingLogo(branding: Branding): Promise<HTMLImageElement | null> {
+  if (!branding.logoUrl) return null;
+  try {
+    return await loadImage(branding.logoUrl);
+  } catch (error) {
+    console.warn('Logo unavailable, exporting without it:', error);
+    return null;
+  }
+}
+
+export function drawBranding(ctx: CanvasRenderingContext2D, branding: Branding, logo: HTMLImageElement | null) {
+  const { width, height } = ctx.canvas;
+  const margin = Math.round(height * 0.04);
+
+  if (branding.watermark) {
+    const fontSize = Math.round(height * 0.12);
+    ctx.save();
+    ctx.translate(width / 2, height / 2);
+    ctx.rotate(-Math.atan2(height, width));
+    ctx.font = `800 ${fontSize}px Inter, system-ui, sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.18)';
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.12)';
+    ctx.lineWidth = Math.max(1, fontSize / 40);
+    ctx.fillText(branding.watermark, 0, 0, Math.hypot(width, height) * 0.8);
+    ctx.strokeText(branding.watermark, 0, 0, Math.hypot(width, height) * 0.8);
+    ctx.restore();
+  }
+
+  if (logo) {
+    const logoHeight = Math.round(height * 0.07);
+    const logoWidth = Math.round(logo.naturalWidth * (logoHeight / logo.naturalHeight));
+    const pad = Math.round(logoHeight * 0.3);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.fillRect(margin - pad, margin - pad, logoWidth + pad * 2, logoHeight + pad * 2);
+    ctx.drawImage(logo, margin, margin, logoWidth, logoHeight);
+  }
+
+  if (branding.caption) {
+    const fontSize = Math.max(12, Math.round(height * 0.03));
+    ctx.font = `600 ${fontSize}px Inter, system-ui, sans-serif`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    const text = branding.caption.length > 120 ? `${branding.caption.slice(0, 117)}...` : branding.caption;
+    const textWidth = Math.min(ctx.measureText(text).width, width - margin * 2);
+    const pad = Math.round(fontSize * 0.5);
+    const y = height - margin - fontSize;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(margin - pad, y - fontSize / 2 - pad, textWidth + pad * 2, fontSize + pad * 2);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(text, margin, y, width - margin * 2);
+  }
+}
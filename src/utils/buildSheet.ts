@@ -0,0 +1,234 @@
+// src/utils/buildSheet.ts
+import type { ProductManifest } from './manifestValidator';
+import type { ConfigSelection } from './selection';
+import { resolveConfiguration, FinishSource, NOT_SPECIFIED } from './resolveConfiguration';
+import { VIEW_PRESETS, ViewName } from './offscreenRenderer';
+import { NO_BRANDING } from './branding';
+import { encodeQr } from './qrCode';
+import { ITAR_NOTICE_TITLE, ITAR_NOTICE } from './notices';
+import { PdfDocument, PdfImage, wrapText, measureText } from './pdf';
+import { exportService } from '../services/exportService';
+
+export interface BuildSheetInput {
+  manifest: ProductManifest;
+  selection: ConfigSelection;
+  configCode: string;
+  shareUrl: string;
+}
+
+const DETAIL_VIEWS: ViewName[] = ['side', 'front', 'back'];
+
+const SOURCE_LABELS: Record<FinishSource, string> = {
+  pattern: 'Pattern',
+  override: 'Custom color',
+  color: 'Color',
+  locked: 'Fixed',
+  none: '—',
+};
+
+const MARGIN = 40;
+const ACCENT = '#BA2025';
+const MUTED = '#666666';
+const RULE = '#d9d9d9';
+const FOOTER_HEIGHT = 58;
+const ROW_HEIGHT = 18;
+
+async function renderView(view: ViewName, width: number, height: number): Promise<Uint8Array> {
+  const blob = await exportService.captureImage({
+    view,
+    width,
+    height,
+    format: 'image/jpeg',
+    quality: 0.9,
+    background: '#ffffff',
+    branding: NO_BRANDING,
+  });
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+function drawQrCode(pdf: PdfDocument, text: string, x: number, y: number, size: number) {
+  const modules = encodeQr(text, 'M');
+  const quiet = 2;
+  const cell = size / (modules.length + quiet * 2);
+  pdf.rect(x, y, size, size, { fill: '#ffffff' });
+  modules.forEach((row, r) => {
+    // Dark runs as single rectangles keep the page small and free of hairline gaps
+    let start = -1;
+    row.forEach((dark, c) => {
+      if (dark && start < 0) start = c;
+      if (start >= 0 && (!dark || c === row.length - 1)) {
+        const end = dark ? c + 1 : c;
+        pdf.rect(x + (start + quiet) * cell, y + (r + quiet) * cell, (end - start) * cell, cell, { fill: '#000000' });
+        start = -1;
+      }
+    });
+  });
+}
+
+function drawFooter(pdf: PdfDocument, page: number) {
+  const top = pdf.height - MARGIN - FOOTER_HEIGHT + 10;
+  const width = pdf.width - MARGIN * 2;
+  pdf.line(MARGIN, top, MARGIN + width, top, RULE);
+  pdf.text(ITAR_NOTICE_TITLE, MARGIN, top + 14, { font: 'bold', size: 8, color: ACCENT });
+  wrapText(ITAR_NOTICE, 'regular', 7.5, width).forEach((line, i) => {
+    pdf.text(line, MARGIN, top + 26 + i * 10, { size: 7.5, color: MUTED });
+  });
+  pdf.text(`Page ${page}`, MARGIN + width, top + 14, { size: 8, color: MUTED, align: 'right' });
+}
+
+/**
+ * Cuts text to a column width with an ellipsis
+ */
+function fit(text: string, font: 'regular' | 'bold', size: number, width: number): string {
+  if (measureText(text, font, size) <= width) return text;
+  let cut = text;
+  while (cut.length > 1 && measureText(`${cut}…`, font, size) > width) cut = cut.slice(0, -1);
+  return `${cut}…`;
+}
+
+/**
+ * Renders the current build and lays out a printable dealer spec sheet:
+ * hero and detail views, hardware specifications, a per-part finish table,
+ * the configuration code with a QR code to the share link, and the
+ * ITAR/EAR notice. Everything happens in the browser.
+ */
+export async function createBuildSheet({ manifest, selection, configCode, shareUrl }: BuildSheetInput): Promise<Blob> {
+  console.log('Creating build sheet for', manifest.sku);
+  const resolved = resolveConfiguration(manifest, selection);
+  const caliber = manifest.calibers?.find(c => c.id === selection.selectedCaliber);
+
+  const hero = await renderView('main', 1600, 800);
+  const details: Array<{ view: ViewName; bytes: Uint8Array }> = [];
+  for (const view of DETAIL_VIEWS) {
+    details.push({ view, bytes: await renderView(view, 800, 450) });
+  }
+
+  const pdf = new PdfDocument();
+  const contentWidth = pdf.width - MARGIN * 2;
+  const contentBottom = pdf.height - MARGIN - FOOTER_HEIGHT;
+  let page = 1;
+
+  // Header
+  pdf.rect(0, 0, pdf.width, 70, { fill: '#1a1a1a' });
+  pdf.rect(0, 70, pdf.width, 3, { fill: ACCENT });
+  pdf.text(manifest.productName, MARGIN, 36, { font: 'bold', size: 20, color: '#ffffff' });
+  pdf.text(`SKU ${manifest.sku}`, MARGIN, 54, { size: 10, color: '#cccccc' });
+  pdf.text('BUILD SHEET', pdf.width - MARGIN, 36, { font: 'bold', size: 12, color: '#ffffff', align: 'right' });
+  pdf.text(new Date().toLocaleDateString(), pdf.width - MARGIN, 54, { size: 10, color: '#cccccc', align: 'right' });
+
+  // Hero and detail views
+  let y = 86;
+  const heroImage: PdfImage = pdf.addJpeg(hero);
+  const heroHeight = contentWidth * (heroImage.height / heroImage.width);
+  pdf.image(heroImage, MARGIN, y, contentWidth, heroHeight);
+  pdf.rect(MARGIN, y, contentWidth, heroHeight, { stroke: RULE });
+  y += heroHeight + 10;
+
+  const gap = 10;
+  const detailWidth = (contentWidth - gap * (details.length - 1)) / details.length;
+  let detailHeight = 0;
+  details.forEach(({ view, bytes }, i) => {
+    const image = pdf.addJpeg(bytes);
+    const x = MARGIN + i * (detailWidth + gap);
+    detailHeight = detailWidth * (image.height / image.width);
+    pdf.image(image, x, y, detailWidth, detailHeight);
+    pdf.rect(x, y, detailWidth, detailHeight, { stroke: RULE });
+    pdf.text(VIEW_PRESETS[view].label, x + detailWidth / 2, y + detailHeight + 11, { size: 8, color: MUTED, align: 'center' });
+  });
+  y += detailHeight + 30;
+
+  // Specifications on the left, configuration code and QR code on the right
+  const qrSize = 112;
+  const specsWidth = contentWidth - qrSize - 24;
+  const specs: Array<[string, string]> = [
+    ['Caliber', resolved.caliberLabel ?? NOT_SPECIFIED],
+    ...(caliber?.specifications?.bulletWeight ? [['Bullet weight', caliber.specifications.bulletWeight] as [string, string]] : []),
+    ...(caliber?.specifications?.muzzleVelocity ? [['Muzzle velocity', caliber.specifications.muzzleVelocity] as [string, string]] : []),
+    ...(caliber?.specifications?.energy ? [['Energy', caliber.specifications.energy] as [string, string]] : []),
+    ['Suppressor', resolved.suppressorLabel ?? NOT_SPECIFIED],
+    ['Trigger', resolved.triggerLabel ?? NOT_SPECIFIED],
+    ['Finish', resolved.hasCustomPartColors ? `${resolved.mainFinishLabel} (custom part colors)` : resolved.mainFinishLabel],
+  ];
+
+  const sectionTop = y;
+  pdf.text('SPECIFICATIONS', MARGIN, y, { font: 'bold', size: 10, color: ACCENT });
+  y += 8;
+  specs.forEach(([name, value]) => {
+    y += 16;
+    pdf.text(name, MARGIN, y, { size: 9, color: MUTED });
+    pdf.text(fit(value, 'bold', 9, specsWidth - 110), MARGIN + 110, y, { font: 'bold', size: 9 });
+    pdf.line(MARGIN, y + 5, MARGIN + specsWidth, y + 5, RULE);
+  });
+
+  const qrX = pdf.width - MARGIN - qrSize;
+  pdf.text('CONFIGURATION', qrX, sectionTop, { font: 'bold', size: 10, color: ACCENT });
+  drawQrCode(pdf, shareUrl, qrX, sectionTop + 8, qrSize);
+  let codeY = sectionTop + 8 + qrSize + 10;
+  // Codes have no spaces, so break them by character
+  for (let start = 0; start < configCode.length;) {
+    let end = start + 1;
+    while (end < configCode.length && measureText(configCode.slice(start, end + 1), 'regular', 7) <= qrSize) end++;
+    pdf.text(configCode.slice(start, end), qrX, codeY, { size: 7 });
+    codeY += 9;
+    start = end;
+  }
+  pdf.text('Scan to open this build', qrX, codeY + 2, { size: 7, color: MUTED });
+
+  y = Math.max(y, codeY) + 30;
+
+  // Per-part finish table, continued on further pages as needed
+  const columns = [
+    { title: 'Part', x: MARGIN, width: 150 },
+    { title: 'Finish', x: MARGIN + 156, width: 150 },
+    { title: 'Source', x: MARGIN + 312, width: 80 },
+    { title: 'Material', x: MARGIN + 398, width: contentWidth - 398 },
+  ];
+  const tableHeader = () => {
+    pdf.text('PART FINISHES', MARGIN, y, { font: 'bold', size: 10, color: ACCENT });
+    y += 18;
+    pdf.rect(MARGIN, y - 12, contentWidth, ROW_HEIGHT, { fill: '#f2f2f2' });
+    columns.forEach(column => pdf.text(column.title, column.x + 4, y, { font: 'bold', size: 8, color: MUTED }));
+    y += ROW_HEIGHT;
+  };
+
+  const parts = Object.values(resolved.parts);
+  if (y + 18 + ROW_HEIGHT * 2 > contentBottom) {
+    drawFooter(pdf, page++);
+    pdf.addPage();
+    y = MARGIN + 10;
+  }
+  tableHeader();
+
+  parts.forEach(part => {
+    if (y > contentBottom) {
+      drawFooter(pdf, page++);
+      pdf.addPage();
+      y = MARGIN + 10;
+      tableHeader();
+    }
+    pdf.text(fit(part.label, 'regular', 9, columns[0].width - 8), columns[0].x + 4, y, { size: 9 });
+    pdf.text(fit(part.finishLabel, 'bold', 9, columns[1].width - 8), columns[1].x + 4, y, { font: 'bold', size: 9 });
+    pdf.text(SOURCE_LABELS[part.source], columns[2].x + 4, y, { size: 9, color: MUTED });
+
+    const material = part.material;
+    if (material?.type === 'color') {
+      pdf.rect(columns[3].x + 4, y - 8, 10, 10, { fill: material.color, stroke: '#999999' });
+      pdf.text(material.color.toUpperCase(), columns[3].x + 20, y, { size: 9 });
+    } else if (material?.type === 'texture') {
+      pdf.text('Pattern texture', columns[3].x + 4, y, { size: 9, color: MUTED });
+    } else {
+      pdf.text('—', columns[3].x + 4, y, { size: 9, color: MUTED });
+    }
+    pdf.line(MARGIN, y + 6, MARGIN + contentWidth, y + 6, RULE);
+    y += ROW_HEIGHT;
+  });
+
+  if (parts.length === 0) {
+    pdf.text('No configurable parts', MARGIN + 4, y, { size: 9, color: MUTED });
+  }
+  drawFooter(pdf, page);
+
+  const blob = pdf.toBlob();
+  console.log(`Build sheet ready: ${page} page(s), ${blob.size} bytes`);
+  return blob;
+}
@@ -0,0 +1,68 @@
+// src/utils/catalog.ts
+import { z } from 'zod';
+
+// One entry per configurable product; `directory` is the folder under
+// /products that holds the product's manifest and models
+const CatalogEntrySchema = z.object({
+  sku: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  directory: z.string(),
+  thumbnail: z.string().optional(),
+});
+
+export const CatalogSchema = z.object({
+  products: z.array(CatalogEntrySchema).min(1),
+}).superRefine((catalog, ctx) => {
+  const seen = new Set<string>();
+  catalog.products.forEach((product, index) => {
+    if (seen.has(product.sku)) {
+      ctx.addIssue({ code: 'custom', path: ['products', index, 'sku'], message: `Duplicate sku "${product.sku}"` });
+    }
+    seen.add(product.sku);
+  });
+});
+
+export type CatalogEntry = z.infer<typeof CatalogEntrySchema>;
+export type Catalog = z.infer<typeof CatalogSchema>;
+
+export const CATALOG_URL = '/products/products.json';
+
+export function validateCatalog(data: unknown): Catalog {
+  return CatalogSchema.parse(data);
+}
+
+export function findCatalogEntry(catalog: Catalog, sku: string): CatalogEntry | null {
+  return catalog.products.find(product => product.sku === sku) || null;
+}
+
+/**
+ * Manifests are always served by the app itself
+ */
+export function getManifestUrl(entry: CatalogEntry): string {
+  return `/products/${entry.directory}/product.manifest.json`;
+}
+
+/**
+ * Base path for a product's models and textures; `assetRoot` is '' locally
+ * and the CDN origin in production
+ */
+export function getProductAssetPath(assetRoot: string, entry: CatalogEntry): string {
+  return `${assetRoot}/products/${entry.directory}`;
+}
+
+// ============================================
+// ROUTING (/p/:sku)
+// ============================================
+
+export function getProductRoute(sku: string): string {
+  return `/p/${encodeURIComponent(sku)}`;
+}
+
+/**
+ * Reads the sku from a `/p/:sku` path, or null for any other path
+ */
+export function getSkuFromPath(pathname: string): string | null {
+  const match = pathname.match(/^\/p\/([^/]+)\/?$/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
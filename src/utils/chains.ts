@@ -0,0 +1,100 @@
+// src/utils/chains.ts
+
+/**
+ * Networks the configurator can mint on. Contract addresses stay null until
+ * a deployment exists; the configured chain's address and RPC node can be
+ * set per environment (see appConfig).
+ */
+
+export const CHAIN_KEYS = ['polygonAmoy', 'polygon', 'base', 'local'] as const;
+
+export type ChainKey = typeof CHAIN_KEYS[number];
+
+export interface ChainConfig {
+  key: ChainKey;
+  chainId: number;
+  name: string;
+  rpcUrls: string[];
+  explorerUrl: string | null; // null: no block explorer (local dev nodes)
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  contractAddress: string | null;
+  testnet: boolean;
+}
+
+export const CHAINS: Record<ChainKey, ChainConfig> = {
+  polygonAmoy: {
+    key: 'polygonAmoy',
+    chainId: 80002,
+    name: 'Polygon Amoy',
+    rpcUrls: ['https://rpc-amoy.polygon.technology'],
+    explorerUrl: 'https://amoy.polygonscan.com',
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    contractAddress: null,
+    testnet: true,
+  },
+  polygon: {
+    key: 'polygon',
+    chainId: 137,
+    name: 'Polygon',
+    rpcUrls: ['https://polygon-rpc.com'],
+    explorerUrl: 'https://polygonscan.com',
+    nativeCurrency: { name: 'POL', symbol: 'POL', decimals: 18 },
+    contractAddress: null,
+    testnet: false,
+  },
+  base: {
+    key: 'base',
+    chainId: 8453,
+    name: 'Base',
+    rpcUrls: ['https://mainnet.base.org'],
+    explorerUrl: 'https://basescan.org',
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    contractAddress: null,
+    testnet: false,
+  },
+  // Anvil and Hardhat both default to 31337 on port 8545
+  local: {
+    key: 'local',
+    chainId: 31337,
+    name: 'Local Dev Chain',
+    rpcUrls: ['http://127.0.0.1:8545'],
+    explorerUrl: null,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    contractAddress: null,
+    testnet: true,
+  },
+};
+
+/**
+ * A registry entry with environment overrides applied
+ */
+export function resolveChain(
+  key: ChainKey,
+  overrides: { contractAddress?: string | null; rpcUrl?: string | null } = {}
+): ChainConfig {
+  const chain = CHAINS[key];
+  return {
+    ...chain,
+    contractAddress: overrides.contractAddress ?? chain.contractAddress,
+    rpcUrls: overrides.rpcUrl ? [overrides.rpcUrl, ...chain.rpcUrls.filter(url => url !== overrides.rpcUrl)] : chain.rpcUrls,
+  };
+}
+
+/**
+ * Chain id as wallets expect it in wallet_switchEthereumChain (0x-prefixed, no padding)
+ */
+export function toHexChainId(chainId: number): string {
+  return `0x${chainId.toString(16)}`;
+}
+
+export function getExplorerTxUrl(chain: ChainConfig, txHash: string): string | null {
+  return chain.explorerUrl ? `${chain.explorerUrl}/tx/${txHash}` : null;
+}
+
+export function getExplorerAddressUrl(chain: ChainConfig, address: string): string | null {
+  return chain.explorerUrl ? `${chain.explorerUrl}/address/${address}` : null;
+}
@@ -0,0 +1,35 @@
+// src/utils/cid.test.ts
+import { describe, expect, it } from 'vitest';
+import { computeCid, CHUNK_SIZE } from './cid';
+
+// Expected CIDs come from ipfs-unixfs-importer (the reference JS importer) set up
+// like `ipfs add --cid-version=1 --raw-leaves`: 256 KiB chunks, balanced layout,
+// 174 links per node. They don't depend on this code or server/mock-ipfs-server.js;
+// the empty and "hello world" ones are the well-known Kubo values.
+
+// Deterministic content that doesn't repeat on chunk boundaries
+function content(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = i % 251;
+  return bytes;
+}
+
+describe('computeCid', () => {
+  it('hashes an empty file as an empty raw block', async () => {
+    expect(await computeCid(new Uint8Array())).toBe('bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku');
+  });
+
+  it('hashes a single-chunk file as one raw block', async () => {
+    expect(await computeCid('hello world')).toBe('bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e');
+    expect(await computeCid(new Blob([content(CHUNK_SIZE)]))).toBe('bafkreibruh455iawsviqslif5c7uurdcfdemh22mtnytyzvnzn75kpejxy');
+  });
+
+  it('links two leaves under a UnixFS node just past one chunk', async () => {
+    expect(await computeCid(content(CHUNK_SIZE + 1))).toBe('bafybeiexg2oqkfnj56l7fcmawswqbijt5shq4b5rg6a546uwpkqqzwjioi');
+  });
+
+  it('adds a second level past 174 leaves', async () => {
+    // 176 leaves: one full node of 174 and one of 2 under a root
+    expect(await computeCid(content(175 * CHUNK_SIZE + 1))).toBe('bafybeihzhgkxa5ea4r5cr73r73tsf3ppwpstcxnsuyqxio3vy7xpikkhmi');
+  });
+});
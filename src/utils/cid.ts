@@ -0,0 +1,133 @@
+// src/utils/cid.ts
+
+/**
+ * IPFS content identifiers computed in the browser, so an upload can be
+ * checked against what the pinning service says it stored.
+ *
+ * Files are laid out the way Kubo does with `--cid-version=1` (the default
+ * for CIDv1 on Pinata too): 256 KiB chunks stored as raw leaves, joined by
+ * balanced UnixFS DAG-PB nodes of at most 174 links. A file that fits in
+ * one chunk is a single raw block.
+ */
+
+export const CHUNK_SIZE = 262144;
+const MAX_LINKS = 174;
+
+const CODEC_RAW = 0x55;
+const CODEC_DAG_PB = 0x70;
+const HASH_SHA2_256 = 0x12;
+const UNIXFS_FILE = 2;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+interface DagNode {
+  cid: Uint8Array;  // binary CID
+  fileSize: number; // bytes of file content below this node
+  treeSize: number; // bytes of every block below and including this node (PBLink Tsize)
+}
+
+function varint(value: number): number[] {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return bytes;
+}
+
+function concat(parts: Array<Uint8Array | number[]>): Uint8Array {
+  const length = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(length);
+  let offset = 0;
+  parts.forEach(part => {
+    out.set(part, offset);
+    offset += part.length;
+  });
+  return out;
+}
+
+// Length-delimited protobuf field
+function bytesField(field: number, value: Uint8Array): Uint8Array {
+  return concat([[(field << 3) | 2, ...varint(value.length)], value]);
+}
+
+function varintField(field: number, value: number): number[] {
+  return [field << 3, ...varint(value)];
+}
+
+async function cidV1(codec: number, block: Uint8Array): Promise<Uint8Array> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', block as BufferSource));
+  return concat([[0x01, codec, HASH_SHA2_256, digest.length], digest]);
+}
+
+export function cidToString(cid: Uint8Array): string {
+  // Multibase 'b': lowercase RFC 4648 base32 without padding
+  let out = 'b';
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of cid) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    buffer &= (1 << bits) - 1;
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  return out;
+}
+
+/**
+ * UnixFS file node over its children. Links go before Data, as DAG-PB
+ * requires for a stable encoding.
+ */
+async function fileNode(children: DagNode[]): Promise<DagNode> {
+  const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+  const unixfs = concat([
+    varintField(1, UNIXFS_FILE),
+    varintField(3, fileSize),
+    ...children.map(child => varintField(4, child.fileSize)),
+  ]);
+  const block = concat([
+    ...children.map(child => bytesField(2, concat([
+      bytesField(1, child.cid),
+      bytesField(2, new Uint8Array(0)), // empty name, written out like Kubo does
+      varintField(3, child.treeSize),
+    ]))),
+    bytesField(1, unixfs),
+  ]);
+
+  return {
+    cid: await cidV1(CODEC_DAG_PB, block),
+    fileSize,
+    treeSize: block.length + children.reduce((sum, child) => sum + child.treeSize, 0),
+  };
+}
+
+/**
+ * The CIDv1 (base32) IPFS assigns to this content when added as a file
+ */
+export async function computeCid(data: Blob | Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string'
+    ? new TextEncoder().encode(data)
+    : data instanceof Uint8Array ? data : new Uint8Array(await data.arrayBuffer());
+
+  let level: DagNode[] = [];
+  for (let offset = 0; offset < bytes.length || offset === 0; offset += CHUNK_SIZE) {
+    const chunk = bytes.subarray(offset, offset + CHUNK_SIZE);
+    level.push({ cid: await cidV1(CODEC_RAW, chunk), fileSize: chunk.length, treeSize: chunk.length });
+    if (bytes.length === 0) break;
+  }
+
+  while (level.length > 1) {
+    const next: DagNode[] = [];
+    for (let i = 0; i < level.length; i += MAX_LINKS) {
+      next.push(await fileNode(level.slice(i, i + MAX_LINKS)));
+    }
+    level = next;
+  }
+
+  return cidToString(level[0].cid);
+}
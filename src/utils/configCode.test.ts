@@ -0,0 +1,98 @@
+// src/utils/configCode.test.ts
+import { describe, expect, it } from 'vitest';
+import { validateManifest } from './manifestValidator';
+import type { ConfigSelection } from './selection';
+import { encodeConfigCode, decodeConfigCode, parseConfigCode } from './configCode';
+
+const black = { type: 'color', color: '#1C1C1C' } as const;
+
+function buildManifest(calibers: string[], sku = 'TEST-1') {
+  return validateManifest({
+    productName: 'Test Rifle',
+    sku,
+    defaultCamera: { position: { x: 0, y: 0, z: 5 }, target: { x: 0, y: 0, z: 0 }, fov: 50 },
+    hotspots: [],
+    ui: [],
+    parts: [
+      { id: 'receiver', label: 'Receiver', meshSelectors: ['Receiver'] },
+      { id: 'barrel', label: 'Barrel', meshSelectors: ['Barrel'] },
+      { id: 'stock', label: 'Stock', meshSelectors: ['Stock'], options: [
+        { id: 'fixed', label: 'Fixed', material: black },
+        { id: 'folding', label: 'Folding', material: black },
+      ] },
+    ],
+    configurableParts: ['receiver', 'barrel'],
+    finishModes: {
+      colors: { label: 'Colors', description: 'Per part', allowIndividualSelection: true, options: [
+        { id: 'black', label: 'Black', material: black },
+        { id: 'fde', label: 'Flat Dark Earth', material: black },
+      ] },
+      patterns: { label: 'Patterns', description: 'Whole rifle', allowIndividualSelection: false, options: [
+        { id: 'multicam', label: 'Multicam', material: black },
+      ] },
+    },
+    calibers: calibers.map(id => ({ id, label: id })),
+    suppressors: [{ id: 'brake', label: 'Muzzle Brake', modelFile: 'brake.glb' }],
+    triggers: [{ id: 'timney', label: 'Timney' }],
+  });
+}
+
+const manifest = buildManifest(['408', '375', '338']);
+
+const build: ConfigSelection = {
+  finishMode: 'patterns',
+  selectedPattern: 'multicam',
+  selectedColors: { receiver: 'fde', barrel: 'black' },
+  partColorOverrides: { barrel: 'fde' },
+  selectedCaliber: '375',
+  selectedSuppressor: null,
+  selectedTrigger: 'timney',
+  selectedOptions: { stock: 'folding' },
+};
+
+describe('configuration codes', () => {
+  it('round-trips a selection', () => {
+    const code = encodeConfigCode(manifest, build);
+    const decoded = decodeConfigCode(manifest, code);
+
+    expect(code).toMatch(/^v2\.TEST-1\.[A-Za-z0-9_-]+$/);
+    expect(decoded.sku).toBe('TEST-1');
+    expect(decoded.selection).toEqual(build);
+    expect(decoded.missing).toEqual([]);
+  });
+
+  it('reads skus that contain dots', () => {
+    const dotted = buildManifest(['408'], 'M200.V2.BASE');
+    const code = encodeConfigCode(dotted, { ...build, selectedCaliber: '408' });
+
+    expect(parseConfigCode(code).sku).toBe('M200.V2.BASE');
+    expect(decodeConfigCode(dotted, code).selection.selectedCaliber).toBe('408');
+  });
+
+  it('finds options that moved in the manifest', () => {
+    const code = encodeConfigCode(manifest, build);
+    const reordered = buildManifest(['338', '408', '375']);
+
+    expect(decodeConfigCode(reordered, code).selection.selectedCaliber).toBe('375');
+  });
+
+  it('reports removed options instead of picking whatever took their place', () => {
+    const code = encodeConfigCode(manifest, build);
+    const removed = buildManifest(['408', '338']);
+    const decoded = decodeConfigCode(removed, code);
+
+    expect(decoded.missing).toEqual([{ slot: 'caliber', label: 'Caliber' }]);
+    expect(decoded.selection.selectedCaliber).toBe('408'); // the default, not the option now at index 2
+  });
+
+  it('rejects damaged, foreign and old-version codes', () => {
+    const code = encodeConfigCode(manifest, build);
+    const payload = code.slice(code.lastIndexOf('.') + 1);
+    const damaged = `${code.slice(0, -payload.length)}${payload[0] === 'A' ? 'B' : 'A'}${payload.slice(1)}`;
+
+    expect(() => parseConfigCode(damaged)).toThrow(/checksum/);
+    expect(() => decodeConfigCode(buildManifest(['408'], 'OTHER'), code)).toThrow(/for product "TEST-1"/);
+    expect(() => parseConfigCode(code.replace(/^v2/, 'v1'))).toThrow(/version 1/);
+    expect(() => parseConfigCode('not a code')).toThrow(/Not a configuration code/);
+  });
+});
@@ -0,0 +1,344 @@
+// src/utils/configCode.ts
+import type { ProductManifest } from './manifestValidator';
+import { ConfigSelection, restoreSelection } from './selection';
+import { fnv1a32 } from './hash';
+
+/**
+ * Compact, URL-safe configuration codes: `v<version>.<sku>.<payload>`.
+ *
+ * The payload is base64url over a byte stream of option indices followed by
+ * a 4-byte checksum. Every option is written as its index in the manifest
+ * plus the 32-bit hash of its id, so a link made before a manifest change
+ * still finds options that moved, and reports the ones that are gone
+ * instead of silently picking a neighbour. The sku may contain dots: it runs
+ * up to the last one.
+ *
+ * v2 layout (v1 wrote a single hash byte, too few to tell ids apart):
+ *   finishMode (0 colors, 1 patterns)
+ *   pattern, caliber, suppressor, trigger
+ *   base color, count, (part, color) for every part that differs from it
+ *   count, (part, color) per pattern override
+ *   count, (part, option) per legacy part option
+ */
+
+export const CONFIG_CODE_VERSION = 2;
+
+export interface MissingOption {
+  slot: string;  // e.g. 'caliber', 'color:barrel'
+  label: string; // human readable, e.g. 'Barrel color'
+}
+
+export interface DecodedConfigCode {
+  sku: string;
+  selection: ConfigSelection;
+  missing: MissingOption[];
+}
+
+// ============================================
+// BYTE STREAM HELPERS
+// ============================================
+
+const MISSING = Symbol('missing');
+
+const idHash = fnv1a32;
+
+class ByteWriter {
+  bytes: number[] = [];
+
+  varint(value: number) {
+    while (value > 0x7f) {
+      this.bytes.push((value & 0x7f) | 0x80);
+      value >>>= 7;
+    }
+    this.bytes.push(value);
+  }
+
+  uint32(value: number) {
+    this.bytes.push(value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+  }
+
+  // 0 for "nothing selected", otherwise index + 1 and the id's hash
+  ref(ids: string[], id: string | null | undefined) {
+    const index = id ? ids.indexOf(id) : -1;
+    if (index === -1) {
+      this.varint(0);
+      return;
+    }
+    this.varint(index + 1);
+    this.uint32(idHash(id!));
+  }
+}
+
+class ByteReader {
+  private bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+  }
+
+  byte(): number {
+    if (this.offset >= this.bytes.length) {
+      throw new Error('Configuration code is truncated');
+    }
+    return this.bytes[this.offset++];
+  }
+
+  uint32(): number {
+    return ((this.byte() << 24) | (this.byte() << 16) | (this.byte() << 8) | this.byte()) >>> 0;
+  }
+
+  varint(): number {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = this.byte();
+      value |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80 && shift < 35);
+    return value >>> 0;
+  }
+
+  // Resolves a ref against the current manifest's ids: the same index if the
+  // hash still matches, otherwise the one id with that hash, otherwise MISSING
+  ref(ids: string[]): string | null | typeof MISSING {
+    const value = this.varint();
+    if (value === 0) return null;
+
+    const hash = this.uint32();
+    const atIndex = ids[value - 1];
+    if (atIndex !== undefined && idHash(atIndex) === hash) {
+      return atIndex;
+    }
+
+    const moved = ids.filter(id => idHash(id) === hash);
+    return moved.length === 1 ? moved[0] : MISSING;
+  }
+
+  get done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function checksum(version: number, sku: string, body: Uint8Array): number {
+  const prefix = new TextEncoder().encode(`v${version}.${sku}.`);
+  const data = new Uint8Array(prefix.length + body.length);
+  data.set(prefix);
+  data.set(body, prefix.length);
+  return fnv1a32(data);
+}
+
+// ============================================
+// MANIFEST ID LISTS
+// ============================================
+
+function getIdLists(manifest: ProductManifest) {
+  return {
+    patterns: manifest.finishModes?.patterns.options.map(o => o.id) || [],
+    colors: manifest.finishModes?.colors.options.map(o => o.id) || [],
+    calibers: manifest.calibers?.map(c => c.id) || [],
+    suppressors: manifest.suppressors?.map(s => s.id) || [],
+    triggers: manifest.triggers?.map(t => t.id) || [],
+    configurableParts: manifest.configurableParts || [],
+    parts: manifest.parts.map(p => p.id),
+  };
+}
+
+function partLabel(manifest: ProductManifest, partId: string | null | typeof MISSING): string {
+  if (typeof partId !== 'string') return 'A part that no longer exists';
+  return manifest.parts.find(p => p.id === partId)?.label || partId;
+}
+
+// ============================================
+// ENCODE / DECODE
+// ============================================
+
+export function encodeConfigCode(manifest: ProductManifest, selection: ConfigSelection): string {
+  const ids = getIdLists(manifest);
+  const writer = new ByteWriter();
+
+  writer.varint(selection.finishMode === 'patterns' ? 1 : 0);
+  writer.ref(ids.patterns, selection.selectedPattern);
+  writer.ref(ids.calibers, selection.selectedCaliber);
+  writer.ref(ids.suppressors, selection.selectedSuppressor);
+  writer.ref(ids.triggers, selection.selectedTrigger);
+
+  // Colors: the most common one, then only the parts that differ
+  const counts = new Map<string, number>();
+  ids.configurableParts.forEach(partId => {
+    const colorId = selection.selectedColors[partId];
+    if (colorId) counts.set(colorId, (counts.get(colorId) || 0) + 1);
+  });
+  const baseColor = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+  const exceptions = ids.configurableParts.filter(partId => (selection.selectedColors[partId] ?? null) !== baseColor);
+
+  writer.ref(ids.colors, baseColor);
+  writer.varint(exceptions.length);
+  exceptions.forEach(partId => {
+    writer.ref(ids.configurableParts, partId);
+    writer.ref(ids.colors, selection.selectedColors[partId]);
+  });
+
+  const overrides = Object.entries(selection.partColorOverrides).filter(([partId]) => ids.configurableParts.includes(partId));
+  writer.varint(overrides.length);
+  overrides.forEach(([partId, colorId]) => {
+    writer.ref(ids.configurableParts, partId);
+    writer.ref(ids.colors, colorId);
+  });
+
+  const options = Object.entries(selection.selectedOptions).filter(([partId]) => ids.parts.includes(partId));
+  writer.varint(options.length);
+  options.forEach(([partId, optionId]) => {
+    writer.ref(ids.parts, partId);
+    writer.ref(manifest.parts.find(p => p.id === partId)?.options?.map(o => o.id) || [], optionId);
+  });
+
+  const body = Uint8Array.from(writer.bytes);
+  const sum = checksum(CONFIG_CODE_VERSION, manifest.sku, body);
+  const payload = new Uint8Array(body.length + 4);
+  payload.set(body);
+  new DataView(payload.buffer).setUint32(body.length, sum);
+
+  return `v${CONFIG_CODE_VERSION}.${encodeURIComponent(manifest.sku)}.${toBase64Url(payload)}`;
+}
+
+/**
+ * Splits a code into its parts and verifies the checksum, without needing a
+ * manifest. Used to find out which product a link belongs to.
+ */
+export function parseConfigCode(code: string): { version: number; sku: string; body: Uint8Array } {
+  const match = code.trim().match(/^v(\d+)\.(.+)\.([A-Za-z0-9_-]+)$/);
+  if (!match) {
+    throw new Error('Not a configuration code');
+  }
+
+  const version = Number(match[1]);
+  if (version !== CONFIG_CODE_VERSION) {
+    throw new Error(`Unsupported configuration code version ${version}`);
+  }
+
+  const sku = decodeURIComponent(match[2]);
+  const payload = fromBase64Url(match[3]);
+  if (payload.length < 5) {
+    throw new Error('Configuration code is truncated');
+  }
+
+  const body = payload.slice(0, payload.length - 4);
+  const expected = new DataView(payload.buffer, payload.byteOffset, payload.byteLength).getUint32(body.length);
+  if (checksum(version, sku, body) !== expected) {
+    throw new Error('Configuration code is damaged (checksum mismatch)');
+  }
+
+  return { version, sku, body };
+}
+
+/**
+ * Decodes a code against the current manifest. Options that no longer exist
+ * fall back to the manifest defaults and are listed in `missing`.
+ */
+export function decodeConfigCode(manifest: ProductManifest, code: string): DecodedConfigCode {
+  const { sku, body } = parseConfigCode(code);
+  if (sku !== manifest.sku) {
+    throw new Error(`Configuration code is for product "${sku}", not "${manifest.sku}"`);
+  }
+
+  const ids = getIdLists(manifest);
+  const reader = new ByteReader(body);
+  const missing: MissingOption[] = [];
+  const partial: Partial<ConfigSelection> = {};
+
+  const take = <T>(value: T | typeof MISSING, slot: string, label: string): T | undefined => {
+    if (value === MISSING) {
+      missing.push({ slot, label });
+      return undefined;
+    }
+    return value;
+  };
+
+  partial.finishMode = reader.varint() === 1 ? 'patterns' : 'colors';
+  const pattern = take(reader.ref(ids.patterns), 'pattern', 'Pattern');
+  if (pattern !== undefined) partial.selectedPattern = pattern;
+  partial.selectedCaliber = take(reader.ref(ids.calibers), 'caliber', 'Caliber');
+  partial.selectedSuppressor = take(reader.ref(ids.suppressors), 'suppressor', 'Muzzle device');
+  partial.selectedTrigger = take(reader.ref(ids.triggers), 'trigger', 'Trigger');
+
+  const baseColor = take(reader.ref(ids.colors), 'color', 'Color');
+  const selectedColors: Record<string, string> = {};
+  if (baseColor) {
+    ids.configurableParts.forEach(partId => {
+      selectedColors[partId] = baseColor;
+    });
+  }
+  const exceptionCount = reader.varint();
+  for (let i = 0; i < exceptionCount; i++) {
+    const partId = reader.ref(ids.configurableParts);
+    const colorId = reader.ref(ids.colors);
+    if (typeof partId !== 'string') {
+      missing.push({ slot: 'color', label: `${partLabel(manifest, partId)} color` });
+      continue;
+    }
+    if (colorId === MISSING) {
+      missing.push({ slot: `color:${partId}`, label: `${partLabel(manifest, partId)} color` });
+      delete selectedColors[partId];
+    } else if (colorId === null) {
+      delete selectedColors[partId];
+    } else {
+      selectedColors[partId] = colorId;
+    }
+  }
+  partial.selectedColors = selectedColors;
+
+  const partColorOverrides: Record<string, string> = {};
+  const overrideCount = reader.varint();
+  for (let i = 0; i < overrideCount; i++) {
+    const partId = reader.ref(ids.configurableParts);
+    const colorId = reader.ref(ids.colors);
+    if (typeof partId === 'string' && typeof colorId === 'string') {
+      partColorOverrides[partId] = colorId;
+    } else if (partId !== null || colorId !== null) {
+      missing.push({ slot: `override:${typeof partId === 'string' ? partId : '?'}`, label: `${partLabel(manifest, partId)} color` });
+    }
+  }
+  partial.partColorOverrides = partColorOverrides;
+
+  const selectedOptions: Record<string, string> = {};
+  const optionCount = reader.varint();
+  for (let i = 0; i < optionCount; i++) {
+    const partId = reader.ref(ids.parts);
+    const optionIds = typeof partId === 'string'
+      ? manifest.parts.find(p => p.id === partId)?.options?.map(o => o.id) || []
+      : [];
+    const optionId = reader.ref(optionIds);
+    if (typeof partId === 'string' && typeof optionId === 'string') {
+      selectedOptions[partId] = optionId;
+    } else if (partId !== null || optionId !== null) {
+      missing.push({ slot: `option:${typeof partId === 'string' ? partId : '?'}`, label: `${partLabel(manifest, partId)} option` });
+    }
+  }
+  partial.selectedOptions = selectedOptions;
+
+  if (!reader.done) {
+    throw new Error('Configuration code has unexpected trailing data');
+  }
+
+  return {
+    sku,
+    selection: restoreSelection(manifest, partial),
+    missing,
+  };
+}
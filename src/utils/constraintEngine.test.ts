@@ -0,0 +1,235 @@
+// src/utils/constraintEngine.test.ts
+import { describe, expect, it } from 'vitest';
+import { validateManifest, Constraint } from './manifestValidator';
+import type { ConfigSelection } from './selection';
+import { applyConstraints, getConstraints, getOptionAvailability } from './constraintEngine';
+
+const black = { type: 'color', color: '#1C1C1C' } as const;
+
+function buildManifest(constraints: Constraint[]) {
+  return validateManifest({
+    productName: 'Test Rifle',
+    sku: 'TEST-1',
+    defaultCamera: { position: { x: 0, y: 0, z: 5 }, target: { x: 0, y: 0, z: 0 }, fov: 50 },
+    hotspots: [],
+    ui: [],
+    parts: [
+      { id: 'receiver', label: 'Receiver', meshSelectors: ['Receiver'] },
+      { id: 'carryHandle', label: 'Carry Handle', meshSelectors: ['Handle'], options: [
+        { id: 'standard', label: 'Standard', material: black },
+        { id: 'tall', label: 'Tall', material: black },
+      ] },
+      { id: 'handleClamp', label: 'Handle Clamp', meshSelectors: ['Clamp'], options: [
+        { id: 'standard', label: 'Standard', material: black },
+        { id: 'tall', label: 'Tall', material: black },
+      ] },
+      { id: 'stock', label: 'Stock', meshSelectors: ['Stock'], options: [
+        { id: 'fixed', label: 'Fixed Stock', material: black },
+        { id: 'folding', label: 'Folding Stock', material: black, rules: [
+          { type: 'enable', condition: { partId: 'carryHandle', optionId: 'tall' } },
+        ] },
+      ] },
+    ],
+    configurableParts: ['receiver'],
+    finishModes: {
+      colors: { label: 'Colors', description: 'Per part', allowIndividualSelection: true, options: [{ id: 'black', label: 'Black', material: black }] },
+      patterns: { label: 'Patterns', description: 'Whole rifle', allowIndividualSelection: false, options: [{ id: 'multicam', label: 'Multicam', material: black }] },
+    },
+    calibers: [{ id: '408', label: '.408 CheyTac' }, { id: '375', label: '.375 CheyTac' }],
+    suppressors: [
+      { id: 'brake', label: 'Muzzle Brake', modelFile: 'brake.glb' },
+      { id: 'm3', label: 'M3 Suppressor', modelFile: 'm3.glb' },
+      { id: 'none', label: 'No Muzzle Device', modelFile: 'bare.glb' },
+    ],
+    triggers: [{ id: 'timney', label: 'Timney' }, { id: 'elite', label: 'Elite' }],
+    constraints,
+  });
+}
+
+function selection(overrides: Partial<ConfigSelection> = {}): ConfigSelection {
+  return {
+    finishMode: 'colors',
+    selectedPattern: null,
+    selectedColors: { receiver: 'black' },
+    partColorOverrides: {},
+    selectedCaliber: '408',
+    selectedSuppressor: 'brake',
+    selectedTrigger: 'timney',
+    selectedOptions: {},
+    ...overrides,
+  };
+}
+
+const m3Needs408: Constraint = {
+  id: 'm3-needs-408',
+  type: 'requires',
+  when: { kind: 'suppressor', id: 'm3' },
+  then: { kind: 'caliber', id: '408' },
+  reason: 'The M3 is only made for .408',
+};
+
+describe('applyConstraints', () => {
+  it('leaves a valid selection alone', () => {
+    const manifest = buildManifest([m3Needs408]);
+    const result = applyConstraints(manifest, selection({ selectedSuppressor: 'm3' }));
+
+    expect(result.selection).toEqual(selection({ selectedSuppressor: 'm3' }));
+    expect(result.violations).toEqual([]);
+  });
+
+  describe('requires', () => {
+    const manifest = buildManifest([m3Needs408]);
+
+    it('selects what the customer\'s choice requires', () => {
+      const previous = selection({ selectedCaliber: '375' });
+      const result = applyConstraints(manifest, { ...previous, selectedSuppressor: 'm3' }, previous);
+
+      expect(result.selection.selectedSuppressor).toBe('m3');
+      expect(result.selection.selectedCaliber).toBe('408');
+      expect(result.violations).toEqual([]);
+    });
+
+    it('replaces an option whose requirement the customer took away', () => {
+      const previous = selection({ selectedSuppressor: 'm3' });
+      const result = applyConstraints(manifest, { ...previous, selectedCaliber: '375' }, previous);
+
+      expect(result.selection.selectedCaliber).toBe('375');
+      expect(result.selection.selectedSuppressor).toBe('brake');
+    });
+
+    it('reports the option as unavailable, with the reason', () => {
+      expect(getOptionAvailability(manifest, selection({ selectedCaliber: '375' }), { kind: 'suppressor', id: 'm3' }))
+        .toEqual({ available: false, reasons: ['The M3 is only made for .408'] });
+      expect(getOptionAvailability(manifest, selection(), { kind: 'suppressor', id: 'm3' }).available).toBe(true);
+    });
+  });
+
+  describe('excludes', () => {
+    const manifest = buildManifest([{
+      id: 'elite-no-brake',
+      type: 'excludes',
+      when: { kind: 'trigger', id: 'elite' },
+      then: { kind: 'suppressor', id: 'brake' },
+      reason: 'The Elite trigger is not offered with the brake',
+    }]);
+
+    it('moves the other side off the excluded option', () => {
+      const previous = selection();
+      const result = applyConstraints(manifest, { ...previous, selectedTrigger: 'elite' }, previous);
+
+      expect(result.selection.selectedTrigger).toBe('elite');
+      expect(result.selection.selectedSuppressor).toBe('m3');
+    });
+
+    it('blocks both directions', () => {
+      expect(getOptionAvailability(manifest, selection(), { kind: 'trigger', id: 'elite' }).available).toBe(false);
+      expect(getOptionAvailability(manifest, selection({ selectedTrigger: 'elite', selectedSuppressor: 'm3' }), { kind: 'suppressor', id: 'brake' }).available).toBe(false);
+    });
+  });
+
+  describe('forces', () => {
+    const manifest = buildManifest([{
+      id: '375-timney',
+      type: 'forces',
+      when: { kind: 'caliber', id: '375' },
+      then: { kind: 'trigger', id: 'timney' },
+      reason: 'The .375 ships with the Timney trigger',
+    }]);
+
+    it('sets and locks the forced option', () => {
+      const previous = selection({ selectedTrigger: 'elite' });
+      const result = applyConstraints(manifest, { ...previous, selectedCaliber: '375' }, previous);
+
+      expect(result.selection.selectedTrigger).toBe('timney');
+      expect(getOptionAvailability(manifest, result.selection, { kind: 'trigger', id: 'elite' }))
+        .toEqual({ available: false, reasons: ['The .375 ships with the Timney trigger'] });
+    });
+  });
+
+  describe('mirrors (forces without a then id)', () => {
+    const manifest = buildManifest([
+      {
+        id: 'handle-to-clamp',
+        type: 'forces',
+        when: { kind: 'option', partId: 'carryHandle' },
+        then: { kind: 'option', partId: 'handleClamp' },
+        reason: 'The clamp matches the handle',
+      },
+      {
+        id: 'clamp-to-handle',
+        type: 'forces',
+        when: { kind: 'option', partId: 'handleClamp' },
+        then: { kind: 'option', partId: 'carryHandle' },
+        reason: 'The handle matches the clamp',
+      },
+    ]);
+
+    it('copies whichever side the customer changed', () => {
+      const previous = selection({ selectedOptions: { carryHandle: 'standard', handleClamp: 'standard' } });
+
+      const fromHandle = applyConstraints(manifest, { ...previous, selectedOptions: { carryHandle: 'tall', handleClamp: 'standard' } }, previous);
+      expect(fromHandle.selection.selectedOptions).toEqual({ carryHandle: 'tall', handleClamp: 'tall' });
+
+      const fromClamp = applyConstraints(manifest, { ...previous, selectedOptions: { carryHandle: 'standard', handleClamp: 'tall' } }, previous);
+      expect(fromClamp.selection.selectedOptions).toEqual({ carryHandle: 'tall', handleClamp: 'tall' });
+      expect(fromClamp.violations).toEqual([]);
+    });
+
+    it('clears the copy when the source is cleared', () => {
+      const previous = selection({ selectedOptions: { carryHandle: 'tall', handleClamp: 'tall' } });
+      const result = applyConstraints(manifest, { ...previous, selectedOptions: { handleClamp: 'tall' } }, previous);
+
+      expect(result.selection.selectedOptions).toEqual({});
+      expect(getOptionAvailability(manifest, previous, { kind: 'option', partId: 'handleClamp', id: 'standard' }).available).toBe(true);
+    });
+  });
+
+  describe('defaultsTo', () => {
+    const manifest = buildManifest([{
+      id: '375-bare',
+      type: 'defaultsTo',
+      when: { kind: 'caliber', id: '375' },
+      then: { kind: 'suppressor', id: 'none' },
+      reason: 'The .375 is usually ordered without a muzzle device',
+    }]);
+
+    it('pre-selects once and lets the customer change it', () => {
+      const previous = selection();
+      const switched = applyConstraints(manifest, { ...previous, selectedCaliber: '375' }, previous).selection;
+      expect(switched.selectedSuppressor).toBe('none');
+
+      const changed = applyConstraints(manifest, { ...switched, selectedSuppressor: 'brake' }, switched);
+      expect(changed.selection.selectedSuppressor).toBe('brake');
+      expect(changed.violations).toEqual([]);
+    });
+  });
+
+  it('repairs a selection without knowing what changed', () => {
+    const manifest = buildManifest([m3Needs408]);
+    const result = applyConstraints(manifest, selection({ selectedSuppressor: 'm3', selectedCaliber: '375' }));
+
+    expect(result.violations).toEqual([]);
+    expect(result.selection.selectedSuppressor).not.toBe('m3');
+  });
+
+  it('reports what it cannot repair', () => {
+    const impossible = buildManifest([
+      m3Needs408,
+      { id: 'm3-needs-375', type: 'requires', when: { kind: 'suppressor', id: 'm3' }, then: { kind: 'caliber', id: '375' }, reason: 'Contradiction' },
+    ]);
+    const previous = selection();
+    expect(applyConstraints(impossible, { ...previous, selectedSuppressor: 'm3' }, previous).violations.length).toBeGreaterThan(0);
+  });
+});
+
+describe('getConstraints', () => {
+  it('translates legacy option rules', () => {
+    expect(getConstraints(buildManifest([]))).toEqual([{
+      id: 'legacy-stock-folding-0',
+      type: 'forces',
+      when: { kind: 'option', partId: 'stock', id: 'folding' },
+      then: { kind: 'option', partId: 'carryHandle', id: 'tall' },
+      reason: 'Folding Stock requires this option',
+    }]);
+  });
+});
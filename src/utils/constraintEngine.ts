@@ -0,0 +1,337 @@
+// src/utils/constraintEngine.ts
+import type { Constraint, OptionRef, ProductManifest } from './manifestValidator';
+import type { ConfigSelection } from './selection';
+
+/**
+ * Declarative compatibility rules between options.
+ *
+ * Relations, read as "when <when> is selected ...":
+ * - requires:   ... <then> must also be selected (otherwise <when> is unavailable)
+ * - excludes:   ... <then> cannot be selected, and vice versa
+ * - forces:     ... <then> is set automatically and locked; without a <then>
+ *                id it mirrors <when>, and is cleared when <when> is cleared
+ * - defaultsTo: ... <then> is pre-selected once, the customer can still change it
+ */
+
+export interface ConstraintViolation {
+  constraintId: string;
+  reason: string;
+}
+
+export interface ConstraintResult {
+  selection: ConfigSelection;
+  violations: ConstraintViolation[];
+}
+
+export interface OptionAvailability {
+  available: boolean;
+  reasons: string[];
+}
+
+const FINISH_MODES = ['colors', 'patterns'];
+
+/**
+ * All constraints that apply to a manifest, including the legacy
+ * per-option enable/disable rules translated into forces/excludes
+ */
+export function getConstraints(manifest: ProductManifest): Constraint[] {
+  const legacy: Constraint[] = [];
+
+  manifest.parts.forEach(part => {
+    part.options?.forEach(option => {
+      option.rules?.forEach((rule, index) => {
+        legacy.push({
+          id: `legacy-${part.id}-${option.id}-${index}`,
+          type: rule.type === 'enable' ? 'forces' : 'excludes',
+          when: { kind: 'option', partId: part.id, id: option.id },
+          then: { kind: 'option', partId: rule.condition.partId, id: rule.condition.optionId },
+          reason: `${option.label} ${rule.type === 'enable' ? 'requires' : 'is not compatible with'} this option`,
+        });
+      });
+    });
+  });
+
+  return [...(manifest.constraints || []), ...legacy];
+}
+
+function slotOf(ref: OptionRef): string {
+  return ref.partId ? `${ref.kind}:${ref.partId}` : ref.kind;
+}
+
+/**
+ * Reads the current value of the slot a reference points at. Part colors read
+ * the override in patterns mode and the individual color in colors mode.
+ */
+function readSlot(selection: ConfigSelection, ref: OptionRef): string | null {
+  switch (ref.kind) {
+    case 'caliber':
+      return selection.selectedCaliber;
+    case 'suppressor':
+      return selection.selectedSuppressor;
+    case 'trigger':
+      return selection.selectedTrigger;
+    case 'pattern':
+      return selection.selectedPattern;
+    case 'finishMode':
+      return selection.finishMode;
+    case 'color':
+      return (selection.finishMode === 'patterns'
+        ? selection.partColorOverrides[ref.partId!]
+        : selection.selectedColors[ref.partId!]) ?? null;
+    case 'option':
+      return selection.selectedOptions[ref.partId!] ?? null;
+  }
+}
+
+function withoutKey(record: Record<string, string>, key: string): Record<string, string> {
+  const next = { ...record };
+  delete next[key];
+  return next;
+}
+
+function writeSlot(selection: ConfigSelection, ref: OptionRef, value: string | null): ConfigSelection {
+  switch (ref.kind) {
+    case 'caliber':
+      return { ...selection, selectedCaliber: value };
+    case 'suppressor':
+      return { ...selection, selectedSuppressor: value };
+    case 'trigger':
+      return { ...selection, selectedTrigger: value };
+    case 'pattern':
+      return { ...selection, selectedPattern: value };
+    case 'finishMode':
+      return { ...selection, finishMode: value === 'patterns' ? 'patterns' : 'colors' };
+    case 'color':
+      if (selection.finishMode === 'patterns') {
+        return {
+          ...selection,
+          partColorOverrides: value === null
+            ? withoutKey(selection.partColorOverrides, ref.partId!)
+            : { ...selection.partColorOverrides, [ref.partId!]: value },
+        };
+      }
+      return {
+        ...selection,
+        selectedColors: value === null
+          ? withoutKey(selection.selectedColors, ref.partId!)
+          : { ...selection.selectedColors, [ref.partId!]: value },
+      };
+    case 'option':
+      return {
+        ...selection,
+        selectedOptions: value === null
+          ? withoutKey(selection.selectedOptions, ref.partId!)
+          : { ...selection.selectedOptions, [ref.partId!]: value },
+      };
+  }
+}
+
+/**
+ * Values a slot can take, in manifest order. `null` is included for slots
+ * that may legitimately be empty (no pattern, no color override).
+ */
+function candidatesFor(manifest: ProductManifest, selection: ConfigSelection, ref: OptionRef): (string | null)[] {
+  switch (ref.kind) {
+    case 'caliber':
+      return manifest.calibers?.map(c => c.id) || [];
+    case 'suppressor':
+      return manifest.suppressors?.map(s => s.id) || [];
+    case 'trigger':
+      return manifest.triggers?.map(t => t.id) || [];
+    case 'pattern':
+      return [...(manifest.finishModes?.patterns.options.map(o => o.id) || []), null];
+    case 'finishMode':
+      return FINISH_MODES;
+    case 'color': {
+      const colors = manifest.finishModes?.colors.options.map(o => o.id) || [];
+      return selection.finishMode === 'patterns' ? [...colors, null] : colors;
+    }
+    case 'option':
+      return manifest.parts.find(part => part.id === ref.partId)?.options?.map(o => o.id) || [];
+  }
+}
+
+function matches(selection: ConfigSelection, ref: OptionRef): boolean {
+  const value = readSlot(selection, ref);
+  return ref.id === undefined ? value !== null : value === ref.id;
+}
+
+function isViolated(selection: ConfigSelection, constraint: Constraint): boolean {
+  const { when, then } = constraint;
+  switch (constraint.type) {
+    case 'requires':
+      return matches(selection, when) && !matches(selection, then);
+    case 'excludes':
+      return matches(selection, when) && matches(selection, then);
+    case 'forces':
+      return matches(selection, when) && readSlot(selection, then) !== (then.id ?? readSlot(selection, when));
+    case 'defaultsTo':
+      return false;
+  }
+}
+
+/**
+ * Checks whether selecting `ref` (which must carry an id) is allowed given the
+ * rest of the current selection, and why not if it isn't
+ */
+export function getOptionAvailability(
+  manifest: ProductManifest,
+  selection: ConfigSelection,
+  ref: OptionRef
+): OptionAvailability {
+  const slot = slotOf(ref);
+  const value = ref.id ?? null;
+
+  // The current value is always shown as selectable
+  if (readSlot(selection, ref) === value) {
+    return { available: true, reasons: [] };
+  }
+
+  const candidate = writeSlot(selection, ref, value);
+  const reasons: string[] = [];
+
+  getConstraints(manifest).forEach(constraint => {
+    const { when, then } = constraint;
+    let blocked = false;
+
+    switch (constraint.type) {
+      case 'requires':
+        blocked = slotOf(when) === slot && isViolated(candidate, constraint);
+        break;
+      case 'excludes':
+        blocked = (slotOf(when) === slot || slotOf(then) === slot) && isViolated(candidate, constraint);
+        break;
+      case 'forces':
+        // Mirroring rules propagate instead of locking, so they never block
+        blocked = then.id !== undefined && slotOf(then) === slot && matches(selection, when) && value !== then.id;
+        break;
+      case 'defaultsTo':
+        break;
+    }
+
+    if (blocked) reasons.push(constraint.reason);
+  });
+
+  return { available: reasons.length === 0, reasons };
+}
+
+/**
+ * Finds a replacement value for a slot that no longer satisfies `constraint`,
+ * preferring values that are not blocked by any other rule
+ */
+function findAlternative(
+  manifest: ProductManifest,
+  selection: ConfigSelection,
+  ref: OptionRef,
+  constraint: Constraint
+): string | null | undefined {
+  const current = readSlot(selection, ref);
+  const options = candidatesFor(manifest, selection, ref).filter(value =>
+    value !== current && !isViolated(writeSlot(selection, ref, value), constraint)
+  );
+
+  const allowed = options.find(value =>
+    value === null || getOptionAvailability(manifest, selection, { ...ref, id: value }).available
+  );
+  return allowed !== undefined ? allowed : options[0];
+}
+
+/**
+ * Brings a selection in line with the manifest constraints.
+ *
+ * Slots the customer just changed (compared to `previous`) are pinned and win
+ * over everything else; the engine then adjusts the remaining slots until no
+ * rule can be repaired any further. Whatever is still broken is returned as a
+ * violation.
+ */
+export function applyConstraints(
+  manifest: ProductManifest,
+  selection: ConfigSelection,
+  previous?: ConfigSelection
+): ConstraintResult {
+  const constraints = getConstraints(manifest);
+  if (constraints.length === 0) {
+    return { selection, violations: [] };
+  }
+
+  const changed = new Set<string>();
+  if (previous) {
+    constraints.forEach(constraint => {
+      [constraint.when, constraint.then].forEach(ref => {
+        if (readSlot(previous, ref) !== readSlot(selection, ref)) {
+          changed.add(slotOf(ref));
+        }
+      });
+    });
+  }
+  const pinned = new Set(changed);
+
+  // Rules triggered by the customer's own change run first, so that e.g. two
+  // mirroring rules follow whichever side was actually edited
+  const ordered = [...constraints].sort((a, b) =>
+    Number(changed.has(slotOf(b.when))) - Number(changed.has(slotOf(a.when)))
+  );
+
+  let current = selection;
+
+  const assign = (ref: OptionRef, value: string | null | undefined): boolean => {
+    if (value === undefined || pinned.has(slotOf(ref))) return false;
+    current = writeSlot(current, ref, value);
+    pinned.add(slotOf(ref));
+    return true;
+  };
+
+  // Every assignment pins a slot, so this settles after at most one pass per slot
+  let dirty = true;
+  while (dirty) {
+    dirty = false;
+
+    for (const constraint of ordered) {
+      const { when, then } = constraint;
+
+      // Clearing the source of a mirror clears its copy as well
+      if (constraint.type === 'forces' && then.id === undefined && changed.has(slotOf(when))
+        && readSlot(current, when) === null && readSlot(current, then) !== null) {
+        dirty = assign(then, null) || dirty;
+        continue;
+      }
+
+      if (constraint.type === 'defaultsTo') {
+        if (changed.has(slotOf(when)) && matches(current, when) && readSlot(current, then) !== then.id) {
+          dirty = assign(then, then.id) || dirty;
+        }
+        continue;
+      }
+
+      if (!isViolated(current, constraint)) continue;
+
+      switch (constraint.type) {
+        case 'forces':
+          dirty = assign(then, then.id ?? readSlot(current, when))
+            || (then.id !== undefined && assign(when, findAlternative(manifest, current, when, constraint)))
+            || dirty;
+          break;
+        case 'requires':
+          dirty = (pinned.has(slotOf(when)) && then.id !== undefined && assign(then, then.id))
+            || assign(when, findAlternative(manifest, current, when, constraint))
+            || dirty;
+          break;
+        case 'excludes':
+          dirty = assign(then, findAlternative(manifest, current, then, constraint))
+            || assign(when, findAlternative(manifest, current, when, constraint))
+            || dirty;
+          break;
+      }
+    }
+  }
+
+  const violations = constraints
+    .filter(constraint => isViolated(current, constraint))
+    .map(constraint => ({ constraintId: constraint.id, reason: constraint.reason }));
+
+  if (violations.length > 0) {
+    console.warn('Unresolved configuration constraints:', violations);
+  }
+
+  return { selection: current, violations };
+}
@@ -0,0 +1,171 @@
+// src/utils/gif.test.ts
+import { describe, expect, it } from 'vitest';
+import { GifEncoder } from './gif';
+
+interface DecodedFrame {
+  delay: number;
+  transparentIndex: number | null;
+  palette: Uint8Array;
+  indices: Uint8Array;
+  data: Uint8Array; // the LZW sub-blocks as written
+}
+
+// Standard GIF LZW decoder, independent of the encoder
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | null = null;
+  let bits = 0;
+  let bitCount = 0;
+
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = null;
+  };
+  reset();
+
+  for (const byte of data) {
+    bits |= byte << bitCount;
+    bitCount += 8;
+    while (bitCount >= codeSize) {
+      const code = bits & ((1 << codeSize) - 1);
+      bits >>>= codeSize;
+      bitCount -= codeSize;
+
+      if (code === clearCode) { reset(); continue; }
+      if (code === endCode) return output;
+
+      let entry: number[];
+      if (code < table.length) entry = table[code];
+      else if (code === table.length && previous) entry = [...previous, previous[0]];
+      else throw new Error(`Bad LZW code ${code}`);
+
+      output.push(...entry);
+      if (previous && table.length < 4096) table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+      previous = entry;
+    }
+  }
+  throw new Error('LZW data has no end code');
+}
+
+async function decodeGif(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  expect(new TextDecoder().decode(bytes.subarray(0, 6))).toBe('GIF89a');
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  expect(bytes[10] & 0x80).toBe(0); // no global color table
+
+  let loop: number | null = null;
+  let at = 13;
+  let control = { delay: 0, transparentIndex: null as number | null };
+  const frames: DecodedFrame[] = [];
+
+  const readBlocks = () => {
+    const chunks: number[] = [];
+    while (bytes[at] !== 0) {
+      chunks.push(...bytes.subarray(at + 1, at + 1 + bytes[at]));
+      at += bytes[at] + 1;
+    }
+    at++;
+    return new Uint8Array(chunks);
+  };
+
+  while (bytes[at] !== 0x3b) {
+    if (bytes[at] === 0x21 && bytes[at + 1] === 0xff) {
+      at += 2;
+      const block = readBlocks();
+      loop = block[11] === 1 ? block[12] | (block[13] << 8) : null;
+    } else if (bytes[at] === 0x21 && bytes[at + 1] === 0xf9) {
+      control = { delay: view.getUint16(at + 4, true), transparentIndex: bytes[at + 3] & 1 ? bytes[at + 6] : null };
+      at += 8;
+    } else if (bytes[at] === 0x2c) {
+      expect(bytes[at + 9]).toBe(0x87); // 256-entry local color table
+      const palette = bytes.slice(at + 10, at + 10 + 768);
+      at += 10 + 768;
+      const minCodeSize = bytes[at++];
+      const start = at;
+      const data = readBlocks();
+      frames.push({ ...control, palette, indices: new Uint8Array(lzwDecode(data, minCodeSize)), data: bytes.slice(start, at) });
+    } else {
+      throw new Error(`Unexpected GIF block 0x${bytes[at].toString(16)} at ${at}`);
+    }
+  }
+  expect(at).toBe(bytes.length - 1);
+  return { width, height, loop, frames };
+}
+
+// Colors chosen in distinct 5-bit buckets so the palette keeps them exactly
+function rgba(width: number, height: number, color: (x: number, y: number) => [number, number, number, number]) {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) pixels.set(color(x, y), (y * width + x) * 4);
+  }
+  return pixels;
+}
+
+function colorsOf(frame: DecodedFrame) {
+  return [...frame.indices].map(index => [...frame.palette.subarray(index * 3, index * 3 + 3)]);
+}
+
+describe('GifEncoder', () => {
+  it('writes the known LZW bytes for a single pixel', async () => {
+    const gif = new GifEncoder(1, 1);
+    gif.addFrame(rgba(1, 1, () => [200, 16, 40, 255]), 100);
+    const { frames } = await decodeGif(gif.finish());
+
+    // clear (256), index 0, end (257) as 9-bit codes, in one sub-block
+    expect([...frames[0].data]).toEqual([4, 0x00, 0x01, 0x04, 0x04, 0]);
+    expect(colorsOf(frames[0])).toEqual([[200, 16, 40]]);
+  });
+
+  it('round-trips frames through an independent decoder', async () => {
+    const gif = new GifEncoder(4, 2, { loop: 3 });
+    const stripes = rgba(4, 2, x => [x * 64, 255 - x * 64, 8, 255]);
+    gif.addFrame(stripes, 80);
+    gif.addFrame(rgba(4, 2, (x, y) => (x + y) % 2 ? [0, 0, 0, 255] : [248, 248, 248, 255]), 120);
+    const decoded = await decodeGif(gif.finish());
+
+    expect(decoded).toMatchObject({ width: 4, height: 2, loop: 3 });
+    expect(decoded.frames.map(frame => frame.delay)).toEqual([8, 12]);
+    expect(colorsOf(decoded.frames[0])).toEqual([0, 1, 2, 3, 0, 1, 2, 3].map(x => [x * 64, 255 - x * 64, 8]));
+    expect(colorsOf(decoded.frames[1])[0]).toEqual([248, 248, 248]);
+    expect(colorsOf(decoded.frames[1])[1]).toEqual([0, 0, 0]);
+  });
+
+  it('keeps codes in step past the dictionary limit', async () => {
+    // Noise over 200 colors fills the 4096-entry dictionary several times over
+    let seed = 1;
+    const random = () => (seed = (seed * 1103515245 + 12345) >>> 0) >>> 16;
+    const colors = Array.from({ length: 200 }, (_, i) => [(i % 8) * 32, (Math.floor(i / 8) % 5) * 48, Math.floor(i / 40) * 40, 255] as [number, number, number, number]);
+    const pixels = rgba(128, 128, () => colors[random() % colors.length]);
+
+    const gif = new GifEncoder(128, 128);
+    gif.addFrame(pixels, 50);
+    const [frame] = (await decodeGif(gif.finish())).frames;
+
+    expect(frame.indices).toHaveLength(128 * 128);
+    const expected = Array.from({ length: 128 * 128 }, (_, p) => [...pixels.subarray(p * 4, p * 4 + 3)]);
+    expect(colorsOf(frame)).toEqual(expected);
+  });
+
+  it('marks transparent pixels with the reserved index', async () => {
+    const gif = new GifEncoder(2, 1, { transparent: true });
+    gif.addFrame(rgba(2, 1, x => x ? [0, 0, 0, 0] : [96, 96, 96, 255]), 40);
+    const [frame] = (await decodeGif(gif.finish())).frames;
+
+    expect(frame.transparentIndex).toBe(255);
+    expect(frame.indices[1]).toBe(255);
+    expect(colorsOf(frame)[0]).toEqual([96, 96, 96]);
+  });
+
+  it('rejects frames of the wrong size', () => {
+    expect(() => new GifEncoder(2, 2).addFrame(new Uint8ClampedArray(4), 10)).toThrow(/expected 4/);
+    expect(() => new GifEncoder(70000, 1)).toThrow(/65535px/);
+  });
+});
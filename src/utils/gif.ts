@@ -0,0 +1,244 @@
+// src/utils/gif.ts
+
+/**
+ * Animated GIF writer for turntable exports. Frames are written as they are
+ * added, each with its own 256-color palette (median cut), so a long
+ * animation never has to be held in memory.
+ */
+
+export interface GifOptions {
+  loop: number;         // 0 loops forever
+  transparent: boolean; // pixels with alpha < 128 become see-through
+}
+
+const TRANSPARENT_INDEX = 255;
+
+interface ColorBox {
+  keys: number[];
+  count: number;
+  score: number;
+}
+
+// Colors are bucketed to 5 bits per channel before quantizing
+const bucketOf = (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+const channelOf = (key: number, channel: number) => (key >> (10 - channel * 5)) & 31;
+
+/**
+ * Median-cut palette for one frame: returns the palette (RGB triples) and a
+ * lookup from 15-bit color bucket to palette index. Every bucket the frame
+ * uses ends up in exactly one box, so the lookup covers all its pixels.
+ */
+function quantize(pixels: Uint8ClampedArray, maxColors: number, transparent: boolean) {
+  const counts = new Uint32Array(32768);
+  const sums = new Float64Array(32768 * 3);
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (transparent && pixels[i + 3] < 128) continue;
+    const key = bucketOf(pixels[i], pixels[i + 1], pixels[i + 2]);
+    counts[key]++;
+    sums[key * 3] += pixels[i];
+    sums[key * 3 + 1] += pixels[i + 1];
+    sums[key * 3 + 2] += pixels[i + 2];
+  }
+
+  const measure = (keys: number[]): ColorBox => {
+    let count = 0;
+    let range = 0;
+    for (let channel = 0; channel < 3; channel++) {
+      let min = 31;
+      let max = 0;
+      keys.forEach(key => {
+        const value = channelOf(key, channel);
+        if (value < min) min = value;
+        if (value > max) max = value;
+      });
+      range = Math.max(range, max - min);
+    }
+    keys.forEach(key => { count += counts[key]; });
+    return { keys, count, score: keys.length > 1 ? count * range : 0 };
+  };
+
+  const used: number[] = [];
+  counts.forEach((count, key) => { if (count > 0) used.push(key); });
+  const boxes = used.length > 0 ? [measure(used)] : [];
+
+  while (boxes.length < maxColors) {
+    let target = -1;
+    boxes.forEach((box, index) => {
+      if (box.score > 0 && (target < 0 || box.score > boxes[target].score)) target = index;
+    });
+    if (target < 0) break;
+
+    // Split the box along its widest channel, at the pixel-weighted median
+    const { keys } = boxes[target];
+    const spans = [0, 1, 2].map(channel => {
+      const values = keys.map(key => channelOf(key, channel));
+      return Math.max(...values) - Math.min(...values);
+    });
+    const channel = spans.indexOf(Math.max(...spans));
+    keys.sort((a, b) => channelOf(a, channel) - channelOf(b, channel));
+
+    const half = boxes[target].count / 2;
+    let running = 0;
+    let split = 1;
+    for (let i = 0; i < keys.length - 1; i++) {
+      running += counts[keys[i]];
+      split = i + 1;
+      if (running >= half) break;
+    }
+    boxes.splice(target, 1, measure(keys.slice(0, split)), measure(keys.slice(split)));
+  }
+
+  const palette = new Uint8Array(256 * 3);
+  const lookup = new Uint8Array(32768);
+  boxes.forEach((box, index) => {
+    let r = 0, g = 0, b = 0;
+    box.keys.forEach(key => {
+      r += sums[key * 3];
+      g += sums[key * 3 + 1];
+      b += sums[key * 3 + 2];
+      lookup[key] = index;
+    });
+    palette[index * 3] = Math.round(r / box.count);
+    palette[index * 3 + 1] = Math.round(g / box.count);
+    palette[index * 3 + 2] = Math.round(b / box.count);
+  });
+
+  return { palette, lookup };
+}
+
+/**
+ * GIF LZW, packed into 255-byte sub-blocks
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dictionary = new Map<number, number>();
+
+  const emit = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      output.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const value = indices[i];
+    const key = (prefix << 8) | value;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode++);
+      // The decoder widens its codes one entry later than the encoder adds them
+      if (nextCode > (1 << codeSize) && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode);
+      dictionary = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = value;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bufferBits > 0) output.push(buffer & 0xff);
+
+  const blocks = new Uint8Array(output.length + Math.ceil(output.length / 255) + 1);
+  let offset = 0;
+  for (let i = 0; i < output.length; i += 255) {
+    const block = output.slice(i, i + 255);
+    blocks[offset++] = block.length;
+    blocks.set(block, offset);
+    offset += block.length;
+  }
+  blocks[offset] = 0;
+  return blocks;
+}
+
+export class GifEncoder {
+  private width: number;
+  private height: number;
+  private options: GifOptions;
+  private parts: Uint8Array[] = [];
+
+  constructor(width: number, height: number, options: Partial<GifOptions> = {}) {
+    if (width > 65535 || height > 65535) {
+      throw new Error(`GIF frames can't be larger than 65535px (got ${width}x${height})`);
+    }
+    this.width = width;
+    this.height = height;
+    this.options = { loop: 0, transparent: false, ...options };
+
+    const header = new Uint8Array(13 + 19);
+    const view = new DataView(header.buffer);
+    header.set(new TextEncoder().encode('GIF89a'), 0);
+    view.setUint16(6, width, true);
+    view.setUint16(8, height, true);
+    // No global color table: every frame brings its own
+
+    // NETSCAPE2.0 extension: loop count
+    header.set([0x21, 0xff, 0x0b], 13);
+    header.set(new TextEncoder().encode('NETSCAPE2.0'), 16);
+    header.set([0x03, 0x01], 27);
+    view.setUint16(29, this.options.loop, true);
+    header[31] = 0;
+    this.parts.push(header);
+  }
+
+  /**
+   * Adds an RGBA frame (e.g. ImageData.data) shown for `delayMs`
+   */
+  addFrame(pixels: Uint8ClampedArray, delayMs: number) {
+    const { width, height } = this;
+    if (pixels.length !== width * height * 4) {
+      throw new Error(`Frame has ${pixels.length / 4} pixels, expected ${width * height}`);
+    }
+
+    const { transparent } = this.options;
+    const { palette, lookup } = quantize(pixels, transparent ? 255 : 256, transparent);
+
+    const indices = new Uint8Array(width * height);
+    for (let p = 0, i = 0; p < indices.length; p++, i += 4) {
+      if (transparent && pixels[i + 3] < 128) {
+        indices[p] = TRANSPARENT_INDEX;
+        continue;
+      }
+      indices[p] = lookup[bucketOf(pixels[i], pixels[i + 1], pixels[i + 2])];
+    }
+
+    const frameHeader = new Uint8Array(8 + 10);
+    const view = new DataView(frameHeader.buffer);
+    // Graphic control extension: delay, disposal and transparency
+    frameHeader.set([0x21, 0xf9, 0x04], 0);
+    frameHeader[3] = transparent ? (2 << 2) | 1 : 1 << 2; // restore to background / leave in place
+    view.setUint16(4, Math.round(delayMs / 10), true);
+    frameHeader[6] = transparent ? TRANSPARENT_INDEX : 0;
+    frameHeader[7] = 0;
+    // Image descriptor with a 256-entry local color table
+    frameHeader[8] = 0x2c;
+    view.setUint16(13, width, true);
+    view.setUint16(15, height, true);
+    frameHeader[17] = 0x87;
+
+    this.parts.push(frameHeader, palette, new Uint8Array([8]), lzwEncode(indices, 8));
+  }
+
+  finish(): Blob {
+    return new Blob([...this.parts, new Uint8Array([0x3b])] as BlobPart[], { type: 'image/gif' });
+  }
+}
@@ -0,0 +1,29 @@
+// src/utils/hash.ts
+
+/**
+ * 32-bit FNV-1a. Fast and synchronous; fine for checksums and short
+ * fingerprints, not for anything security related.
+ */
+export function fnv1a32(input: string | Uint8Array): number {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 64-bit FNV-1a, for ids that need more room than 32 bits
+ */
+export function fnv1a64(input: string): bigint {
+  const bytes = new TextEncoder().encode(input);
+  const mask = 0xffffffffffffffffn;
+  let hash = 0xcbf29ce484222325n;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= BigInt(bytes[i]);
+    hash = (hash * 0x100000001b3n) & mask;
+  }
+  return hash;
+}
@@ -0,0 +1,110 @@
+// src/utils/history.test.ts
+import { describe, expect, it } from 'vitest';
+import { validateManifest } from './manifestValidator';
+import type { ConfigSelection } from './selection';
+import { pushHistoryEntry, describeSelectionChange, EMPTY_HISTORY, HISTORY_LIMIT } from './history';
+
+const black = { type: 'color', color: '#1C1C1C' } as const;
+
+const manifest = validateManifest({
+  productName: 'Test Rifle',
+  sku: 'TEST-1',
+  defaultCamera: { position: { x: 0, y: 0, z: 5 }, target: { x: 0, y: 0, z: 0 }, fov: 50 },
+  hotspots: [],
+  ui: [],
+  parts: [
+    { id: 'receiver', label: 'Receiver', meshSelectors: ['Receiver'] },
+    { id: 'barrel', label: 'Barrel', meshSelectors: ['Barrel'] },
+    { id: 'stock', label: 'Stock', meshSelectors: ['Stock'] },
+    { id: 'bipod', label: 'Bipod', meshSelectors: ['Bipod'], options: [{ id: 'heavy', label: 'Heavy Duty', material: black }] },
+  ],
+  configurableParts: ['receiver', 'barrel', 'stock'],
+  finishModes: {
+    colors: { label: 'Colors', description: 'Per part', allowIndividualSelection: true, options: [
+      { id: 'black', label: 'Black', material: black },
+      { id: 'fde', label: 'Flat Dark Earth', material: black },
+      { id: 'odg', label: 'OD Green', material: black },
+    ] },
+    patterns: { label: 'Patterns', description: 'Whole rifle', allowIndividualSelection: false, options: [{ id: 'multicam', label: 'Multicam', material: black }] },
+  },
+  calibers: [{ id: '408', label: '.408 CheyTac' }, { id: '375', label: '.375 CheyTac' }],
+  suppressors: [{ id: 'brake', label: 'Muzzle Brake', modelFile: 'brake.glb' }],
+  triggers: [{ id: 'timney', label: 'Timney' }],
+});
+
+function selection(overrides: Partial<ConfigSelection> = {}): ConfigSelection {
+  return {
+    finishMode: 'colors',
+    selectedPattern: null,
+    selectedColors: { receiver: 'black', barrel: 'black', stock: 'black' },
+    partColorOverrides: {},
+    selectedCaliber: '408',
+    selectedSuppressor: 'brake',
+    selectedTrigger: 'timney',
+    selectedOptions: {},
+    ...overrides,
+  };
+}
+
+describe('pushHistoryEntry', () => {
+  it('records a step with the selection on either side', () => {
+    const before = selection();
+    const after = selection({ selectedCaliber: '375' });
+    const history = pushHistoryEntry(EMPTY_HISTORY, manifest, before, after);
+
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0]).toMatchObject({ label: 'Caliber: .375 CheyTac', before, after });
+  });
+
+  it('ignores steps that change nothing', () => {
+    const history = pushHistoryEntry(EMPTY_HISTORY, manifest, selection(), selection());
+    expect(history).toBe(EMPTY_HISTORY);
+  });
+
+  it('drops the redo stack on a new step', () => {
+    const first = pushHistoryEntry(EMPTY_HISTORY, manifest, selection(), selection({ selectedCaliber: '375' }));
+    const undone = { past: [], future: first.past };
+    const history = pushHistoryEntry(undone, manifest, selection(), selection({ finishMode: 'patterns' }));
+
+    expect(history.future).toEqual([]);
+    expect(history.past).toHaveLength(1);
+  });
+
+  it(`keeps the last ${HISTORY_LIMIT} steps`, () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i <= HISTORY_LIMIT; i++) {
+      history = pushHistoryEntry(history, manifest, selection(), selection({ selectedCaliber: '375' }), `Step ${i}`);
+    }
+
+    expect(history.past).toHaveLength(HISTORY_LIMIT);
+    expect(history.past[0].label).toBe('Step 1');
+    expect(new Set(history.past.map(entry => entry.id)).size).toBe(HISTORY_LIMIT);
+  });
+});
+
+describe('describeSelectionChange', () => {
+  const describeChange = (after: Partial<ConfigSelection>, before: Partial<ConfigSelection> = {}) =>
+    describeSelectionChange(manifest, selection(before), selection(after));
+
+  it('names a single part', () => {
+    expect(describeChange({ selectedColors: { receiver: 'black', barrel: 'fde', stock: 'black' } })).toBe('Barrel: Flat Dark Earth');
+  });
+
+  it('counts parts that changed together', () => {
+    expect(describeChange({ selectedColors: { receiver: 'fde', barrel: 'fde', stock: 'fde' } })).toBe('3 parts: Flat Dark Earth');
+    expect(describeChange({ selectedColors: { receiver: 'fde', barrel: 'odg', stock: 'black' } })).toBe('2 part finishes');
+  });
+
+  it('names the mode and pattern, not every repainted part', () => {
+    expect(describeChange({ finishMode: 'patterns', selectedPattern: 'multicam' })).toBe('Finish mode: Patterns, Pattern: Multicam');
+  });
+
+  it('lists hardware and legacy options', () => {
+    expect(describeChange({ selectedCaliber: '375', selectedSuppressor: null, selectedOptions: { bipod: 'heavy' } }))
+      .toBe('Caliber: .375 CheyTac, Muzzle device: None, Bipod: Heavy Duty');
+  });
+
+  it('falls back to a generic label', () => {
+    expect(describeChange({})).toBe('Configuration updated');
+  });
+});
@@ -0,0 +1,115 @@
+// src/utils/history.ts
+import type { ProductManifest } from './manifestValidator';
+import { pickSelection, ConfigSelection } from './selection';
+import { resolveConfiguration } from './resolveConfiguration';
+
+export const HISTORY_LIMIT = 100;
+
+/**
+ * One undoable step: the selection on either side of a store action (or of
+ * a group of actions run as one transaction)
+ */
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  before: ConfigSelection;
+  after: ConfigSelection;
+  timestamp: number;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];   // oldest first; the last entry is what undo reverts
+  future: HistoryEntry[]; // next redo first
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+let nextEntryId = 1;
+
+export function isSameSelection(a: ConfigSelection, b: ConfigSelection): boolean {
+  return JSON.stringify(pickSelection(a)) === JSON.stringify(pickSelection(b));
+}
+
+/**
+ * Adds a step unless nothing changed. A new step drops the redo stack, and
+ * the oldest steps fall off past HISTORY_LIMIT.
+ */
+export function pushHistoryEntry(
+  history: HistoryState,
+  manifest: ProductManifest,
+  before: ConfigSelection,
+  after: ConfigSelection,
+  label?: string
+): HistoryState {
+  if (isSameSelection(before, after)) return history;
+
+  const entry: HistoryEntry = {
+    id: nextEntryId++,
+    label: label || describeSelectionChange(manifest, before, after),
+    before: pickSelection(before),
+    after: pickSelection(after),
+    timestamp: Date.now(),
+  };
+
+  return {
+    past: [...history.past, entry].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+/**
+ * Human-readable summary of what changed between two selections,
+ * e.g. "Barrel: Cerakote® Flat Dark Earth" or "Caliber: .408 CheyTac"
+ */
+export function describeSelectionChange(
+  manifest: ProductManifest,
+  before: ConfigSelection,
+  after: ConfigSelection
+): string {
+  const previous = resolveConfiguration(manifest, before);
+  const next = resolveConfiguration(manifest, after);
+  const changes: string[] = [];
+
+  if (before.finishMode !== after.finishMode) {
+    changes.push(`Finish mode: ${after.finishMode === 'patterns' ? 'Patterns' : 'Individual colors'}`);
+  }
+  if (next.patternLabel && next.patternLabel !== previous.patternLabel) {
+    changes.push(`Pattern: ${next.patternLabel}`);
+  }
+
+  // A new mode or pattern repaints every part, so listing them adds nothing
+  if (changes.length === 0) {
+    const changedParts = Object.values(next.parts).filter(
+      part => part.finishId !== previous.parts[part.partId]?.finishId
+    );
+    const finishes = new Set(changedParts.map(part => part.finishLabel));
+
+    if (changedParts.length === 1) {
+      changes.push(`${changedParts[0].label}: ${changedParts[0].finishLabel}`);
+    } else if (changedParts.length > 1 && finishes.size === 1) {
+      changes.push(`${changedParts.length} parts: ${changedParts[0].finishLabel}`);
+    } else if (changedParts.length > 1) {
+      changes.push(`${changedParts.length} part finishes`);
+    }
+  }
+
+  if (next.caliberLabel !== previous.caliberLabel) {
+    changes.push(`Caliber: ${next.caliberLabel ?? 'None'}`);
+  }
+  if (next.suppressorLabel !== previous.suppressorLabel) {
+    changes.push(`Muzzle device: ${next.suppressorLabel ?? 'None'}`);
+  }
+  if (next.triggerLabel !== previous.triggerLabel) {
+    changes.push(`Trigger: ${next.triggerLabel ?? 'None'}`);
+  }
+
+  // Legacy part options
+  Object.entries(after.selectedOptions).forEach(([partId, optionId]) => {
+    if (before.selectedOptions[partId] === optionId) return;
+    const part = manifest.parts.find(p => p.id === partId);
+    const option = part?.options?.find(o => o.id === optionId);
+    changes.push(`${part?.label || partId}: ${option?.label || optionId}`);
+  });
+
+  return changes.join(', ') || 'Configuration updated';
+}
@@ -0,0 +1,57 @@
+// src/utils/id.test.ts
+import { describe, expect, it } from 'vitest';
+import type { ConfigSelection } from './selection';
+import { generateConfigId, normalizeSelection } from './id';
+
+function selection(overrides: Partial<ConfigSelection> = {}): ConfigSelection {
+  return {
+    finishMode: 'colors',
+    selectedPattern: null,
+    selectedColors: {},
+    partColorOverrides: {},
+    selectedCaliber: '408',
+    selectedSuppressor: 'brake',
+    selectedTrigger: null,
+    selectedOptions: {},
+    ...overrides,
+  };
+}
+
+describe('normalizeSelection', () => {
+  it('sorts keys by code unit, whatever the locale', () => {
+    const normalized = normalizeSelection(selection({
+      selectedColors: { receiver: 'fde', Barrel: 'black', 'hand-guard': 'black', handGuard: 'fde', _rail: 'black' },
+    }));
+
+    expect(Object.keys(normalized.selectedColors)).toEqual(['Barrel', '_rail', 'hand-guard', 'handGuard', 'receiver']);
+  });
+
+  it('drops what does not end up on the rifle', () => {
+    const normalized = normalizeSelection(selection({
+      finishMode: 'patterns',
+      selectedPattern: 'multicam',
+      selectedColors: { receiver: 'fde' },
+      partColorOverrides: { barrel: 'black', receiver: '' },
+    }));
+
+    expect(normalized.selectedColors).toEqual({});
+    expect(normalized.partColorOverrides).toEqual({ barrel: 'black' });
+  });
+});
+
+describe('generateConfigId', () => {
+  it('gives the same build the same id regardless of key order', () => {
+    const a = generateConfigId('M200-BASE', selection({ selectedColors: { receiver: 'fde', barrel: 'black' } }));
+    const b = generateConfigId('M200-BASE', selection({ selectedColors: { barrel: 'black', receiver: 'fde' } }));
+
+    expect(a).toBe(b);
+    expect(a).toMatch(/^[A-Z]\d[A-Z]\d{11}$/);
+  });
+
+  it('gives different builds and products different ids', () => {
+    const base = generateConfigId('M200-BASE', selection());
+
+    expect(generateConfigId('M200-BASE', selection({ selectedCaliber: '375' }))).not.toBe(base);
+    expect(generateConfigId('M300-BASE', selection())).not.toBe(base);
+  });
+});
@@ -1,15 +1,57 @@
-export function generateConfigId(): string {
-  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-  const numbers = '0123456789';
-  
-  const letter1 = letters[Math.floor(Math.random() * letters.length)];
-  const digit = numbers[Math.floor(Math.random() * numbers.length)];
-  const letter2 = letters[Math.floor(Math.random() * letters.length)];
-  
-  let digits = '';
-  for (let i = 0; i < 11; i++) {
-    digits += numbers[Math.floor(Math.random() * numbers.length)];
-  }
-  
+// src/utils/id.ts
+import type { ConfigSelection } from './selection';
+import { fnv1a64 } from './hash';
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// Code-unit order: localeCompare depends on the browser's locale, and so would the ids
+function sortRecord(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(record)
+      .filter(([, value]) => Boolean(value))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  );
+}
+
+/**
+ * Reduces a selection to what actually ends up on the rifle, with stable key
+ * order: colors hidden under a pattern and overrides left over in colors
+ * mode do not change the build, so they do not change its id either.
+ */
+export function normalizeSelection(selection: ConfigSelection) {
+  const isPatterns = selection.finishMode === 'patterns';
+  const hasPattern = isPatterns && Boolean(selection.selectedPattern);
+
+  return {
+    finishMode: selection.finishMode,
+    selectedPattern: hasPattern ? selection.selectedPattern : null,
+    selectedColors: hasPattern ? {} : sortRecord(selection.selectedColors),
+    partColorOverrides: isPatterns ? sortRecord(selection.partColorOverrides) : {},
+    selectedCaliber: selection.selectedCaliber,
+    selectedSuppressor: selection.selectedSuppressor,
+    selectedTrigger: selection.selectedTrigger,
+    selectedOptions: sortRecord(selection.selectedOptions),
+  };
+}
+
+/**
+ * Content-addressed configuration id: identical builds of the same product
+ * always get the same id. Keeps the familiar letter-digit-letter + 11 digits
+ * format, e.g. "K4P03918274650".
+ */
+export function generateConfigId(sku: string, selection: ConfigSelection): string {
+  let hash = fnv1a64(JSON.stringify([sku, normalizeSelection(selection)]));
+
+  const take = (radix: number): number => {
+    const value = Number(hash % BigInt(radix));
+    hash /= BigInt(radix);
+    return value;
+  };
+
+  const letter1 = LETTERS[take(26)];
+  const digit = take(10);
+  const letter2 = LETTERS[take(26)];
+  const digits = String(take(1e11)).padStart(11, '0');
+
   return `${letter1}${digit}${letter2}${digits}`;
-}
\ No newline at end of file
+}
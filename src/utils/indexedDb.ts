@@ -0,0 +1,58 @@
+// src/utils/indexedDb.ts
+
+/**
+ * Small promise wrappers around IndexedDB, so services don't need a library
+ */
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens (and creates or upgrades) a database. `upgrade` runs only when the
+ * stored version is older than `version`.
+ */
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error(`Database "${name}" is open in another tab with an older version`));
+  });
+}
+
+/**
+ * Runs one request against an object store in its own transaction and
+ * resolves once the transaction has committed
+ */
+export async function withStore<T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const transaction = db.transaction(storeName, mode);
+  const result = requestToPromise(fn(transaction.objectStore(storeName)));
+
+  const completion = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+
+  // A failed request rejects both, so both are awaited together
+  const [value] = await Promise.all([result, completion]);
+  return value;
+}
@@ -0,0 +1,25 @@
+// src/utils/keccak.test.ts
+import { describe, expect, it } from 'vitest';
+import { keccak256 } from './keccak';
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+describe('keccak256', () => {
+  it('matches the Ethereum test vectors', () => {
+    expect(hex(keccak256(''))).toBe('c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+    expect(hex(keccak256('abc'))).toBe('4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45');
+    expect(hex(keccak256('Transfer(address,address,uint256)'))).toBe('ddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef');
+  });
+
+  it('pads correctly around the 136-byte rate', () => {
+    // 135 bytes leave room for one padding byte; 136 need a whole extra block
+    expect(hex(keccak256('a'.repeat(135)))).toBe('34367dc248bbd832f4e3e69dfaac2f92638bd0bbd18f2912ba4ef454919cf446');
+    expect(hex(keccak256('a'.repeat(136)))).toBe('a6c4d403279fe3e0af03729caada8374b5ca54d8065329a3ebcaeb4b60aa386e');
+    expect(hex(keccak256('a'.repeat(300)))).toBe('5b7e0e47a96f32a88b4f14ca177982790807c40e1a105742ba0fc1babe1ef826');
+  });
+
+  it('hashes strings as UTF-8, like bytes', () => {
+    expect(hex(keccak256('Ünïcode ✓'))).toBe('93b0a9bfcaca11350f7795ad2473cb89f58215a2638e5761fcc90c30258a383d');
+    expect(keccak256(new TextEncoder().encode('Ünïcode ✓'))).toEqual(keccak256('Ünïcode ✓'));
+  });
+});
@@ -0,0 +1,84 @@
+// src/utils/keccak.ts
+
+/**
+ * Keccak-256 as Ethereum uses it (original Keccak padding, not SHA-3's).
+ * Lanes are BigInts: plenty for function selectors and event topics,
+ * not meant for hashing large data.
+ */
+
+const MASK_64 = (1n << 64n) - 1n;
+
+const ROUND_CONSTANTS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+// Rho rotations and pi lane order, walked as one cycle
+const ROTATIONS = [1, 3, 6, 10, 15, 21, 28, 36, 45, 55, 2, 14, 27, 41, 56, 8, 25, 43, 62, 18, 39, 61, 20, 44];
+const PI_LANES = [10, 7, 11, 17, 18, 3, 5, 16, 8, 21, 24, 4, 15, 23, 19, 13, 12, 2, 20, 14, 22, 9, 6, 1];
+
+const RATE = 136; // bytes absorbed per permutation for a 256-bit output
+
+function rotl(value: bigint, shift: number): bigint {
+  return ((value << BigInt(shift)) | (value >> BigInt(64 - shift))) & MASK_64;
+}
+
+function permute(state: bigint[]) {
+  const c = new Array<bigint>(5);
+  for (let round = 0; round < 24; round++) {
+    // Theta
+    for (let x = 0; x < 5; x++) c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[y + x] ^= d;
+    }
+
+    // Rho and pi
+    let carry = state[1];
+    for (let i = 0; i < 24; i++) {
+      const lane = PI_LANES[i];
+      const next = state[lane];
+      state[lane] = rotl(carry, ROTATIONS[i]);
+      carry = next;
+    }
+
+    // Chi
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) c[x] = state[y + x];
+      for (let x = 0; x < 5; x++) state[y + x] = c[x] ^ (~c[(x + 1) % 5] & MASK_64 & c[(x + 2) % 5]);
+    }
+
+    // Iota
+    state[0] ^= ROUND_CONSTANTS[round];
+  }
+}
+
+export function keccak256(input: Uint8Array | string): Uint8Array {
+  const data = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+
+  // Pad: 0x01 after the data, 0x80 on the last byte of the block
+  const padded = new Uint8Array(Math.floor(data.length / RATE) * RATE + RATE);
+  padded.set(data);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += RATE) {
+    for (let i = 0; i < RATE / 8; i++) {
+      let lane = 0n;
+      for (let b = 7; b >= 0; b--) lane = (lane << 8n) | BigInt(padded[offset + i * 8 + b]);
+      state[i] ^= lane;
+    }
+    permute(state);
+  }
+
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 4; i++) {
+    for (let b = 0; b < 8; b++) out[i * 8 + b] = Number((state[i] >> BigInt(b * 8)) & 0xffn);
+  }
+  return out;
+}
@@ -0,0 +1,41 @@
+// src/utils/lockedMaterials.ts
+import type { LockedMaterialGroup, ProductManifest } from './manifestValidator';
+
+/**
+ * Strict selector matching for locked groups: exact mesh names, or globs where
+ * `*` stands for any run of characters. Unlike the viewer's flexible part
+ * matching there is no fuzzy fallback, so a locked list never grabs meshes
+ * it does not name.
+ */
+export function matchesLockedSelector(meshName: string, selector: string): boolean {
+  if (!selector.includes('*')) {
+    return meshName === selector;
+  }
+
+  const pattern = selector
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${pattern}$`).test(meshName);
+}
+
+/**
+ * All selectors locked by a group, including the mesh selectors of its parts
+ */
+export function getLockedSelectors(manifest: ProductManifest, group: LockedMaterialGroup): string[] {
+  const partSelectors = (group.partIds || []).flatMap(partId =>
+    manifest.parts.find(part => part.id === partId)?.meshSelectors || []
+  );
+  return [...group.selectors, ...partSelectors];
+}
+
+/**
+ * Finds the locked group a mesh (or mesh selector) belongs to, if any
+ */
+export function findLockedMaterialGroup(manifest: ProductManifest, meshName: string): LockedMaterialGroup | null {
+  for (const group of manifest.lockedMaterials || []) {
+    if (getLockedSelectors(manifest, group).some(selector => matchesLockedSelector(meshName, selector))) {
+      return group;
+    }
+  }
+  return null;
+}
@@ -37,6 +37,7 @@ const CaliberSchema = z.object({
     muzzleVelocity: z.string().optional(),
     energy: z.string().optional(),
   }).optional(),
+  price: z.number().optional(), // Delta over the base price
 });
 
 // NEW: Suppressor schema
@@ -45,6 +46,7 @@ const SuppressorSchema = z.object({
   label: z.string(),
   description: z.string().optional(),
   modelFile: z.string(), // GLB filename
+  price: z.number().optional(), // Delta over the base price
 });
 
 // NEW: Trigger schema
@@ -52,6 +54,7 @@ const TriggerSchema = z.object({
   id: z.string(),
   label: z.string(),
   description: z.string().optional(),
+  price: z.number().optional(), // Delta over the base price
 });
 
 // NEW: Texture system schemas
@@ -101,6 +104,17 @@ const LegacyMaterialSchema = z.union([
 // Combined material schema for backward compatibility
 const MaterialSchema = z.union([NewMaterialSchema, LegacyMaterialSchema]);
 
+// Mesh groups whose material is fixed regardless of the selected finish
+const LockedMaterialGroupSchema = z.object({
+  id: z.string(),
+  label: z.string().optional(),
+  reason: z.string(),
+  material: NewMaterialSchema,
+  selectors: z.array(z.string()), // exact mesh names or * globs
+  partIds: z.array(z.string()).optional(), // lock every mesh of these parts
+  internal: z.boolean().optional(), // hidden inside the rifle, may be left out of exports
+});
+
 const DecalSchema = z.object({
   texture: z.string(),
   uvChannel: z.number().optional(),
@@ -115,12 +129,31 @@ const RuleSchema = z.object({
   }),
 });
 
+// Constraint engine schemas
+// An option reference points at one slot of the selection. `partId` is required
+// for per-part slots (color, option). Leaving `id` out means "any value" on the
+// `when` side, and "the same value as `when`" on the `then` side of `forces`.
+const OptionRefSchema = z.object({
+  kind: z.enum(['caliber', 'suppressor', 'trigger', 'pattern', 'finishMode', 'color', 'option']),
+  id: z.string().optional(),
+  partId: z.string().optional(),
+});
+
+const ConstraintSchema = z.object({
+  id: z.string(),
+  type: z.enum(['requires', 'excludes', 'forces', 'defaultsTo']),
+  when: OptionRefSchema,
+  then: OptionRefSchema,
+  reason: z.string(),
+});
+
 // NEW: Finish system schemas
 const FinishOptionSchema = z.object({
   id: z.string(),
   label: z.string(),
   thumbnail: z.string().optional(),
   material: NewMaterialSchema,
+  price: z.number().optional(), // Charged once per rifle when the pattern/color is used
 });
 
 const FinishModeSchema = z.object({
@@ -149,6 +182,7 @@ const OptionSchema = z.object({
   material: MaterialSchema,
   decals: z.array(DecalSchema).optional(),
   rules: z.array(RuleSchema).optional(),
+  price: z.number().optional(),
 });
 
 const PartSchema = z.object({
@@ -160,6 +194,47 @@ const PartSchema = z.object({
   options: z.array(OptionSchema).optional(), // Made optional for new system
 });
 
+// Base price and custom Cerakote surcharges. A part counts as custom when its
+// finish differs from the rest of the rifle (or is an override on a pattern);
+// `partSurcharges` replaces `customPartSurcharge` for individual parts.
+const PricingSchema = z.object({
+  currency: z.string().default('USD'),
+  basePrice: z.number(),
+  customPartSurcharge: z.number().optional(),
+  partSurcharges: z.record(z.string(), z.number()).optional(),
+});
+
+// Names (and optional SKUs) of options in the external store catalog, keyed by
+// option id. `finishes` covers both colors and patterns; `customFinish` is sent
+// when parts have different finishes. Every option needs an entry.
+const CommerceEntrySchema = z.object({
+  label: z.string().min(1),
+  sku: z.string().optional(),
+});
+
+const CommerceMappingSchema = z.object({
+  finishes: z.record(z.string(), CommerceEntrySchema),
+  customFinish: CommerceEntrySchema,
+  calibers: z.record(z.string(), CommerceEntrySchema),
+  suppressors: z.record(z.string(), CommerceEntrySchema),
+  triggers: z.record(z.string(), CommerceEntrySchema),
+});
+
+// Starting selection for a fresh configuration. `color` applies to every
+// configurable part, `colors` then overrides individual parts.
+const DefaultSelectionSchema = z.object({
+  finishMode: z.enum(['colors', 'patterns']).optional(),
+  pattern: z.string().optional(),
+  color: z.string().optional(),
+  colors: z.record(z.string(), z.string()).optional(),
+  caliber: z.string().optional(),
+  suppressor: z.string().optional(),
+  trigger: z.string().optional(),
+  options: z.record(z.string(), z.string()).optional(),
+});
+
+const PER_PART_KINDS = ['color', 'option'];
+
 export const ManifestSchema = z.object({
   productName: z.string(),
   sku: z.string(),
@@ -175,6 +250,118 @@ export const ManifestSchema = z.object({
   calibers: z.array(CaliberSchema).optional(), // NEW: Caliber options
   suppressors: z.array(SuppressorSchema).optional(), // NEW: Suppressor options
   triggers: z.array(TriggerSchema).optional(), // NEW: Trigger options
+  constraints: z.array(ConstraintSchema).optional(),
+  lockedMaterials: z.array(LockedMaterialGroupSchema).optional(),
+  defaults: DefaultSelectionSchema.optional(),
+  pricing: PricingSchema.optional(),
+  commerceMapping: CommerceMappingSchema.optional(),
+}).superRefine((manifest, ctx) => {
+  // Cross-references must point at parts and options that exist
+  const partIds = new Set(manifest.parts.map(part => part.id));
+  const knownIds: Record<string, Set<string>> = {
+    caliber: new Set(manifest.calibers?.map(c => c.id)),
+    suppressor: new Set(manifest.suppressors?.map(s => s.id)),
+    trigger: new Set(manifest.triggers?.map(t => t.id)),
+    pattern: new Set(manifest.finishModes?.patterns.options.map(o => o.id)),
+    finishMode: new Set(['colors', 'patterns']),
+    color: new Set(manifest.finishModes?.colors.options.map(o => o.id)),
+  };
+
+  manifest.lockedMaterials?.forEach((group, index) => {
+    group.partIds?.forEach(partId => {
+      if (!partIds.has(partId)) {
+        ctx.addIssue({ code: 'custom', path: ['lockedMaterials', index, 'partIds'], message: `Unknown part "${partId}"` });
+      }
+    });
+  });
+
+  if (manifest.defaults) {
+    const { pattern, color, colors, caliber, suppressor, trigger, options } = manifest.defaults;
+    const checkId = (kind: string, id: string | undefined, path: (string | number)[]) => {
+      if (id !== undefined && !knownIds[kind].has(id)) {
+        ctx.addIssue({ code: 'custom', path: ['defaults', ...path], message: `Unknown ${kind} "${id}"` });
+      }
+    };
+
+    checkId('pattern', pattern, ['pattern']);
+    checkId('color', color, ['color']);
+    checkId('caliber', caliber, ['caliber']);
+    checkId('suppressor', suppressor, ['suppressor']);
+    checkId('trigger', trigger, ['trigger']);
+    Object.entries(colors || {}).forEach(([partId, colorId]) => {
+      if (!partIds.has(partId)) {
+        ctx.addIssue({ code: 'custom', path: ['defaults', 'colors', partId], message: `Unknown part "${partId}"` });
+      }
+      checkId('color', colorId, ['colors', partId]);
+    });
+    Object.entries(options || {}).forEach(([partId, optionId]) => {
+      const part = manifest.parts.find(p => p.id === partId);
+      if (!part?.options?.some(o => o.id === optionId)) {
+        ctx.addIssue({ code: 'custom', path: ['defaults', 'options', partId], message: `Unknown option "${optionId}" for part "${partId}"` });
+      }
+    });
+  }
+
+  Object.keys(manifest.pricing?.partSurcharges || {}).forEach(partId => {
+    if (!partIds.has(partId)) {
+      ctx.addIssue({ code: 'custom', path: ['pricing', 'partSurcharges', partId], message: `Unknown part "${partId}"` });
+    }
+  });
+
+  if (manifest.commerceMapping) {
+    const mapping = manifest.commerceMapping;
+    const sections: Array<[keyof typeof mapping, string, Set<string>]> = [
+      ['finishes', 'finish', new Set([...knownIds.color, ...knownIds.pattern])],
+      ['calibers', 'caliber', knownIds.caliber],
+      ['suppressors', 'suppressor', knownIds.suppressor],
+      ['triggers', 'trigger', knownIds.trigger],
+    ];
+
+    sections.forEach(([section, kind, ids]) => {
+      const entries = mapping[section] as Record<string, unknown>;
+      ids.forEach(id => {
+        if (!entries[id]) {
+          ctx.addIssue({ code: 'custom', path: ['commerceMapping', section], message: `No commerce mapping for ${kind} "${id}"` });
+        }
+      });
+      Object.keys(entries).forEach(id => {
+        if (!ids.has(id)) {
+          ctx.addIssue({ code: 'custom', path: ['commerceMapping', section, id], message: `Unknown ${kind} "${id}"` });
+        }
+      });
+    });
+  }
+
+  manifest.constraints?.forEach((constraint, index) => {
+    (['when', 'then'] as const).forEach(side => {
+      const ref = constraint[side];
+      const path = ['constraints', index, side];
+
+      if (PER_PART_KINDS.includes(ref.kind) && !ref.partId) {
+        ctx.addIssue({ code: 'custom', path, message: `"${ref.kind}" references need a partId` });
+        return;
+      }
+      if (ref.partId && !partIds.has(ref.partId)) {
+        ctx.addIssue({ code: 'custom', path, message: `Unknown part "${ref.partId}"` });
+        return;
+      }
+      if (ref.id === undefined) return;
+
+      const ids = ref.kind === 'option'
+        ? new Set(manifest.parts.find(part => part.id === ref.partId)?.options?.map(o => o.id))
+        : knownIds[ref.kind];
+      if (!ids.has(ref.id)) {
+        ctx.addIssue({ code: 'custom', path, message: `Unknown ${ref.kind} "${ref.id}"` });
+      }
+    });
+
+    if (constraint.type === 'defaultsTo' && constraint.then.id === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['constraints', index, 'then'], message: '"defaultsTo" needs a target id' });
+    }
+    if (constraint.type === 'forces' && constraint.then.id === undefined && constraint.when.kind !== constraint.then.kind) {
+      ctx.addIssue({ code: 'custom', path: ['constraints', index, 'then'], message: 'Mirroring "forces" constraints must link slots of the same kind' });
+    }
+  });
 });
 
 // TypeScript types derived from schemas
@@ -207,6 +394,13 @@ export type SimpleMaterial = z.infer<typeof SimpleMaterialSchema>;
 export type Material = z.infer<typeof MaterialSchema>;
 export type Decal = z.infer<typeof DecalSchema>;
 export type Rule = z.infer<typeof RuleSchema>;
+export type OptionRef = z.infer<typeof OptionRefSchema>;
+export type Constraint = z.infer<typeof ConstraintSchema>;
+export type LockedMaterialGroup = z.infer<typeof LockedMaterialGroupSchema>;
+export type DefaultSelection = z.infer<typeof DefaultSelectionSchema>;
+export type Pricing = z.infer<typeof PricingSchema>;
+export type CommerceEntry = z.infer<typeof CommerceEntrySchema>;
+export type CommerceMapping = z.infer<typeof CommerceMappingSchema>;
 export type Option = z.infer<typeof OptionSchema>;
 export type Part = z.infer<typeof PartSchema>;
 export type ProductManifest = z.infer<typeof ManifestSchema>;
@@ -0,0 +1,210 @@
+// src/utils/modelExport.ts
+import * as THREE from 'three';
+import { GLTFExporter } from 'three-stdlib';
+// three's own USDZ exporter and simplifier: unlike the three-stdlib ports they
+// keep texture transforms (pattern repeat) and UVs
+import { USDZExporter } from 'three/examples/jsm/exporters/USDZExporter.js';
+import { SimplifyModifier } from 'three/examples/jsm/modifiers/SimplifyModifier.js';
+import type { ProductManifest } from './manifestValidator';
+import { matchesLockedSelector, getLockedSelectors } from './lockedMaterials';
+import { createZip, ZipEntry } from './zip';
+
+/**
+ * Exports of the configured model for AR and downstream tools, with the
+ * applied finishes (pattern textures included) baked into the file.
+ */
+
+export type ModelFormat = 'glb' | 'gltf' | 'usdz';
+
+export type Decimation = 'none' | 'light' | 'medium' | 'heavy';
+
+export interface ModelExportOptions {
+  format: ModelFormat;
+  decimation: Decimation;
+  omitSelectors: string[]; // mesh names / * globs left out of the file
+  maxTextureSize: number;
+}
+
+export interface ModelExportResult {
+  blob: Blob;
+  extension: string;
+  meshes: number;
+  triangles: number;
+  omitted: number; // meshes left out (hidden or omitted by selector)
+}
+
+export const DEFAULT_MODEL_EXPORT: ModelExportOptions = {
+  format: 'glb',
+  decimation: 'none',
+  omitSelectors: [],
+  maxTextureSize: 2048,
+};
+
+export const MODEL_FORMATS: Record<ModelFormat, { label: string; extension: string; mimeType: string }> = {
+  glb: { label: 'GLB (binary glTF)', extension: 'glb', mimeType: 'model/gltf-binary' },
+  gltf: { label: 'glTF + bin (zip)', extension: 'zip', mimeType: 'application/zip' },
+  usdz: { label: 'USDZ (Apple AR Quick Look)', extension: 'usdz', mimeType: 'model/vnd.usdz+zip' },
+};
+
+// Share of each mesh's vertices removed
+export const DECIMATION_RATIOS: Record<Decimation, number> = {
+  none: 0,
+  light: 0.25,
+  medium: 0.5,
+  heavy: 0.75,
+};
+
+// Small meshes (screws, pins) are left alone: there is little to gain and they collapse badly
+const MIN_DECIMATION_VERTICES = 300;
+
+/**
+ * Selectors of the manifest's locked groups flagged `internal`: hardware that
+ * sits inside the rifle, safe to leave out of an export
+ */
+export function getInternalSelectors(manifest: ProductManifest): string[] {
+  return (manifest.lockedMaterials || [])
+    .filter(group => group.internal)
+    .flatMap(group => getLockedSelectors(manifest, group));
+}
+
+function isHidden(object: THREE.Object3D): boolean {
+  for (let node: THREE.Object3D | null = object; node; node = node.parent) {
+    if (!node.visible) return true;
+  }
+  return false;
+}
+
+function countTriangles(geometry: THREE.BufferGeometry): number {
+  return Math.floor((geometry.index?.count ?? geometry.getAttribute('position').count) / 3);
+}
+
+/**
+ * A copy of the model ready to export: hidden and omitted meshes removed,
+ * materials copied with the hover/selection glow cleared, and geometry
+ * optionally decimated. The live model is left untouched.
+ */
+async function prepareScene(
+  model: THREE.Object3D,
+  options: ModelExportOptions,
+  onProgress?: (message: string) => void
+): Promise<{ scene: THREE.Object3D; meshes: THREE.Mesh[]; omitted: number }> {
+  model.updateWorldMatrix(true, true);
+  const scene = model.clone(true);
+  // Keep the model's place in the world (the viewer centers and scales it)
+  model.matrixWorld.decompose(scene.position, scene.quaternion, scene.scale);
+
+  const removed: THREE.Object3D[] = [];
+  const meshes: THREE.Mesh[] = [];
+  scene.traverse(child => {
+    if (!(child instanceof THREE.Mesh)) return;
+    if (isHidden(child) || options.omitSelectors.some(selector => matchesLockedSelector(child.name, selector))) {
+      removed.push(child);
+      return;
+    }
+
+    const copy = (material: THREE.Material) => {
+      const clone = material.clone();
+      if (clone instanceof THREE.MeshStandardMaterial) {
+        clone.emissive.set(0x000000);
+        clone.emissiveIntensity = 0;
+      }
+      return clone;
+    };
+    child.material = Array.isArray(child.material) ? child.material.map(copy) : copy(child.material);
+    meshes.push(child);
+  });
+  removed.forEach(child => child.removeFromParent());
+
+  const ratio = DECIMATION_RATIOS[options.decimation];
+  if (ratio > 0) {
+    const modifier = new SimplifyModifier();
+    for (const [index, mesh] of meshes.entries()) {
+      const vertices = mesh.geometry.getAttribute('position').count;
+      // Multi-material meshes rely on geometry groups, which simplification drops
+      if (vertices < MIN_DECIMATION_VERTICES || Array.isArray(mesh.material)) continue;
+
+      onProgress?.(`Simplifying ${mesh.name || 'mesh'} (${index + 1}/${meshes.length})`);
+      // Let the progress message paint; simplifying a large mesh blocks for a while
+      await new Promise(resolve => setTimeout(resolve, 0));
+      mesh.geometry = modifier.modify(mesh.geometry, Math.floor(vertices * ratio));
+    }
+  }
+
+  return { scene, meshes, omitted: removed.length };
+}
+
+async function dataUrlToBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * glTF JSON with its buffer and textures as separate files, zipped together
+ */
+async function packageGltf(gltf: Record<string, unknown>, name: string): Promise<Blob> {
+  const json = gltf as {
+    buffers?: Array<{ uri?: string }>;
+    images?: Array<{ uri?: string; mimeType?: string }>;
+  };
+  const entries: ZipEntry[] = [];
+
+  for (const [index, buffer] of (json.buffers || []).entries()) {
+    if (!buffer.uri?.startsWith('data:')) continue;
+    const file = index === 0 ? `${name}.bin` : `${name}-${index}.bin`;
+    entries.push({ name: file, data: await dataUrlToBytes(buffer.uri) });
+    buffer.uri = file;
+  }
+
+  for (const [index, image] of (json.images || []).entries()) {
+    if (!image.uri?.startsWith('data:')) continue;
+    const extension = image.uri.startsWith('data:image/jpeg') ? 'jpg' : 'png';
+    const file = `textures/texture-${index}.${extension}`;
+    entries.push({ name: file, data: await dataUrlToBytes(image.uri) });
+    image.uri = file;
+  }
+
+  return createZip([{ name: `${name}.gltf`, data: JSON.stringify(json, null, 2) }, ...entries]);
+}
+
+/**
+ * Exports the model (as shown, textures loaded) in the chosen format
+ */
+export async function exportModel(
+  model: THREE.Object3D,
+  overrides: Partial<ModelExportOptions> = {},
+  onProgress?: (message: string) => void,
+  name = 'model'
+): Promise<ModelExportResult> {
+  const options = { ...DEFAULT_MODEL_EXPORT, ...overrides };
+  const { scene, meshes, omitted } = await prepareScene(model, options, onProgress);
+  const triangles = meshes.reduce((sum, mesh) => sum + countTriangles(mesh.geometry), 0);
+  console.log(`Exporting ${meshes.length} meshes (${triangles} triangles, ${omitted} left out) as ${options.format}`);
+
+  onProgress?.(`Writing ${MODEL_FORMATS[options.format].label}...`);
+  let blob: Blob;
+  if (options.format === 'usdz') {
+    // USDZ takes one material per mesh; the viewer gives every slot the same finish
+    meshes.forEach(mesh => {
+      if (Array.isArray(mesh.material)) mesh.material = mesh.material[0];
+    });
+    const data = await new USDZExporter().parseAsync(scene, {
+      quickLookCompatible: true,
+      maxTextureSize: options.maxTextureSize,
+    });
+    blob = new Blob([data], { type: MODEL_FORMATS.usdz.mimeType });
+  } else {
+    const result = await new GLTFExporter().parseAsync(scene, {
+      binary: options.format === 'glb',
+      embedImages: true,
+      maxTextureSize: options.maxTextureSize,
+      animations: [],
+      truncateDrawRange: true,
+    });
+    blob = result instanceof ArrayBuffer
+      ? new Blob([result], { type: MODEL_FORMATS.glb.mimeType })
+      : await packageGltf(result, name);
+  }
+
+  console.log(`Model export complete: ${blob.size} bytes`);
+  return { blob, extension: MODEL_FORMATS[options.format].extension, meshes: meshes.length, triangles, omitted };
+}
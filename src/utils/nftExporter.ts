@@ -1,20 +1,28 @@
-// src/utils/nftExporter.ts - Simplified version that skips problematic image capture
+// src/utils/nftExporter.ts
 import * as THREE from 'three';
-import { GLTFExporter } from 'three-stdlib';
+import type { ConfigurationLabels } from './resolveConfiguration';
+import { RenderOptions, ViewName, VIEW_NAMES, blobToDataUrl } from './offscreenRenderer';
+import { exportService } from '../services/exportService';
+import { exportModel } from './modelExport';
+import { ipfsService, IpfsService } from '../services/ipfsService';
+import { generateConfigId } from './id';
+import { pickSelection, ConfigSelection } from './selection';
+import { appConfig } from './appConfig';
+import { CHAINS } from './chains';
 
 export interface NFTExportData {
   modelFile: Blob;
-  previewImages: {
-    main: string;
-    front: string;
-    side: string;
-    back: string;
-    isometric: string;
-  };
+  previewImages: Record<ViewName, string>; // PNG/WebP data URLs
   metadata: NFTMetadata;
   configurationData: any;
 }
 
+// The build itself, so the token can be checked against (and re-rendered from) the manifest
+export interface EmbeddedConfiguration {
+  sku: string;
+  selection: ConfigSelection;
+}
+
 export interface NFTMetadata {
   name: string;
   description: string;
@@ -30,19 +38,17 @@ export interface NFTMetadata {
     created_at: string;
     creator: string;
     file_size?: number;
+    preview_images?: Record<string, string>; // view -> ipfs:// URI, set on upload
+    configuration_data?: EmbeddedConfiguration;
   };
 }
 
 export class NFTExporter {
-  private scene: THREE.Scene;
-  private camera: THREE.PerspectiveCamera;
-  private renderer: THREE.WebGLRenderer;
   private model: THREE.Group | null = null;
+  private previewOptions: Partial<RenderOptions>;
 
-  constructor(scene: THREE.Scene, camera: THREE.PerspectiveCamera, renderer: THREE.WebGLRenderer) {
-    this.scene = scene;
-    this.camera = camera;
-    this.renderer = renderer;
+  constructor(previewOptions: Partial<RenderOptions> = {}) {
+    this.previewOptions = previewOptions;
   }
 
   setModel(model: THREE.Group) {
@@ -67,8 +73,8 @@ export class NFTExporter {
     // 1. Export the 3D model as GLB
     const modelFile = await this.export3DModel();
     
-    // 2. Create placeholder preview images (skip problematic canvas capture)
-    const previewImages = this.createPlaceholderImages();
+    // 2. Render the preview images
+    const previewImages = await this.renderPreviewImages();
     
     // 3. Generate NFT metadata
     const metadata = this.generateMetadata(configurationData, previewImages.main, userAddress);
@@ -89,125 +95,25 @@ export class NFTExporter {
   }
 
   private async export3DModel(): Promise<Blob> {
-    return new Promise((resolve, reject) => {
-      const exporter = new GLTFExporter();
-      
-      if (!this.model) {
-        reject(new Error('No model to export'));
-        return;
-      }
+    if (!this.model) {
+      throw new Error('No model to export');
+    }
 
-      console.log('Exporting model with GLTFExporter...');
-      
-      // Clone the model to avoid modifying the original
-      const modelClone = this.model.clone();
-      
-      // Log some details about what we're exporting
-      let meshCount = 0;
-      modelClone.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          meshCount++;
-        }
-      });
-      console.log('Exporting', meshCount, 'meshes in model');
-      
-      exporter.parse(
-        modelClone,
-        (result) => {
-          let blob: Blob;
-          
-          if (result instanceof ArrayBuffer) {
-            blob = new Blob([result], { type: 'model/gltf-binary' });
-            console.log('GLB export successful - ArrayBuffer size:', result.byteLength);
-          } else {
-            const jsonString = JSON.stringify(result);
-            blob = new Blob([jsonString], { type: 'application/json' });
-            console.log('GLTF export successful - JSON size:', jsonString.length);
-          }
-          
-          console.log('3D Model exported successfully, final blob size:', blob.size);
-          resolve(blob);
-        },
-        (error) => {
-          console.error('Error exporting 3D model:', error);
-          reject(error);
-        },
-        {
-          binary: true, // Export as GLB (binary)
-          includeCustomExtensions: true,
-          animations: [],
-          truncateDrawRange: true
-        }
-      );
-    });
+    console.log('Exporting model as GLB...');
+    const { blob } = await exportModel(this.model, { format: 'glb' });
+    return blob;
   }
 
-  // Simple placeholder image creation (no canvas capture)
-  private createPlaceholderImages(): {
-    main: string;
-    front: string;
-    side: string;
-    back: string;
-    isometric: string;
-  } {
-    console.log('Creating placeholder preview images...');
-    
-    const createPlaceholder = (viewName: string): string => {
-      const canvas = document.createElement('canvas');
-      canvas.width = 512;
-      canvas.height = 512;
-      const ctx = canvas.getContext('2d');
-      
-      if (ctx) {
-        // Background gradient
-        const gradient = ctx.createLinearGradient(0, 0, 512, 512);
-        gradient.addColorStop(0, '#f0f0f0');
-        gradient.addColorStop(1, '#e0e0e0');
-        ctx.fillStyle = gradient;
-        ctx.fillRect(0, 0, 512, 512);
-        
-        // Border
-        ctx.strokeStyle = '#cccccc';
-        ctx.lineWidth = 2;
-        ctx.strokeRect(1, 1, 510, 510);
-        
-        // CheyTac logo area
-        ctx.fillStyle = '#ba2025';
-        ctx.fillRect(50, 50, 412, 100);
-        
-        // Text
-        ctx.fillStyle = 'white';
-        ctx.font = 'bold 32px Arial';
-        ctx.textAlign = 'center';
-        ctx.fillText('CHEYTAC', 256, 110);
-        
-        ctx.fillStyle = '#333333';
-        ctx.font = 'bold 28px Arial';
-        ctx.fillText('M200 Configuration', 256, 200);
-        
-        ctx.font = '20px Arial';
-        ctx.fillText(`${viewName} View`, 256, 250);
-        
-        ctx.font = '16px Arial';
-        ctx.fillStyle = '#666666';
-        ctx.fillText('3D Interactive NFT', 256, 300);
-        ctx.fillText('Configuration Preview', 256, 325);
-        
-        // Bottom info
-        ctx.fillText(`Generated: ${new Date().toLocaleDateString()}`, 256, 420);
-        ctx.fillText('View full 3D model in NFT viewer', 256, 450);
-      }
-      
-      return canvas.toDataURL('image/png', 0.9);
-    };
+  // One render per named view, with the model's current materials
+  private async renderPreviewImages(): Promise<Record<ViewName, string>> {
+    if (!this.model) {
+      throw new Error('No model to render');
+    }
 
-    return {
-      main: createPlaceholder('Main'),
-      front: createPlaceholder('Front'),
-      side: createPlaceholder('Side'),
-      back: createPlaceholder('Back'),
-      isometric: createPlaceholder('Isometric')
-    };
+    console.log('Rendering preview images...');
+    const images = await exportService.renderViews(VIEW_NAMES, this.previewOptions, this.model);
+    const entries = await Promise.all(images.map(async image => [image.view, await blobToDataUrl(image.blob)] as const));
+    return Object.fromEntries(entries) as Record<ViewName, string>;
   }
 
   private generateMetadata(
@@ -231,12 +137,25 @@ export class NFTExporter {
       });
     }
 
+    // Human-readable finishes and hardware from the resolved configuration
+    const labels: ConfigurationLabels | undefined = configurationData.labels;
+    if (labels) {
+      if (labels.mainFinish) attributes.push({ trait_type: 'Finish', value: labels.mainFinish });
+      if (labels.pattern) attributes.push({ trait_type: 'Pattern', value: labels.pattern });
+      if (labels.caliber) attributes.push({ trait_type: 'Caliber', value: labels.caliber });
+      if (labels.suppressor) attributes.push({ trait_type: 'Muzzle Device', value: labels.suppressor });
+      if (labels.trigger) attributes.push({ trait_type: 'Trigger', value: labels.trigger });
+      labels.parts.forEach(part => {
+        attributes.push({ trait_type: `${part.label} Finish`, value: part.finish });
+      });
+    }
+
     // Add general traits
     attributes.push(
       { trait_type: 'Model Type', value: 'CheyTac M200' },
       { trait_type: 'Format', value: '3D Interactive' },
       { trait_type: 'Export Date', value: timestamp.split('T')[0] },
-      { trait_type: 'Blockchain', value: 'Polygon' }
+      { trait_type: 'Blockchain', value: CHAINS[appConfig.nft.chain].name }
     );
 
     const metadata: NFTMetadata = {
@@ -250,25 +169,20 @@ export class NFTExporter {
         configuration_id: configId,
         created_at: timestamp,
         creator: userAddress || 'Unknown',
-        file_size: 0 // Will be updated after model export
+        file_size: 0, // Will be updated after model export
+        configuration_data: {
+          sku: configurationData.sku,
+          selection: pickSelection(configurationData),
+        }
       }
     };
 
     return metadata;
   }
 
+  // Same content-addressed id the configurator shows for this build
   private generateConfigurationId(configurationData: any): string {
-    // Create a unique hash based on the configuration
-    const configString = JSON.stringify(configurationData);
-    let hash = 0;
-    
-    for (let i = 0; i < configString.length; i++) {
-      const char = configString.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    
-    return Math.abs(hash).toString(16) + Date.now().toString(16);
+    return configurationData.configId || generateConfigId(configurationData.sku, pickSelection(configurationData));
   }
 
   // Utility method to download the NFT package locally (for testing)
@@ -294,7 +208,8 @@ export class NFTExporter {
     Object.entries(nftPackage.previewImages).forEach(([angle, dataURL]) => {
       const link = document.createElement('a');
       link.href = dataURL;
-      link.download = `preview-${angle}-${nftPackage.metadata.properties.configuration_id}.png`;
+      const extension = dataURL.startsWith('data:image/webp') ? 'webp' : 'png';
+      link.download = `preview-${angle}-${nftPackage.metadata.properties.configuration_id}.${extension}`;
       link.click();
     });
 
@@ -306,42 +221,65 @@ export class NFTExporter {
   }
 }
 
-// IPFS Upload utility (placeholder - will need actual IPFS service)
+export interface IPFSUploadResult {
+  modelIPFSHash: string;
+  metadataIPFSHash: string;
+  imageIPFSHashes: Record<ViewName, string>;
+  metadataURI: string; // ipfs:// URI to use as the token URI
+  modelURI: string;
+  metadata: NFTMetadata; // as uploaded, with ipfs:// links
+}
+
+/**
+ * Uploads an NFT package to IPFS: model and previews first, then the
+ * metadata rewritten to point at them with ipfs:// URIs
+ */
 export class IPFSUploader {
-  private pinataApiKey?: string;
-  private pinataSecretKey?: string;
+  private ipfs: IpfsService;
 
-  constructor(pinataApiKey?: string, pinataSecretKey?: string) {
-    this.pinataApiKey = pinataApiKey;
-    this.pinataSecretKey = pinataSecretKey;
+  constructor(ipfs: IpfsService = ipfsService) {
+    this.ipfs = ipfs;
   }
 
-  async uploadNFTPackage(nftPackage: NFTExportData): Promise<{
-    modelIPFSHash: string;
-    metadataIPFSHash: string;
-    imageIPFSHashes: { [key: string]: string };
-  }> {
-    // This is a placeholder implementation
-    // In production, you'd integrate with Pinata, Infura IPFS, or your preferred IPFS service
-    
-    console.log('Uploading NFT package to IPFS...');
-    
-    // Simulate upload process
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve({
-          modelIPFSHash: 'QmExample3DModelHash' + Date.now(),
-          metadataIPFSHash: 'QmExampleMetadataHash' + Date.now(),
-          imageIPFSHashes: {
-            main: 'QmExampleMainImageHash' + Date.now(),
-            front: 'QmExampleFrontImageHash' + Date.now(),
-            side: 'QmExampleSideImageHash' + Date.now(),
-            back: 'QmExampleBackImageHash' + Date.now(),
-            isometric: 'QmExampleIsoImageHash' + Date.now()
-          }
-        });
-      }, 2000);
-    });
+  async uploadNFTPackage(nftPackage: NFTExportData, onProgress?: (message: string) => void): Promise<IPFSUploadResult> {
+    const configId = nftPackage.metadata.properties.configuration_id;
+    console.log('Uploading NFT package to IPFS...', configId);
+
+    onProgress?.('Uploading 3D model to IPFS...');
+    const model = await this.ipfs.add(nftPackage.modelFile, `CheyTac-M200-${configId}.glb`);
+
+    const images = {} as Record<ViewName, string>;
+    for (const [view, dataURL] of Object.entries(nftPackage.previewImages) as Array<[ViewName, string]>) {
+      onProgress?.(`Uploading ${view} preview to IPFS...`);
+      const blob = await (await fetch(dataURL)).blob();
+      const extension = blob.type === 'image/webp' ? 'webp' : 'png';
+      images[view] = (await this.ipfs.add(blob, `preview-${view}-${configId}.${extension}`)).uri;
+    }
+
+    const metadata: NFTMetadata = {
+      ...nftPackage.metadata,
+      image: images.main,
+      animation_url: model.uri,
+      properties: {
+        ...nftPackage.metadata.properties,
+        file_size: model.size,
+        preview_images: images,
+      },
+    };
+
+    onProgress?.('Uploading metadata to IPFS...');
+    const metadataFile = await this.ipfs.add(JSON.stringify(metadata, null, 2), `metadata-${configId}.json`);
+
+    return {
+      modelIPFSHash: model.cid,
+      metadataIPFSHash: metadataFile.cid,
+      imageIPFSHashes: Object.fromEntries(
+        Object.entries(images).map(([view, uri]) => [view, uri.replace('ipfs://', '')])
+      ) as Record<ViewName, string>,
+      metadataURI: metadataFile.uri,
+      modelURI: model.uri,
+      metadata,
+    };
   }
 }
 
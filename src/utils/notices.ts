@@ -0,0 +1,10 @@
+// src/utils/notices.ts
+
+/**
+ * Legal copy shown in the configurator and printed on exported documents
+ */
+export const ITAR_NOTICE_TITLE = 'ITAR / EAR NOTICE';
+
+export const ITAR_NOTICE =
+  'This configurator is for demonstration purposes only. This does not constitute a sale or offer for sale. ' +
+  'Export restrictions may apply under ITAR and EAR regulations.';
@@ -0,0 +1,344 @@
+// src/utils/offscreenRenderer.ts
+import * as THREE from 'three';
+import { RoomEnvironment } from 'three-stdlib';
+
+/**
+ * Named camera angles around the rifle. The model's barrel points along +Z
+ * and its right side faces +X; `direction` goes from the model towards the camera.
+ */
+export const VIEW_PRESETS = {
+  main: { label: 'Main', direction: [1, 0.3, 0.2] },       // same 3/4 profile the configurator opens with
+  front: { label: 'Front', direction: [0, 0.08, 1] },      // down the muzzle
+  side: { label: 'Side', direction: [1, 0.02, 0] },        // right-hand profile
+  back: { label: 'Back', direction: [0, 0.08, -1] },       // from behind the buttstock
+  isometric: { label: 'Isometric', direction: [1, 0.8, 1] },
+} as const satisfies Record<string, { label: string; direction: [number, number, number] }>;
+
+export type ViewName = keyof typeof VIEW_PRESETS;
+
+export const VIEW_NAMES = Object.keys(VIEW_PRESETS) as ViewName[];
+
+/**
+ * transparent: alpha background; studio: the configurator's light backdrop;
+ * or any CSS color
+ */
+export type RenderBackground = 'transparent' | 'studio' | string;
+
+// JPEG has no alpha: a transparent background comes out black
+export type RenderFormat = 'image/png' | 'image/webp' | 'image/jpeg';
+
+export interface RenderOptions {
+  width: number;
+  height: number;
+  background: RenderBackground;
+  format: RenderFormat;
+  quality: number;  // WebP/JPEG quality, 0-1
+  padding: number;  // empty margin around the model, as a fraction of the frame
+  fov: number;
+}
+
+export interface RenderedImage {
+  view: ViewName;
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+  width: 1024,
+  height: 1024,
+  background: 'studio',
+  format: 'image/png',
+  quality: 0.92,
+  padding: 0.08,
+  fov: 35,
+};
+
+/**
+ * Renders a model (with whatever materials it currently has) from preset
+ * angles, on a WebGL context of its own so the live viewer is untouched.
+ * Call dispose() when done; each instance holds a GPU context.
+ */
+export class OffscreenRenderer {
+  private renderer: THREE.WebGLRenderer;
+  private scene = new THREE.Scene();
+  private camera = new THREE.PerspectiveCamera();
+  private environment: THREE.Texture;
+  private studioBackdrop: THREE.Texture | null = null;
+
+  constructor() {
+    this.renderer = new THREE.WebGLRenderer({
+      canvas: document.createElement('canvas'),
+      antialias: true,
+      alpha: true,
+      preserveDrawingBuffer: true,
+      logarithmicDepthBuffer: true,
+    });
+    this.renderer.setPixelRatio(1);
+    this.renderer.outputColorSpace = THREE.SRGBColorSpace;
+    this.renderer.toneMapping = THREE.ACESFilmicToneMapping;
+
+    const pmrem = new THREE.PMREMGenerator(this.renderer);
+    this.environment = pmrem.fromScene(RoomEnvironment(), 0.04).texture;
+    pmrem.dispose();
+
+    this.scene.environment = this.environment;
+    this.scene.environmentIntensity = 0.5;
+    this.addLights();
+  }
+
+  /**
+   * Same rig as ViewerLighting, so renders match what the customer saw
+   */
+  private addLights() {
+    this.scene.add(new THREE.AmbientLight(0xffffff, 0.6));
+    this.scene.add(new THREE.HemisphereLight(0xffffff, 0x333333, 0.4));
+
+    const directional: Array<[number, number, number, number]> = [
+      [8, 5, 3, 1.0], [-8, 5, 3, 1.0],    // key
+      [5, 3, 8, 0.7], [-5, 3, 8, 0.7],    // fill
+      [5, 3, -8, 0.6], [-5, 3, -8, 0.6],  // back
+      [0, -4, 0, 0.5],                    // underside
+    ];
+    directional.forEach(([x, y, z, intensity]) => {
+      const light = new THREE.DirectionalLight(0xffffff, intensity);
+      light.position.set(x, y, z);
+      this.scene.add(light);
+    });
+  }
+
+  private getStudioBackdrop(): THREE.Texture {
+    if (!this.studioBackdrop) {
+      const canvas = document.createElement('canvas');
+      canvas.width = 2;
+      canvas.height = 256;
+      const ctx = canvas.getContext('2d')!;
+      const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
+      gradient.addColorStop(0, '#FAF9F6');
+      gradient.addColorStop(1, '#EAE8E4');
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+      this.studioBackdrop = new THREE.CanvasTexture(canvas);
+      this.studioBackdrop.colorSpace = THREE.SRGBColorSpace;
+    }
+    return this.studioBackdrop;
+  }
+
+  private applyBackground(background: RenderBackground) {
+    if (background === 'transparent') {
+      this.scene.background = null;
+      this.renderer.setClearColor(0x000000, 0);
+    } else if (background === 'studio') {
+      this.scene.background = this.getStudioBackdrop();
+    } else {
+      this.scene.background = new THREE.Color(background);
+    }
+  }
+
+  /**
+   * Points the camera at the model's center from `distance` along `direction`
+   */
+  private aimCamera(box: THREE.Box3, direction: THREE.Vector3, distance: number, options: RenderOptions) {
+    const { camera } = this;
+    const center = box.getCenter(new THREE.Vector3());
+    const radius = box.getSize(new THREE.Vector3()).length() / 2;
+
+    camera.fov = options.fov;
+    camera.aspect = options.width / options.height;
+    camera.position.copy(center).addScaledVector(direction, distance);
+    // Straight up/down views need a different up vector
+    camera.up.set(0, 1, 0);
+    if (Math.abs(direction.y) > 0.99) camera.up.set(0, 0, -1);
+    camera.lookAt(center);
+    camera.updateMatrixWorld();
+
+    camera.near = Math.max(0.01, distance - radius * 1.5);
+    camera.far = distance + radius * 1.5;
+    camera.updateProjectionMatrix();
+  }
+
+  /**
+   * Distance along `direction` at which every corner of the bounding box
+   * fits the frame
+   */
+  private fitDistance(box: THREE.Box3, direction: THREE.Vector3, options: RenderOptions): number {
+    const start = box.getSize(new THREE.Vector3()).length() * 2;
+    this.aimCamera(box, direction, start, options);
+
+    const tanV = Math.tan(THREE.MathUtils.degToRad(options.fov / 2));
+    const tanH = tanV * this.camera.aspect;
+    const scale = 1 / (1 - 2 * options.padding);
+
+    // How far the camera has to back off (or may move in) for each corner to fit
+    let shift = -Infinity;
+    const corner = new THREE.Vector3();
+    for (let i = 0; i < 8; i++) {
+      corner.set(
+        i & 1 ? box.max.x : box.min.x,
+        i & 2 ? box.max.y : box.min.y,
+        i & 4 ? box.max.z : box.min.z
+      ).applyMatrix4(this.camera.matrixWorldInverse);
+      shift = Math.max(
+        shift,
+        (Math.abs(corner.x) * scale) / tanH + corner.z,
+        (Math.abs(corner.y) * scale) / tanV + corner.z
+      );
+    }
+    return start + shift;
+  }
+
+  private toBlob(options: RenderOptions): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      this.renderer.domElement.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error('Failed to encode render')),
+        options.format,
+        options.quality
+      );
+    });
+  }
+
+  /**
+   * Stages a clone of `model` (sharing geometry and materials, so the caller's
+   * scene graph is left alone) for the duration of `render`
+   */
+  private async withSubject<T>(
+    model: THREE.Object3D,
+    options: RenderOptions,
+    render: (box: THREE.Box3) => Promise<T>
+  ): Promise<T> {
+    const maxSize = this.renderer.capabilities.maxTextureSize;
+    if (options.width > maxSize || options.height > maxSize) {
+      throw new Error(`Render size ${options.width}x${options.height} exceeds this GPU's limit of ${maxSize}px`);
+    }
+
+    const subject = model.clone();
+    subject.updateMatrixWorld(true);
+    const box = new THREE.Box3().setFromObject(subject);
+    if (box.isEmpty()) {
+      throw new Error('Nothing to render: the model has no geometry');
+    }
+
+    this.scene.add(subject);
+    this.renderer.setSize(options.width, options.height, false);
+    this.applyBackground(options.background);
+
+    try {
+      return await render(box);
+    } finally {
+      this.scene.remove(subject);
+    }
+  }
+
+  /**
+   * Renders `model` from each direction (pointing from the model towards the
+   * camera) and hands every frame's canvas to `onFrame` before rendering the
+   * next. With `fixedDistance` the camera stays at one distance that fits
+   * every direction, so a sequence doesn't pump in and out of frame.
+   */
+  async renderFrames(
+    model: THREE.Object3D,
+    directions: THREE.Vector3[],
+    onFrame: (canvas: HTMLCanvasElement, index: number) => void | Promise<void>,
+    overrides: Partial<RenderOptions> = {},
+    fixedDistance = false
+  ): Promise<void> {
+    const options = { ...DEFAULT_RENDER_OPTIONS, ...overrides };
+
+    await this.withSubject(model, options, async box => {
+      const distance = fixedDistance
+        ? Math.max(...directions.map(direction => this.fitDistance(box, direction, options)))
+        : null;
+      for (const [index, direction] of directions.entries()) {
+        this.aimCamera(box, direction, distance ?? this.fitDistance(box, direction, options), options);
+        this.renderer.render(this.scene, this.camera);
+        await onFrame(this.renderer.domElement, index);
+      }
+    });
+  }
+
+  /**
+   * Renders `model` from each view preset
+   */
+  async renderViews(
+    model: THREE.Object3D,
+    views: ViewName[] = VIEW_NAMES,
+    overrides: Partial<RenderOptions> = {}
+  ): Promise<RenderedImage[]> {
+    const options = { ...DEFAULT_RENDER_OPTIONS, ...overrides };
+    const directions = views.map(view => new THREE.Vector3(...VIEW_PRESETS[view].direction).normalize());
+    const images: RenderedImage[] = [];
+
+    await this.renderFrames(model, directions, async (_canvas, index) => {
+      const view = views[index];
+      const blob = await this.toBlob(options);
+      if (blob.type !== options.format) {
+        console.warn(`${options.format} is not supported by this browser, rendered ${blob.type} instead`);
+      }
+      images.push({ view, blob, width: options.width, height: options.height });
+      console.log(`Rendered ${view} view: ${options.width}x${options.height}, ${blob.size} bytes`);
+    }, options);
+
+    return images;
+  }
+
+  /**
+   * One full orbit around the model, starting from the main view
+   */
+  async renderTurntable(
+    model: THREE.Object3D,
+    frameCount: number,
+    onFrame: (canvas: HTMLCanvasElement, index: number) => void | Promise<void>,
+    overrides: Partial<RenderOptions> = {}
+  ): Promise<void> {
+    const start = new THREE.Vector3(...VIEW_PRESETS.main.direction).normalize();
+    const up = new THREE.Vector3(0, 1, 0);
+    const directions = Array.from({ length: frameCount }, (_, i) =>
+      start.clone().applyAxisAngle(up, (i / frameCount) * Math.PI * 2)
+    );
+    await this.renderFrames(model, directions, onFrame, overrides, true);
+  }
+
+  dispose() {
+    this.environment.dispose();
+    this.studioBackdrop?.dispose();
+    this.renderer.dispose();
+    this.renderer.forceContextLoss();
+  }
+}
+
+/**
+ * Resolves once every texture map on the model has its image, so a render
+ * doesn't catch a pattern mid-load. Gives up (with a warning) after `timeoutMs`.
+ */
+export async function waitForTextures(model: THREE.Object3D, timeoutMs = 15000): Promise<void> {
+  const pending = () => {
+    const maps = new Set<THREE.Texture>();
+    model.traverse(child => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const materials = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach(material => {
+        if (material instanceof THREE.MeshStandardMaterial && material.map) maps.add(material.map);
+      });
+    });
+    return [...maps].filter(texture => !texture.image || (texture.image instanceof HTMLImageElement && !texture.image.complete));
+  };
+
+  const start = performance.now();
+  while (pending().length > 0) {
+    if (performance.now() - start > timeoutMs) {
+      console.warn(`Rendering with ${pending().length} texture(s) still loading`);
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, 100));
+  }
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,170 @@
+// src/utils/orderPayload.ts
+import type { CommerceEntry, ProductManifest } from './manifestValidator';
+import type { ConfigSelection } from './selection';
+import { resolveConfiguration, getPartFinishLabel, ResolvedConfiguration } from './resolveConfiguration';
+import { calculatePrice, PriceBreakdown } from './pricing';
+import type { OrderRequest, CaptchaFields } from '../services/orderService';
+import type { BotProtectionToken } from '../services/botProtectionService';
+
+/**
+ * Per-part finish fields shared by the full order and quick add payloads
+ */
+const getPartFinishFields = (resolved: ResolvedConfiguration) => ({
+  receiver_finish: getPartFinishLabel(resolved, 'receiver'),
+  barrel_finish: getPartFinishLabel(resolved, 'barrel'),
+  stock_finish: getPartFinishLabel(resolved, 'buttstock'),
+  cheek_piece_finish: getPartFinishLabel(resolved, 'buttstock'),
+  bolt_finish: getPartFinishLabel(resolved, 'boltHandle'),
+  magazine_finish: getPartFinishLabel(resolved, 'magazine'),
+  bipod_finish: getPartFinishLabel(resolved, 'bipod'),
+  handguard_finish: getPartFinishLabel(resolved, 'handGuard'),
+  muzzle_brake_finish: getPartFinishLabel(resolved, 'muzzleBrake'),
+});
+
+/**
+ * Price fields for the order payloads, empty when the product has no pricing
+ */
+const getPriceFields = (price: PriceBreakdown | null) => price ? {
+  price_total: price.total,
+  price_currency: price.currency,
+  price_breakdown: [
+    { id: 'base', label: 'Base rifle', amount: price.basePrice },
+    ...price.items,
+  ],
+} : {};
+
+/**
+ * Store catalog names for the selected options, from the manifest's
+ * commerceMapping. Products without one send the configurator labels.
+ */
+function getCommerceFields(manifest: ProductManifest, selection: ConfigSelection, resolved: ResolvedConfiguration) {
+  const mapping = manifest.commerceMapping;
+  const lookup = (entries: Record<string, CommerceEntry> | undefined, id: string | null, fallback: string | null): CommerceEntry | null => {
+    if (!id) return null;
+    if (!mapping) return fallback ? { label: fallback } : null;
+    const entry = entries?.[id];
+    if (!entry) {
+      // The manifest validator requires an entry for every option, so this is a bug
+      throw new Error(`No commerce mapping for "${id}" in ${manifest.sku}`);
+    }
+    return entry;
+  };
+
+  // Mixed part finishes, or a main finish that isn't a color or pattern
+  // (e.g. locked hardware), go to the catalog's custom finish
+  const finishEntry = resolved.mainFinishId ? mapping?.finishes[resolved.mainFinishId] : undefined;
+  const finish: CommerceEntry = !mapping
+    ? { label: resolved.mainFinishLabel }
+    : resolved.hasCustomPartColors || !finishEntry ? mapping.customFinish : finishEntry;
+
+  return {
+    finish,
+    caliber: lookup(mapping?.calibers, selection.selectedCaliber, resolved.caliberLabel),
+    muzzleDevice: lookup(mapping?.suppressors, selection.selectedSuppressor, resolved.suppressorLabel),
+    trigger: lookup(mapping?.triggers, selection.selectedTrigger, resolved.triggerLabel),
+  };
+}
+
+export interface OrderCustomer {
+  name: string;
+  email: string;
+  phone: string;
+  emailOptIn: boolean;
+}
+
+export interface OrderRequestInput {
+  manifest: ProductManifest;
+  selection: ConfigSelection;
+  configId: string;
+  customer: OrderCustomer;
+  screenshot: string;   // PNG data URL, '' for quick add
+  sendToSales: boolean; // full order emails the sales team, quick add does not
+  captcha: BotProtectionToken;
+}
+
+/**
+ * A fresh key for every submission. Its retries and its outbox entry reuse
+ * it, so the backend drops those duplicates; a later order of the same build
+ * by the same customer is a new order and gets a new key.
+ */
+function createIdempotencyKey(configId: string): string {
+  return `${configId}-${crypto.randomUUID()}`;
+}
+
+/**
+ * Bot check result in the save request's field names
+ */
+export function getCaptchaFields(captcha: BotProtectionToken): CaptchaFields {
+  return {
+    recaptcha_token: captcha.token,
+    captcha_provider: captcha.provider,
+    captcha_mode: captcha.mode,
+  };
+}
+
+/**
+ * The save request for both the full order and quick add flows
+ */
+export function buildOrderRequest(input: OrderRequestInput): OrderRequest {
+  const { manifest, selection, configId, customer, screenshot, sendToSales, captcha } = input;
+  const resolved = resolveConfiguration(manifest, selection);
+  const { hasCustomPartColors } = resolved;
+  const commerce = getCommerceFields(manifest, selection, resolved);
+
+  console.log('Final finish mapping:', {
+    mainFinish: resolved.mainFinishLabel,
+    mappedFinish: commerce.finish.label,
+    finishMode: selection.finishMode,
+    hasCustomPartColors
+  });
+
+  // Catalog SKUs, for the mapped fields that have one
+  const catalogSkus = Object.fromEntries(
+    Object.entries(commerce)
+      .filter(([, entry]) => entry?.sku)
+      .map(([field, entry]) => [field, entry!.sku!])
+  );
+
+  return {
+    // Main mapped finish for website
+    finish: commerce.finish.label,
+
+    // Individual part finishes (for your records)
+    ...getPartFinishFields(resolved),
+
+    // Pattern/coating name (original from configurator)
+    pattern_name: resolved.patternLabel || 'Custom Individual Colors',
+
+    // Hardware selections, in store catalog names
+    caliber: commerce.caliber?.label || 'Not specified',
+    muzzle_device: commerce.muzzleDevice?.label || 'Standard Muzzle Brake',
+    trigger: commerce.trigger?.label || 'Standard Trigger',
+    ...(Object.keys(catalogSkus).length > 0 ? { catalog_skus: catalogSkus } : {}),
+
+    // Pricing
+    ...getPriceFields(calculatePrice(manifest, selection)),
+
+    // Customer info
+    customer_name: customer.name,
+    customer_email: customer.email,
+    customer_phone: customer.phone,
+    email_opt_in: customer.emailOptIn,
+
+    // Screenshot
+    screenshot,
+
+    // Metadata
+    config_id: configId,
+    configuration_date: new Date().toISOString(),
+    finish_mode: selection.finishMode,
+    has_custom_parts: hasCustomPartColors,
+
+    // Flag to send email to sales team
+    send_to_sales: sendToSales,
+
+    // Bot protection token
+    ...getCaptchaFields(captcha),
+
+    idempotency_key: createIdempotencyKey(configId),
+  };
+}
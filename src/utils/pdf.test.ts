@@ -0,0 +1,87 @@
+// src/utils/pdf.test.ts
+import { describe, expect, it } from 'vitest';
+import { PdfDocument, measureText, wrapText } from './pdf';
+
+async function readPdf(pdf: PdfDocument): Promise<string> {
+  const bytes = new Uint8Array(await pdf.toBlob().arrayBuffer());
+  return String.fromCharCode(...bytes); // latin1, so string offsets are byte offsets
+}
+
+// Smallest JPEG readJpegInfo accepts: SOI then a baseline frame header
+const jpeg = (width: number, height: number) =>
+  new Uint8Array([0xff, 0xd8, 0xff, 0xc0, 0x00, 0x11, 0x08, height >> 8, height & 255, width >> 8, width & 255, 0x03, 0, 0]);
+
+describe('text metrics', () => {
+  it('uses the Helvetica AFM widths', () => {
+    expect(measureText('Hello', 'regular', 10)).toBeCloseTo(22.78);
+    expect(measureText('Hello', 'bold', 10)).toBeCloseTo(24.45);
+    expect(measureText('€…', 'regular', 1)).toBeCloseTo(1.556);
+  });
+
+  it('wraps on words and keeps long words whole', () => {
+    expect(wrapText('Flat Dark Earth with a Multicam stock', 'regular', 10, 70)).toEqual(['Flat Dark Earth', 'with a Multicam', 'stock']);
+    expect(wrapText('Supercalifragilistic', 'regular', 10, 20)).toEqual(['Supercalifragilistic']);
+  });
+});
+
+describe('PdfDocument', () => {
+  it('writes an xref table whose offsets point at their objects', async () => {
+    const pdf = new PdfDocument();
+    pdf.text('Build sheet', 40, 60, { font: 'bold', size: 18 });
+    pdf.addJpeg(jpeg(32, 16));
+    pdf.addPage();
+    pdf.rect(40, 80, 100, 20, { fill: '#BA2025' });
+    const file = await readPdf(pdf);
+
+    expect(file.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(file.endsWith('%%EOF\n')).toBe(true);
+
+    const startxref = Number(file.match(/startxref\n(\d+)\n%%EOF\n$/)![1]);
+    expect(file.slice(startxref, startxref + 5)).toBe('xref\n');
+    const [, first, count] = file.slice(startxref).match(/^xref\n(\d+) (\d+)\n/)!;
+    expect(Number(first)).toBe(0);
+    // catalog, pages, 2 fonts, 1 image, content + page for each of 2 pages
+    expect(Number(count)).toBe(10);
+    expect(file).toContain(`trailer\n<< /Size ${count} /Root 1 0 R >>`);
+
+    const entries = file.slice(startxref).split('\n').slice(2, 2 + Number(count));
+    expect(entries[0]).toBe('0000000000 65535 f ');
+    entries.slice(1).forEach((entry, i) => {
+      expect(entry).toMatch(/^\d{10} 00000 n $/);
+      const offset = Number(entry.slice(0, 10));
+      expect(file.slice(offset).startsWith(`${i + 1} 0 obj\n`)).toBe(true);
+    });
+  });
+
+  it('gives every stream its exact length', async () => {
+    const pdf = new PdfDocument();
+    pdf.text('Café (tuned) 5\\8 — ok', 10, 10);
+    pdf.image(pdf.addJpeg(jpeg(4, 3)), 0, 0, 40, 30);
+    const file = await readPdf(pdf);
+
+    const streams = [...file.matchAll(/\/Length (\d+)[^\n]*\nstream\n/g)];
+    expect(streams).toHaveLength(2);
+    for (const stream of streams) {
+      const start = stream.index! + stream[0].length;
+      expect(file.slice(start + Number(stream[1]), start + Number(stream[1]) + 10)).toBe('\nendstream');
+    }
+  });
+
+  it('flips y, escapes strings and encodes WinAnsi', async () => {
+    const pdf = new PdfDocument({ width: 200, height: 100 });
+    pdf.text('Café (tuned) 5\\8 — ✓', 10, 20, { color: '#ff0000', align: 'left' });
+    pdf.line(0, 0, 200, 100);
+    const file = await readPdf(pdf);
+
+    expect(file).toContain('/MediaBox [0 0 200 100]');
+    expect(file).toContain('BT /F1 10 Tf 1 0 0 rg 10 80 Td (Caf\\351 \\(tuned\\) 5\\\\8 \\227 ?) Tj ET');
+    expect(file).toContain('0 0 0 RG 0.5 w 0 100 m 200 0 l S');
+  });
+
+  it('reads image sizes and color spaces from the JPEG', async () => {
+    const pdf = new PdfDocument();
+    expect(pdf.addJpeg(jpeg(640, 480))).toEqual({ id: 1, width: 640, height: 480 });
+    expect(await readPdf(pdf)).toContain('/Width 640 /Height 480 /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode');
+    expect(() => pdf.addJpeg(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toThrow(/Not a JPEG/);
+  });
+});
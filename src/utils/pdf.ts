@@ -0,0 +1,265 @@
+// src/utils/pdf.ts
+
+/**
+ * Minimal PDF writer for client-side documents: the standard Helvetica
+ * fonts (no embedding), filled/stroked rectangles, lines and JPEG images.
+ * Coordinates are in points from the top-left corner of the page.
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfShapeOptions {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+export interface PdfImage {
+  id: number;
+  width: number;
+  height: number;
+}
+
+export const PAGE_LETTER = { width: 612, height: 792 };
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+
+// Glyph widths (1/1000 em) for character codes 32-126, from the standard AFM metrics
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+// WinAnsi codes for the punctuation that sits outside Latin-1, with widths (same in both weights)
+const WIN_ANSI_EXTRAS: Record<string, [number, number]> = {
+  '€': [0x80, 556], '…': [0x85, 1000], '‘': [0x91, 222], '’': [0x92, 222], '“': [0x93, 333],
+  '”': [0x94, 333], '•': [0x95, 350], '–': [0x96, 556], '—': [0x97, 1000], '™': [0x99, 1000],
+};
+
+// Code in WinAnsiEncoding and its width; anything the standard fonts can't show becomes '?'
+function encodeChar(char: string, font: PdfFont): [number, number] {
+  const code = char.codePointAt(0) ?? 63;
+  if (code >= 32 && code <= 126) return [code, WIDTHS[font][code - 32]];
+  if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+  if (code >= 160 && code <= 255) return [code, code === 176 ? 400 : code === 183 ? 278 : 556];
+  return [63, WIDTHS[font][63 - 32]];
+}
+
+export function measureText(text: string, font: PdfFont, size: number): number {
+  let width = 0;
+  for (const char of text) width += encodeChar(char, font)[1];
+  return (width * size) / 1000;
+}
+
+/**
+ * Greedy word wrap to a width in points; words longer than a line are left whole
+ */
+export function wrapText(text: string, font: PdfFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && measureText(candidate, font, size) > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function pdfString(text: string, font: PdfFont): string {
+  let out = '(';
+  for (const char of text) {
+    const [code] = encodeChar(char, font);
+    if (code === 40 || code === 41 || code === 92) out += `\\${String.fromCharCode(code)}`;
+    else if (code > 126) out += `\\${code.toString(8).padStart(3, '0')}`;
+    else out += String.fromCharCode(code);
+  }
+  return `${out})`;
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(3)).toString();
+}
+
+function rgb(hex: string): string {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value.slice(0, 6);
+  const n = parseInt(full, 16);
+  if (Number.isNaN(n)) return '0 0 0';
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255].map(c => num(c / 255)).join(' ');
+}
+
+/**
+ * Size and channel count from a JPEG's start-of-frame marker
+ */
+function readJpegInfo(bytes: Uint8Array): { width: number; height: number; components: number } {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) throw new Error('Not a JPEG image');
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error('Malformed JPEG image');
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const isFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isFrame) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+        components: bytes[offset + 9],
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new Error('JPEG image has no frame header');
+}
+
+function latin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+  private images: Array<{ bytes: Uint8Array; width: number; height: number; components: number }> = [];
+
+  constructor(size: { width: number; height: number } = PAGE_LETTER) {
+    this.width = size.width;
+    this.height = size.height;
+    this.addPage();
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}) {
+    const { font = 'regular', size = 10, color = '#000000', align = 'left' } = options;
+    const width = measureText(text, font, size);
+    const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+    this.ops.push(
+      `BT /F${font === 'bold' ? 2 : 1} ${num(size)} Tf ${rgb(color)} rg ${num(left)} ${num(this.height - y)} Td ${pdfString(text, font)} Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions = {}) {
+    const { fill, stroke, lineWidth = 0.5 } = options;
+    if (!fill && !stroke) return;
+    const path = `${num(x)} ${num(this.height - y - height)} ${num(width)} ${num(height)} re`;
+    const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    this.ops.push(
+      `${fill ? `${rgb(fill)} rg ` : ''}${stroke ? `${rgb(stroke)} RG ${num(lineWidth)} w ` : ''}${path} ${paint}`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color = '#000000', lineWidth = 0.5) {
+    this.ops.push(
+      `${rgb(color)} RG ${num(lineWidth)} w ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S`
+    );
+  }
+
+  /**
+   * Adds a JPEG once so it can be drawn any number of times
+   */
+  addJpeg(bytes: Uint8Array): PdfImage {
+    const info = readJpegInfo(bytes);
+    this.images.push({ bytes, ...info });
+    return { id: this.images.length, width: info.width, height: info.height };
+  }
+
+  image(image: PdfImage, x: number, y: number, width: number, height: number) {
+    this.ops.push(`q ${num(width)} 0 0 ${num(height)} ${num(x)} ${num(this.height - y - height)} cm /Im${image.id} Do Q`);
+  }
+
+  toBlob(): Blob {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? latin1(data) : data;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    const object = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n${body}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+
+    // 1 catalog, 2 page tree, 3-4 fonts, then images, then a content stream and page per page
+    const firstImage = 5;
+    const firstPage = firstImage + this.images.length;
+    const pageIds = this.pages.map((_, i) => firstPage + i * 2 + 1);
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    object(3, `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.regular} /Encoding /WinAnsiEncoding >>`);
+    object(4, `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.bold} /Encoding /WinAnsiEncoding >>`);
+
+    this.images.forEach((image, i) => {
+      const colorSpace = image.components === 1 ? '/DeviceGray' : image.components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+      object(
+        firstImage + i,
+        `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>`,
+        image.bytes
+      );
+    });
+
+    const xObjects = this.images.map((_, i) => `/Im${i + 1} ${firstImage + i} 0 R`).join(' ');
+    this.pages.forEach((ops, i) => {
+      const content = latin1(ops.join('\n'));
+      object(firstPage + i * 2, `<< /Length ${content.length} >>`, content);
+      object(
+        pageIds[i],
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(this.width)} ${num(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> /XObject << ${xObjects} >> >> ` +
+        `/Contents ${firstPage + i * 2} 0 R >>`
+      );
+    });
+
+    const xrefOffset = length;
+    const count = offsets.length;
+    let xref = `xref\n0 ${count}\n0000000000 65535 f \n`;
+    for (let id = 1; id < count; id++) xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    write(xref);
+    write(`trailer\n<< /Size ${count} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+  }
+}
@@ -0,0 +1,138 @@
+// src/utils/pricing.test.ts
+import { describe, expect, it } from 'vitest';
+import { validateManifest } from './manifestValidator';
+import type { ConfigSelection } from './selection';
+import { calculatePrice, formatPrice, formatPriceDelta } from './pricing';
+
+const black = { type: 'color', color: '#1C1C1C' } as const;
+
+const product = {
+  productName: 'Test Rifle',
+  sku: 'TEST-1',
+  defaultCamera: { position: { x: 0, y: 0, z: 5 }, target: { x: 0, y: 0, z: 0 }, fov: 50 },
+  hotspots: [],
+  ui: [],
+  parts: [
+    { id: 'receiver', label: 'Receiver', meshSelectors: ['Receiver'] },
+    { id: 'barrel', label: 'Barrel', meshSelectors: ['Barrel'] },
+    { id: 'stock', label: 'Stock', meshSelectors: ['Stock'] },
+    { id: 'trigger', label: 'Trigger', meshSelectors: ['Trigger'] },
+    { id: 'bipod', label: 'Bipod', meshSelectors: ['Bipod'], options: [
+      { id: 'standard', label: 'Standard', material: black },
+      { id: 'heavy', label: 'Heavy Duty', material: black, price: 300 },
+    ] },
+  ],
+  configurableParts: ['receiver', 'barrel', 'stock', 'trigger'],
+  finishModes: {
+    colors: { label: 'Colors', description: 'Per part', allowIndividualSelection: true, options: [
+      { id: 'black', label: 'Black', material: black },
+      { id: 'fde', label: 'Flat Dark Earth', material: black },
+      { id: 'bronze', label: 'Bronze', material: black, price: 100 },
+    ] },
+    patterns: { label: 'Patterns', description: 'Whole rifle', allowIndividualSelection: false, options: [
+      { id: 'multicam', label: 'Multicam', material: black, price: 500 },
+    ] },
+  },
+  calibers: [{ id: '408', label: '.408 CheyTac' }],
+  suppressors: [{ id: 'brake', label: 'Muzzle Brake', modelFile: 'brake.glb' }, { id: 'm3', label: 'M3', modelFile: 'm3.glb', price: 2000 }],
+  triggers: [{ id: 'timney', label: 'Timney' }],
+  lockedMaterials: [{ id: 'trigger-group', label: 'Trigger Group', reason: 'Always black', material: black, selectors: [], partIds: ['trigger'] }],
+};
+
+const manifest = validateManifest({
+  ...product,
+  pricing: { currency: 'USD', basePrice: 10000, customPartSurcharge: 50, partSurcharges: { barrel: 80 } },
+});
+
+function selection(overrides: Partial<ConfigSelection> = {}): ConfigSelection {
+  return {
+    finishMode: 'colors',
+    selectedPattern: null,
+    selectedColors: { receiver: 'black', barrel: 'black', stock: 'black' },
+    partColorOverrides: {},
+    selectedCaliber: '408',
+    selectedSuppressor: 'brake',
+    selectedTrigger: 'timney',
+    selectedOptions: {},
+    ...overrides,
+  };
+}
+
+describe('calculatePrice', () => {
+  it('returns null for manifests without pricing', () => {
+    expect(calculatePrice(validateManifest(product), selection())).toBeNull();
+  });
+
+  it('lists included hardware at 0', () => {
+    expect(calculatePrice(manifest, selection())).toEqual({
+      currency: 'USD',
+      basePrice: 10000,
+      items: [
+        { id: 'caliber', label: 'Caliber: .408 CheyTac', amount: 0 },
+        { id: 'suppressor', label: 'Muzzle device: Muzzle Brake', amount: 0 },
+        { id: 'trigger', label: 'Trigger: Timney', amount: 0 },
+      ],
+      total: 10000,
+    });
+  });
+
+  it('adds hardware and legacy option prices', () => {
+    const price = calculatePrice(manifest, selection({ selectedSuppressor: 'm3', selectedOptions: { bipod: 'heavy' } }))!;
+
+    expect(price.items).toContainEqual({ id: 'suppressor', label: 'Muzzle device: M3', amount: 2000 });
+    expect(price.items).toContainEqual({ id: 'option:bipod', label: 'Bipod: Heavy Duty', amount: 300 });
+    expect(price.total).toBe(12300);
+  });
+
+  it('charges custom Cerakote for parts that differ from the main color', () => {
+    const price = calculatePrice(manifest, selection({
+      selectedColors: { receiver: 'black', barrel: 'fde', stock: 'fde', trigger: 'bronze' },
+    }))!;
+    const ids = price.items.map(item => item.id);
+
+    // Black is only on the receiver here; FDE is the main color. The locked trigger is never custom.
+    expect(ids).toContain('custom:receiver');
+    expect(ids).not.toContain('custom:barrel');
+    expect(ids).not.toContain('custom:trigger');
+    expect(ids).not.toContain('color:bronze');
+    expect(price.total).toBe(10050);
+  });
+
+  it('uses per-part surcharges ahead of the general one', () => {
+    const price = calculatePrice(manifest, selection({ selectedColors: { receiver: 'black', barrel: 'fde', stock: 'black' } }))!;
+
+    expect(price.items).toContainEqual({ id: 'custom:barrel', label: 'Custom Cerakote: Barrel (Flat Dark Earth)', amount: 80 });
+    expect(price.total).toBe(10080);
+  });
+
+  it('charges a premium color once, however many parts use it', () => {
+    const price = calculatePrice(manifest, selection({ selectedColors: { receiver: 'bronze', barrel: 'bronze', stock: 'bronze' } }))!;
+
+    expect(price.items.filter(item => item.id === 'color:bronze')).toEqual([{ id: 'color:bronze', label: 'Bronze finish', amount: 100 }]);
+    expect(price.total).toBe(10100);
+  });
+
+  it('charges the pattern and its overrides in patterns mode', () => {
+    const price = calculatePrice(manifest, selection({
+      finishMode: 'patterns',
+      selectedPattern: 'multicam',
+      partColorOverrides: { stock: 'fde' },
+    }))!;
+
+    expect(price.items).toContainEqual({ id: 'pattern', label: 'Multicam pattern', amount: 500 });
+    expect(price.items).toContainEqual({ id: 'custom:stock', label: 'Custom Cerakote: Stock (Flat Dark Earth)', amount: 50 });
+    expect(price.total).toBe(10550);
+  });
+});
+
+describe('formatting', () => {
+  it('formats whole amounts in the currency', () => {
+    expect(formatPrice(14995, 'USD')).toBe('$14,995');
+  });
+
+  it('signs deltas and calls 0 included', () => {
+    expect(formatPriceDelta(1200, 'USD')).toBe('+$1,200');
+    expect(formatPriceDelta(-300, 'USD')).toBe('−$300');
+    expect(formatPriceDelta(0, 'USD')).toBe('Included');
+  });
+});
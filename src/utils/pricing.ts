@@ -0,0 +1,118 @@
+// src/utils/pricing.ts
+import type { ProductManifest } from './manifestValidator';
+import type { ConfigSelection } from './selection';
+import { resolveConfiguration, ResolvedPart } from './resolveConfiguration';
+
+export interface PriceLineItem {
+  id: string;     // e.g. 'caliber', 'pattern', 'custom:barrel'
+  label: string;
+  amount: number; // 0 for selections that are included in the base price
+}
+
+export interface PriceBreakdown {
+  currency: string;
+  basePrice: number;
+  items: PriceLineItem[];
+  total: number;
+}
+
+/**
+ * Parts that carry a custom Cerakote surcharge: overrides on top of a
+ * pattern, or in colors mode every part whose color differs from the color
+ * most of the rifle is in
+ */
+function getCustomParts(resolvedParts: ResolvedPart[], selection: ConfigSelection): ResolvedPart[] {
+  const parts = resolvedParts.filter(part => part.source !== 'locked' && part.finishId !== null);
+
+  if (selection.finishMode === 'patterns' && selection.selectedPattern) {
+    return parts.filter(part => part.source === 'override');
+  }
+
+  const counts = new Map<string, number>();
+  parts.forEach(part => counts.set(part.finishId!, (counts.get(part.finishId!) || 0) + 1));
+  const mainFinish = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+
+  return parts.filter(part => part.finishId !== mainFinish);
+}
+
+/**
+ * Itemized price of a configuration, or null when the manifest has no pricing.
+ * Hardware selections are always listed (at 0 when included); finish
+ * surcharges only when they apply.
+ */
+export function calculatePrice(manifest: ProductManifest, selection: ConfigSelection): PriceBreakdown | null {
+  const { pricing } = manifest;
+  if (!pricing) return null;
+
+  const items: PriceLineItem[] = [];
+  const resolvedParts = Object.values(resolveConfiguration(manifest, selection).parts);
+
+  const caliber = manifest.calibers?.find(c => c.id === selection.selectedCaliber);
+  if (caliber) {
+    items.push({ id: 'caliber', label: `Caliber: ${caliber.label}`, amount: caliber.price || 0 });
+  }
+
+  const suppressor = manifest.suppressors?.find(s => s.id === selection.selectedSuppressor);
+  if (suppressor) {
+    items.push({ id: 'suppressor', label: `Muzzle device: ${suppressor.label}`, amount: suppressor.price || 0 });
+  }
+
+  const trigger = manifest.triggers?.find(t => t.id === selection.selectedTrigger);
+  if (trigger) {
+    items.push({ id: 'trigger', label: `Trigger: ${trigger.label}`, amount: trigger.price || 0 });
+  }
+
+  // Pattern upcharge
+  const pattern = selection.finishMode === 'patterns'
+    ? manifest.finishModes?.patterns.options.find(o => o.id === selection.selectedPattern)
+    : undefined;
+  if (pattern?.price) {
+    items.push({ id: 'pattern', label: `${pattern.label} pattern`, amount: pattern.price });
+  }
+
+  // Premium colors are charged once, however many parts use them
+  const usedColors = new Set(
+    resolvedParts.filter(part => part.source === 'color' || part.source === 'override').map(part => part.finishId)
+  );
+  manifest.finishModes?.colors.options.forEach(color => {
+    if (color.price && usedColors.has(color.id)) {
+      items.push({ id: `color:${color.id}`, label: `${color.label} finish`, amount: color.price });
+    }
+  });
+
+  // Custom Cerakote per part
+  getCustomParts(resolvedParts, selection).forEach(part => {
+    const amount = pricing.partSurcharges?.[part.partId] ?? pricing.customPartSurcharge ?? 0;
+    if (amount) {
+      items.push({ id: `custom:${part.partId}`, label: `Custom Cerakote: ${part.label} (${part.finishLabel})`, amount });
+    }
+  });
+
+  // Legacy part options
+  Object.entries(selection.selectedOptions).forEach(([partId, optionId]) => {
+    const part = manifest.parts.find(p => p.id === partId);
+    const option = part?.options?.find(o => o.id === optionId);
+    if (option?.price) {
+      items.push({ id: `option:${partId}`, label: `${part!.label}: ${option.label}`, amount: option.price });
+    }
+  });
+
+  return {
+    currency: pricing.currency,
+    basePrice: pricing.basePrice,
+    items,
+    total: items.reduce((sum, item) => sum + item.amount, pricing.basePrice),
+  };
+}
+
+export function formatPrice(amount: number, currency: string): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+}
+
+/**
+ * '+$1,200' for upcharges, '−$300' for discounts, 'Included' for 0
+ */
+export function formatPriceDelta(amount: number, currency: string): string {
+  if (amount === 0) return 'Included';
+  return `${amount > 0 ? '+' : '−'}${formatPrice(Math.abs(amount), currency)}`;
+}
@@ -0,0 +1,260 @@
+// src/utils/provenance.ts
+import * as THREE from 'three';
+import { z } from 'zod';
+import type { ProductManifest } from './manifestValidator';
+import { ConfigSelection, restoreSelection } from './selection';
+import { normalizeSelection, generateConfigId } from './id';
+import { applyConstraints } from './constraintEngine';
+import { exportModel } from './modelExport';
+import { computeCid } from './cid';
+import { web3Service, Web3Service } from '../services/web3Service';
+import { ipfsService, IpfsService } from '../services/ipfsService';
+
+/**
+ * Provenance of minted configurations: from a token id or configuration id
+ * to the token's metadata, and checks of what it records against the
+ * current manifest and a fresh export of the model.
+ */
+
+// ============================================
+// ROUTING (/verify/:id)
+// ============================================
+
+export function getVerifyRoute(id: string): string {
+  return `/verify/${encodeURIComponent(id)}`;
+}
+
+/**
+ * Reads the token or configuration id from a `/verify/:id` path, or null for any other path
+ */
+export function getVerifyIdFromPath(pathname: string): string | null {
+  const match = pathname.match(/^\/verify\/([^/]+)\/?$/);
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+// ============================================
+// TOKEN LOOKUP
+// ============================================
+
+export type ProvenanceLookup =
+  | { kind: 'token'; tokenId: string }
+  | { kind: 'configuration'; configurationId: string };
+
+// Same shape generateConfigId produces, e.g. "K4P03918274650"
+const CONFIGURATION_ID_PATTERN = /^[A-Z]\d[A-Z]\d{11}$/;
+
+export function parseProvenanceId(id: string): ProvenanceLookup {
+  const trimmed = id.trim();
+  if (/^\d+$/.test(trimmed)) return { kind: 'token', tokenId: BigInt(trimmed).toString() };
+  if (CONFIGURATION_ID_PATTERN.test(trimmed.toUpperCase())) return { kind: 'configuration', configurationId: trimmed.toUpperCase() };
+  throw new Error(`"${id}" is neither a token id nor a configuration id`);
+}
+
+// Unset slots may be null or left out
+const SelectionSchema = z.object({
+  finishMode: z.enum(['colors', 'patterns']),
+  selectedPattern: z.string().nullish(),
+  selectedColors: z.record(z.string(), z.string()),
+  partColorOverrides: z.record(z.string(), z.string()),
+  selectedCaliber: z.string().nullish(),
+  selectedSuppressor: z.string().nullish(),
+  selectedTrigger: z.string().nullish(),
+  selectedOptions: z.record(z.string(), z.string()),
+}).transform((selection): ConfigSelection => ({
+  ...selection,
+  selectedPattern: selection.selectedPattern ?? null,
+  selectedCaliber: selection.selectedCaliber ?? null,
+  selectedSuppressor: selection.selectedSuppressor ?? null,
+  selectedTrigger: selection.selectedTrigger ?? null,
+}));
+
+// The parts of the token metadata (see NFTMetadata) that provenance relies on
+const TokenMetadataSchema = z.object({
+  name: z.string(),
+  image: z.string().optional(),
+  animation_url: z.string().optional(),
+  properties: z.object({
+    configuration_id: z.string(),
+    created_at: z.string().optional(),
+    creator: z.string().optional(),
+    configuration_data: z.object({
+      sku: z.string(),
+      selection: SelectionSchema,
+    }),
+  }),
+});
+
+export type TokenMetadata = z.infer<typeof TokenMetadataSchema>;
+
+export interface TokenProvenance {
+  lookup: ProvenanceLookup;
+  tokenId: string;
+  owner: string | null;
+  tokenURI: string;
+  metadata: TokenMetadata;
+  modelCid: string | null; // CID of the minted GLB, from animation_url
+}
+
+/**
+ * CID of an ipfs:// URI or a gateway URL (…/ipfs/<cid>), or null
+ */
+export function getCidFromUri(uri: string | undefined): string | null {
+  const match = uri?.match(/^ipfs:\/\/([^/?#]+)$/) ?? uri?.match(/\/ipfs\/([^/?#]+)\/?$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Finds the token and reads its metadata through the IPFS gateway
+ */
+export async function fetchTokenProvenance(
+  id: string,
+  web3: Web3Service = web3Service,
+  ipfs: IpfsService = ipfsService
+): Promise<TokenProvenance> {
+  const lookup = parseProvenanceId(id);
+
+  let tokenId: string;
+  if (lookup.kind === 'token') {
+    tokenId = lookup.tokenId;
+  } else {
+    const minted = await web3.getConfigurationToken(lookup.configurationId);
+    if (!minted) throw new Error(`Configuration ${lookup.configurationId} has not been minted on ${web3.getChain().name}`);
+    tokenId = minted;
+  }
+
+  console.log('Verifying token', tokenId);
+  const [tokenURI, owner] = await Promise.all([
+    web3.getTokenURI(tokenId),
+    web3.getTokenOwner(tokenId).catch(() => null),
+  ]);
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await (await ipfs.get(tokenURI)).text());
+  } catch (error) {
+    throw new Error(`Could not read the metadata of token ${tokenId}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const result = TokenMetadataSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('\n');
+    throw new Error(`Token ${tokenId} has no usable configuration in its metadata:\n${issues}`);
+  }
+
+  return {
+    lookup,
+    tokenId,
+    owner,
+    tokenURI,
+    metadata: result.data,
+    modelCid: getCidFromUri(result.data.animation_url),
+  };
+}
+
+// ============================================
+// CHECKS
+// ============================================
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface ProvenanceCheck {
+  label: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+export interface ConfigurationValidation {
+  selection: ConfigSelection; // the recorded build, restored against the current manifest
+  checks: ProvenanceCheck[];
+}
+
+const SLOT_LABELS: Record<keyof ReturnType<typeof normalizeSelection>, string> = {
+  finishMode: 'Finish mode',
+  selectedPattern: 'Pattern',
+  selectedColors: 'Part colors',
+  partColorOverrides: 'Pattern overrides',
+  selectedCaliber: 'Caliber',
+  selectedSuppressor: 'Muzzle device',
+  selectedTrigger: 'Trigger',
+  selectedOptions: 'Part options',
+};
+
+// Labels of the slots where two selections build something different
+function changedSlots(a: ConfigSelection, b: ConfigSelection): string[] {
+  const left = normalizeSelection(a);
+  const right = normalizeSelection(b);
+  return (Object.keys(SLOT_LABELS) as Array<keyof typeof SLOT_LABELS>)
+    .filter(slot => JSON.stringify(left[slot]) !== JSON.stringify(right[slot]))
+    .map(slot => SLOT_LABELS[slot]);
+}
+
+/**
+ * Checks the configuration recorded in the token against the current manifest
+ */
+export function validateConfiguration(manifest: ProductManifest, provenance: TokenProvenance): ConfigurationValidation {
+  const { configuration_id: configurationId, configuration_data: recorded } = provenance.metadata.properties;
+  const checks: ProvenanceCheck[] = [];
+
+  checks.push(recorded.sku === manifest.sku
+    ? { label: 'Product', status: 'pass', detail: `${manifest.productName} (${manifest.sku})` }
+    : { label: 'Product', status: 'fail', detail: `Token is for "${recorded.sku}", not ${manifest.sku}` });
+
+  const recomputedId = generateConfigId(recorded.sku, recorded.selection);
+  checks.push(recomputedId === configurationId
+    ? { label: 'Configuration ID', status: 'pass', detail: `${configurationId} matches the recorded build` }
+    : { label: 'Configuration ID', status: 'fail', detail: `Metadata says ${configurationId}, but the recorded build hashes to ${recomputedId}` });
+
+  if (provenance.lookup.kind === 'configuration' && provenance.lookup.configurationId !== configurationId) {
+    checks.push({
+      label: 'Token lookup',
+      status: 'fail',
+      detail: `The contract maps ${provenance.lookup.configurationId} to token ${provenance.tokenId}, whose metadata is for ${configurationId}`,
+    });
+  }
+
+  const selection = restoreSelection(manifest, recorded.selection);
+  const unavailable = changedSlots(recorded.selection, selection);
+  checks.push(unavailable.length === 0
+    ? { label: 'Options', status: 'pass', detail: 'Every recorded option is in the current manifest' }
+    : { label: 'Options', status: 'warn', detail: `No longer available: ${unavailable.join(', ')}. Shown with the current defaults.` });
+
+  const constrained = applyConstraints(manifest, selection);
+  const adjusted = changedSlots(selection, constrained.selection);
+  if (constrained.violations.length > 0 || adjusted.length > 0) {
+    const reasons = [
+      ...(adjusted.length > 0 ? [`current rules would change ${adjusted.join(', ')}`] : []),
+      ...constrained.violations.map(violation => violation.reason),
+    ];
+    checks.push({ label: 'Rules', status: 'warn', detail: `Not valid under the current rules: ${reasons.join('; ')}` });
+  } else {
+    checks.push({ label: 'Rules', status: 'pass', detail: 'Valid under the current configuration rules' });
+  }
+
+  return { selection, checks };
+}
+
+/**
+ * Exports the re-rendered build the way minting does and compares its CID
+ * with the minted GLB's. Only a match proves anything: the browser re-encodes
+ * textures and the exporter stamps its version into the file, so the same
+ * build can hash differently and a mismatch is a warning, not a failure.
+ */
+export async function compareModel(model: THREE.Object3D, expectedCid: string | null): Promise<ProvenanceCheck> {
+  if (!expectedCid) {
+    return { label: '3D model', status: 'warn', detail: 'Token metadata has no IPFS model to compare against' };
+  }
+
+  const { blob } = await exportModel(model, { format: 'glb' });
+  const cid = await computeCid(blob);
+  console.log('Re-exported model:', cid, 'minted model:', expectedCid);
+
+  return cid === expectedCid
+    ? { label: '3D model', status: 'pass', detail: `Re-exported GLB matches the minted model (${cid})` }
+    : {
+      label: '3D model',
+      status: 'warn',
+      detail: `Re-exported GLB hashes to ${cid}, the minted model is ${expectedCid}. `
+        + 'Texture encoding and exporter versions differ between browsers, so this alone does not mean the build differs; '
+        + 'the configuration checks above are authoritative.',
+    };
+}
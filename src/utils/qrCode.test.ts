@@ -0,0 +1,69 @@
+// src/utils/qrCode.test.ts
+import { describe, expect, it } from 'vitest';
+import { encodeQr, QrErrorCorrection } from './qrCode';
+import { fnv1a32 } from './hash';
+
+const render = (modules: boolean[][]) => modules.map(row => row.map(dark => dark ? '#' : '.').join('')).join('\n');
+const versionOf = (modules: boolean[][]) => (modules.length - 17) / 4;
+
+// Reference symbols from the `qrcode` npm package (byte mode, same level and mask)
+const HELLO_WORLD_M = [
+  '#######.##..#.#######',
+  '#.....#....#..#.....#',
+  '#.###.#..#.#..#.###.#',
+  '#.###.#.#..#..#.###.#',
+  '#.###.#.###.#.#.###.#',
+  '#.....#.#..#..#.....#',
+  '#######.#.#.#.#######',
+  '........#..##........',
+  '#...#.######.#####..#',
+  '...#....#.###....####',
+  '..######..##.##.#..#.',
+  '#####...##...#.......',
+  '#####.#.#.#.#.##..##.',
+  '........#.#.####.#.##',
+  '#######.###.#.#.##.#.',
+  '#.....#..#.###.##..##',
+  '#.###.#.##.#.##...##.',
+  '#.###.#..#..#...##.##',
+  '#.###.#..###...###...',
+  '#.....#....#.#.......',
+  '#######.#########.#.#',
+].join('\n');
+
+describe('encodeQr', () => {
+  it('matches a reference encoder module for module', () => {
+    expect(render(encodeQr('HELLO WORLD', 'M'))).toBe(HELLO_WORLD_M);
+  });
+
+  it('matches the reference for multi-block and version-info symbols', () => {
+    // Hashes of the rendered reference symbols (versions 4 and 11)
+    const link = encodeQr('https://example.com/p/M200-BASE?c=v2.M200-BASE.AbC_123', 'M');
+    expect(versionOf(link)).toBe(4);
+    expect(fnv1a32(render(link))).toBe(4040640945);
+
+    const long = encodeQr('x'.repeat(300), 'L');
+    expect(versionOf(long)).toBe(11);
+    expect(fnv1a32(render(long))).toBe(2245711361);
+  });
+
+  it('picks the smallest version that fits', () => {
+    // Byte-mode capacity of version 1 at each level
+    const capacity: Record<QrErrorCorrection, number> = { L: 17, M: 14, Q: 11, H: 7 };
+    for (const [ecl, bytes] of Object.entries(capacity) as Array<[QrErrorCorrection, number]>) {
+      expect(versionOf(encodeQr('a'.repeat(bytes), ecl))).toBe(1);
+      expect(versionOf(encodeQr('a'.repeat(bytes + 1), ecl))).toBe(2);
+    }
+    expect(versionOf(encodeQr('a'.repeat(2953), 'L'))).toBe(40);
+  });
+
+  it('counts UTF-8 bytes, not characters', () => {
+    expect(versionOf(encodeQr('é'.repeat(7), 'M'))).toBe(1);
+    expect(versionOf(encodeQr('é'.repeat(8), 'M'))).toBe(2);
+  });
+
+  it('rejects text longer than version 40 holds', () => {
+    expect(() => encodeQr('a'.repeat(2954), 'L')).toThrow(/too long for a QR code \(2954 bytes\)/);
+    expect(() => encodeQr('a'.repeat(2332), 'M')).toThrow(/too long/);
+  });
+});
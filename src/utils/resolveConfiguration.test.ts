@@ -0,0 +1,248 @@
+// src/utils/resolveConfiguration.test.ts
+import { describe, expect, it } from 'vitest';
+import { validateManifest } from './manifestValidator';
+import type { ConfigSelection } from './selection';
+import { resolveConfiguration, getConfigurationLabels, getModelFile, NOT_SPECIFIED } from './resolveConfiguration';
+
+const black = { type: 'color', color: '#1C1C1C' } as const;
+const fde = { type: 'color', color: '#957B5F' } as const;
+const multicam = { type: 'texture', textureUrl: '/textures/multicam.jpg' } as const;
+const locked = { type: 'color', color: '#000000' } as const;
+
+const manifest = validateManifest({
+  productName: 'Test Rifle',
+  sku: 'TEST-1',
+  defaultCamera: { position: { x: 0, y: 0, z: 5 }, target: { x: 0, y: 0, z: 0 }, fov: 50 },
+  hotspots: [],
+  ui: [],
+  parts: [
+    { id: 'receiver', label: 'Receiver', meshSelectors: ['Receiver', 'Receiver_Screw'] },
+    { id: 'barrel', label: 'Barrel', meshSelectors: ['Barrel'] },
+    { id: 'trigger', label: 'Trigger', meshSelectors: ['Trigger'] },
+  ],
+  configurableParts: ['receiver', 'barrel', 'trigger'],
+  finishModes: {
+    colors: {
+      label: 'Colors',
+      description: 'Per part',
+      allowIndividualSelection: true,
+      options: [
+        { id: 'black', label: 'Black', material: black },
+        { id: 'fde', label: 'Flat Dark Earth', material: fde },
+      ],
+    },
+    patterns: {
+      label: 'Patterns',
+      description: 'Whole rifle',
+      allowIndividualSelection: false,
+      options: [{ id: 'multicam', label: 'Multicam', material: multicam }],
+    },
+  },
+  calibers: [{ id: '408', label: '.408 CheyTac' }],
+  suppressors: [
+    { id: 'brake', label: 'Muzzle Brake', modelFile: 'brake.glb' },
+    { id: 'suppressor', label: 'Suppressor', modelFile: 'suppressor.glb' },
+  ],
+  triggers: [{ id: 'timney', label: 'Timney' }],
+  lockedMaterials: [
+    { id: 'screws', label: 'Screws', reason: 'Never refinished', material: locked, selectors: ['*_Screw'] },
+    { id: 'trigger-group', label: 'Trigger Group', reason: 'Always black', material: locked, selectors: [], partIds: ['trigger'] },
+  ],
+});
+
+function selection(overrides: Partial<ConfigSelection> = {}): ConfigSelection {
+  return {
+    finishMode: 'colors',
+    selectedPattern: null,
+    selectedColors: {},
+    partColorOverrides: {},
+    selectedCaliber: null,
+    selectedSuppressor: null,
+    selectedTrigger: null,
+    selectedOptions: {},
+    ...overrides,
+  };
+}
+
+describe('resolveConfiguration', () => {
+  describe('colors mode', () => {
+    it('gives every part its own color', () => {
+      const resolved = resolveConfiguration(manifest, selection({
+        selectedColors: { receiver: 'fde', barrel: 'black' },
+      }));
+
+      expect(resolved.parts.receiver).toMatchObject({ finishId: 'fde', finishLabel: 'Flat Dark Earth', source: 'color', material: fde });
+      expect(resolved.parts.barrel).toMatchObject({ finishId: 'black', source: 'color', material: black });
+      expect(resolved.meshMaterials.Receiver).toEqual(fde);
+      expect(resolved.meshMaterials.Barrel).toEqual(black);
+      expect(resolved.hasCustomPartColors).toBe(true);
+      expect(resolved.mainFinishLabel).toBe('Flat Dark Earth');
+      expect(resolved.patternLabel).toBeNull();
+    });
+
+    it('ignores the pattern and overrides', () => {
+      const resolved = resolveConfiguration(manifest, selection({
+        selectedPattern: 'multicam',
+        selectedColors: { receiver: 'black', barrel: 'black' },
+        partColorOverrides: { receiver: 'fde' },
+      }));
+
+      expect(resolved.parts.receiver.source).toBe('color');
+      expect(resolved.parts.receiver.finishId).toBe('black');
+      expect(resolved.hasCustomPartColors).toBe(false);
+      expect(resolved.patternLabel).toBeNull();
+    });
+
+    it('leaves parts without a color unspecified', () => {
+      const resolved = resolveConfiguration(manifest, selection({ selectedColors: { barrel: 'black' } }));
+
+      expect(resolved.parts.receiver).toMatchObject({ finishId: null, finishLabel: NOT_SPECIFIED, source: 'none', material: null });
+      expect(resolved.meshMaterials.Receiver).toBeUndefined();
+      // The first configurable part has no finish, so the receiver/barrel fallback names the rifle
+      expect(resolved.mainFinishLabel).toBe('Black');
+    });
+
+    it('ignores color ids the manifest does not know', () => {
+      const resolved = resolveConfiguration(manifest, selection({ selectedColors: { receiver: 'retired-color' } }));
+
+      expect(resolved.parts.receiver.source).toBe('none');
+      expect(resolved.parts.receiver.finishLabel).toBe(NOT_SPECIFIED);
+    });
+  });
+
+  describe('patterns mode', () => {
+    it('applies the pattern to every unlocked part', () => {
+      const resolved = resolveConfiguration(manifest, selection({
+        finishMode: 'patterns',
+        selectedPattern: 'multicam',
+        selectedColors: { receiver: 'fde' },
+      }));
+
+      expect(resolved.parts.receiver).toMatchObject({ finishId: 'multicam', source: 'pattern', material: multicam });
+      expect(resolved.parts.barrel.source).toBe('pattern');
+      expect(resolved.meshMaterials.Barrel).toEqual(multicam);
+      expect(resolved.patternLabel).toBe('Multicam');
+      expect(resolved.mainFinishId).toBe('multicam');
+      expect(resolved.hasCustomPartColors).toBe(false);
+    });
+
+    it('puts color overrides on top of the pattern', () => {
+      const resolved = resolveConfiguration(manifest, selection({
+        finishMode: 'patterns',
+        selectedPattern: 'multicam',
+        partColorOverrides: { barrel: 'fde' },
+      }));
+
+      expect(resolved.parts.barrel).toMatchObject({ finishId: 'fde', source: 'override', material: fde });
+      expect(resolved.parts.receiver.source).toBe('pattern');
+      expect(resolved.hasCustomPartColors).toBe(true);
+      expect(resolved.mainFinishLabel).toBe('Multicam');
+    });
+
+    it('falls back to the colors-mode colors without a pattern', () => {
+      const resolved = resolveConfiguration(manifest, selection({
+        finishMode: 'patterns',
+        selectedColors: { receiver: 'black', barrel: 'black' },
+        partColorOverrides: { barrel: 'fde' },
+      }));
+
+      expect(resolved.parts.receiver).toMatchObject({ finishId: 'black', source: 'override' });
+      expect(resolved.parts.barrel).toMatchObject({ finishId: 'fde', source: 'override' });
+      expect(resolved.patternLabel).toBeNull();
+      expect(resolved.mainFinishLabel).toBe('Black');
+    });
+
+    it('leaves parts unspecified with neither a pattern nor colors', () => {
+      const resolved = resolveConfiguration(manifest, selection({ finishMode: 'patterns' }));
+
+      expect(resolved.parts.receiver.source).toBe('none');
+      expect(resolved.parts.barrel.source).toBe('none');
+      expect(resolved.mainFinishId).toBeNull();
+      expect(resolved.mainFinishLabel).toBe('');
+    });
+  });
+
+  describe('locked parts', () => {
+    it.each(['colors', 'patterns'] as const)('keeps locked materials in %s mode', finishMode => {
+      const resolved = resolveConfiguration(manifest, selection({
+        finishMode,
+        selectedPattern: 'multicam',
+        selectedColors: { receiver: 'fde', trigger: 'fde' },
+        partColorOverrides: { receiver: 'fde', trigger: 'fde' },
+      }));
+
+      // A part covered by a locked group is reported as locked
+      expect(resolved.parts.trigger).toMatchObject({ finishId: 'trigger-group', finishLabel: 'Trigger Group', source: 'locked', material: locked });
+      expect(resolved.meshMaterials.Trigger).toEqual(locked);
+
+      // Locked meshes inside a configurable part are left to their group's selector, the rest of the part is finished
+      expect(resolved.meshMaterials.Receiver_Screw).toBeUndefined();
+      expect(resolved.meshMaterials['*_Screw']).toEqual(locked);
+      expect(resolved.meshMaterials.Receiver).toEqual(fde);
+    });
+  });
+
+  describe('other slots', () => {
+    it('labels the selected caliber, suppressor and trigger', () => {
+      const resolved = resolveConfiguration(manifest, selection({
+        selectedCaliber: '408',
+        selectedSuppressor: 'suppressor',
+        selectedTrigger: 'timney',
+      }));
+
+      expect(resolved.caliberLabel).toBe('.408 CheyTac');
+      expect(resolved.suppressorLabel).toBe('Suppressor');
+      expect(resolved.triggerLabel).toBe('Timney');
+    });
+
+    it('labels empty and unknown slots as null', () => {
+      const resolved = resolveConfiguration(manifest, selection({ selectedCaliber: 'retired-caliber' }));
+
+      expect(resolved.caliberLabel).toBeNull();
+      expect(resolved.suppressorLabel).toBeNull();
+      expect(resolved.triggerLabel).toBeNull();
+    });
+  });
+
+  it('is pure', () => {
+    const input = selection({ finishMode: 'patterns', selectedPattern: 'multicam', partColorOverrides: { barrel: 'fde' } });
+    const snapshot = JSON.parse(JSON.stringify(input));
+
+    expect(resolveConfiguration(manifest, input)).toEqual(resolveConfiguration(manifest, input));
+    expect(input).toEqual(snapshot);
+  });
+});
+
+describe('getConfigurationLabels', () => {
+  it('summarizes the resolved configuration without materials', () => {
+    const labels = getConfigurationLabels(resolveConfiguration(manifest, selection({
+      finishMode: 'patterns',
+      selectedPattern: 'multicam',
+      selectedCaliber: '408',
+    })));
+
+    expect(labels).toEqual({
+      mainFinish: 'Multicam',
+      pattern: 'Multicam',
+      caliber: '.408 CheyTac',
+      suppressor: null,
+      trigger: null,
+      parts: [
+        { partId: 'receiver', label: 'Receiver', finish: 'Multicam' },
+        { partId: 'barrel', label: 'Barrel', finish: 'Multicam' },
+        { partId: 'trigger', label: 'Trigger', finish: 'Trigger Group' },
+      ],
+    });
+  });
+});
+
+describe('getModelFile', () => {
+  it('uses the model of the selected suppressor', () => {
+    expect(getModelFile(manifest, 'suppressor')).toBe('suppressor.glb');
+  });
+
+  it('falls back to the first suppressor for empty or unknown selections', () => {
+    expect(getModelFile(manifest, null)).toBe('brake.glb');
+    expect(getModelFile(manifest, 'retired')).toBe('brake.glb');
+  });
+});
@@ -0,0 +1,221 @@
+// src/utils/resolveConfiguration.ts
+import type { FinishOption, NewMaterial, ProductManifest } from './manifestValidator';
+import type { ConfigSelection } from './selection';
+import { findLockedMaterialGroup, getLockedSelectors } from './lockedMaterials';
+
+/**
+ * Where a part's finish comes from:
+ * - pattern:  the rifle-wide pattern
+ * - override: a per-part color on top of a pattern (or patterns mode without one)
+ * - color:    the individual color in colors mode
+ * - locked:   a manifest locked-material group
+ * - none:     nothing selected for the part
+ */
+export type FinishSource = 'pattern' | 'override' | 'color' | 'locked' | 'none';
+
+export interface ResolvedPart {
+  partId: string;
+  label: string;
+  finishId: string | null;
+  finishLabel: string;
+  source: FinishSource;
+  material: NewMaterial | null;
+}
+
+export interface ResolvedConfiguration {
+  parts: Record<string, ResolvedPart>;
+  meshMaterials: Record<string, NewMaterial>; // mesh selector -> material
+  patternLabel: string | null;
+  caliberLabel: string | null;
+  suppressorLabel: string | null;
+  triggerLabel: string | null;
+  mainFinishId: string | null; // color or pattern id behind mainFinishLabel
+  mainFinishLabel: string;
+  hasCustomPartColors: boolean;
+}
+
+export const NOT_SPECIFIED = 'Not specified';
+
+/**
+ * Resolves which finish every configurable part ends up with, and which
+ * material every mesh selector gets. Pure: depends only on its arguments.
+ *
+ * Precedence per part:
+ * 1. a locked-material group covering the whole part
+ * 2. patterns mode: the part's color override, then the pattern; without a
+ *    pattern the override falls back to the part's colors-mode color
+ * 3. colors mode: the part's individual color
+ */
+export function resolveConfiguration(manifest: ProductManifest, selection: ConfigSelection): ResolvedConfiguration {
+  const { finishMode, selectedPattern, selectedColors, partColorOverrides } = selection;
+  const colorOptions = manifest.finishModes?.colors.options || [];
+  const patternOption = selectedPattern
+    ? manifest.finishModes?.patterns.options.find(option => option.id === selectedPattern)
+    : undefined;
+
+  const parts: Record<string, ResolvedPart> = {};
+  const meshMaterials: Record<string, NewMaterial> = {};
+
+  (manifest.configurableParts || []).forEach(partId => {
+    const part = manifest.parts.find(p => p.id === partId);
+    const resolved: ResolvedPart = {
+      partId,
+      label: part?.label || partId,
+      finishId: null,
+      finishLabel: NOT_SPECIFIED,
+      source: 'none',
+      material: null,
+    };
+
+    const lockedGroup = manifest.lockedMaterials?.find(group => group.partIds?.includes(partId));
+
+    if (lockedGroup) {
+      Object.assign(resolved, {
+        finishId: lockedGroup.id,
+        finishLabel: lockedGroup.label || lockedGroup.id,
+        source: 'locked',
+        material: lockedGroup.material,
+      });
+    } else {
+      let colorId: string | undefined;
+      let source: FinishSource = 'none';
+
+      if (finishMode === 'patterns' && partColorOverrides[partId]) {
+        colorId = partColorOverrides[partId];
+        source = 'override';
+      } else if (finishMode === 'patterns' && patternOption) {
+        Object.assign(resolved, {
+          finishId: patternOption.id,
+          finishLabel: patternOption.label,
+          source: 'pattern',
+          material: patternOption.material,
+        });
+      } else if (finishMode === 'patterns' && !selectedPattern && selectedColors[partId]) {
+        colorId = selectedColors[partId];
+        source = 'override';
+      } else if (finishMode === 'colors' && selectedColors[partId]) {
+        colorId = selectedColors[partId];
+        source = 'color';
+      }
+
+      const colorOption = colorId ? colorOptions.find(option => option.id === colorId) : undefined;
+      if (colorOption) {
+        Object.assign(resolved, {
+          finishId: colorOption.id,
+          finishLabel: colorOption.label,
+          source,
+          material: colorOption.material,
+        });
+      }
+    }
+
+    parts[partId] = resolved;
+
+    if (resolved.material && resolved.source !== 'locked') {
+      part?.meshSelectors.forEach(selector => {
+        if (!findLockedMaterialGroup(manifest, selector)) {
+          meshMaterials[selector] = resolved.material!;
+        }
+      });
+    }
+  });
+
+  // Locked materials always win
+  manifest.lockedMaterials?.forEach(group => {
+    getLockedSelectors(manifest, group).forEach(selector => {
+      meshMaterials[selector] = group.material;
+    });
+  });
+
+  const hasCustomPartColors = finishMode === 'colors'
+    ? new Set((manifest.configurableParts || []).map(partId => selectedColors[partId]).filter(Boolean)).size > 1
+    : Object.keys(partColorOverrides).length > 0;
+
+  const mainFinish = getMainFinish(manifest, finishMode, patternOption, parts);
+
+  return {
+    parts,
+    meshMaterials,
+    patternLabel: finishMode === 'patterns' && patternOption ? patternOption.label : null,
+    caliberLabel: manifest.calibers?.find(c => c.id === selection.selectedCaliber)?.label ?? null,
+    suppressorLabel: manifest.suppressors?.find(s => s.id === selection.selectedSuppressor)?.label ?? null,
+    triggerLabel: manifest.triggers?.find(t => t.id === selection.selectedTrigger)?.label ?? null,
+    mainFinishId: mainFinish.id,
+    mainFinishLabel: mainFinish.label,
+    hasCustomPartColors,
+  };
+}
+
+/**
+ * The single finish name that best describes the whole rifle: the pattern,
+ * else the first configurable part, else the receiver or barrel
+ */
+function getMainFinish(
+  manifest: ProductManifest,
+  finishMode: ConfigSelection['finishMode'],
+  patternOption: FinishOption | undefined,
+  parts: Record<string, ResolvedPart>
+): { id: string | null; label: string } {
+  if (finishMode === 'patterns' && patternOption) {
+    return { id: patternOption.id, label: patternOption.label };
+  }
+
+  const candidates = finishMode === 'colors'
+    ? [(manifest.configurableParts || [])[0], 'receiver', 'barrel']
+    : ['receiver', 'barrel'];
+
+  for (const partId of candidates) {
+    const part = partId ? parts[partId] : undefined;
+    if (part && part.finishLabel !== NOT_SPECIFIED) {
+      return { id: part.finishId, label: part.finishLabel };
+    }
+  }
+  return { id: null, label: '' };
+}
+
+/**
+ * The GLB to show for a suppressor choice (each suppressor setup is its own model)
+ */
+export function getModelFile(manifest: ProductManifest, suppressorId: string | null): string {
+  if (!manifest.suppressors) {
+    return 'product.glb'; // fallback
+  }
+
+  const suppressor = manifest.suppressors.find(s => s.id === suppressorId);
+  return suppressor?.modelFile || manifest.suppressors[0]?.modelFile || 'product.glb';
+}
+
+/**
+ * Finish label for a part, 'Not specified' for parts that are not configurable
+ */
+export function getPartFinishLabel(resolved: ResolvedConfiguration, partId: string): string {
+  return resolved.parts[partId]?.finishLabel ?? NOT_SPECIFIED;
+}
+
+export interface ConfigurationLabels {
+  mainFinish: string;
+  pattern: string | null;
+  caliber: string | null;
+  suppressor: string | null;
+  trigger: string | null;
+  parts: Array<{ partId: string; label: string; finish: string }>;
+}
+
+/**
+ * Serializable, human-readable summary of a resolved configuration
+ * (materials left out), for payloads and NFT metadata
+ */
+export function getConfigurationLabels(resolved: ResolvedConfiguration): ConfigurationLabels {
+  return {
+    mainFinish: resolved.mainFinishLabel,
+    pattern: resolved.patternLabel,
+    caliber: resolved.caliberLabel,
+    suppressor: resolved.suppressorLabel,
+    trigger: resolved.triggerLabel,
+    parts: Object.values(resolved.parts).map(part => ({
+      partId: part.partId,
+      label: part.label,
+      finish: part.finishLabel,
+    })),
+  };
+}
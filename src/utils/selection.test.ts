@@ -0,0 +1,50 @@
+// src/utils/selection.test.ts
+import { describe, expect, it } from 'vitest';
+import { validateManifest } from './manifestValidator';
+import { getDefaultSelection, restoreSelection } from './selection';
+
+const black = { type: 'color', color: '#1C1C1C' } as const;
+
+const manifest = validateManifest({
+  productName: 'Test Rifle',
+  sku: 'TEST-1',
+  defaultCamera: { position: { x: 0, y: 0, z: 5 }, target: { x: 0, y: 0, z: 0 }, fov: 50 },
+  hotspots: [],
+  ui: [],
+  parts: [{ id: 'receiver', label: 'Receiver', meshSelectors: ['Receiver'] }],
+  configurableParts: ['receiver'],
+  finishModes: {
+    colors: { label: 'Colors', description: 'Per part', allowIndividualSelection: true, options: [{ id: 'black', label: 'Black', material: black }] },
+    patterns: { label: 'Patterns', description: 'Whole rifle', allowIndividualSelection: false, options: [{ id: 'multicam', label: 'Multicam', material: black }] },
+  },
+  calibers: [{ id: '408', label: '.408 CheyTac' }],
+  suppressors: [{ id: 'brake', label: 'Muzzle Brake', modelFile: 'brake.glb' }],
+  triggers: [{ id: 'timney', label: 'Timney' }],
+  defaults: { pattern: 'multicam' },
+});
+
+describe('restoreSelection', () => {
+  it('keeps slots that were deliberately left empty', () => {
+    const restored = restoreSelection(manifest, {
+      selectedPattern: null,
+      selectedCaliber: null,
+      selectedSuppressor: null,
+      selectedTrigger: null,
+    });
+
+    expect(restored.selectedPattern).toBeNull();
+    expect(restored.selectedCaliber).toBeNull();
+    expect(restored.selectedSuppressor).toBeNull();
+    expect(restored.selectedTrigger).toBeNull();
+  });
+
+  it('uses the defaults for missing and unknown ids', () => {
+    const defaults = getDefaultSelection(manifest);
+    const restored = restoreSelection(manifest, { selectedCaliber: 'retired-caliber' });
+
+    expect(restored.selectedPattern).toBe(defaults.selectedPattern);
+    expect(restored.selectedCaliber).toBe('408');
+    expect(restored.selectedSuppressor).toBe('brake');
+    expect(restored.selectedTrigger).toBe('timney');
+  });
+});
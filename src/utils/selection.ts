@@ -0,0 +1,104 @@
+// src/utils/selection.ts
+import type { FinishMode } from '../state/useConfigStore';
+import type { ProductManifest } from './manifestValidator';
+
+/**
+ * The customer-facing part of the configurator state: everything that
+ * describes *what* was built, and nothing about how the UI is showing it.
+ */
+export interface ConfigSelection {
+  finishMode: FinishMode;
+  selectedPattern: string | null;
+  selectedColors: Record<string, string>;
+  partColorOverrides: Record<string, string>;
+  selectedCaliber: string | null;
+  selectedSuppressor: string | null;
+  selectedTrigger: string | null;
+  selectedOptions: Record<string, string>;
+}
+
+/**
+ * Picks the selection fields out of a larger object (usually the store state)
+ */
+export function pickSelection(source: ConfigSelection): ConfigSelection {
+  return {
+    finishMode: source.finishMode,
+    selectedPattern: source.selectedPattern,
+    selectedColors: source.selectedColors,
+    partColorOverrides: source.partColorOverrides,
+    selectedCaliber: source.selectedCaliber,
+    selectedSuppressor: source.selectedSuppressor,
+    selectedTrigger: source.selectedTrigger,
+    selectedOptions: source.selectedOptions,
+  };
+}
+
+/**
+ * The starting selection for a product: the manifest's `defaults`, with the
+ * first available option for anything they leave out
+ */
+export function getDefaultSelection(manifest: ProductManifest): ConfigSelection {
+  const defaults = manifest.defaults || {};
+  const defaultColor = defaults.color ?? manifest.finishModes?.colors.options[0]?.id;
+
+  const selectedColors: Record<string, string> = {};
+  if (defaultColor) {
+    (manifest.configurableParts || []).forEach(partId => {
+      selectedColors[partId] = defaultColor;
+    });
+  }
+
+  const selectedOptions: Record<string, string> = {};
+  manifest.parts.forEach(part => {
+    if (part.options && part.options.length > 0) {
+      selectedOptions[part.id] = defaults.options?.[part.id] ?? part.options[0].id;
+    }
+  });
+
+  return {
+    finishMode: defaults.finishMode ?? 'colors',
+    selectedPattern: defaults.pattern ?? null,
+    selectedColors: { ...selectedColors, ...defaults.colors },
+    partColorOverrides: {},
+    selectedCaliber: defaults.caliber ?? manifest.calibers?.[0]?.id ?? null,
+    selectedSuppressor: defaults.suppressor ?? manifest.suppressors?.[0]?.id ?? null,
+    selectedTrigger: defaults.trigger ?? manifest.triggers?.[0]?.id ?? null,
+    selectedOptions,
+  };
+}
+
+/**
+ * Rebuilds a selection saved earlier (possibly against an older manifest),
+ * keeping only ids the manifest still knows and using defaults for the rest
+ */
+export function restoreSelection(manifest: ProductManifest, saved: Partial<ConfigSelection>): ConfigSelection {
+  const defaults = getDefaultSelection(manifest);
+  const colorIds = new Set(manifest.finishModes?.colors.options.map(o => o.id));
+  const patternIds = new Set(manifest.finishModes?.patterns.options.map(o => o.id));
+  const configurableParts = new Set(manifest.configurableParts);
+
+  // An explicit null (no pattern, no muzzle device, ...) is a choice, not a missing value
+  const keepId = (id: string | null | undefined, ids: Set<string | undefined>, fallback: string | null) =>
+    id === null ? null : id && ids.has(id) ? id : fallback;
+
+  const keepColors = (colors: Record<string, string> | undefined) => Object.fromEntries(
+    Object.entries(colors || {}).filter(([partId, colorId]) => configurableParts.has(partId) && colorIds.has(colorId))
+  );
+
+  const keepOptions = (options: Record<string, string> | undefined) => Object.fromEntries(
+    Object.entries(options || {}).filter(([partId, optionId]) =>
+      manifest.parts.find(part => part.id === partId)?.options?.some(o => o.id === optionId)
+    )
+  );
+
+  return {
+    finishMode: saved.finishMode === 'colors' || saved.finishMode === 'patterns' ? saved.finishMode : defaults.finishMode,
+    selectedPattern: keepId(saved.selectedPattern, patternIds, defaults.selectedPattern),
+    selectedColors: { ...defaults.selectedColors, ...keepColors(saved.selectedColors) },
+    partColorOverrides: keepColors(saved.partColorOverrides),
+    selectedCaliber: keepId(saved.selectedCaliber, new Set(manifest.calibers?.map(c => c.id)), defaults.selectedCaliber),
+    selectedSuppressor: keepId(saved.selectedSuppressor, new Set(manifest.suppressors?.map(s => s.id)), defaults.selectedSuppressor),
+    selectedTrigger: keepId(saved.selectedTrigger, new Set(manifest.triggers?.map(t => t.id)), defaults.selectedTrigger),
+    selectedOptions: { ...defaults.selectedOptions, ...keepOptions(saved.selectedOptions) },
+  };
+}
@@ -0,0 +1,188 @@
+// src/utils/turntable.ts
+import * as THREE from 'three';
+import { OffscreenRenderer, RenderBackground } from './offscreenRenderer';
+import { GifEncoder } from './gif';
+import { ApngEncoder } from './apng';
+import { Branding, DEFAULT_BRANDING, loadBrandingLogo, drawBranding } from './branding';
+
+/**
+ * 360° turntable exports of the configured rifle. WebM is recorded with
+ * MediaRecorder; GIF and APNG are encoded frame by frame and work in
+ * browsers that can't record video (or when a transparent background is wanted).
+ */
+
+export type TurntableFormat = 'webm' | 'gif' | 'apng';
+
+export interface TurntableOptions {
+  format: TurntableFormat;
+  duration: number; // seconds for one full turn
+  fps: number;
+  width: number;
+  height: number;
+  background: RenderBackground;
+  branding: Branding;
+}
+
+export const DEFAULT_TURNTABLE_OPTIONS: TurntableOptions = {
+  format: 'webm',
+  duration: 6,
+  fps: 30,
+  width: 1280,
+  height: 720,
+  background: 'studio',
+  branding: DEFAULT_BRANDING,
+};
+
+export const TURNTABLE_EXTENSIONS: Record<TurntableFormat, string> = {
+  webm: 'webm',
+  gif: 'gif',
+  apng: 'png',
+};
+
+/**
+ * The WebM flavour this browser can record, or null if it can't record
+ * canvases at all (older Safari)
+ */
+export function getWebmMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined' || !HTMLCanvasElement.prototype.captureStream) return null;
+  return ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+    .find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+export function getTurntableFormats(): TurntableFormat[] {
+  return getWebmMimeType() ? ['webm', 'gif', 'apng'] : ['gif', 'apng'];
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Frame sink for each format: takes the composited frame canvas and
+ * produces the file once every frame is in
+ */
+interface FrameWriter {
+  addFrame(canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D): Promise<void>;
+  finish(): Promise<Blob>;
+}
+
+/**
+ * MediaRecorder runs in real time, so it is paused while each frame renders
+ * and resumed for exactly one frame interval: the video plays at the requested
+ * frame rate however long the renders took.
+ */
+function createWebmWriter(canvas: HTMLCanvasElement, options: TurntableOptions): FrameWriter {
+  const mimeType = getWebmMimeType();
+  if (!mimeType) throw new Error('This browser cannot record WebM video, choose GIF or APNG instead');
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: Math.round(options.width * options.height * options.fps * 0.2),
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start();
+  recorder.pause();
+
+  return {
+    async addFrame() {
+      recorder.resume();
+      track.requestFrame();
+      await sleep(1000 / options.fps);
+      recorder.pause();
+    },
+    finish() {
+      return new Promise((resolve, reject) => {
+        recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+        recorder.onerror = () => reject(new Error('Video recording failed'));
+        recorder.stop();
+        stream.getTracks().forEach(t => t.stop());
+      });
+    },
+  };
+}
+
+function createGifWriter(options: TurntableOptions): FrameWriter {
+  const encoder = new GifEncoder(options.width, options.height, { transparent: options.background === 'transparent' });
+  // GIF delays are in 1/100 s; carrying the remainder keeps the total duration right
+  let elapsed = 0;
+  let written = 0;
+
+  return {
+    async addFrame(canvas, ctx) {
+      elapsed += 1000 / options.fps;
+      const delay = Math.round(elapsed / 10) * 10 - written;
+      written += delay;
+      encoder.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data, delay);
+    },
+    async finish() {
+      return encoder.finish();
+    },
+  };
+}
+
+function createApngWriter(options: TurntableOptions, frameCount: number): FrameWriter {
+  const encoder = new ApngEncoder(options.width, options.height, frameCount, { fps: options.fps });
+  return {
+    async addFrame(canvas, ctx) {
+      await encoder.addFrame(ctx.getImageData(0, 0, canvas.width, canvas.height).data);
+    },
+    async finish() {
+      return encoder.finish();
+    },
+  };
+}
+
+/**
+ * Renders one full turn of `model` and encodes it in the chosen format.
+ * `onProgress` is called after each frame.
+ */
+export async function recordTurntable(
+  model: THREE.Object3D,
+  overrides: Partial<TurntableOptions> = {},
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const options = { ...DEFAULT_TURNTABLE_OPTIONS, ...overrides };
+  const frameCount = Math.max(2, Math.round(options.duration * options.fps));
+  if (options.format === 'webm' && options.background === 'transparent') {
+    throw new Error('WebM video has no transparency, choose a background or export APNG');
+  }
+
+  const logo = await loadBrandingLogo(options.branding);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = options.width;
+  canvas.height = options.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: options.format !== 'webm' });
+  if (!ctx) throw new Error('Canvas 2D is not available');
+
+  const writer = options.format === 'webm'
+    ? createWebmWriter(canvas, options)
+    : options.format === 'gif'
+      ? createGifWriter(options)
+      : createApngWriter(options, frameCount);
+
+  console.log(`Recording ${frameCount}-frame ${options.format} turntable at ${options.width}x${options.height}`);
+  const renderer = new OffscreenRenderer();
+  try {
+    await renderer.renderTurntable(model, frameCount, async (frame, index) => {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(frame, 0, 0);
+      drawBranding(ctx, options.branding, logo);
+      await writer.addFrame(canvas, ctx);
+      onProgress?.(index + 1, frameCount);
+    }, {
+      width: options.width,
+      height: options.height,
+      background: options.background,
+    });
+  } finally {
+    renderer.dispose();
+  }
+
+  const blob = await writer.finish();
+  console.log(`Turntable ready: ${(blob.size / 1048576).toFixed(1)} MB`);
+  return blob;
+}
@@ -0,0 +1,68 @@
+// src/utils/walletDiscovery.ts
+import type { Eip1193Provider } from '../services/web3Service';
+
+/**
+ * EIP-6963 multi-wallet discovery: every installed wallet announces itself
+ * with a window event instead of racing for window.ethereum.
+ */
+
+export interface WalletInfo {
+  uuid: string;
+  name: string;
+  icon: string; // data URI
+  rdns: string; // reverse-DNS id, stable across page loads (io.metamask, com.coinbase.wallet, ...)
+}
+
+export interface DiscoveredWallet {
+  info: WalletInfo;
+  provider: Eip1193Provider;
+}
+
+interface AnnounceProviderEvent extends Event {
+  detail: DiscoveredWallet;
+}
+
+// Stand-in for wallets that only inject window.ethereum
+export const LEGACY_WALLET_RDNS = 'injected';
+
+const LEGACY_WAIT_MS = 500;
+
+function legacyWallet(): DiscoveredWallet | null {
+  const provider = (window as Window & { ethereum?: Eip1193Provider }).ethereum;
+  if (!provider) return null;
+  return {
+    info: { uuid: LEGACY_WALLET_RDNS, name: 'Browser Wallet', icon: '', rdns: LEGACY_WALLET_RDNS },
+    provider,
+  };
+}
+
+/**
+ * Calls onWallet for each wallet that announces itself, now or later. If
+ * none has announced shortly after, an injected window.ethereum is reported
+ * as a legacy wallet. Returns a function that stops listening.
+ */
+export function discoverWallets(onWallet: (wallet: DiscoveredWallet) => void): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const seen = new Set<string>();
+  const handleAnnounce = (event: Event) => {
+    const { detail } = event as AnnounceProviderEvent;
+    if (!detail?.info?.uuid || !detail.provider || seen.has(detail.info.uuid)) return;
+    seen.add(detail.info.uuid);
+    console.log('Wallet discovered:', detail.info.name, detail.info.rdns);
+    onWallet(detail);
+  };
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+
+  const legacyTimer = window.setTimeout(() => {
+    const legacy = seen.size === 0 ? legacyWallet() : null;
+    if (legacy) onWallet(legacy);
+  }, LEGACY_WAIT_MS);
+
+  return () => {
+    window.removeEventListener('eip6963:announceProvider', handleAnnounce);
+    window.clearTimeout(legacyTimer);
+  };
+}
@@ -0,0 +1,91 @@
+// src/utils/zip.test.ts
+import { describe, expect, it } from 'vitest';
+import { createZip, crc32, ZIP_MAX_ENTRIES } from './zip';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+interface ParsedEntry {
+  name: string;
+  crc: number;
+  data: Uint8Array;
+}
+
+// Reads an archive back the way an unzip tool does: end record, central directory, local headers
+function readZip(bytes: Uint8Array): ParsedEntry[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  const centralSize = view.getUint32(end + 12, true);
+  const centralOffset = view.getUint32(end + 16, true);
+  expect(centralOffset + centralSize).toBe(end);
+
+  const entries: ParsedEntry[] = [];
+  let at = centralOffset;
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(at, true)).toBe(0x02014b50);
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 20, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const localOffset = view.getUint32(at + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(at + 46, at + 46 + nameLength));
+
+    expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+    expect(view.getUint16(localOffset + 8, true)).toBe(0); // stored
+    expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+    expect(view.getUint32(localOffset + 22, true)).toBe(size);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true);
+    entries.push({ name, crc, data: bytes.subarray(dataStart, dataStart + size) });
+    at += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('crc32', () => {
+  it('matches the standard check values', () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+    expect(crc32(text('123456789'))).toBe(0xcbf43926);
+    expect(crc32(text('The quick brown fox jumps over the lazy dog'))).toBe(0x414fa339);
+  });
+});
+
+describe('createZip', () => {
+  it('writes entries an unzip tool can read back', async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]);
+    const zip = await createZip([
+      { name: 'M200/manifest.csv', data: 'view,file\nmain,main.png\n' },
+      { name: 'M200/brake/main.png', data: new Blob([png]) },
+      { name: 'M200/ünïcode.txt', data: png },
+    ]);
+    const entries = readZip(new Uint8Array(await zip.arrayBuffer()));
+
+    expect(zip.type).toBe('application/zip');
+    expect(entries.map(entry => entry.name)).toEqual(['M200/manifest.csv', 'M200/brake/main.png', 'M200/ünïcode.txt']);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('view,file\nmain,main.png\n');
+    expect(entries[1].data).toEqual(png);
+    for (const entry of entries) expect(entry.crc).toBe(crc32(entry.data));
+  });
+
+  it('lays out headers at fixed offsets', async () => {
+    const zip = new Uint8Array(await (await createZip([{ name: 'a.txt', data: 'hi' }], new Date(2024, 4, 17, 13, 45, 30))).arrayBuffer());
+
+    // 30-byte local header + name + data, 46-byte central header + name, 22-byte end record
+    expect(zip.length).toBe(30 + 5 + 2 + 46 + 5 + 22);
+    const view = new DataView(zip.buffer);
+    expect(view.getUint16(6, true)).toBe(0x0800);                                  // UTF-8 names
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);            // DOS time
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17);   // DOS date
+    expect(view.getUint32(14, true)).toBe(crc32(text('hi')));
+  });
+
+  it('writes an empty archive', async () => {
+    const zip = await createZip([]);
+    expect(zip.size).toBe(22);
+    expect(readZip(new Uint8Array(await zip.arrayBuffer()))).toEqual([]);
+  });
+
+  it('refuses more entries than the format can count', async () => {
+    const entries = Array.from({ length: ZIP_MAX_ENTRIES + 1 }, (_, i) => ({ name: `${i}`, data: '' }));
+    await expect(createZip(entries)).rejects.toThrow(/at most 65535 files/);
+  });
+});
@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_ORDER_ENDPOINT?: string;
+  readonly VITE_CAPTCHA_PROVIDER?: 'recaptcha' | 'hcaptcha' | 'turnstile' | 'none';
+  readonly VITE_CAPTCHA_SITE_KEY?: string;
+  readonly VITE_CAPTCHA_CHALLENGE_SITE_KEY?: string;
+  readonly VITE_ORDER_REDIRECT?: 'server' | 'none';
+}